@@ -0,0 +1,255 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// The parts of LobbyingAnalysisFHE the alerts read back
+interface ILobbyingDonations {
+    function owner() external view returns (address);
+    function analysts(address account) external view returns (bool);
+    function donationCount() external view returns (uint256);
+    function encryptedDonations(uint256 donationId) external view returns (
+        uint256 id,
+        euint64 encryptedAmount,
+        euint32 encryptedEntity,
+        euint32 encryptedDonor,
+        uint256 timestamp
+    );
+}
+
+// Threshold alerts over the donations of a LobbyingAnalysisFHE contract, which deploys this one and allows
+// it every donation's handles. Kept apart so the donation contract stays within the code size limit.
+contract LobbyingAlertsFHE is SepoliaConfig {
+    // Whether a watched total is over its alert threshold. Only this bit is ever decrypted, not the total.
+    struct ThresholdAlert {
+        uint64 threshold;            // Cents the total was last compared with
+        bool exceeded;
+        uint256 checkedAt;           // Block time of the last answered check, 0 if never checked
+        // Block time of the first answered check that found the total over this threshold, 0 if none yet. The
+        // total crossed it somewhere between the previous check and this one; no check tells exactly when.
+        uint256 flaggedAt;
+    }
+    
+    // Encrypted total of one donor or recipient over every recorded donation, revealed or not. Donations
+    // are pulled in by updateAlertTotal, so recording them costs nothing extra. It is never allowed to
+    // anyone: only whether it is over its alert threshold is decrypted.
+    struct AlertWatch {
+        uint32 subjectId;
+        bool isDonor;
+        euint64 total;               // Cents, saturating at type(uint64).max instead of wrapping
+        uint256 countedThrough;      // Last donation added to the total
+    }
+    
+    struct AlertRequest {
+        uint32 subjectId;
+        bool isDonor;
+        uint64 threshold;
+    }
+    
+    uint256 private constant MAX_ALERT_WATCHES = 4;
+    // Every answered check gives away one bit of a watched total; moving the thresholds around between checks
+    // would binary-search it, so they can only change this often
+    uint256 public constant ALERT_THRESHOLD_INTERVAL = 30 days;
+    
+    ILobbyingDonations public immutable lobbying;
+    
+    // Legal limits in cents that watched totals are checked against; 0 disables checks
+    uint64 public donorAlertThreshold;
+    uint64 public entityAlertThreshold;
+    uint256 public thresholdsUpdatedAt;
+    mapping(uint32 => ThresholdAlert) private donorAlerts;
+    mapping(uint32 => ThresholdAlert) private entityAlerts;
+    // A slot whose subjectId is 0 is free
+    AlertWatch[MAX_ALERT_WATCHES] private alertWatches;
+    
+    mapping(uint256 => AlertRequest) private requestToAlert;
+    
+    event AlertThresholdsUpdated(uint64 donorThreshold, uint64 entityThreshold);
+    event AlertWatchUpdated(uint32 indexed subjectId, bool indexed isDonor, bool watched);
+    event AlertTotalUpdated(uint32 indexed subjectId, bool indexed isDonor, uint256 countedThrough, uint256 donationCount);
+    event ThresholdAlertChecked(uint32 indexed subjectId, bool indexed isDonor, uint64 threshold, bool exceeded);
+    
+    modifier onlyAuthorized() {
+        // Add proper authorization logic in production
+        _;
+    }
+    
+    modifier onlyOwner() {
+        require(msg.sender == lobbying.owner(), "Only owner");
+        _;
+    }
+    
+    modifier onlyAnalystOrOwner() {
+        require(lobbying.analysts(msg.sender) || msg.sender == lobbying.owner(), "Only analyst or owner");
+        _;
+    }
+    
+    constructor() {
+        lobbying = ILobbyingDonations(msg.sender);
+    }
+    
+    function setAlertThresholds(uint64 donorThreshold, uint64 entityThreshold) public onlyOwner {
+        require(
+            thresholdsUpdatedAt == 0 || block.timestamp >= thresholdsUpdatedAt + ALERT_THRESHOLD_INTERVAL,
+            "Thresholds changed too recently"
+        );
+        thresholdsUpdatedAt = block.timestamp;
+        donorAlertThreshold = donorThreshold;
+        entityAlertThreshold = entityThreshold;
+        emit AlertThresholdsUpdated(donorThreshold, entityThreshold);
+    }
+    
+    // Starts or stops keeping an alert total for a donor or recipient. A new watch starts from zero;
+    // updateAlertTotal adds the donations recorded so far.
+    function setAlertWatch(uint32 subjectId, bool isDonor, bool watched) public onlyOwner {
+        require(subjectId != 0, "Invalid subject");
+        uint256 slot = findAlertWatch(subjectId, isDonor);
+        if (watched && slot == MAX_ALERT_WATCHES) {
+            slot = findAlertWatch(0, false);
+            require(slot < MAX_ALERT_WATCHES, "Too many alert watches");
+            euint64 zero = FHE.asEuint64(0);
+            FHE.allowThis(zero);
+            alertWatches[slot] = AlertWatch({
+                subjectId: subjectId,
+                isDonor: isDonor,
+                total: zero,
+                countedThrough: 0
+            });
+        } else if (!watched && slot < MAX_ALERT_WATCHES) {
+            delete alertWatches[slot];
+            // The last check describes a total that no longer exists
+            mapping(uint32 => ThresholdAlert) storage subjectAlerts = isDonor ? donorAlerts : entityAlerts;
+            delete subjectAlerts[subjectId];
+        }
+    
+        emit AlertWatchUpdated(subjectId, isDonor, watched);
+    }
+    
+    // Adds up to maxDonations of the donations recorded since the last update to a watched alert total.
+    // Every donation is compared under encryption like in LobbyingAnalysisFHE.analyzeEncryptedConnection.
+    function updateAlertTotal(uint32 subjectId, bool isDonor, uint256 maxDonations) public onlyAuthorized {
+        AlertWatch storage watch = watchOf(subjectId, isDonor);
+        require(maxDonations > 0, "Nothing to update");
+    
+        uint256 donationCount = lobbying.donationCount();
+        uint256 last = watch.countedThrough + maxDonations;
+        if (last > donationCount) {
+            last = donationCount;
+        }
+        euint64 total = watch.total;
+        for (uint256 id = watch.countedThrough + 1; id <= last; id++) {
+            (, euint64 amount, euint32 entity, euint32 donor, ) = lobbying.encryptedDonations(id);
+            total = addSaturating(total, alertAmount(watch, amount, entity, donor));
+        }
+        FHE.allowThis(total);
+        watch.total = total;
+        watch.countedThrough = last;
+    
+        emit AlertTotalUpdated(subjectId, isDonor, last, donationCount);
+    }
+    
+    // Totals are handles the contract alone may use; free slots are returned with subjectId 0
+    function getAlertWatches() public view returns (AlertWatch[MAX_ALERT_WATCHES] memory) {
+        return alertWatches;
+    }
+    
+    // Compares a watched donor's alert total, once it counts every recorded donation, with the donor
+    // threshold under encryption and asks the oracle to decrypt only whether it is over
+    function requestDonorAlertCheck(uint32 donorId) public onlyAnalystOrOwner {
+        requestAlertCheck(donorId, true, donorAlertThreshold);
+    }
+    
+    function requestEntityAlertCheck(uint32 entityId) public onlyAnalystOrOwner {
+        requestAlertCheck(entityId, false, entityAlertThreshold);
+    }
+    
+    function decryptThresholdAlert(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        AlertRequest memory request = requestToAlert[requestId];
+        require(request.subjectId != 0, "Invalid request");
+    
+        FHE.checkSignatures(requestId, cleartexts, proof);
+    
+        // An answer about a threshold that has since been replaced says nothing about the current one, and
+        // one about a watch that has since been removed has no total left to describe
+        uint64 threshold = request.isDonor ? donorAlertThreshold : entityAlertThreshold;
+        if (request.threshold != threshold || findAlertWatch(request.subjectId, request.isDonor) == MAX_ALERT_WATCHES) {
+            return;
+        }
+    
+        bool exceeded = abi.decode(cleartexts, (bool));
+        ThresholdAlert storage alert = request.isDonor ? donorAlerts[request.subjectId] : entityAlerts[request.subjectId];
+        if (alert.threshold != threshold) {
+            alert.threshold = threshold;
+            alert.flaggedAt = 0;
+        }
+        // Totals only grow, so the first check over the threshold is when the crossing became known
+        if (exceeded && alert.flaggedAt == 0) {
+            alert.flaggedAt = block.timestamp;
+        }
+        alert.exceeded = exceeded;
+        alert.checkedAt = block.timestamp;
+    
+        emit ThresholdAlertChecked(request.subjectId, request.isDonor, threshold, exceeded);
+    }
+    
+    function getDonorAlert(uint32 donorId) public view returns (uint64 threshold, bool exceeded, uint256 checkedAt, uint256 flaggedAt) {
+        ThresholdAlert storage alert = donorAlerts[donorId];
+        return (alert.threshold, alert.exceeded, alert.checkedAt, alert.flaggedAt);
+    }
+    
+    function getEntityAlert(uint32 entityId) public view returns (uint64 threshold, bool exceeded, uint256 checkedAt, uint256 flaggedAt) {
+        ThresholdAlert storage alert = entityAlerts[entityId];
+        return (alert.threshold, alert.exceeded, alert.checkedAt, alert.flaggedAt);
+    }
+    
+    function requestAlertCheck(uint32 subjectId, bool isDonor, uint64 threshold) private {
+        require(threshold != 0, "No alert threshold");
+        AlertWatch storage watch = watchOf(subjectId, isDonor);
+        require(watch.countedThrough == lobbying.donationCount(), "Alert total not up to date");
+    
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(FHE.gt(watch.total, threshold));
+    
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptThresholdAlert.selector);
+        requestToAlert[reqId] = AlertRequest({ subjectId: subjectId, isDonor: isDonor, threshold: threshold });
+    }
+    
+    // The donation's amount if it is the watched subject's, zero otherwise, without revealing which
+    function alertAmount(
+        AlertWatch storage watch,
+        euint64 amount,
+        euint32 entity,
+        euint32 donor
+    ) private returns (euint64) {
+        ebool matches = FHE.eq(watch.isDonor ? donor : entity, watch.subjectId);
+        return FHE.select(matches, amount, FHE.asEuint64(0));
+    }
+    
+    function watchOf(uint32 subjectId, bool isDonor) private view returns (AlertWatch storage) {
+        uint256 slot = findAlertWatch(subjectId, isDonor);
+        require(slot < MAX_ALERT_WATCHES, "Not watched");
+        return alertWatches[slot];
+    }
+    
+    // Slot of the subject's watch, or of a free slot for subjectId 0; MAX_ALERT_WATCHES if there is none
+    function findAlertWatch(uint32 subjectId, bool isDonor) private view returns (uint256 slot) {
+        for (slot = 0; slot < MAX_ALERT_WATCHES; slot++) {
+            AlertWatch storage watch = alertWatches[slot];
+            if (watch.subjectId == subjectId && (subjectId == 0 || watch.isDonor == isDonor)) {
+                break;
+            }
+        }
+    }
+    
+    // FHE addition wraps on overflow; a wrapped sum is smaller than the previous total
+    function addSaturating(euint64 total, euint64 amount) private returns (euint64) {
+        euint64 sum = FHE.add(total, amount);
+        ebool overflowed = FHE.lt(sum, total);
+        return FHE.select(overflowed, FHE.asEuint64(type(uint64).max), sum);
+    }
+}
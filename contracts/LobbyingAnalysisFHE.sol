@@ -1,78 +1,317 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint16, euint32, euint64, euint128, euint256, externalEuint32, externalEuint64, externalEuint256, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { LobbyingAlertsFHE } from "./LobbyingAlertsFHE.sol";
 
 contract LobbyingAnalysisFHE is SepoliaConfig {
     struct EncryptedDonation {
         uint256 id;
-        euint32 encryptedAmount;      // Encrypted donation amount
+        euint64 encryptedAmount;      // Encrypted donation amount in cents
         euint32 encryptedEntity;     // Encrypted recipient entity ID
         euint32 encryptedDonor;      // Encrypted donor company ID
-        uint256 timestamp;
+        uint256 timestamp;           // Block time of recording, not of the donation
+    }
+    
+    // When the donation happened and was disclosed; public like the disclosures themselves, 0 where unknown
+    struct DonationDates {
+        uint64 activityDate;
+        uint16 reportingYear;
+        uint8 reportingQuarter;
+        uint64 filingDate;
     }
     
     struct DecryptedDonation {
-        uint32 amount;
-        string entity;
-        string donor;
+        uint64 amount;               // Cents
+        uint32 entityId;             // Recipient entity ID from the published dictionary
+        uint32 donorId;              // Donor company ID from the published dictionary
         bool isRevealed;
     }
 
-    struct EncryptedConnection {
-        euint32 entity1;
-        euint32 entity2;
-        euint32 weight;
+    // Encrypted sum of what one donor gave one recipient over donations 1..processedThrough. The pair is
+    // public because an analyst chose to look at it; whether any money flowed between them is not.
+    struct Connection {
+        uint32 donorId;
+        uint32 entityId;
+        euint64 weight;              // Cents, saturating like the running totals
+        uint256 processedThrough;
+    }
+    
+    // Herfindahl-Hirschman index of one market (a recipient, a category or a category at one recipient)
+    // in one reporting period. The market total and each candidate donor's share are summed under
+    // encryption and never allowed to anyone; only the index computed from them is decrypted.
+    struct Concentration {
+        uint32 entityId;             // 0 unless donations are filtered by recipient
+        string category;             // Taxonomy code; only donations recorded under it are counted
+        uint32 periodKey;
+        uint32[] donorIds;           // Candidate donors, ascending
+        euint64[] shares;            // Cents per candidate donor, saturating like the running totals
+        euint64 total;               // Cents from every donor, candidate or not
+        uint256 donationCount;       // Donations counted so far
+        // Index computation, advanced by computeConcentration and restarted by new donations until revealed
+        uint256 computeSteps;
+        euint128 squares;
+        euint128 divisor;
+        euint128 remainder;
+        euint16 index;
+        uint16 revealedIndex;        // 0-10000; 0 when the market has no money
+        uint256 revealedCount;       // donationCount when the revealed index was computed
+        bool isRevealed;
+    }
+    
+    struct ConcentrationRequest {
+        bytes32 market;
+        uint256 donationCount;
     }
 
+    uint16 private constant HHI_SCALE = 10000;
+    // Every candidate costs an encrypted comparison per donation; 16 keeps one donation per transaction
+    // within the coprocessor's HCU limit
+    uint256 private constant MAX_CONCENTRATION_DONORS = 16;
+    // With fewer candidates the index gives away how the money splits between them
+    uint256 private constant MIN_CONCENTRATION_DONORS = 3;
+    // A category and its ancestors in the taxonomy
+    uint256 private constant MAX_DONATION_CATEGORIES = 8;
+    // The quotient is at most HHI_SCALE < 2^14
+    uint8 private constant HHI_DIVISION_ROUNDS = 14;
+    
+    address public owner;
+    mapping(address => bool) public analysts;
+    // Accounts given the commitment salts; recording stays open to anyone
+    mapping(address => bool) public submitters;
+    
     uint256 public donationCount;
     mapping(uint256 => EncryptedDonation) public encryptedDonations;
     mapping(uint256 => DecryptedDonation) public decryptedDonations;
+    mapping(uint256 => DonationDates) public donationDates;
+    // keccak256 of each taxonomy code a donation is filed under, public like the category of its record
+    mapping(uint256 => mapping(bytes32 => bool)) private donationCategories;
+    
+    // Running totals in cents; saturate at type(uint64).max instead of wrapping
+    mapping(uint32 => euint64) private encryptedEntityTotals;
+    mapping(uint32 => euint64) private encryptedDonorTotals;
+    mapping(uint32 => uint64) public decryptedEntityTotals;
+    mapping(uint32 => uint64) public decryptedDonorTotals;
+    uint32[] private entityList;
+    uint32[] private donorList;
+    
+    // Keyed by donorId << 32 | entityId
+    mapping(uint64 => Connection) private connections;
+    uint64[] private connectionKeys;
+    // Analysts granted a connection keep access to its weight as later analyses replace the handle
+    mapping(uint64 => address[]) private connectionViewers;
+    
+    // Keyed by keccak256(abi.encode(entityId, category, year, quarter))
+    mapping(bytes32 => Concentration) private concentrations;
+    bytes32[] private concentrationMarkets;
+    mapping(bytes32 => mapping(uint256 => bool)) private concentrationCounted;
+    
+    // Threshold alerts over encrypted donor and recipient totals, which read donations back from here
+    LobbyingAlertsFHE public immutable alerts;
     
-    mapping(string => euint32) private encryptedEntityTotals;
-    mapping(string => euint32) private encryptedDonorTotals;
-    string[] private entityList;
-    string[] private donorList;
+    // AES key of each donation's confidential note; the note itself is stored off-chain
+    mapping(uint256 => euint256) private noteKeys;
+    // keccak256 of the stored note ciphertext, so a swapped blob is detected
+    mapping(uint256 => bytes32) public noteHashes;
     
-    EncryptedConnection[] private encryptedConnections;
+    // Random salt per reporting period (year * 10 + quarter) for record commitments. Only submitters
+    // are granted it: the other committed fields (dates, source reference, dictionary IDs) are public
+    // or guessable, so anyone holding the salt could brute-force the amount behind a commitment. ACL
+    // grants cannot be revoked, so a removed submitter keeps the salts it already holds.
+    mapping(uint32 => euint256) private periodSalts;
+    // Commitment over a donation's normalized fields -> donation ID, so a disclosure is recorded once
+    mapping(bytes32 => uint256) public commitmentDonations;
     
     mapping(uint256 => uint256) private requestToDonationId;
+    mapping(uint256 => uint32) private requestToEntityId;
+    mapping(uint256 => uint32) private requestToDonorId;
+    mapping(uint256 => ConcentrationRequest) private requestToConcentration;
     
     event DonationRecorded(uint256 indexed id, uint256 timestamp);
-    event DecryptionRequested(uint256 indexed id);
-    event DonationDecrypted(uint256 indexed id);
-    event ConnectionAnalyzed(uint256 indexed connectionId);
+    event DonationBatchRecorded(uint256 indexed firstId, uint256 lastId);
+    event DecryptionRequested(uint256 indexed id, uint256 indexed requestId);
+    event DonationDecrypted(uint256 indexed id, uint256 indexed requestId);
+    event ConnectionAnalyzed(uint32 indexed donorId, uint32 indexed entityId, uint256 processedThrough);
+    event ConnectionAccessGranted(uint32 indexed donorId, uint32 indexed entityId, address indexed analyst);
+    event ConcentrationOpened(bytes32 indexed market, uint32 indexed entityId, string category, uint16 year, uint8 quarter);
+    event ConcentrationUpdated(bytes32 indexed market, uint256 donationCount);
+    event ConcentrationComputed(bytes32 indexed market, uint256 stepsDone, uint256 stepsTotal);
+    event ConcentrationDecrypted(bytes32 indexed market, uint16 index, uint256 donationCount);
+    event AnalystUpdated(address indexed analyst, bool authorized);
+    event SubmitterUpdated(address indexed submitter, bool authorized);
+    event DonationAccessGranted(uint256 indexed id, address indexed analyst);
+    event EntityTotalDecrypted(uint32 indexed entityId, uint64 total);
+    event DonorTotalDecrypted(uint32 indexed donorId, uint64 total);
+    event NoteAttached(uint256 indexed id, bytes32 contentHash);
+    event PeriodSaltGranted(uint32 indexed periodKey, address indexed account);
     
     modifier onlyAuthorized() {
         // Add proper authorization logic in production
         _;
     }
     
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner");
+        _;
+    }
+    
+    modifier onlyAnalyst() {
+        require(analysts[msg.sender], "Only analyst");
+        _;
+    }
+    
+    modifier onlyAnalystOrOwner() {
+        require(analysts[msg.sender] || msg.sender == owner, "Only analyst or owner");
+        _;
+    }
+    
+    modifier onlySubmitter() {
+        require(submitters[msg.sender], "Only submitter");
+        _;
+    }
+    
+    constructor() {
+        owner = msg.sender;
+        submitters[msg.sender] = true;
+        alerts = new LobbyingAlertsFHE();
+    }
+    
+    function setAnalyst(address analyst, bool authorized) public onlyOwner {
+        analysts[analyst] = authorized;
+        emit AnalystUpdated(analyst, authorized);
+    }
+    
+    function setSubmitter(address submitter, bool authorized) public onlyOwner {
+        submitters[submitter] = authorized;
+        emit SubmitterUpdated(submitter, authorized);
+    }
+    
+    // Lets an analyst user-decrypt a donation privately instead of publishing it
+    function grantDonationAccess(uint256 donationId) public onlyAnalyst {
+        require(donationId != 0 && donationId <= donationCount, "Invalid donation");
+        EncryptedDonation storage donation = encryptedDonations[donationId];
+        
+        FHE.allow(donation.encryptedAmount, msg.sender);
+        FHE.allow(donation.encryptedEntity, msg.sender);
+        FHE.allow(donation.encryptedDonor, msg.sender);
+        if (FHE.isInitialized(noteKeys[donationId])) {
+            FHE.allow(noteKeys[donationId], msg.sender);
+        }
+        
+        emit DonationAccessGranted(donationId, msg.sender);
+    }
+    
+    function hasDonationAccess(uint256 donationId, address account) public view returns (bool) {
+        EncryptedDonation storage donation = encryptedDonations[donationId];
+        return FHE.isAllowed(donation.encryptedAmount, account)
+            && FHE.isAllowed(donation.encryptedEntity, account)
+            && FHE.isAllowed(donation.encryptedDonor, account);
+    }
+    
     function recordEncryptedDonation(
-        euint32 encryptedAmount,
-        euint32 encryptedEntity,
-        euint32 encryptedDonor
+        externalEuint64 amountInput,
+        externalEuint32 entityInput,
+        externalEuint32 donorInput,
+        bytes calldata inputProof,
+        DonationDates calldata dates,
+        bytes32[] calldata categories,
+        bytes32 commitment
     ) public onlyAuthorized {
-        donationCount += 1;
-        uint256 newId = donationCount;
+        storeDonation(
+            FHE.fromExternal(amountInput, inputProof),
+            FHE.fromExternal(entityInput, inputProof),
+            FHE.fromExternal(donorInput, inputProof),
+            dates,
+            commitment
+        );
+        fileCategories(donationCount, categories);
+    }
+    
+    // Records donations encrypted together under one input proof; IDs are consecutive
+    function recordEncryptedDonations(
+        externalEuint64[] calldata amountInputs,
+        externalEuint32[] calldata entityInputs,
+        externalEuint32[] calldata donorInputs,
+        bytes calldata inputProof,
+        DonationDates[] calldata dates,
+        bytes32[][] calldata categories,
+        bytes32[] calldata commitments
+    ) public onlyAuthorized returns (uint256 firstId, uint256 lastId) {
+        require(amountInputs.length > 0, "Empty batch");
+        require(
+            entityInputs.length == amountInputs.length
+                && donorInputs.length == amountInputs.length
+                && dates.length == amountInputs.length
+                && categories.length == amountInputs.length
+                && commitments.length == amountInputs.length,
+            "Batch length mismatch"
+        );
         
-        encryptedDonations[newId] = EncryptedDonation({
-            id: newId,
-            encryptedAmount: encryptedAmount,
-            encryptedEntity: encryptedEntity,
-            encryptedDonor: encryptedDonor,
-            timestamp: block.timestamp
-        });
+        firstId = donationCount + 1;
+        for (uint256 i = 0; i < amountInputs.length; i++) {
+            storeDonation(
+                FHE.fromExternal(amountInputs[i], inputProof),
+                FHE.fromExternal(entityInputs[i], inputProof),
+                FHE.fromExternal(donorInputs[i], inputProof),
+                dates[i],
+                commitments[i]
+            );
+            fileCategories(donationCount, categories[i]);
+        }
+        lastId = donationCount;
         
-        decryptedDonations[newId] = DecryptedDonation({
-            amount: 0,
-            entity: "",
-            donor: "",
-            isRevealed: false
-        });
+        emit DonationBatchRecorded(firstId, lastId);
+    }
+    
+    function isDonationInCategory(uint256 donationId, string calldata category) public view returns (bool) {
+        return donationCategories[donationId][keccak256(bytes(category))];
+    }
+    
+    // Only accounts that can read the donation may attach its note, and only once
+    function attachNote(
+        uint256 donationId,
+        externalEuint256 keyInput,
+        bytes calldata inputProof,
+        bytes32 contentHash
+    ) public onlyAuthorized {
+        require(donationId != 0 && donationId <= donationCount, "Invalid donation");
+        require(FHE.isAllowed(encryptedDonations[donationId].encryptedAmount, msg.sender), "No access to donation");
+        require(noteHashes[donationId] == bytes32(0), "Note already attached");
+        require(contentHash != bytes32(0), "Empty content hash");
         
-        emit DonationRecorded(newId, block.timestamp);
+        euint256 key = FHE.fromExternal(keyInput, inputProof);
+        FHE.allowThis(key);
+        FHE.allow(key, msg.sender);
+        noteKeys[donationId] = key;
+        noteHashes[donationId] = contentHash;
+        
+        emit NoteAttached(donationId, contentHash);
+    }
+    
+    function getNoteKey(uint256 donationId) public view returns (euint256) {
+        return noteKeys[donationId];
+    }
+    
+    // Gives the caller the period's commitment salt, drawing it on first use
+    function grantPeriodSalt(uint16 year, uint8 quarter) public onlySubmitter {
+        uint32 key = periodKey(year, quarter);
+        if (!FHE.isInitialized(periodSalts[key])) {
+            periodSalts[key] = FHE.randEuint256();
+            FHE.allowThis(periodSalts[key]);
+        }
+        FHE.allow(periodSalts[key], msg.sender);
+        
+        emit PeriodSaltGranted(key, msg.sender);
+    }
+    
+    function getPeriodSalt(uint16 year, uint8 quarter) public view returns (euint256) {
+        return periodSalts[periodKey(year, quarter)];
+    }
+    
+    function hasPeriodSaltAccess(uint16 year, uint8 quarter, address account) public view returns (bool) {
+        euint256 salt = periodSalts[periodKey(year, quarter)];
+        return FHE.isInitialized(salt) && FHE.isAllowed(salt, account);
     }
     
     function requestDonationDecryption(uint256 donationId) public onlyAuthorized {
@@ -87,7 +326,7 @@ contract LobbyingAnalysisFHE is SepoliaConfig {
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptDonation.selector);
         requestToDonationId[reqId] = donationId;
         
-        emit DecryptionRequested(donationId);
+        emit DecryptionRequested(donationId, reqId);
     }
     
     function decryptDonation(
@@ -98,66 +337,345 @@ contract LobbyingAnalysisFHE is SepoliaConfig {
         uint256 donationId = requestToDonationId[requestId];
         require(donationId != 0, "Invalid request");
         
-        EncryptedDonation storage eDonation = encryptedDonations[donationId];
         DecryptedDonation storage dDonation = decryptedDonations[donationId];
         require(!dDonation.isRevealed, "Already decrypted");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        (uint32 amount, string memory entity, string memory donor) = abi.decode(cleartexts, (uint32, string, string));
+        (uint64 amount, uint32 entityId, uint32 donorId) = abi.decode(cleartexts, (uint64, uint32, uint32));
         
         dDonation.amount = amount;
-        dDonation.entity = entity;
-        dDonation.donor = donor;
+        dDonation.entityId = entityId;
+        dDonation.donorId = donorId;
         dDonation.isRevealed = true;
         
-        updateEntityTotal(entity, amount);
-        updateDonorTotal(donor, amount);
+        updateEntityTotal(entityId, amount);
+        updateDonorTotal(donorId, amount);
         
-        emit DonationDecrypted(donationId);
+        emit DonationDecrypted(donationId, requestId);
     }
     
-    function analyzeEncryptedConnection(
-        euint32 entity1,
-        euint32 entity2,
-        euint32 weight
-    ) public onlyAuthorized {
-        encryptedConnections.push(EncryptedConnection({
-            entity1: entity1,
-            entity2: entity2,
-            weight: weight
-        }));
+    // Adds up to maxDonations donations not yet counted to the donor -> recipient weight. Every donation
+    // is compared under encryption and contributes either its amount or zero, so nothing shows which matched.
+    function analyzeEncryptedConnection(uint32 donorId, uint32 entityId, uint256 maxDonations) public onlyAuthorized {
+        require(donorId != 0 && entityId != 0, "Invalid connection");
+        require(maxDonations > 0, "Nothing to analyze");
+        
+        uint64 key = connectionKey(donorId, entityId);
+        Connection storage connection = connections[key];
+        if (!FHE.isInitialized(connection.weight)) {
+            connection.donorId = donorId;
+            connection.entityId = entityId;
+            connection.weight = FHE.asEuint64(0);
+            connectionKeys.push(key);
+        }
+        
+        uint256 last = connection.processedThrough + maxDonations;
+        if (last > donationCount) {
+            last = donationCount;
+        }
+        euint64 weight = connection.weight;
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 id = connection.processedThrough + 1; id <= last; id++) {
+            EncryptedDonation storage donation = encryptedDonations[id];
+            ebool matches = FHE.and(FHE.eq(donation.encryptedDonor, donorId), FHE.eq(donation.encryptedEntity, entityId));
+            weight = addSaturating(weight, FHE.select(matches, donation.encryptedAmount, zero));
+        }
+        connection.weight = weight;
+        connection.processedThrough = last;
+        
+        FHE.allowThis(weight);
+        address[] storage viewers = connectionViewers[key];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            if (analysts[viewers[i]]) {
+                FHE.allow(weight, viewers[i]);
+            }
+        }
+        
+        emit ConnectionAnalyzed(donorId, entityId, last);
+    }
+    
+    // Lets an analyst user-decrypt a connection's weight, now and after every later analysis
+    function grantConnectionAccess(uint32 donorId, uint32 entityId) public onlyAnalyst {
+        uint64 key = connectionKey(donorId, entityId);
+        require(FHE.isInitialized(connections[key].weight), "Unknown connection");
+        
+        if (!FHE.isAllowed(connections[key].weight, msg.sender)) {
+            FHE.allow(connections[key].weight, msg.sender);
+            connectionViewers[key].push(msg.sender);
+        }
+        
+        emit ConnectionAccessGranted(donorId, entityId, msg.sender);
+    }
+    
+    function hasConnectionAccess(uint32 donorId, uint32 entityId, address account) public view returns (bool) {
+        euint64 weight = connections[connectionKey(donorId, entityId)].weight;
+        return FHE.isInitialized(weight) && FHE.isAllowed(weight, account);
+    }
+    
+    function getConnection(uint32 donorId, uint32 entityId) public view returns (euint64 weight, uint256 processedThrough) {
+        Connection storage connection = connections[connectionKey(donorId, entityId)];
+        return (connection.weight, connection.processedThrough);
+    }
+    
+    // Every analyzed pair, in the order it was first analyzed
+    function getConnections() public view returns (uint32[] memory donorIds, uint32[] memory entityIds) {
+        donorIds = new uint32[](connectionKeys.length);
+        entityIds = new uint32[](connectionKeys.length);
+        for (uint256 i = 0; i < connectionKeys.length; i++) {
+            Connection storage connection = connections[connectionKeys[i]];
+            donorIds[i] = connection.donorId;
+            entityIds[i] = connection.entityId;
+        }
+    }
+    
+    // Starts a concentration market. Candidate donors are public dictionary IDs in ascending order, so
+    // none is counted twice. Donors left off the list still count toward the market total, so the index
+    // is a lower bound that is exact when every donor in the market is a candidate. A revealed index is
+    // final: comparing it with one revealed after a few more donations would single those donations out.
+    function openConcentration(
+        uint32 entityId,
+        string calldata category,
+        uint16 year,
+        uint8 quarter,
+        uint32[] calldata donorIds
+    ) public onlyAnalystOrOwner returns (bytes32 market) {
+        require(entityId != 0 || bytes(category).length > 0, "Invalid market");
+        require(
+            donorIds.length >= MIN_CONCENTRATION_DONORS && donorIds.length <= MAX_CONCENTRATION_DONORS,
+            "Invalid donor count"
+        );
         
-        emit ConnectionAnalyzed(encryptedConnections.length - 1);
+        market = keccak256(abi.encode(entityId, category, year, quarter));
+        Concentration storage concentration = concentrations[market];
+        require(concentration.periodKey == 0, "Market exists");
+        concentration.entityId = entityId;
+        concentration.category = category;
+        concentration.periodKey = periodKey(year, quarter);
+        
+        euint64 zero = FHE.asEuint64(0);
+        FHE.allowThis(zero);
+        for (uint256 i = 0; i < donorIds.length; i++) {
+            require(donorIds[i] != 0 && (i == 0 || donorIds[i] > donorIds[i - 1]), "Donors not ascending");
+            concentration.donorIds.push(donorIds[i]);
+            concentration.shares.push(zero);
+        }
+        concentration.total = zero;
+        concentrationMarkets.push(market);
+        
+        emit ConcentrationOpened(market, entityId, category, year, quarter);
+    }
+    
+    // Adds donations of the market's period, and of its category if it has one, to the market total and
+    // every candidate's share. Each donation is compared with every candidate under encryption and adds
+    // either its amount or zero, so nothing shows which donor (or, for a recipient market, whether the
+    // recipient) matched. Donations already counted are skipped. Every new donation restarts the index
+    // computation.
+    function addConcentrationDonations(bytes32 market, uint256[] calldata donationIds) public onlyAnalystOrOwner {
+        Concentration storage concentration = concentrations[market];
+        require(concentration.periodKey != 0, "Unknown market");
+        require(!concentration.isRevealed, "Market revealed");
+        
+        bytes32 category = bytes(concentration.category).length > 0 ? keccak256(bytes(concentration.category)) : bytes32(0);
+        euint64 zero = FHE.asEuint64(0);
+        euint64 total = concentration.total;
+        euint64[] memory shares = concentration.shares;
+        uint256 counted = concentration.donationCount;
+        for (uint256 i = 0; i < donationIds.length; i++) {
+            uint256 id = donationIds[i];
+            require(id > 0 && id <= donationCount, "Invalid donation");
+            DonationDates storage dates = donationDates[id];
+            require(
+                dates.reportingQuarter != 0 && uint32(dates.reportingYear) * 10 + dates.reportingQuarter == concentration.periodKey,
+                "Donation outside period"
+            );
+            require(category == bytes32(0) || donationCategories[id][category], "Donation outside category");
+            if (concentrationCounted[market][id]) {
+                continue;
+            }
+            concentrationCounted[market][id] = true;
+            counted += 1;
+            
+            EncryptedDonation storage donation = encryptedDonations[id];
+            euint64 amount = donation.encryptedAmount;
+            if (concentration.entityId != 0) {
+                amount = FHE.select(FHE.eq(donation.encryptedEntity, concentration.entityId), amount, zero);
+            }
+            total = addSaturating(total, amount);
+            for (uint256 j = 0; j < shares.length; j++) {
+                ebool matches = FHE.eq(donation.encryptedDonor, concentration.donorIds[j]);
+                shares[j] = addSaturating(shares[j], FHE.select(matches, amount, zero));
+            }
+        }
+        
+        FHE.allowThis(total);
+        concentration.total = total;
+        for (uint256 j = 0; j < shares.length; j++) {
+            FHE.allowThis(shares[j]);
+            concentration.shares[j] = shares[j];
+        }
+        if (counted != concentration.donationCount) {
+            concentration.donationCount = counted;
+            concentration.computeSteps = 0;
+        }
+        
+        emit ConcentrationUpdated(market, concentration.donationCount);
+    }
+    
+    // Advances the index computation by up to maxSteps steps: one per candidate to add up squared
+    // shares, one to set up the division, then one per round of binary long division:
+    //   HHI = floor(10000 * sum(share^2) / total^2)
+    // Steps are spread over transactions to stay within the coprocessor's HCU depth limit. Exact while
+    // the market total stays below 2^57 cents, so the shifted divisor fits in 128 bits.
+    function computeConcentration(bytes32 market, uint256 maxSteps) public onlyAnalystOrOwner {
+        Concentration storage concentration = concentrations[market];
+        require(concentration.periodKey != 0, "Unknown market");
+        require(maxSteps > 0, "Nothing to compute");
+        
+        uint256 donors = concentration.shares.length;
+        uint256 stepsTotal = donors + 1 + HHI_DIVISION_ROUNDS;
+        uint256 step = concentration.computeSteps;
+        uint256 last = step + maxSteps > stepsTotal ? stepsTotal : step + maxSteps;
+        for (; step < last; step++) {
+            if (step < donors) {
+                euint128 share = FHE.asEuint128(concentration.shares[step]);
+                euint128 squared = FHE.mul(share, share);
+                concentration.squares = step == 0 ? squared : FHE.add(concentration.squares, squared);
+                FHE.allowThis(concentration.squares);
+            } else if (step == donors) {
+                euint128 total = FHE.asEuint128(concentration.total);
+                concentration.divisor = FHE.mul(total, total);
+                concentration.remainder = FHE.mul(concentration.squares, uint128(HHI_SCALE));
+                concentration.index = FHE.asEuint16(0);
+                FHE.allowThis(concentration.divisor);
+                FHE.allowThis(concentration.remainder);
+                FHE.allowThis(concentration.index);
+            } else {
+                uint8 bit = uint8(stepsTotal - step - 1);
+                euint128 shifted = FHE.shl(concentration.divisor, bit);
+                ebool fits = FHE.ge(concentration.remainder, shifted);
+                concentration.remainder = FHE.select(fits, FHE.sub(concentration.remainder, shifted), concentration.remainder);
+                concentration.index = FHE.select(fits, FHE.add(concentration.index, uint16(1) << bit), concentration.index);
+                FHE.allowThis(concentration.remainder);
+                FHE.allowThis(concentration.index);
+            }
+        }
+        concentration.computeSteps = last;
+        
+        emit ConcentrationComputed(market, last, stepsTotal);
+    }
+    
+    // Asks the oracle to decrypt the computed index
+    function requestConcentrationDecryption(bytes32 market) public onlyAnalystOrOwner {
+        Concentration storage concentration = concentrations[market];
+        require(concentration.periodKey != 0, "Unknown market");
+        require(
+            concentration.computeSteps == concentration.shares.length + 1 + HHI_DIVISION_ROUNDS,
+            "Index not computed"
+        );
+        require(!concentration.isRevealed, "Already decrypted");
+        
+        // A zero divisor "fits" every round; a market without money has no concentration
+        euint16 index = FHE.select(FHE.eq(concentration.total, uint64(0)), FHE.asEuint16(0), concentration.index);
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(index);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptConcentration.selector);
+        requestToConcentration[reqId] = ConcentrationRequest({ market: market, donationCount: concentration.donationCount });
+    }
+    
+    function decryptConcentration(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        ConcentrationRequest memory request = requestToConcentration[requestId];
+        require(request.market != bytes32(0), "Invalid request");
+        
+        Concentration storage concentration = concentrations[request.market];
+        require(!concentration.isRevealed, "Already decrypted");
+        // An index computed before more donations were counted no longer describes the market, and an
+        // answer arriving out of order must not replace a newer one
+        require(request.donationCount == concentration.donationCount, "Superseded request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        uint16 index = abi.decode(cleartexts, (uint16));
+        concentration.revealedIndex = index;
+        concentration.revealedCount = request.donationCount;
+        concentration.isRevealed = true;
+        
+        emit ConcentrationDecrypted(request.market, index, request.donationCount);
+    }
+    
+    function getConcentration(bytes32 market) public view returns (
+        uint32 entityId,
+        string memory category,
+        uint16 year,
+        uint8 quarter,
+        uint32[] memory donorIds,
+        uint256 counted,
+        bool isComputed,
+        uint16 revealedIndex,
+        uint256 revealedCount,
+        bool isRevealed
+    ) {
+        Concentration storage c = concentrations[market];
+        return (
+            c.entityId,
+            c.category,
+            uint16(c.periodKey / 10),
+            uint8(c.periodKey % 10),
+            c.donorIds,
+            c.donationCount,
+            c.computeSteps == c.shares.length + 1 + HHI_DIVISION_ROUNDS,
+            c.revealedIndex,
+            c.revealedCount,
+            c.isRevealed
+        );
+    }
+    
+    // Every market, in the order it was opened
+    function getConcentrationMarkets() public view returns (bytes32[] memory) {
+        return concentrationMarkets;
     }
     
     function getDecryptedDonation(uint256 donationId) public view returns (
-        uint32 amount,
-        string memory entity,
-        string memory donor,
+        uint64 amount,
+        uint32 entityId,
+        uint32 donorId,
         bool isRevealed
     ) {
         DecryptedDonation storage d = decryptedDonations[donationId];
-        return (d.amount, d.entity, d.donor, d.isRevealed);
+        return (d.amount, d.entityId, d.donorId, d.isRevealed);
     }
     
-    function getEncryptedEntityTotal(string memory entity) public view returns (euint32) {
-        return encryptedEntityTotals[entity];
+    function getEncryptedEntityTotal(uint32 entityId) public view returns (euint64) {
+        return encryptedEntityTotals[entityId];
     }
     
-    function getEncryptedDonorTotal(string memory donor) public view returns (euint32) {
-        return encryptedDonorTotals[donor];
+    function getEncryptedDonorTotal(uint32 donorId) public view returns (euint64) {
+        return encryptedDonorTotals[donorId];
     }
     
-    function requestEntityTotalDecryption(string memory entity) public onlyAuthorized {
-        euint32 total = encryptedEntityTotals[entity];
+    function getEntityIds() public view returns (uint32[] memory) {
+        return entityList;
+    }
+    
+    function getDonorIds() public view returns (uint32[] memory) {
+        return donorList;
+    }
+    
+    function requestEntityTotalDecryption(uint32 entityId) public onlyAuthorized {
+        euint64 total = encryptedEntityTotals[entityId];
         require(FHE.isInitialized(total), "Entity not found");
         
         bytes32[] memory ciphertexts = new bytes32[](1);
         ciphertexts[0] = FHE.toBytes32(total);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptEntityTotal.selector);
-        requestToDonationId[reqId] = stringToHash(entity);
+        requestToEntityId[reqId] = entityId;
     }
     
     function decryptEntityTotal(
@@ -165,47 +683,141 @@ contract LobbyingAnalysisFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 entityHash = requestToDonationId[requestId];
-        string memory entity = getEntityFromHash(entityHash);
+        uint32 entityId = requestToEntityId[requestId];
+        require(entityId != 0, "Invalid request");
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        uint32 total = abi.decode(cleartexts, (uint32));
-        // Process decrypted total as needed
+        uint64 total = abi.decode(cleartexts, (uint64));
+        decryptedEntityTotals[entityId] = total;
+        
+        emit EntityTotalDecrypted(entityId, total);
     }
     
-    function updateEntityTotal(string memory entity, uint32 amount) private {
-        if (!FHE.isInitialized(encryptedEntityTotals[entity])) {
-            encryptedEntityTotals[entity] = FHE.asEuint32(0);
-            entityList.push(entity);
-        }
-        encryptedEntityTotals[entity] = FHE.add(
-            encryptedEntityTotals[entity], 
-            FHE.asEuint32(amount)
+    function requestDonorTotalDecryption(uint32 donorId) public onlyAuthorized {
+        euint64 total = encryptedDonorTotals[donorId];
+        require(FHE.isInitialized(total), "Donor not found");
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(total);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptDonorTotal.selector);
+        requestToDonorId[reqId] = donorId;
+    }
+    
+    function decryptDonorTotal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        uint32 donorId = requestToDonorId[requestId];
+        require(donorId != 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        
+        uint64 total = abi.decode(cleartexts, (uint64));
+        decryptedDonorTotals[donorId] = total;
+        
+        emit DonorTotalDecrypted(donorId, total);
+    }
+    
+    function storeDonation(
+        euint64 encryptedAmount,
+        euint32 encryptedEntity,
+        euint32 encryptedDonor,
+        DonationDates calldata dates,
+        bytes32 commitment
+    ) private {
+        require(
+            dates.reportingQuarter <= 4 && (dates.reportingYear == 0) == (dates.reportingQuarter == 0),
+            "Invalid reporting period"
+        );
+        require(
+            dates.activityDate == 0 || dates.filingDate == 0 || dates.filingDate >= dates.activityDate,
+            "Filed before activity"
         );
+        require(commitment != bytes32(0), "Missing commitment");
+        require(commitmentDonations[commitment] == 0, "Duplicate submission");
+        
+        // Contract keeps access for later decryption requests, submitter keeps access to its own record
+        FHE.allowThis(encryptedAmount);
+        FHE.allowThis(encryptedEntity);
+        FHE.allowThis(encryptedDonor);
+        FHE.allow(encryptedAmount, msg.sender);
+        FHE.allow(encryptedEntity, msg.sender);
+        FHE.allow(encryptedDonor, msg.sender);
+        
+        donationCount += 1;
+        uint256 newId = donationCount;
+        
+        encryptedDonations[newId] = EncryptedDonation({
+            id: newId,
+            encryptedAmount: encryptedAmount,
+            encryptedEntity: encryptedEntity,
+            encryptedDonor: encryptedDonor,
+            timestamp: block.timestamp
+        });
+        
+        donationDates[newId] = dates;
+        commitmentDonations[commitment] = newId;
+        
+        // The alerts contract adds donations to its watched totals when they are updated
+        FHE.allow(encryptedAmount, address(alerts));
+        FHE.allow(encryptedEntity, address(alerts));
+        FHE.allow(encryptedDonor, address(alerts));
+        
+        decryptedDonations[newId] = DecryptedDonation({
+            amount: 0,
+            entityId: 0,
+            donorId: 0,
+            isRevealed: false
+        });
+        
+        emit DonationRecorded(newId, block.timestamp);
     }
     
-    function updateDonorTotal(string memory donor, uint32 amount) private {
-        if (!FHE.isInitialized(encryptedDonorTotals[donor])) {
-            encryptedDonorTotals[donor] = FHE.asEuint32(0);
-            donorList.push(donor);
+    function fileCategories(uint256 donationId, bytes32[] calldata categories) private {
+        require(categories.length <= MAX_DONATION_CATEGORIES, "Too many categories");
+        for (uint256 i = 0; i < categories.length; i++) {
+            donationCategories[donationId][categories[i]] = true;
         }
-        encryptedDonorTotals[donor] = FHE.add(
-            encryptedDonorTotals[donor], 
-            FHE.asEuint32(amount)
-        );
     }
     
-    function stringToHash(string memory s) private pure returns (uint256) {
-        return uint256(keccak256(abi.encodePacked(s)));
+    function periodKey(uint16 year, uint8 quarter) private pure returns (uint32) {
+        require(year >= 1000 && year <= 9999 && quarter >= 1 && quarter <= 4, "Invalid reporting period");
+        return uint32(year) * 10 + quarter;
     }
     
-    function getEntityFromHash(uint256 hash) private view returns (string memory) {
-        for (uint i = 0; i < entityList.length; i++) {
-            if (stringToHash(entityList[i]) == hash) {
-                return entityList[i];
-            }
+    function connectionKey(uint32 donorId, uint32 entityId) private pure returns (uint64) {
+        return (uint64(donorId) << 32) | entityId;
+    }
+    
+    function updateEntityTotal(uint32 entityId, uint64 amount) private {
+        if (!FHE.isInitialized(encryptedEntityTotals[entityId])) {
+            encryptedEntityTotals[entityId] = FHE.asEuint64(0);
+            entityList.push(entityId);
+        }
+        encryptedEntityTotals[entityId] = addSaturating(encryptedEntityTotals[entityId], amount);
+        FHE.allowThis(encryptedEntityTotals[entityId]);
+    }
+    
+    function updateDonorTotal(uint32 donorId, uint64 amount) private {
+        if (!FHE.isInitialized(encryptedDonorTotals[donorId])) {
+            encryptedDonorTotals[donorId] = FHE.asEuint64(0);
+            donorList.push(donorId);
         }
-        revert("Entity not found");
+        encryptedDonorTotals[donorId] = addSaturating(encryptedDonorTotals[donorId], amount);
+        FHE.allowThis(encryptedDonorTotals[donorId]);
+    }
+    
+    // FHE addition wraps on overflow; a wrapped sum is smaller than the previous total
+    function addSaturating(euint64 total, uint64 amount) private returns (euint64) {
+        return addSaturating(total, FHE.asEuint64(amount));
+    }
+    
+    function addSaturating(euint64 total, euint64 amount) private returns (euint64) {
+        euint64 sum = FHE.add(total, amount);
+        ebool overflowed = FHE.lt(sum, total);
+        return FHE.select(overflowed, FHE.asEuint64(type(uint64).max), sum);
     }
 }
\ No newline at end of file
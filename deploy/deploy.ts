@@ -345,6 +345,16 @@ async function main() {
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy LobbyingAnalysisFHE, which receives the encrypted donation inputs
+  const LobbyingFactory = await hardhatEthers.getContractFactory("LobbyingAnalysisFHE", wallet);
+  const lobbying = await LobbyingFactory.deploy();
+  await lobbying.waitForDeployment();
+
+  const lobbyingAddress = await lobbying.getAddress();
+  console.log("LobbyingAnalysisFHE contract deployed at:", lobbyingAddress);
+  // Its constructor deploys the threshold alerts contract, which clients find through alerts()
+  console.log("LobbyingAlertsFHE contract deployed at:", await lobbying.getFunction("alerts").staticCall());
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
@@ -353,6 +363,7 @@ async function main() {
     const config = {
       network: rpc,
       contractAddress: deployedAddress,
+      lobbyingContractAddress: lobbyingAddress,
       deployer: wallet.address,
     };
     fs.writeFileSync(
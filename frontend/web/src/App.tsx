@@ -1,25 +1,252 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { config, getContractReadOnly, getContractWithSigner, getLobbyingClient, getLobbyingClientReadOnly } from "./contract";
+import { getFhevmInstance, isMockChain } from "./fhevm";
+import { displayName } from "./dictionary";
+import { categoryCode, categoryOptions, inCategory, taxonomy } from "./taxonomy";
+import { matchesEntity, observeRecords, resolveName, resolver, saveRules, type ResolvedName } from "./resolution";
+import { dollarsToCents, formatCents } from "../../../src/money";
+import {
+  RECORD_SCHEMA_VERSION,
+  assertRecordBlob,
+  documentHash,
+  formatPeriod,
+  parsePeriod,
+  periodKey,
+  provenanceCsv,
+  readRecordBlob,
+  recordActivityDate,
+  recordAmountCents,
+  recordPeriod,
+  replaceStoredRecord,
+  splitRecordId,
+  tombstoneRecord,
+  type ProvenanceRow,
+  type ProvenanceSource,
+  type QuarantinedRecord,
+  type RecordBlob,
+  type RecordProvenance,
+  type RecordTombstone,
+  type ReportingPeriod
+} from "../../../src/records";
+import {
+  CSV_FIELDS,
+  guessColumnMapping,
+  mapCsvRows,
+  missingColumns,
+  parseBatchRows,
+  parseCsvDate,
+  parseDelimited,
+  REQUIRED_CSV_FIELDS,
+  type ColumnMapping
+} from "./batch";
+import {
+  DecryptionTracker,
+  UserDecryptionSession,
+  revealDonation,
+  type RevealedDonation,
+  type TrackedDecryption
+} from "../../../src/decryption";
+import { buildInfluenceGraph } from "../../../src/graph";
+import { attachNote, readNote, type NoteStore } from "../../../src/notes";
+import type { DonationFields, LobbyingClient } from "../../../src/client";
+import { CommitmentSalts, describeDuplicate, findDuplicates, type Duplicate } from "../../../src/commitments";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import DecryptionRequests from "./components/DecryptionRequests";
+import EntityReview from "./components/EntityReview";
+import QuarantineList from "./components/QuarantineList";
+import InfluencePanel from "./components/InfluencePanel";
+import ConcentrationPanel from "./components/ConcentrationPanel";
+import AlertsPanel from "./components/AlertsPanel";
+import TimeSeriesPanel from "./components/TimeSeriesPanel";
 import "./App.css";
 
 interface LobbyingRecord {
   id: string;
-  encryptedData: string;
+  donationId?: number;
+  donorId?: number;
+  entityId?: number;
+  /** Submission time; the table and filters go by `activityDate`. */
   timestamp: number;
-  company: string;
-  amount: number;
-  recipient: string;
+  activityDate: number;
+  reportingPeriod: ReportingPeriod;
+  filingDate?: number;
+  /** From the blob for legacy plaintext records, otherwise from the donation once it is revealed. */
+  company?: string;
+  amountCents?: bigint;
+  recipient?: string;
   category: string;
   status: "pending" | "verified" | "rejected";
+  noteHash?: string;
+  provenance?: RecordProvenance;
 }
 
+// Older blobs of encrypted records still carry plaintext copies; those stay hidden like the donation until it is revealed
+const parseRecord = (id: string, recordData: RecordBlob): LobbyingRecord => {
+  const record: LobbyingRecord = {
+    id,
+    donationId: recordData.donationId,
+    timestamp: recordData.timestamp,
+    activityDate: recordActivityDate(recordData),
+    reportingPeriod: recordPeriod(recordData),
+    filingDate: recordData.filingDate,
+    category: recordData.category,
+    status: recordData.status || "pending",
+    noteHash: recordData.noteHash,
+    provenance: recordData.provenance
+  };
+  if (recordData.donationId !== undefined) return record;
+  return {
+    ...record,
+    donorId: recordData.donorId,
+    entityId: recordData.entityId,
+    company: recordData.company && displayName(recordData.donorId, recordData.company),
+    amountCents: recordAmountCents(recordData),
+    recipient: recordData.recipient && displayName(recordData.entityId, recordData.recipient)
+  };
+};
+
+// A revealed donation fills in what the blob no longer stores; names resolve through the published dictionary
+const withDonation = (record: LobbyingRecord, donation: RevealedDonation): LobbyingRecord => ({
+  ...record,
+  donorId: donation.donorId,
+  entityId: donation.entityId,
+  company: displayName(donation.donorId, `ID ${donation.donorId}`),
+  amountCents: donation.amount,
+  recipient: displayName(donation.entityId, `ID ${donation.entityId}`)
+});
+
+const SOURCE_LABELS: Record<ProvenanceSource, string> = {
+  lda: "Senate LDA filing",
+  fec: "FEC contribution",
+  manual: "Manual entry"
+};
+
+// Writes a record blob and appends its key to the index: two transactions however many records it holds
+const storeRecordBlob = async (contract: ethers.Contract, key: string, blob: RecordBlob | { records: RecordBlob[] }) => {
+  // Nothing that would be quarantined on read is written
+  ("records" in blob ? blob.records : [blob]).forEach(assertRecordBlob);
+  await contract.setData(
+    `lobbying_${key}`, 
+    ethers.toUtf8Bytes(JSON.stringify(blob))
+  );
+  
+  const keysBytes = await contract.getData("lobbying_keys");
+  let keys: string[] = [];
+  
+  if (keysBytes.length > 0) {
+    try {
+      keys = JSON.parse(ethers.toUtf8String(keysBytes));
+    } catch (e) {
+      console.error("Error parsing keys:", e);
+    }
+  }
+  
+  keys.push(key);
+  
+  await contract.setData(
+    "lobbying_keys", 
+    ethers.toUtf8Bytes(JSON.stringify(keys))
+  );
+};
+
+// UniversalAdapter holds the note ciphertexts; its methods are only typed through the ABI
+const noteStore = (contract: ethers.Contract): NoteStore => ({
+  getData: key => contract.getData(key),
+  setData: (key, data) => contract.setData(key, data)
+});
+
+// Replaces one record in place; rows of a batch keep their index so record IDs stay valid
+const replaceRecord = async (
+  contract: ethers.Contract,
+  recordId: string,
+  update: (current: unknown) => RecordBlob | RecordTombstone
+) => {
+  const { key, index } = splitRecordId(recordId);
+  const recordBytes = await contract.getData(`lobbying_${key}`);
+  if (recordBytes.length === 0) {
+    throw new Error("Record not found");
+  }
+  
+  let stored: unknown;
+  try {
+    stored = JSON.parse(ethers.toUtf8String(recordBytes));
+  } catch {
+    // Only a whole unreadable blob can be replaced without reading it
+    if (index !== undefined) throw new Error(`Blob ${key} is unreadable`);
+  }
+  const current = index === undefined ? stored : (stored as { records?: unknown[] })?.records?.[index];
+  
+  await contract.setData(
+    `lobbying_${key}`,
+    ethers.toUtf8Bytes(JSON.stringify(replaceStoredRecord(stored, index, update(current))))
+  );
+};
+
+// Outcome of one uploaded row: its donation ID once recorded, or why it failed
+interface CsvRowResult {
+  donationId?: string;
+  error?: string;
+}
+
+const emptyRecordData = {
+  mode: "single",
+  company: "",
+  amount: "",
+  recipient: "",
+  category: "",
+  description: "",
+  activityDate: "",
+  period: "",
+  filingDate: "",
+  sourceDocument: "",
+  sourceFile: "",
+  sourceHash: "",
+  contributor: "",
+  batchText: "",
+  csvText: "",
+  csvFile: "",
+  csvHeader: true,
+  csvMapping: {} as ColumnMapping,
+  csvResults: {} as Record<number, CsvRowResult>
+};
+
+// Dates typed into the single-record form; empty fields are left out
+const formDates = (data: typeof emptyRecordData) => {
+  const activityDate = data.activityDate ? parseCsvDate(data.activityDate) : undefined;
+  const filingDate = data.filingDate ? parseCsvDate(data.filingDate) : undefined;
+  if (activityDate !== undefined && filingDate !== undefined && filingDate < activityDate) {
+    throw new Error("Filing date is before the activity date");
+  }
+  return {
+    activityDate,
+    reportingPeriod: data.period.trim() ? parsePeriod(data.period) : undefined,
+    filingDate
+  };
+};
+
+// Provenance of a form submission; uploads are hashed as the source document, and the
+// connected account stands in for a contributor left blank
+const formProvenance = (data: typeof emptyRecordData, account: string, documentId?: string): RecordProvenance => ({
+  source: "manual",
+  documentId: documentId || data.sourceDocument.trim() || undefined,
+  documentHash: data.mode === "csv" ? documentHash(data.csvText) : data.sourceHash || undefined,
+  contributor: data.contributor.trim() || account
+});
+
+// YYYY-MM-DD in UTC, the form of date inputs and of dates the records store
+const formatDay = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
-  const [records, setRecords] = useState<LobbyingRecord[]>([]);
+  const [storedRecords, setStoredRecords] = useState<LobbyingRecord[]>([]);
+  // Donations revealed publicly by the oracle or privately to this viewer, by donation ID
+  const [revealed, setRevealed] = useState<Record<number, RevealedDonation>>({});
+  const [publiclyRevealed, setPubliclyRevealed] = useState<Set<number>>(new Set());
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
   const [filteredRecords, setFilteredRecords] = useState<LobbyingRecord[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -31,25 +258,56 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({
-    company: "",
-    amount: "",
-    recipient: "",
-    category: "",
-    description: ""
-  });
+  const [newRecordData, setNewRecordData] = useState(emptyRecordData);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
-  const [selectedRecord, setSelectedRecord] = useState<LobbyingRecord | null>(null);
+  const [chartCategory, setChartCategory] = useState<string | undefined>();
+  const [selectedPeriod, setSelectedPeriod] = useState("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [selectedRecordId, setSelectedRecordId] = useState<string | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
+  const [decryptions, setDecryptions] = useState<TrackedDecryption[]>([]);
+  const decryptionTracker = useRef<DecryptionTracker | null>(null);
+  const decryptionSession = useRef<UserDecryptionSession | null>(null);
+  const commitmentSalts = useRef<{ key: string; salts: CommitmentSalts } | null>(null);
+  const [resolutionRules, setResolutionRules] = useState(resolver.rules);
+  
+  const records = useMemo(() => storedRecords.map(record =>
+    record.donationId !== undefined && revealed[record.donationId]
+      ? withDonation(record, revealed[record.donationId])
+      : record
+  ), [storedRecords, revealed]);
+  // Looked up by ID so the details follow a reveal made while they are open
+  const selectedRecord = records.find(record => record.id === selectedRecordId) ?? null;
+
+  // Spellings are clustered into entities again whenever records or review decisions change
+  const entities = useMemo(() => {
+    observeRecords(records);
+    return {
+      company: resolver.entities("company"),
+      recipient: resolver.entities("recipient"),
+      suggestions: [...resolver.suggestions("company"), ...resolver.suggestions("recipient")]
+    };
+  }, [records, resolutionRules]);
 
-  // Calculate statistics
-  const totalAmount = records.reduce((sum, record) => sum + record.amount, 0);
+  const updateResolutionRules = (rules: typeof resolutionRules) => {
+    saveRules(rules);
+    setResolutionRules(rules);
+  };
+
+  // Calculate statistics; amounts still encrypted count toward nothing
+  const totalAmount = records.reduce((sum, record) => sum + (record.amountCents ?? 0n), 0n);
   const verifiedAmount = records
     .filter(r => r.status === "verified")
-    .reduce((sum, record) => sum + record.amount, 0);
-  const companyCount = new Set(records.map(r => r.company)).size;
-  const categoryCount = new Set(records.map(r => r.category)).size;
+    .reduce((sum, record) => sum + (record.amountCents ?? 0n), 0n);
+  const revealedCount = records.filter(r => r.amountCents !== undefined).length;
+  const companyCount = entities.company.length;
+  const categoryCount = new Set(records.map(r => categoryCode(r.category))).size;
+  // Newest first, for the period filter
+  const periods = Array.from(
+    new Map(records.map(r => [periodKey(r.reportingPeriod), r.reportingPeriod])).entries()
+  ).sort(([a], [b]) => b - a);
 
   // Filter records based on search and category
   useEffect(() => {
@@ -57,23 +315,61 @@ const App: React.FC = () => {
     
     if (searchTerm) {
       result = result.filter(record => 
-        record.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        record.recipient.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        record.category.toLowerCase().includes(searchTerm.toLowerCase())
+        (record.company !== undefined && matchesEntity(record.company, "company", searchTerm)) ||
+        (record.recipient !== undefined && matchesEntity(record.recipient, "recipient", searchTerm)) ||
+        taxonomy.nameOf(record.category).toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
     
     if (selectedCategory !== "all") {
-      result = result.filter(record => record.category === selectedCategory);
+      result = result.filter(record => inCategory(record.category, selectedCategory));
+    }
+    
+    if (selectedPeriod !== "all") {
+      result = result.filter(record => String(periodKey(record.reportingPeriod)) === selectedPeriod);
+    }
+    
+    // Date inputs and activity dates are both UTC days, so they compare as strings
+    if (dateFrom) {
+      result = result.filter(record => formatDay(record.activityDate) >= dateFrom);
+    }
+    if (dateTo) {
+      result = result.filter(record => formatDay(record.activityDate) <= dateTo);
     }
     
     setFilteredRecords(result);
-  }, [records, searchTerm, selectedCategory]);
+  }, [records, searchTerm, selectedCategory, selectedPeriod, dateFrom, dateTo, entities]);
 
   useEffect(() => {
     loadRecords().finally(() => setLoading(false));
   }, []);
 
+  // Track oracle decryption requests; pending entries are restored from localStorage
+  useEffect(() => {
+    const reader = getLobbyingClientReadOnly();
+    if (!reader) return;
+    
+    const tracker = new DecryptionTracker(reader, window.localStorage);
+    decryptionTracker.current = tracker;
+    setDecryptions(tracker.list());
+    
+    const unsubscribe = tracker.subscribe(setDecryptions);
+    let stopListening: (() => void) | undefined;
+    tracker.start()
+      .then(stop => { stopListening = stop; })
+      .catch(e => console.error("Error starting decryption tracker:", e));
+    
+    // Re-evaluate timeouts while the page stays open
+    const timer = setInterval(() => setDecryptions(tracker.list()), 15000);
+    
+    return () => {
+      unsubscribe();
+      stopListening?.();
+      clearInterval(timer);
+      decryptionTracker.current = null;
+    };
+  }, []);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -123,34 +419,44 @@ const App: React.FC = () => {
       }
       
       const list: LobbyingRecord[] = [];
+      const invalid: QuarantinedRecord[] = [];
       
       for (const key of keys) {
         try {
           const recordBytes = await contract.getData(`lobbying_${key}`);
           if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({
-                id: key,
-                encryptedData: recordData.data,
-                timestamp: recordData.timestamp,
-                company: recordData.company,
-                amount: recordData.amount,
-                recipient: recordData.recipient,
-                category: recordData.category,
-                status: recordData.status || "pending"
-              });
-            } catch (e) {
-              console.error(`Error parsing record data for ${key}:`, e);
-            }
+            // Malformed blobs and records are quarantined with the reason rather than dropped
+            const read = readRecordBlob(key, ethers.toUtf8String(recordBytes, ethers.Utf8ErrorFuncs.replace));
+            read.records.forEach(([id, blob]) => list.push(parseRecord(id, blob)));
+            invalid.push(...read.quarantined);
           }
         } catch (e) {
           console.error(`Error loading record ${key}:`, e);
         }
       }
       
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setRecords(list);
+      list.sort((a, b) => b.activityDate - a.activityDate || b.timestamp - a.timestamp);
+      setStoredRecords(list);
+      setQuarantined(invalid);
+      
+      // Donations the oracle has decrypted are public on-chain, so their amounts can be shown to everyone
+      const reader = getLobbyingClientReadOnly();
+      if (reader) {
+        const donationIds = list.flatMap(r => r.donationId !== undefined ? [r.donationId] : []);
+        const decrypted = await Promise.all(donationIds.map(id => reader.getDecryptedDonation(id)));
+        const publicReveals: Record<number, RevealedDonation> = {};
+        decrypted.forEach((donation, i) => {
+          if (!donation.isRevealed) return;
+          publicReveals[donationIds[i]] = {
+            donationId: BigInt(donationIds[i]),
+            amount: donation.amount,
+            entityId: donation.entityId,
+            donorId: donation.donorId
+          };
+        });
+        setRevealed(current => ({ ...current, ...publicReveals }));
+        setPubliclyRevealed(new Set(Object.keys(publicReveals).map(Number)));
+      }
     } catch (e) {
       console.error("Error loading records:", e);
     } finally {
@@ -173,73 +479,311 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newRecordData))}`;
+      const chainId = Number((await provider.getNetwork()).chainId);
+      const instance = await getFhevmInstance(chainId);
+      const lobbying = await getLobbyingClient(instance);
+      const amountCents = dollarsToCents(newRecordData.amount);
+      const dates = formDates(newRecordData);
+      const donor = resolveName(newRecordData.company, "company");
+      const entity = resolveName(newRecordData.recipient, "recipient");
+      
+      const { committed: [donation], duplicates: [duplicate] } = await commitDonations(instance, lobbying, [{
+        amount: amountCents,
+        entityId: entity.id,
+        donorId: donor.id,
+        ...dates,
+        categories: taxonomy.lineage(newRecordData.category)
+      }]);
+      if (duplicate) {
+        throw new Error(`${describeDuplicate(duplicate)}. If this is a separate donation, give it its activity date`);
+      }
+      
+      const encrypted = await lobbying.encryptDonation(donation);
+      
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: isMockChain(chainId)
+          ? "Recording encrypted donation on local FHEVM mock..."
+          : "Recording encrypted donation..."
+      });
+      
+      const { donationId } = await lobbying.recordEncryptedDonation(encrypted);
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
+      // A note that fails to attach does not lose the donation: the record is stored without it
+      let noteHash: string | undefined;
+      let noteError = "";
+      if (newRecordData.description.trim()) {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: "Encrypting confidential note..."
+        });
+        try {
+          noteHash = await attachNote(lobbying, noteStore(contract), donationId, newRecordData.description);
+        } catch (e) {
+          noteError = (e instanceof Error ? e.message : String(e)) || "Unknown error";
+        }
+      }
+      
       const recordId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
-      const recordData = {
-        data: encryptedData,
+      const recordData: RecordBlob = {
+        schemaVersion: RECORD_SCHEMA_VERSION,
+        donationId: Number(donationId),
         timestamp: Math.floor(Date.now() / 1000),
-        company: newRecordData.company,
-        amount: parseFloat(newRecordData.amount),
-        recipient: newRecordData.recipient,
-        category: newRecordData.category,
-        status: "pending"
+        ...dates,
+        category: categoryCode(newRecordData.category),
+        status: "pending",
+        noteHash,
+        provenance: formProvenance(newRecordData, account)
       };
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `lobbying_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(recordData))
+      // The blob only points at the donation: the company, recipient and amount stay encrypted
+      await storeRecordBlob(contract, recordId, recordData);
+      
+      setTransactionStatus({
+        visible: true,
+        status: noteError ? "error" : "success",
+        message: noteError
+          ? `Donation #${donationId} recorded, but its note was not saved: ${noteError}`
+          : "Encrypted lobbying data submitted securely!"
+      });
+      
+      await loadRecords();
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setShowCreateModal(false);
+        setNewRecordData(emptyRecordData);
+      }, 2000);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const errorMessage = message.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Submission failed: " + (message || "Unknown error");
+      
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: errorMessage
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const submitBatch = async () => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    // Uploads submit their valid rows and report the rest inline; pasted text must be fixed first
+    const csv = newRecordData.mode === "csv";
+    const parsed = csv
+      ? mapCsvRows(parseDelimited(newRecordData.csvText), newRecordData.csvMapping, newRecordData.csvHeader)
+      : parseBatchRows(newRecordData.batchText);
+    const { errors } = parsed;
+    // Rows recorded by an earlier, partly failed submission of the same upload are not sent again
+    const rows = csv
+      ? parsed.rows.filter(row => newRecordData.csvResults[row.line]?.donationId === undefined)
+      : parsed.rows;
+    if (!csv && errors.length > 0) {
+      alert(errors.map(error => `Line ${error.line}: ${error.message}`).join("\n"));
+      return;
+    }
+    if (rows.length === 0) {
+      alert(csv ? "No valid rows left to submit" : "Add at least one row");
+      return;
+    }
+    
+    setCreating(true);
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: `Encrypting ${rows.length} donations with FHE...`
+    });
+    
+    try {
+      const chainId = Number((await provider.getNetwork()).chainId);
+      const instance = await getFhevmInstance(chainId);
+      const lobbying = await getLobbyingClient(instance);
+      const candidates = rows.map(row => ({
+        row,
+        donor: resolveName(row.company, "company"),
+        entity: resolveName(row.recipient, "recipient")
+      }));
+      
+      // Duplicates are caught before anything is sent: pasted rows must be fixed, upload rows are skipped
+      const { committed, duplicates } = await commitDonations(
+        instance,
+        lobbying,
+        candidates.map(({ row, donor, entity }) => ({
+          amount: row.amountCents,
+          entityId: entity.id,
+          donorId: donor.id,
+          activityDate: row.activityDate,
+          reportingPeriod: row.reportingPeriod,
+          filingDate: row.filingDate,
+          categories: taxonomy.lineage(row.category)
+        }))
+      );
+      const duplicateOf = (duplicate: Duplicate) =>
+        "row" in duplicate ? `Same donation as line ${rows[duplicate.row].line}` : describeDuplicate(duplicate);
+      const duplicateLines = duplicates.flatMap((duplicate, i) =>
+        duplicate ? [{ line: rows[i].line, reason: duplicateOf(duplicate) }] : []
+      );
+      if (!csv && duplicateLines.length > 0) {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        alert(duplicateLines.map(({ line, reason }) => `Line ${line}: ${reason}`).join("\n"));
+        return;
+      }
+      const resolved = candidates.filter((_, i) => !duplicates[i]);
+      const sent = resolved.map(({ row }) => row);
+      if (sent.length === 0) {
+        const csvResults = { ...newRecordData.csvResults };
+        duplicateLines.forEach(({ line, reason }) => (csvResults[line] = { error: reason }));
+        setNewRecordData({ ...newRecordData, csvResults });
+        throw new Error("Every row is already recorded");
+      }
+      
+      const result = await lobbying.recordEncryptedDonations(
+        committed.filter((_, i) => !duplicates[i]),
+        (recorded, total) => setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Recorded ${recorded} of ${total} encrypted donations...`
+        })
       );
       
-      const keysBytes = await contract.getData("lobbying_keys");
-      let keys: string[] = [];
+      const contract = await getContractWithSigner();
+      if (!contract) {
+        throw new Error("Failed to get contract with signer");
+      }
       
-      if (keysBytes.length > 0) {
+      // Notes need their donation ID, so they follow the batch one row at a time
+      const noteHashes = new Map<number, string>();
+      const noteErrors = new Map<number, string>();
+      for (const [i, { row }] of resolved.entries()) {
+        const donationId = result.donationIds[i];
+        if (donationId === undefined || !row.description?.trim()) continue;
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Encrypting confidential note for donation #${donationId}...`
+        });
         try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
+          noteHashes.set(i, await attachNote(lobbying, noteStore(contract), donationId, row.description));
         } catch (e) {
-          console.error("Error parsing keys:", e);
+          noteErrors.set(i, (e instanceof Error ? e.message : String(e)) || "Unknown error");
         }
       }
       
-      keys.push(recordId);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const recorded = resolved.flatMap(({ row }, i): RecordBlob[] => {
+        const donationId = result.donationIds[i];
+        return donationId === undefined ? [] : [{
+          schemaVersion: RECORD_SCHEMA_VERSION,
+          donationId: Number(donationId),
+          timestamp,
+          activityDate: row.activityDate,
+          reportingPeriod: row.reportingPeriod,
+          filingDate: row.filingDate,
+          category: categoryCode(row.category),
+          status: "pending",
+          noteHash: noteHashes.get(i),
+          // Upload rows without a source column are cited by their place in the file
+          provenance: formProvenance(
+            newRecordData,
+            account,
+            row.source ?? (csv ? `${newRecordData.csvFile}, line ${row.line}` : undefined)
+          )
+        }];
+      });
+      
+      if (recorded.length > 0) {
+        const batchId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        await storeRecordBlob(contract, batchId, { records: recorded });
+        await loadRecords();
+      }
+      
+      const csvResults = { ...newRecordData.csvResults };
+      duplicateLines.forEach(({ line, reason }) => (csvResults[line] = { error: reason }));
+      sent.forEach((row, i) => {
+        const donationId = result.donationIds[i];
+        if (donationId === undefined) return;
+        const noteError = noteErrors.get(i);
+        csvResults[row.line] = noteError
+          ? { donationId: donationId.toString(), error: `note not saved: ${noteError}` }
+          : { donationId: donationId.toString() };
+      });
+      result.failures.forEach(failure => failure.indexes.forEach(i => {
+        csvResults[sent[i].line] = { error: failure.error.message };
+      }));
       
-      await contract.setData(
-        "lobbying_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+      if (result.failures.length > 0) {
+        // Keep only the failed rows in the form so they can be fixed and resubmitted
+        const failed = new Set(result.failures.flatMap(failure => failure.indexes));
+        setNewRecordData({
+          ...newRecordData,
+          batchText: csv
+            ? newRecordData.batchText
+            : sent.filter((_, i) => failed.has(i)).map(row => row.text).join("\n"),
+          csvResults
+        });
+        const reasons = result.failures
+          .map(failure => `lines ${failure.indexes.map(i => sent[i].line).join(", ")}: ${failure.error.message}`)
+          .join("; ");
+        setTransactionStatus({
+          visible: true,
+          status: "error",
+          message: `Recorded ${recorded.length} of ${rows.length} donations. Failed ${reasons}`
+        });
+        setTimeout(() => {
+          setTransactionStatus({ visible: false, status: "pending", message: "" });
+        }, 8000);
+        return;
+      }
       
+      const ranges = result.ranges.map(range => `#${range.firstId}-#${range.lastId}`).join(", ");
+      const skipped = duplicateLines.length > 0 ? `, skipped ${duplicateLines.length} duplicates` : "";
       setTransactionStatus({
         visible: true,
-        status: "success",
-        message: "Encrypted lobbying data submitted securely!"
+        status: noteErrors.size > 0 || skipped ? "error" : "success",
+        message: noteErrors.size > 0
+          ? `Recorded ${recorded.length} encrypted donations (${ranges})${skipped}, but ${noteErrors.size} notes were not saved`
+          : `Recorded ${recorded.length} encrypted donations (${ranges})${skipped}`
       });
       
-      await loadRecords();
+      // Uploads stay open so the per-row results can be checked
+      if (csv) {
+        setNewRecordData({ ...newRecordData, csvResults });
+        setTimeout(() => {
+          setTransactionStatus({ visible: false, status: "pending", message: "" });
+        }, 2000);
+        return;
+      }
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRecordData({
-          company: "",
-          amount: "",
-          recipient: "",
-          category: "",
-          description: ""
-        });
+        setNewRecordData(emptyRecordData);
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const errorMessage = message.includes("user rejected transaction")
         ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
+        : "Batch submission failed: " + (message || "Unknown error");
       
       setTransactionStatus({
         visible: true,
@@ -276,21 +820,8 @@ const App: React.FC = () => {
         throw new Error("Failed to get contract with signer");
       }
       
-      const recordBytes = await contract.getData(`lobbying_${recordId}`);
-      if (recordBytes.length === 0) {
-        throw new Error("Record not found");
-      }
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      
-      const updatedRecord = {
-        ...recordData,
-        status: "verified"
-      };
-      
-      await contract.setData(
-        `lobbying_${recordId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedRecord))
+      await replaceRecord(contract, recordId, current =>
+        assertRecordBlob({ ...(current as RecordBlob), status: "verified" })
       );
       
       setTransactionStatus({
@@ -304,11 +835,86 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-    } catch (e: any) {
+    } catch (e) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Verification failed: " + ((e instanceof Error ? e.message : String(e)) || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Quarantined records can be repaired or tombstoned by the deployer
+  const isAdmin = account !== "" && account.toLowerCase() === config.deployer.toLowerCase();
+
+  const repairRecord = async (recordId: string, text: string) => {
+    const contract = await getContractWithSigner();
+    if (!contract) {
+      throw new Error("Failed to get contract with signer");
+    }
+    
+    const { key, index } = splitRecordId(recordId);
+    if (index === undefined) {
+      // A whole blob may be repaired into a single record or a batch
+      const check = readRecordBlob(key, text);
+      if (check.quarantined.length > 0) {
+        throw new Error(`${check.quarantined[0].recordId}: ${check.quarantined[0].reason}`);
+      }
+      await contract.setData(`lobbying_${key}`, ethers.toUtf8Bytes(JSON.stringify(JSON.parse(text))));
+    } else {
+      await replaceRecord(contract, recordId, () => assertRecordBlob(JSON.parse(text)));
+    }
+    await loadRecords();
+  };
+
+  const tombstoneQuarantined = async (recordId: string, reason: string) => {
+    const contract = await getContractWithSigner();
+    if (!contract) {
+      throw new Error("Failed to get contract with signer");
+    }
+    await replaceRecord(contract, recordId, () => tombstoneRecord(reason, account));
+    await loadRecords();
+  };
+
+  const requestDecryption = async (donationId: number | string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    const tracker = decryptionTracker.current;
+    if (!tracker) {
+      alert("LobbyingAnalysisFHE is not configured");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting decryption from the FHE oracle..."
+    });
+
+    try {
+      const lobbying = await getLobbyingClient();
+      const entry = await tracker.request(lobbying, BigInt(donationId));
+      
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `Decryption requested (request ${entry.requestId})`
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Verification failed: " + (e.message || "Unknown error")
+        message: "Decryption request failed: " + ((e instanceof Error ? e.message : String(e)) || "Unknown error")
       });
       
       setTimeout(() => {
@@ -317,45 +923,194 @@ const App: React.FC = () => {
     }
   };
 
+  // The signed session is reused until it expires or the account changes
+  const userSession = async (instance: FhevmInstance, lobbying: LobbyingClient) => {
+    if (!provider || !account) {
+      throw new Error("Please connect wallet first");
+    }
+    let session = decryptionSession.current;
+    if (!session || !session.isValidFor(account, lobbying.address)) {
+      session = await UserDecryptionSession.open(instance, await provider.getSigner(), [lobbying.address]);
+      decryptionSession.current = session;
+    }
+    return session;
+  };
+  
+  // Connection weights are decrypted privately; analysts get access through grantConnectionAccess
+  const revealInfluenceGraph = async () => {
+    if (!provider || !account) {
+      throw new Error("Please connect wallet first");
+    }
+    
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const instance = await getFhevmInstance(chainId);
+    const lobbying = await getLobbyingClient(instance);
+    return buildInfluenceGraph(lobbying, await userSession(instance, lobbying));
+  };
+  
+  // Analysts are granted ACL access on first use
+  const openDecryptionSession = async (donationId: number) => {
+    if (!provider || !account) {
+      throw new Error("Please connect wallet first");
+    }
+    
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const instance = await getFhevmInstance(chainId);
+    const lobbying = await getLobbyingClient(instance);
+    
+    if (!(await lobbying.hasDonationAccess(donationId, account))) {
+      if (!(await lobbying.isAnalyst(account))) {
+        throw new Error("Only the contributor or an authorized analyst can reveal this record");
+      }
+      await lobbying.grantDonationAccess(donationId);
+    }
+    
+    return { lobbying, session: await userSession(instance, lobbying) };
+  };
+  
+  // Period salts are user-decrypted once and kept until the account or contract changes
+  const commitDonations = async (instance: FhevmInstance, lobbying: LobbyingClient, donations: DonationFields[]) => {
+    if (!account) {
+      throw new Error("Please connect wallet first");
+    }
+    const key = `${account}:${lobbying.address}`.toLowerCase();
+    if (commitmentSalts.current?.key !== key) {
+      // Checked here, before any salt is requested, so the error names the missing role
+      if (!(await lobbying.isSubmitter(account))) {
+        throw new Error("Only accounts the contract owner has made submitters can read the commitment salts that recording needs");
+      }
+      const salts = new CommitmentSalts(lobbying, account, async handle => {
+        const session = await userSession(instance, lobbying);
+        const results = await session.decrypt([{ handle, contractAddress: lobbying.address }]);
+        const salt = results[handle] ?? results[handle.toLowerCase()];
+        if (salt === undefined) {
+          throw new Error(`No cleartext returned for handle ${handle}`);
+        }
+        return BigInt(salt);
+      });
+      commitmentSalts.current = { key, salts };
+    }
+    
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Checking for duplicate submissions..."
+    });
+    const committed = await commitmentSalts.current.salts.commit(donations);
+    return { committed, duplicates: await findDuplicates(lobbying, committed) };
+  };
+
+  // Private reveal: re-encrypts the donation for the viewer's keypair and decrypts it in the browser
+  const revealRecord = async (record: LobbyingRecord): Promise<RevealedDonation> => {
+    if (record.donationId === undefined) {
+      throw new Error("This record has no encrypted donation");
+    }
+
+    const { lobbying, session } = await openDecryptionSession(record.donationId);
+    const donation = await revealDonation(lobbying, session, record.donationId);
+    // Kept for this session only, so the table and charts include what this viewer may see
+    setRevealed(current => ({ ...current, [record.donationId!]: donation }));
+    return donation;
+  };
+
+  // Notes are keyed by the same ACL as the donation, so the same access check applies
+  const revealNote = async (record: LobbyingRecord): Promise<string> => {
+    if (record.donationId === undefined || !record.noteHash) {
+      throw new Error("This record has no confidential note");
+    }
+    const contract = await getContractReadOnly();
+    if (!contract) {
+      throw new Error("Failed to get contract");
+    }
+    
+    const { lobbying, session } = await openDecryptionSession(record.donationId);
+    return readNote(lobbying, session, noteStore(contract), record.donationId);
+  };
+
   const showRecordDetails = (record: LobbyingRecord) => {
-    setSelectedRecord(record);
+    setSelectedRecordId(record.id);
     setShowDetailsModal(true);
   };
 
+  // Where the records in view came from, so a total can be traced back to its filings; amounts are left out
+  const exportSources = () => {
+    const rows: ProvenanceRow[] = filteredRecords.map(record => ({
+      recordId: record.id,
+      donationId: record.donationId,
+      period: formatPeriod(record.reportingPeriod),
+      company: record.company,
+      recipient: record.recipient,
+      category: taxonomy.nameOf(record.category),
+      source: record.provenance?.source ?? "",
+      documentId: record.provenance?.documentId ?? "",
+      documentHash: record.provenance?.documentHash ?? "",
+      contributor: record.provenance?.contributor ?? ""
+    }));
+    const url = URL.createObjectURL(new Blob([provenanceCsv(rows)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `lobbying-sources-${formatDay(Math.floor(Date.now() / 1000))}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const renderBarChart = () => {
-    // Group by category and calculate total amount
-    const categoryMap = new Map();
+    // Categories roll up to their sector, or to the children of the category opened in the chart
+    const parent = chartCategory ? taxonomy.get(chartCategory) : undefined;
+    const depth = parent ? taxonomy.depth(parent.code) + 1 : 0;
+    const categoryMap = new Map<string, { label: string; drillDown?: string; amount: bigint }>();
     records.forEach(record => {
-      const current = categoryMap.get(record.category) || 0;
-      categoryMap.set(record.category, current + record.amount);
+      if (record.amountCents === undefined) return;
+      if (parent && !taxonomy.isWithin(record.category, parent.code)) return;
+      const node = taxonomy.rollUp(record.category, depth);
+      const key = node?.code ?? record.category;
+      const current = categoryMap.get(key) ?? {
+        label: !node ? record.category : node === parent ? `${node.name} (general)` : node.name,
+        drillDown: node && node !== parent && taxonomy.children(node.code).length > 0 ? node.code : undefined,
+        amount: 0n
+      };
+      categoryMap.set(key, { ...current, amount: current.amount + record.amountCents });
     });
     
-    const categories = Array.from(categoryMap.keys());
-    const maxAmount = Math.max(...Array.from(categoryMap.values()));
+    const categories = Array.from(categoryMap.entries());
+    const maxAmount = categories.reduce((max, [, { amount }]) => amount > max ? amount : max, 0n);
     
     return (
-      <div className="bar-chart-container">
-        {categories.map(category => {
-          const amount = categoryMap.get(category);
-          const height = (amount / maxAmount) * 100;
-          
-          return (
-            <div key={category} className="bar-chart-item">
-              <div className="bar-label">{category}</div>
-              <div className="bar-wrapper">
-                <div 
-                  className="bar-fill" 
-                  style={{ height: `${height}%` }}
-                ></div>
+      <>
+        {parent && (
+          <button className="cyber-button" onClick={() => setChartCategory(parent.parent)}>
+            ← {parent.parent ? taxonomy.nameOf(parent.parent) : "All sectors"}
+          </button>
+        )}
+        <div className="bar-chart-container">
+          {categories.map(([key, { label, drillDown, amount }]) => {
+            const height = maxAmount > 0n ? (Number(amount) / Number(maxAmount)) * 100 : 0;
+            
+            return (
+              <div 
+                key={key} 
+                className={`bar-chart-item ${drillDown ? "drillable" : ""}`}
+                onClick={drillDown ? () => setChartCategory(drillDown) : undefined}
+                title={drillDown ? `Break ${label} down` : undefined}
+              >
+                <div className="bar-label">{label}</div>
+                <div className="bar-wrapper">
+                  <div 
+                    className="bar-fill" 
+                    style={{ height: `${height}%` }}
+                  ></div>
+                </div>
+                <div className="bar-value">{formatCents(amount)}</div>
               </div>
-              <div className="bar-value">${amount.toLocaleString()}</div>
-            </div>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
+      </>
     );
   };
 
+  const encryptedValue = <span className="encrypted-value">Encrypted</span>;
+
   if (loading) return (
     <div className="loading-screen">
       <div className="cyber-spinner"></div>
@@ -425,11 +1180,11 @@ const App: React.FC = () => {
               <h3>Data Statistics</h3>
               <div className="stats-grid">
                 <div className="stat-item">
-                  <div className="stat-value">${totalAmount.toLocaleString()}</div>
-                  <div className="stat-label">Total Amount</div>
+                  <div className="stat-value">{formatCents(totalAmount)}</div>
+                  <div className="stat-label">Revealed Amount ({revealedCount} of {records.length})</div>
                 </div>
                 <div className="stat-item">
-                  <div className="stat-value">${verifiedAmount.toLocaleString()}</div>
+                  <div className="stat-value">{formatCents(verifiedAmount)}</div>
                   <div className="stat-label">Verified Amount</div>
                 </div>
                 <div className="stat-item">
@@ -446,7 +1201,7 @@ const App: React.FC = () => {
           
           <div className="panel-right">
             <div className="panel-section cyber-card">
-              <h3>Lobbying by Category</h3>
+              <h3>Lobbying by {chartCategory ? taxonomy.nameOf(chartCategory) : "Sector"}</h3>
               {records.length > 0 ? (
                 renderBarChart()
               ) : (
@@ -454,6 +1209,44 @@ const App: React.FC = () => {
               )}
             </div>
             
+            <div className="panel-section cyber-card">
+              <h3>Lobbying Over Time</h3>
+              <TimeSeriesPanel records={records} revealed={revealed} />
+            </div>
+            
+            <div className="panel-section cyber-card">
+              <h3>Threshold Alerts</h3>
+              <AlertsPanel />
+            </div>
+            
+            <div className="panel-section cyber-card">
+              <h3>Lobbying Concentration</h3>
+              <ConcentrationPanel />
+            </div>
+            
+            <div className="panel-section cyber-card">
+              <h3>Influence Scores</h3>
+              <InfluencePanel revealGraph={revealInfluenceGraph} />
+            </div>
+            
+            <div className="panel-section cyber-card">
+              <h3>Decryption Requests</h3>
+              <DecryptionRequests
+                entries={decryptions}
+                onRerequest={requestDecryption}
+                onClearSettled={() => decryptionTracker.current?.clearSettled()}
+              />
+            </div>
+            
+            <div className="panel-section cyber-card">
+              <h3>Entity Review</h3>
+              <EntityReview
+                entities={entities}
+                rules={resolutionRules}
+                onChange={updateResolutionRules}
+              />
+            </div>
+            
             <div className="panel-section cyber-card">
               <h3>Search & Filter</h3>
               <div className="search-filter">
@@ -470,13 +1263,37 @@ const App: React.FC = () => {
                   className="cyber-select"
                 >
                   <option value="all">All Categories</option>
-                  <option value="Technology">Technology</option>
-                  <option value="Finance">Finance</option>
-                  <option value="Healthcare">Healthcare</option>
-                  <option value="Energy">Energy</option>
-                  <option value="Other">Other</option>
+                  {categoryOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
                 </select>
               </div>
+              <div className="search-filter period-filter">
+                <select
+                  value={selectedPeriod}
+                  onChange={(e) => setSelectedPeriod(e.target.value)}
+                  className="cyber-select"
+                >
+                  <option value="all">All Periods</option>
+                  {periods.map(([key, period]) => (
+                    <option key={key} value={key}>{formatPeriod(period)}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="cyber-input"
+                  title="Activity from"
+                />
+                <input
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="cyber-input"
+                  title="Activity until"
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -485,6 +1302,13 @@ const App: React.FC = () => {
           <div className="section-header">
             <h2>Encrypted Lobbying Records</h2>
             <div className="header-actions">
+              <button 
+                onClick={exportSources}
+                className="cyber-button"
+                disabled={filteredRecords.length === 0}
+              >
+                Export Sources
+              </button>
               <button 
                 onClick={loadRecords}
                 className="refresh-btn cyber-button"
@@ -502,6 +1326,7 @@ const App: React.FC = () => {
               <div className="header-cell">Recipient</div>
               <div className="header-cell">Category</div>
               <div className="header-cell">Date</div>
+              <div className="header-cell">Period</div>
               <div className="header-cell">Status</div>
               <div className="header-cell">Actions</div>
             </div>
@@ -520,13 +1345,12 @@ const App: React.FC = () => {
             ) : (
               filteredRecords.map(record => (
                 <div className="record-row" key={record.id}>
-                  <div className="table-cell">{record.company}</div>
-                  <div className="table-cell">${record.amount.toLocaleString()}</div>
-                  <div className="table-cell">{record.recipient}</div>
-                  <div className="table-cell">{record.category}</div>
-                  <div className="table-cell">
-                    {new Date(record.timestamp * 1000).toLocaleDateString()}
-                  </div>
+                  <div className="table-cell">{record.company ?? encryptedValue}</div>
+                  <div className="table-cell">{record.amountCents !== undefined ? formatCents(record.amountCents) : encryptedValue}</div>
+                  <div className="table-cell">{record.recipient ?? encryptedValue}</div>
+                  <div className="table-cell">{taxonomy.nameOf(record.category)}</div>
+                  <div className="table-cell">{formatDay(record.activityDate)}</div>
+                  <div className="table-cell">{formatPeriod(record.reportingPeriod)}</div>
                   <div className="table-cell">
                     <span className={`status-badge ${record.status}`}>
                       {record.status}
@@ -547,17 +1371,40 @@ const App: React.FC = () => {
                         Verify
                       </button>
                     )}
+                    {record.donationId !== undefined && !decryptions.some(d =>
+                      d.donationId === String(record.donationId) && d.status !== "timed_out"
+                    ) && (
+                      <button 
+                        className="action-btn cyber-button"
+                        onClick={() => requestDecryption(record.donationId!)}
+                      >
+                        Decrypt
+                      </button>
+                    )}
                   </div>
                 </div>
               ))
             )}
           </div>
+          
+          {quarantined.length > 0 && (
+            <div className="panel-section cyber-card">
+              <h3>Quarantined Records ({quarantined.length})</h3>
+              <p>These records failed schema validation and are left out of the table and statistics.</p>
+              <QuarantineList
+                entries={quarantined}
+                isAdmin={isAdmin}
+                onRepair={repairRecord}
+                onTombstone={tombstoneQuarantined}
+              />
+            </div>
+          )}
         </div>
       </div>
   
       {showCreateModal && (
         <ModalCreate 
-          onSubmit={submitRecord} 
+          onSubmit={newRecordData.mode === "single" ? submitRecord : submitBatch} 
           onClose={() => setShowCreateModal(false)} 
           creating={creating}
           recordData={newRecordData}
@@ -568,6 +1415,9 @@ const App: React.FC = () => {
       {showDetailsModal && selectedRecord && (
         <ModalDetails
           record={selectedRecord}
+          publiclyRevealed={selectedRecord.donationId !== undefined && publiclyRevealed.has(selectedRecord.donationId)}
+          onReveal={revealRecord}
+          onRevealNote={revealNote}
           onClose={() => setShowDetailsModal(false)}
         />
       )}
@@ -649,15 +1499,96 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  const batch = recordData.mode === "batch" ? parseBatchRows(recordData.batchText) : null;
+  const table = recordData.mode === "csv" && recordData.csvText ? parseDelimited(recordData.csvText) : null;
+  const upload = table ? mapCsvRows(table, recordData.csvMapping, recordData.csvHeader) : null;
+  const unmapped = table ? missingColumns(recordData.csvMapping) : [];
+  const results: Record<number, CsvRowResult> = recordData.csvResults;
+  const pendingRows = upload ? upload.rows.filter(row => results[row.line]?.donationId === undefined) : [];
+
+  const loadUpload = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    const first = parseDelimited(text).rows[0]?.cells;
+    // A first row that names known columns and holds no amount is taken as the header
+    const header = first !== undefined
+      && Object.keys(guessColumnMapping(first)).length > 0
+      && !first.some(cell => { try { dollarsToCents(cell); return true; } catch { return false; } });
+    setRecordData({
+      ...recordData,
+      csvText: text,
+      csvFile: file.name,
+      sourceFile: "",
+      sourceHash: "",
+      csvHeader: header,
+      csvMapping: guessColumnMapping(header ? first : undefined),
+      csvResults: {}
+    });
+  };
+
+  // The document is hashed in the browser; only the hash is stored
+  const loadSourceFile = async (file: File | undefined) => {
+    setRecordData({
+      ...recordData,
+      sourceFile: file?.name ?? "",
+      sourceHash: file ? documentHash(new Uint8Array(await file.arrayBuffer())) : ""
+    });
+  };
+
+  const setHeader = (csvHeader: boolean) => setRecordData({
+    ...recordData,
+    csvHeader,
+    csvMapping: guessColumnMapping(csvHeader ? table?.rows[0]?.cells : undefined)
+  });
+
+  const mapColumn = (field: string, value: string) => {
+    const csvMapping: ColumnMapping = { ...recordData.csvMapping };
+    if (value === "") delete csvMapping[field as keyof ColumnMapping];
+    else csvMapping[field as keyof ColumnMapping] = Number(value);
+    setRecordData({ ...recordData, csvMapping });
+  };
+
   const handleSubmit = () => {
+    if (batch) {
+      onSubmit();
+      return;
+    }
+    
+    if (recordData.mode === "csv") {
+      if (!table) {
+        alert("Choose a CSV or TSV file");
+      } else if (unmapped.length > 0) {
+        alert(`Map a column to ${unmapped.join(", ")}`);
+      } else {
+        onSubmit();
+      }
+      return;
+    }
+    
     if (!recordData.company || !recordData.amount || !recordData.recipient || !recordData.category) {
       alert("Please fill required fields");
       return;
     }
     
+    try {
+      dollarsToCents(recordData.amount);
+      formDates(recordData);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    
     onSubmit();
   };
 
+  const donorPreview = recordData.company.trim() ? resolveName(recordData.company, "company") : null;
+  const entityPreview = recordData.recipient.trim() ? resolveName(recordData.recipient, "recipient") : null;
+  const renderIdPreview = (preview: ResolvedName | null) => preview && (
+    <div className={`id-preview ${preview.published ? "published" : "unpublished"}`}>
+      ID {preview.id} · {preview.name}{!preview.published && " · not in published dictionary"}
+    </div>
+  );
+
   return (
     <div className="modal-overlay">
       <div className="create-modal cyber-card">
@@ -671,6 +1602,119 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             <div className="key-icon"></div> Your lobbying data will be encrypted with FHE
           </div>
           
+          <div className="mode-toggle">
+            <button
+              className={`cyber-button ${recordData.mode === "single" ? "primary" : ""}`}
+              onClick={() => setRecordData({ ...recordData, mode: "single" })}
+            >
+              Single record
+            </button>
+            <button
+              className={`cyber-button ${recordData.mode === "batch" ? "primary" : ""}`}
+              onClick={() => setRecordData({ ...recordData, mode: "batch" })}
+            >
+              Batch
+            </button>
+            <button
+              className={`cyber-button ${recordData.mode === "csv" ? "primary" : ""}`}
+              onClick={() => setRecordData({ ...recordData, mode: "csv" })}
+            >
+              CSV upload
+            </button>
+          </div>
+          
+          {recordData.mode === "csv" ? (
+          <div className="form-group full-width">
+            <label>CSV or TSV file</label>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={(e) => loadUpload(e.target.files?.[0])}
+              className="cyber-input"
+            />
+            {table && (
+            <>
+              <label className="csv-header-toggle">
+                <input
+                  type="checkbox"
+                  checked={recordData.csvHeader}
+                  onChange={(e) => setHeader(e.target.checked)}
+                />
+                First row is a header
+              </label>
+              
+              <div className="csv-mapping">
+                {CSV_FIELDS.map(field => (
+                  <div className="form-group" key={field}>
+                    <label>{field}{REQUIRED_CSV_FIELDS.includes(field) && " *"}</label>
+                    <select
+                      value={recordData.csvMapping[field] ?? ""}
+                      onChange={(e) => mapColumn(field, e.target.value)}
+                      className="cyber-select"
+                    >
+                      <option value="">Not mapped</option>
+                      {(table.rows[0]?.cells ?? []).map((cell, i) => (
+                        <option key={i} value={i}>
+                          {recordData.csvHeader ? cell || `Column ${i + 1}` : `Column ${i + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {unmapped.length > 0 && (
+                <div className="batch-error">Map a column to {unmapped.join(", ")}</div>
+              )}
+              
+              <div className="csv-preview">
+                <table>
+                  <tbody>
+                    {table.rows.slice(0, (recordData.csvHeader ? 1 : 0) + 5).map((row, r) => (
+                      <tr key={row.line} className={recordData.csvHeader && r === 0 ? "csv-header-row" : ""}>
+                        {row.cells.map((cell, i) => <td key={i}>{cell}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              
+              <div className="batch-summary">
+                {recordData.csvFile}: {upload!.rows.length} valid row{upload!.rows.length === 1 ? "" : "s"}
+                {upload!.errors.length > 0 && `, ${upload!.errors.length} with errors (skipped)`}
+                {upload!.rows.length > pendingRows.length && `, ${upload!.rows.length - pendingRows.length} recorded`}
+              </div>
+              {upload!.errors.map(error => (
+                <div className="batch-error" key={error.line}>Line {error.line}: {error.message}</div>
+              ))}
+              {Object.entries(results).map(([line, result]) => (
+                <div className={result.error ? "batch-error" : "batch-result"} key={line}>
+                  Line {line}: {result.donationId !== undefined ? `recorded as donation #${result.donationId}` : "failed"}
+                  {result.error && `, ${result.error}`}
+                </div>
+              ))}
+            </>
+            )}
+          </div>
+          ) : batch ? (
+          <div className="form-group full-width">
+            <label>Donations (one per line: company, amount, recipient, category)</label>
+            <textarea
+              name="batchText"
+              value={recordData.batchText}
+              onChange={handleChange}
+              placeholder={"Acme Corp, 25000, Sen. Smith, Technology\nGlobex\t1,200.50\tRep. Jones\tEnergy"}
+              className="cyber-textarea batch-input"
+              rows={10}
+            />
+            <div className="batch-summary">
+              {batch.rows.length} valid row{batch.rows.length === 1 ? "" : "s"}
+              {batch.errors.length > 0 && `, ${batch.errors.length} with errors`}
+            </div>
+            {batch.errors.map(error => (
+              <div className="batch-error" key={error.line}>Line {error.line}: {error.message}</div>
+            ))}
+          </div>
+          ) : (
           <div className="form-grid">
             <div className="form-group">
               <label>Company *</label>
@@ -682,6 +1726,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 placeholder="Company name" 
                 className="cyber-input"
               />
+              {renderIdPreview(donorPreview)}
             </div>
             
             <div className="form-group">
@@ -689,6 +1734,8 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               <input 
                 type="number"
                 name="amount"
+                min="0"
+                step="0.01"
                 value={recordData.amount} 
                 onChange={handleChange}
                 placeholder="Amount" 
@@ -706,6 +1753,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 placeholder="Recipient name" 
                 className="cyber-input"
               />
+              {renderIdPreview(entityPreview)}
             </div>
             
             <div className="form-group">
@@ -717,14 +1765,46 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 className="cyber-select"
               >
                 <option value="">Select category</option>
-                <option value="Technology">Technology</option>
-                <option value="Finance">Finance</option>
-                <option value="Healthcare">Healthcare</option>
-                <option value="Energy">Energy</option>
-                <option value="Other">Other</option>
+                {categoryOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
               </select>
             </div>
             
+            <div className="form-group">
+              <label>Activity date</label>
+              <input 
+                type="date"
+                name="activityDate"
+                value={recordData.activityDate} 
+                onChange={handleChange}
+                className="cyber-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Reporting period</label>
+              <input 
+                type="text"
+                name="period"
+                value={recordData.period} 
+                onChange={handleChange}
+                placeholder="e.g. 2024 Q1" 
+                className="cyber-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Filing date</label>
+              <input 
+                type="date"
+                name="filingDate"
+                value={recordData.filingDate} 
+                onChange={handleChange}
+                className="cyber-input"
+              />
+            </div>
+            
             <div className="form-group full-width">
               <label>Description</label>
               <textarea 
@@ -737,6 +1817,47 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               />
             </div>
           </div>
+          )}
+          
+          <div className="form-grid source-fields">
+            <div className="form-group">
+              <label>Contributing organization</label>
+              <input 
+                type="text"
+                name="contributor"
+                value={recordData.contributor} 
+                onChange={handleChange}
+                placeholder="Defaults to your address" 
+                className="cyber-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Source document</label>
+              <input 
+                type="text"
+                name="sourceDocument"
+                value={recordData.sourceDocument} 
+                onChange={handleChange}
+                placeholder={recordData.mode === "csv" ? "Filing ID or URL (unless a column has one)" : "Filing ID or URL"} 
+                className="cyber-input"
+              />
+            </div>
+            
+            {recordData.mode !== "csv" && (
+            <div className="form-group full-width">
+              <label>Source file (hashed, not uploaded)</label>
+              <input
+                type="file"
+                onChange={(e) => loadSourceFile(e.target.files?.[0])}
+                className="cyber-input"
+              />
+              {recordData.sourceHash && (
+                <div className="id-preview published">{recordData.sourceFile} · {recordData.sourceHash}</div>
+              )}
+            </div>
+            )}
+          </div>
           
           <div className="privacy-notice">
             <div className="privacy-icon"></div> Data remains encrypted during FHE processing
@@ -755,7 +1876,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             disabled={creating}
             className="submit-btn cyber-button primary"
           >
-            {creating ? "Encrypting with FHE..." : "Submit Securely"}
+            {creating
+              ? "Encrypting with FHE..."
+              : batch ? `Submit ${batch.rows.length} Securely`
+              : recordData.mode === "csv" ? `Submit ${pendingRows.length} Securely`
+              : "Submit Securely"}
           </button>
         </div>
       </div>
@@ -764,11 +1889,50 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
 };
 
 interface ModalDetailsProps {
+  /** Carries the company, amount and recipient once its donation is revealed. */
   record: LobbyingRecord;
+  /** Revealed by the oracle rather than privately to this viewer. */
+  publiclyRevealed: boolean;
+  onReveal: (record: LobbyingRecord) => Promise<RevealedDonation>;
+  onRevealNote: (record: LobbyingRecord) => Promise<string>;
   onClose: () => void;
 }
 
-const ModalDetails: React.FC<ModalDetailsProps> = ({ record, onClose }) => {
+const ModalDetails: React.FC<ModalDetailsProps> = ({ record, publiclyRevealed, onReveal, onRevealNote, onClose }) => {
+  const [revealing, setRevealing] = useState(false);
+  const [revealError, setRevealError] = useState("");
+  const [note, setNote] = useState<string | null>(null);
+  const [noteRevealing, setNoteRevealing] = useState(false);
+  const isEncrypted = record.donationId !== undefined;
+  const revealed = record.amountCents !== undefined;
+  const provenance = record.provenance;
+
+  const handleReveal = async () => {
+    setRevealing(true);
+    setRevealError("");
+    try {
+      await onReveal(record);
+    } catch (e) {
+      setRevealError((e instanceof Error ? e.message : String(e)) || "Reveal failed");
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  const handleRevealNote = async () => {
+    setNoteRevealing(true);
+    setRevealError("");
+    try {
+      setNote(await onRevealNote(record));
+    } catch (e) {
+      setRevealError((e instanceof Error ? e.message : String(e)) || "Note decryption failed");
+    } finally {
+      setNoteRevealing(false);
+    }
+  };
+
+  const encryptedValue = <span className="encrypted-value">Encrypted</span>;
+
   return (
     <div className="modal-overlay">
       <div className="details-modal cyber-card">
@@ -783,39 +1947,120 @@ const ModalDetails: React.FC<ModalDetailsProps> = ({ record, onClose }) => {
               <label>Record ID</label>
               <span>{record.id}</span>
             </div>
+            {isEncrypted && (
+              <div className="detail-item">
+                <label>Donation ID</label>
+                <span>#{record.donationId}</span>
+              </div>
+            )}
             <div className="detail-item">
               <label>Company</label>
-              <span>{record.company}</span>
+              {record.company !== undefined ? <span>{record.company}</span> : encryptedValue}
             </div>
             <div className="detail-item">
               <label>Amount</label>
-              <span>${record.amount.toLocaleString()}</span>
+              {record.amountCents !== undefined ? <span>{formatCents(record.amountCents)}</span> : encryptedValue}
             </div>
             <div className="detail-item">
               <label>Recipient</label>
-              <span>{record.recipient}</span>
+              {record.recipient !== undefined ? <span>{record.recipient}</span> : encryptedValue}
             </div>
             <div className="detail-item">
               <label>Category</label>
-              <span>{record.category}</span>
+              <span>{taxonomy.path(categoryCode(record.category)).map(node => node.name).join(" › ") || record.category}</span>
+            </div>
+            <div className="detail-item">
+              <label>Activity date</label>
+              <span>{formatDay(record.activityDate)}</span>
+            </div>
+            <div className="detail-item">
+              <label>Reporting period</label>
+              <span>{formatPeriod(record.reportingPeriod)}</span>
+            </div>
+            <div className="detail-item">
+              <label>Filed</label>
+              <span>{record.filingDate !== undefined ? formatDay(record.filingDate) : "Unknown"}</span>
             </div>
             <div className="detail-item">
-              <label>Date</label>
+              <label>Submitted</label>
               <span>{new Date(record.timestamp * 1000).toLocaleString()}</span>
             </div>
             <div className="detail-item">
               <label>Status</label>
               <span className={`status-badge ${record.status}`}>{record.status}</span>
             </div>
+            <div className="detail-item">
+              <label>Source</label>
+              <span>{provenance ? SOURCE_LABELS[provenance.source] : "Not recorded"}</span>
+            </div>
+            {provenance?.documentId && (
+              <div className="detail-item">
+                <label>Source document</label>
+                <span className="document-id">
+                  {/^https?:\/\//.test(provenance.documentId)
+                    ? <a href={provenance.documentId} target="_blank" rel="noopener noreferrer">{provenance.documentId}</a>
+                    : provenance.documentId}
+                </span>
+              </div>
+            )}
+            {provenance?.documentHash && (
+              <div className="detail-item">
+                <label>Document hash</label>
+                <span className="document-id">{provenance.documentHash}</span>
+              </div>
+            )}
+            {provenance?.contributor && (
+              <div className="detail-item">
+                <label>Contributor</label>
+                <span>{provenance.contributor}</span>
+              </div>
+            )}
           </div>
           
+          {record.noteHash && (
+            <div className="confidential-note">
+              <label>Confidential note</label>
+              {note !== null ? <p>{note}</p> : encryptedValue}
+            </div>
+          )}
+          
           <div className="encryption-notice">
             <div className="lock-icon"></div>
-            <p>This data is encrypted using FHE technology. Actual content is only accessible through FHE computations.</p>
+            {isEncrypted ? (
+              <p>
+                {publiclyRevealed
+                  ? "Publicly decrypted on-chain by the decryption oracle."
+                  : revealed
+                  ? "Decrypted locally with your private key. Nothing was published on-chain."
+                  : "Only the contributor and authorized analysts can reveal this record. Decryption happens in your browser after you sign a request."}
+              </p>
+            ) : (
+              <p>This legacy record was stored without FHE encryption.</p>
+            )}
           </div>
+          
+          {revealError && <div className="reveal-error">{revealError}</div>}
         </div>
         
         <div className="modal-footer">
+          {isEncrypted && !revealed && (
+            <button 
+              onClick={handleReveal}
+              disabled={revealing}
+              className="cyber-button primary"
+            >
+              {revealing ? "Decrypting..." : "Reveal Privately"}
+            </button>
+          )}
+          {isEncrypted && record.noteHash && note === null && (
+            <button 
+              onClick={handleRevealNote}
+              disabled={noteRevealing}
+              className="cyber-button"
+            >
+              {noteRevealing ? "Decrypting..." : "Decrypt Note"}
+            </button>
+          )}
           <button 
             onClick={onClose}
             className="close-btn cyber-button"
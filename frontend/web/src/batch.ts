@@ -0,0 +1,227 @@
+// batch.ts
+import { dollarsToCents } from "../../../src/money";
+import { parsePeriod, type ReportingPeriod } from "../../../src/records";
+
+export interface BatchRow {
+  line: number;
+  text: string;
+  company: string;
+  amountCents: bigint;
+  recipient: string;
+  category: string;
+  description?: string;
+  /** When the donation happened (unix seconds), if the upload has a date column. */
+  activityDate?: number;
+  reportingPeriod?: ReportingPeriod;
+  /** When the disclosure was filed (unix seconds). */
+  filingDate?: number;
+  /** Filing ID or URL the row was taken from. */
+  source?: string;
+}
+
+export interface BatchRowError {
+  line: number;
+  text: string;
+  message: string;
+}
+
+// One donation per line: company, amount, recipient, category. Tab separated (pasted from a
+// spreadsheet) or comma separated; amounts with thousands separators need tabs.
+export function parseBatchRows(text: string): { rows: BatchRow[]; errors: BatchRowError[] } {
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+
+    const cells = (trimmed.includes("\t") ? trimmed.split("\t") : trimmed.split(",")).map(cell => cell.trim());
+    if (cells.length !== 4 || cells.some(cell => !cell)) {
+      errors.push({ line, text: trimmed, message: "Expected company, amount, recipient, category" });
+      return;
+    }
+
+    const [company, amount, recipient, category] = cells;
+    try {
+      rows.push({ line, text: trimmed, company, amountCents: dollarsToCents(amount), recipient, category });
+    } catch (e) {
+      errors.push({ line, text: trimmed, message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+  return { rows, errors };
+}
+
+// "date" is when the donation happened, "filed" when it was disclosed, "source" the filing it came from
+export const CSV_FIELDS = ["company", "amount", "recipient", "category", "description", "date", "period", "filed", "source"] as const;
+export type CsvField = typeof CSV_FIELDS[number];
+export const REQUIRED_CSV_FIELDS: CsvField[] = ["company", "amount", "recipient", "category"];
+
+/** Column index for each field; unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+export interface CsvRow {
+  /** Line the row starts on; quoted cells can span lines. */
+  line: number;
+  cells: string[];
+}
+
+export interface CsvTable {
+  delimiter: string;
+  rows: CsvRow[];
+}
+
+// Header spellings seen in LDA, FEC and hand-made spreadsheets
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  company: ["company", "client", "donor", "employer", "organization", "contributor"],
+  amount: ["amount", "income", "contribution", "total", "value"],
+  recipient: ["recipient", "registrant", "committee", "candidate", "beneficiary"],
+  category: ["category", "issue", "sector", "industry"],
+  description: ["description", "notes", "memo", "details"],
+  date: ["date", "activitydate", "transactiondate", "contributiondate"],
+  period: ["period", "reportingperiod", "filingperiod", "quarter"],
+  filed: ["filed", "filingdate", "datefiled", "dateposted", "posted", "received"],
+  source: ["source", "sourceurl", "url", "link", "filingid", "documentid", "filinguuid", "subid"]
+};
+
+// Tabs when pasted from a spreadsheet, otherwise whichever of , and ; the first line uses more
+const detectDelimiter = (text: string) => {
+  const first = text.split(/\r?\n/).find(line => line.trim()) ?? "";
+  if (first.includes("\t")) return "\t";
+  return (first.match(/;/g)?.length ?? 0) > (first.match(/,/g)?.length ?? 0) ? ";" : ",";
+};
+
+/** Splits CSV or TSV text into rows of trimmed cells, honouring quoted cells ("a, b", "say ""hi"""). */
+export function parseDelimited(text: string): CsvTable {
+  const delimiter = detectDelimiter(text);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRow = () => {
+    cells.push(cell.trim());
+    if (cells.some(value => value)) rows.push({ line: start, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+      start = ++line;
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return { delimiter, rows };
+}
+
+/** Maps header cells to fields by name; without a header the paste order (company, amount, recipient, category) is assumed. */
+export function guessColumnMapping(header: string[] | undefined): ColumnMapping {
+  if (!header) return { company: 0, amount: 1, recipient: 2, category: 3 };
+
+  const mapping: ColumnMapping = {};
+  const keys = header.map(cell => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  // Exact names first, so "Date Filed" goes to filed before "date" claims it as a prefix
+  for (const matches of [(key: string, alias: string) => key === alias, (key: string, alias: string) => key.startsWith(alias)]) {
+    for (const field of CSV_FIELDS) {
+      if (mapping[field] !== undefined) continue;
+      const index = keys.findIndex((key, i) =>
+        !Object.values(mapping).includes(i) && HEADER_ALIASES[field].some(alias => matches(key, alias))
+      );
+      if (index >= 0) mapping[field] = index;
+    }
+  }
+  return mapping;
+}
+
+export function missingColumns(mapping: ColumnMapping): CsvField[] {
+  return REQUIRED_CSV_FIELDS.filter(field => mapping[field] === undefined);
+}
+
+// ISO dates (2024-03-15) or US dates (3/15/2024) as UTC midnight
+export function parseCsvDate(value: string): number {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]].map(Number)
+    : us ? [us[3], us[1], us[2]].map(Number) : [NaN, NaN, NaN];
+  const time = Date.UTC(year, month - 1, day);
+  // Date.UTC rolls 2/30 over into March and month 13 into the next year
+  const parsed = new Date(time);
+  if (Number.isNaN(time) || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    throw new Error(`"${value}" is not a date (use YYYY-MM-DD or MM/DD/YYYY)`);
+  }
+  if (time > Date.now()) {
+    throw new Error(`${value} is in the future`);
+  }
+  return time / 1000;
+}
+
+/** Validates every data row of an uploaded table against the column mapping. */
+export function mapCsvRows(
+  table: CsvTable,
+  mapping: ColumnMapping,
+  hasHeader: boolean
+): { rows: BatchRow[]; errors: BatchRowError[] } {
+  const rows: BatchRow[] = [];
+  const errors: BatchRowError[] = [];
+
+  for (const { line, cells } of table.rows.slice(hasHeader ? 1 : 0)) {
+    const text = cells.join(table.delimiter === "\t" ? "\t" : `${table.delimiter} `);
+    const cell = (field: CsvField) => (mapping[field] === undefined ? "" : cells[mapping[field]!] ?? "");
+    const missing = REQUIRED_CSV_FIELDS.filter(field => !cell(field));
+    if (missing.length > 0) {
+      errors.push({ line, text, message: `Missing ${missing.join(", ")}` });
+      continue;
+    }
+
+    try {
+      const activityDate = cell("date") ? parseCsvDate(cell("date")) : undefined;
+      const filingDate = cell("filed") ? parseCsvDate(cell("filed")) : undefined;
+      if (activityDate !== undefined && filingDate !== undefined && filingDate < activityDate) {
+        throw new Error("Filed before the donation date");
+      }
+      rows.push({
+        line,
+        text,
+        company: cell("company"),
+        amountCents: dollarsToCents(cell("amount")),
+        recipient: cell("recipient"),
+        category: cell("category"),
+        description: cell("description") || undefined,
+        activityDate,
+        reportingPeriod: cell("period") ? parsePeriod(cell("period")) : undefined,
+        filingDate,
+        source: cell("source") || undefined
+      });
+    } catch (e) {
+      errors.push({ line, text, message: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return { rows, errors };
+}
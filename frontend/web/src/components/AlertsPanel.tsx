@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { flaggedAlerts, loadThresholdAlerts } from '../../../../src/alerts';
+import type { AlertThresholds, ThresholdAlert } from '../../../../src/client';
+import { formatCents } from '../../../../src/money';
+import { getLobbyingClientReadOnly } from '../contract';
+import { displayName } from '../dictionary';
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+const formatLimit = (cents: bigint) => (cents === 0n ? 'not set' : formatCents(cents));
+
+// Totals are checked with the lobbying:alerts task; the app only reads the decrypted over/under bits
+export default function AlertsPanel() {
+  const [thresholds, setThresholds] = useState<AlertThresholds>();
+  const [flagged, setFlagged] = useState<ThresholdAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    const reader = getLobbyingClientReadOnly();
+    if (!reader) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError('');
+    try {
+      const [limits, alerts] = await Promise.all([reader.getAlertThresholds(), loadThresholdAlerts(reader)]);
+      setThresholds(limits);
+      setFlagged(flaggedAlerts(alerts));
+    } catch (e) {
+      console.error('Error loading threshold alerts:', e);
+      setError('Could not load threshold alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  if (loading) return <div className="no-data">Loading...</div>;
+  if (error) return <div className="no-data">{error}</div>;
+  if (!thresholds) return <div className="no-data">Contract not configured</div>;
+
+  return (
+    <div className="alerts-panel">
+      <div className="alerts-header">
+        <span className="entity-meta">
+          Donor limit {formatLimit(thresholds.donor)} · Recipient limit {formatLimit(thresholds.entity)}
+        </span>
+        <button className="cyber-button" onClick={load}>Refresh</button>
+      </div>
+
+      {flagged.length === 0 ? (
+        <div className="no-data">No watched donor or recipient over its limit</div>
+      ) : (
+        <ul className="alerts-list">
+          {flagged.map(alert => (
+            <li key={`${alert.kind}:${alert.id}`} className="alerts-row">
+              <span className="alerts-kind">{alert.kind === 'company' ? 'Donor' : 'Recipient'}</span>
+              <span>{displayName(alert.id, `#${alert.id}`)}</span>
+              <span className="alerts-time" title={`Last checked ${formatTime(alert.checkedAt)}`}>
+                over {formatCents(alert.threshold)}, flagged {formatTime(alert.flaggedAt ?? alert.checkedAt)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="entity-meta">
+        Watched totals count every recorded donation, revealed or not. Only whether a total is over its limit is decrypted; the totals stay encrypted. "Flagged" is the first check that found a total over; it crossed the limit some time after the check before.
+      </div>
+    </div>
+  );
+}
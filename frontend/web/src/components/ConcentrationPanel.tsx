@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import {
+  concentrationLevel,
+  concentrationSeries,
+  HHI_SCALE,
+  loadConcentrations,
+  type ConcentrationSeries
+} from '../../../../src/concentration';
+import { formatPeriod } from '../../../../src/records';
+import { getLobbyingClientReadOnly } from '../contract';
+import { displayName } from '../dictionary';
+import { taxonomy } from '../taxonomy';
+
+const LEVEL_LABELS = {
+  unconcentrated: 'Unconcentrated',
+  moderate: 'Moderately concentrated',
+  high: 'Highly concentrated'
+};
+
+const marketName = ({ entityId, category }: ConcentrationSeries) =>
+  [
+    entityId !== undefined && displayName(entityId, `#${entityId}`),
+    category && taxonomy.nameOf(category)
+  ].filter(Boolean).join(' · ');
+
+// Indexes are computed and decrypted with the lobbying:concentration task; the app only reads them
+export default function ConcentrationPanel() {
+  const [series, setSeries] = useState<ConcentrationSeries[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    const reader = getLobbyingClientReadOnly();
+    if (!reader) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError('');
+    try {
+      setSeries(concentrationSeries(await loadConcentrations(reader)));
+    } catch (e) {
+      console.error('Error loading concentration indexes:', e);
+      setError('Could not load concentration indexes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  if (loading) return <div className="no-data">Loading...</div>;
+  if (error) return <div className="no-data">{error}</div>;
+  if (series.length === 0) return <div className="no-data">No concentration index decrypted yet</div>;
+
+  const market = series[Math.min(selected, series.length - 1)];
+  const latest = market.points[market.points.length - 1];
+
+  return (
+    <div className="concentration-panel">
+      <div className="concentration-header">
+        <select
+          className="cyber-select"
+          value={selected}
+          onChange={(e) => setSelected(Number(e.target.value))}
+        >
+          {series.map((s, i) => (
+            <option key={i} value={i}>{marketName(s)}</option>
+          ))}
+        </select>
+        <button className="cyber-button" onClick={load}>Refresh</button>
+      </div>
+
+      <div className={`concentration-latest ${concentrationLevel(latest.index)}`}>
+        HHI {latest.index} in {formatPeriod(latest.period)}: {LEVEL_LABELS[concentrationLevel(latest.index)]}
+      </div>
+
+      <div className="bar-chart-container">
+        {market.points.map(({ period, index, donationCount }) => (
+          <div
+            key={formatPeriod(period)}
+            className="bar-chart-item"
+            title={`${donationCount} donations`}
+          >
+            <div className="bar-label">{formatPeriod(period)}</div>
+            <div className="bar-wrapper">
+              <div
+                className={`bar-fill concentration-${concentrationLevel(index)}`}
+                style={{ height: `${(index / HHI_SCALE) * 100}%` }}
+              ></div>
+            </div>
+            <div className="bar-value">{index}</div>
+          </div>
+        ))}
+      </div>
+      <div className="entity-meta">
+        Only the index is decrypted; donor shares stay encrypted. Above 1800 is highly concentrated, 1000-1800 moderately.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { TrackedDecryption } from '../../../../src/decryption';
+
+interface DecryptionRequestsProps {
+  entries: TrackedDecryption[];
+  onRerequest: (donationId: string) => void;
+  onClearSettled: () => void;
+}
+
+const formatElapsed = (entry: TrackedDecryption) => {
+  const end = entry.fulfilledAt ?? Date.now();
+  const seconds = Math.max(0, Math.round((end - entry.requestedAt) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export default function DecryptionRequests({ entries, onRerequest, onClearSettled }: DecryptionRequestsProps) {
+  if (entries.length === 0) {
+    return <div className="no-data">No decryption requests</div>;
+  }
+
+  return (
+    <div className="decryption-requests">
+      {entries.map(entry => (
+        <div className="decryption-row" key={entry.requestId}>
+          <div className="decryption-ids">
+            <span>Donation #{entry.donationId}</span>
+            <span className="decryption-request-id">Request {entry.requestId}</span>
+          </div>
+          <span className={`status-badge ${entry.status}`}>
+            {entry.status.replace('_', ' ')}
+          </span>
+          <span className="decryption-elapsed">{formatElapsed(entry)}</span>
+          {entry.status === 'timed_out' && (
+            <button
+              className="action-btn cyber-button"
+              onClick={() => onRerequest(entry.donationId)}
+            >
+              Re-request
+            </button>
+          )}
+        </div>
+      ))}
+      <button className="action-btn cyber-button" onClick={onClearSettled}>
+        Clear fulfilled
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import type { EntityKind } from '../../../../src/dictionary';
+import {
+  addDistinct,
+  addMerge,
+  addSplit,
+  type MergeSuggestion,
+  type ResolutionRules,
+  type ResolvedEntity
+} from '../../../../src/resolution';
+
+interface EntityReviewProps {
+  entities: { company: ResolvedEntity[]; recipient: ResolvedEntity[]; suggestions: MergeSuggestion[] };
+  rules: ResolutionRules;
+  onChange: (rules: ResolutionRules) => void;
+}
+
+// Saved rules can be published as dictionary aliases with dictionary:publish --resolution
+const exportRules = (rules: ResolutionRules) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(rules, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'resolution-rules.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function EntityReview({ entities, rules, onChange }: EntityReviewProps) {
+  const [kind, setKind] = useState<EntityKind>('company');
+  const [mergeFrom, setMergeFrom] = useState('');
+  const [mergeInto, setMergeInto] = useState('');
+
+  const list = entities[kind];
+  const suggestions = entities.suggestions.filter(s => s.a.kind === kind);
+  const clusters = list.filter(entity => entity.variants.length > 1);
+  const merges = rules.merges.filter(rule => rule.kind === kind);
+  const splits = rules.splits.filter(rule => rule.kind === kind);
+
+  const apply = (update: () => ResolutionRules) => {
+    try {
+      onChange(update());
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+  // Suggestions list the entity with more records first, so merging b into a keeps the more common name
+  const merge = (from: ResolvedEntity, into: ResolvedEntity) =>
+    apply(() => addMerge(rules, kind, from.name, into.name));
+  const mergeSelected = () => {
+    const from = list.find(entity => entity.key === mergeFrom);
+    const into = list.find(entity => entity.key === mergeInto);
+    if (from && into && from !== into) merge(from, into);
+    setMergeFrom('');
+    setMergeInto('');
+  };
+
+  return (
+    <div className="entity-review">
+      <div className="mode-toggle">
+        {(['company', 'recipient'] as const).map(k => (
+          <button
+            key={k}
+            className={`cyber-button ${kind === k ? 'primary' : ''}`}
+            onClick={() => setKind(k)}
+          >
+            {k === 'company' ? 'Companies' : 'Recipients'} ({entities[k].length})
+          </button>
+        ))}
+      </div>
+
+      <h4>Possible duplicates</h4>
+      {suggestions.length === 0 ? (
+        <div className="no-data">No similar names</div>
+      ) : suggestions.map(({ a, b, score }) => (
+        <div className="entity-row" key={`${a.key}|${b.key}`}>
+          <div className="entity-names">
+            <span>{a.name} ↔ {b.name}</span>
+            <span className="entity-meta">{Math.round(score * 100)}% similar · {a.count} / {b.count} records</span>
+          </div>
+          <button className="action-btn cyber-button success" onClick={() => merge(b, a)}>Merge</button>
+          <button
+            className="action-btn cyber-button"
+            onClick={() => apply(() => addDistinct(rules, kind, a.name, b.name))}
+          >
+            Distinct
+          </button>
+        </div>
+      ))}
+
+      <h4>Merged spellings</h4>
+      {clusters.length === 0 ? (
+        <div className="no-data">Every entity has a single spelling</div>
+      ) : clusters.map(entity => (
+        <div className="entity-cluster" key={entity.key}>
+          <div className="entity-names">
+            <span>{entity.name}</span>
+            <span className="entity-meta">
+              ID {entity.id}{!entity.published && ' · unpublished'} · {entity.count} records
+            </span>
+          </div>
+          <div className="entity-variants">
+            {entity.variants.map(variant => (
+              <span className="entity-variant" key={variant}>
+                {variant}
+                <button
+                  className="entity-split"
+                  title="Treat this spelling as a separate entity"
+                  onClick={() => apply(() => addSplit(rules, kind, variant))}
+                >
+                  &times;
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <h4>Manual merge</h4>
+      <div className="entity-merge">
+        <select className="cyber-select" value={mergeFrom} onChange={e => setMergeFrom(e.target.value)}>
+          <option value="">Merge…</option>
+          {list.map(entity => <option key={entity.key} value={entity.key}>{entity.name}</option>)}
+        </select>
+        <select className="cyber-select" value={mergeInto} onChange={e => setMergeInto(e.target.value)}>
+          <option value="">…into</option>
+          {list.map(entity => <option key={entity.key} value={entity.key}>{entity.name}</option>)}
+        </select>
+        <button
+          className="action-btn cyber-button"
+          disabled={!mergeFrom || !mergeInto || mergeFrom === mergeInto}
+          onClick={mergeSelected}
+        >
+          Merge
+        </button>
+      </div>
+
+      {(merges.length > 0 || splits.length > 0) && (
+        <>
+          <h4>Review decisions</h4>
+          {merges.map(rule => (
+            <div className="entity-row" key={`merge|${rule.from}`}>
+              <span className="entity-names">{rule.from} → {rule.into}</span>
+              <button
+                className="action-btn cyber-button"
+                onClick={() => onChange({ ...rules, merges: rules.merges.filter(r => r !== rule) })}
+              >
+                Undo
+              </button>
+            </div>
+          ))}
+          {splits.map(rule => (
+            <div className="entity-row" key={`split|${rule.name}`}>
+              <span className="entity-names">{rule.name} kept separate</span>
+              <button
+                className="action-btn cyber-button"
+                onClick={() => onChange({ ...rules, splits: rules.splits.filter(r => r !== rule) })}
+              >
+                Undo
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+
+      <button className="action-btn cyber-button" onClick={() => exportRules(rules)}>
+        Export rules
+      </button>
+    </div>
+  );
+}
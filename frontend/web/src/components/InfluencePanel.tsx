@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import type { ConnectionPair } from '../../../../src/client';
+import {
+  CENTRALITY_MEASURES,
+  centrality,
+  rankInfluence,
+  type CentralityMeasure,
+  type InfluenceGraph,
+  type NodeCentrality
+} from '../../../../src/graph';
+import { formatCents } from '../../../../src/money';
+import { dictionary } from '../dictionary';
+
+interface InfluencePanelProps {
+  // Privately decrypts the connection weights the account may read, see buildInfluenceGraph
+  revealGraph: () => Promise<{ graph: InfluenceGraph; hidden: ConnectionPair[] }>;
+  top?: number;
+}
+
+const MEASURE_LABELS: Record<CentralityMeasure, string> = {
+  weightedDegree: 'Amount',
+  pageRank: 'PageRank',
+  betweenness: 'Betweenness',
+  eigenvector: 'Eigenvector'
+};
+
+const formatScore = (node: NodeCentrality, measure: CentralityMeasure) =>
+  measure === 'weightedDegree' ? formatCents(node.weightedDegree) : node[measure].toFixed(4);
+
+const exportRanking = (json: string) => {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'influence.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Scores the graph of analyzed connection weights, which count every donation between a pair whether or
+// not it was revealed; connections the account has no access to are left out
+export default function InfluencePanel({ revealGraph, top = 5 }: InfluencePanelProps) {
+  const [measure, setMeasure] = useState<CentralityMeasure>('pageRank');
+  const [revealed, setRevealed] = useState<{ graph: InfluenceGraph; hidden: ConnectionPair[] }>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const reveal = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setRevealed(await revealGraph());
+    } catch (e) {
+      console.error('Error decrypting the influence graph:', e);
+      setError(e instanceof Error ? e.message : 'Could not decrypt the influence graph');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const scores = useMemo(() => (revealed ? centrality(revealed.graph) : []), [revealed]);
+  const ranking = rankInfluence(scores, measure, top);
+  const named = (nodes: NodeCentrality[]) => nodes.map(node => ({ ...node, name: dictionary.nameOf(node.id) ?? null }));
+  // The export ranks every node, not just the top ones shown
+  const exportJson = () => {
+    const full = rankInfluence(scores, measure);
+    exportRanking(JSON.stringify(
+      { measure, companies: named(full.companies), recipients: named(full.recipients) },
+      (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2
+    ));
+  };
+
+  if (loading) return <div className="no-data">Decrypting connection weights...</div>;
+  if (!revealed) {
+    return (
+      <div className="influence-panel">
+        {error && <div className="no-data">{error}</div>}
+        <button className="cyber-button primary" onClick={reveal}>Decrypt influence graph</button>
+      </div>
+    );
+  }
+  if (scores.length === 0) {
+    return <div className="no-data">No analyzed connections with money that you can decrypt</div>;
+  }
+
+  return (
+    <div className="influence-panel">
+      <div className="mode-toggle">
+        {CENTRALITY_MEASURES.map(m => (
+          <button
+            key={m}
+            className={`cyber-button ${measure === m ? 'primary' : ''}`}
+            onClick={() => setMeasure(m)}
+          >
+            {MEASURE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {([['Most influential companies', ranking.companies], ['Most targeted recipients', ranking.recipients]] as const).map(([title, nodes]) => (
+        <div key={title}>
+          <h4>{title}</h4>
+          <ol className="influence-list">
+            {named(nodes).map(node => (
+              <li key={node.id} className="influence-row">
+                <span>{node.name ?? `#${node.id}`}</span>
+                <span className="influence-score">{formatScore(node, measure)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+
+      <div className="influence-footer">
+        {revealed.hidden.length > 0 && (
+          <span className="entity-meta">{revealed.hidden.length} connections you have no access to are left out</span>
+        )}
+        <button className="cyber-button" onClick={reveal}>Refresh</button>
+        <button className="cyber-button" onClick={exportJson}>Export JSON</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import type { QuarantinedRecord } from '../../../../src/records';
+
+interface QuarantineListProps {
+  entries: QuarantinedRecord[];
+  isAdmin: boolean;
+  onRepair: (recordId: string, text: string) => Promise<void>;
+  onTombstone: (recordId: string, reason: string) => Promise<void>;
+}
+
+const rawText = (raw: unknown) => (typeof raw === 'string' ? raw : JSON.stringify(raw, null, 2));
+
+export default function QuarantineList({ entries, isAdmin, onRepair, onTombstone }: QuarantineListProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setEditing(null);
+    } catch (e) {
+      setError((e instanceof Error ? e.message : String(e)) || 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tombstone = (recordId: string) => {
+    const reason = window.prompt(`Reason for removing ${recordId}`);
+    if (reason?.trim()) run(() => onTombstone(recordId, reason));
+  };
+
+  return (
+    <div className="quarantine-list">
+      {entries.map(entry => (
+        <div className="quarantine-row" key={entry.recordId}>
+          <div className="quarantine-summary">
+            <span className="quarantine-id">{entry.recordId}</span>
+            <span className="quarantine-reason">{entry.reason}</span>
+            {isAdmin && (
+              <div className="quarantine-actions">
+                <button
+                  className="action-btn cyber-button"
+                  disabled={busy}
+                  onClick={() => {
+                    setEditing(entry.recordId);
+                    setDraft(rawText(entry.raw));
+                    setError('');
+                  }}
+                >
+                  Repair
+                </button>
+                <button
+                  className="action-btn cyber-button danger"
+                  disabled={busy}
+                  onClick={() => tombstone(entry.recordId)}
+                >
+                  Tombstone
+                </button>
+              </div>
+            )}
+          </div>
+          {editing === entry.recordId ? (
+            <div className="quarantine-editor">
+              <textarea
+                className="cyber-textarea batch-input"
+                rows={8}
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+              />
+              {error && <div className="batch-error">{error}</div>}
+              <div className="quarantine-actions">
+                <button className="action-btn cyber-button" onClick={() => setEditing(null)}>
+                  Cancel
+                </button>
+                <button
+                  className="action-btn cyber-button primary"
+                  disabled={busy}
+                  onClick={() => run(() => onRepair(entry.recordId, draft))}
+                >
+                  {busy ? 'Saving...' : 'Save repaired record'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <pre className="quarantine-raw">{rawText(entry.raw)}</pre>
+          )}
+        </div>
+      ))}
+      {!editing && error && <div className="batch-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+  type ChartDataset,
+  type ChartOptions
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import type { RevealedDonation } from '../../../../src/decryption';
+import type { ReportingPeriod } from '../../../../src/records';
+import { formatCents } from '../../../../src/money';
+import {
+  bucketLabel,
+  buildTimeSeries,
+  movingAverage,
+  yearOverYear,
+  type Granularity
+} from '../../../../src/timeseries';
+import { taxonomy } from '../taxonomy';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface TimeSeriesRecord {
+  donationId?: number;
+  activityDate: number;
+  reportingPeriod: ReportingPeriod;
+  company?: string;
+  recipient?: string;
+  category: string;
+  status: string;
+}
+
+interface TimeSeriesPanelProps {
+  records: TimeSeriesRecord[];
+  /** Donations revealed publicly by the oracle or decrypted for this viewer, by donation ID. */
+  revealed: Record<number, RevealedDonation>;
+  top?: number;
+}
+
+type Dimension = 'category' | 'donor' | 'recipient';
+type View = 'totals' | 'yoy';
+
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  category: 'Sector',
+  donor: 'Donor',
+  recipient: 'Recipient'
+};
+
+const COLORS = ['#00ccff', '#ff0066', '#00ff00', '#ffa500', '#6600ff', '#ffffff'];
+
+// Moving averages span a quarter of a year of months, or a year of quarters
+const AVERAGE_WINDOW: Record<Granularity, number> = { month: 3, quarter: 4 };
+
+const seriesOf = (record: TimeSeriesRecord, dimension: Dimension) => {
+  if (dimension === 'donor') return record.company ?? 'Unknown';
+  if (dimension === 'recipient') return record.recipient ?? 'Unknown';
+  return taxonomy.rollUp(record.category)?.name ?? record.category;
+};
+
+const formatDollars = (cents: number) => formatCents(BigInt(Math.round(cents)));
+
+// Charts only decrypted amounts: donations the oracle revealed (getDecryptedDonation) or the viewer
+// user-decrypted. Records without a revealed donation, legacy plaintext blobs included, are left out.
+export default function TimeSeriesPanel({ records, revealed, top = 5 }: TimeSeriesPanelProps) {
+  const [granularity, setGranularity] = useState<Granularity>('quarter');
+  const [dimension, setDimension] = useState<Dimension>('category');
+  const [view, setView] = useState<View>('totals');
+  const [showAverage, setShowAverage] = useState(false);
+  const [range, setRange] = useState<{ from: number; to: number }>();
+  const [anchor, setAnchor] = useState<number>();
+
+  const charted = records.filter(record => record.status !== 'rejected');
+  const table = useMemo(() => buildTimeSeries(
+    charted.flatMap(record => {
+      const donation = record.donationId === undefined ? undefined : revealed[record.donationId];
+      return donation ? [{
+        series: seriesOf(record, dimension),
+        activityDate: record.activityDate,
+        reportingPeriod: record.reportingPeriod,
+        amount: donation.amount
+      }] : [];
+    }),
+    granularity,
+    top
+  ), [records, revealed, dimension, granularity, top]);
+  const revealedCount = charted.filter(record => record.donationId !== undefined && revealed[record.donationId]).length;
+
+  if (table.buckets.length === 0) {
+    return <div className="no-data">No revealed donations to chart</div>;
+  }
+
+  // Buckets are positions in the table; averages and comparisons look back past the range, so cut last
+  const last = table.buckets.length - 1;
+  const from = Math.min(range?.from ?? 0, last);
+  const to = Math.min(range?.to ?? last, last);
+  const cut = <T,>(values: T[]) => values.slice(from, to + 1);
+  const zoomed = from > 0 || to < last;
+
+  const all = table.others ? [...table.series, table.others] : table.series;
+  const datasets = all.flatMap((entry, i): ChartDataset<'line', (number | null)[]>[] => {
+    const color = COLORS[i % COLORS.length];
+    if (view === 'yoy') {
+      return [{
+        label: entry.series,
+        data: cut(yearOverYear(entry.values, granularity)),
+        borderColor: color,
+        backgroundColor: color,
+        spanGaps: true
+      }];
+    }
+    const totals = {
+      label: entry.series,
+      data: cut(entry.values.map(Number)),
+      borderColor: color,
+      backgroundColor: color
+    };
+    if (!showAverage) return [totals];
+    return [totals, {
+      label: `${entry.series} (avg)`,
+      data: cut(movingAverage(entry.values, AVERAGE_WINDOW[granularity])),
+      borderColor: color,
+      backgroundColor: color,
+      borderDash: [6, 4],
+      pointRadius: 0
+    }];
+  });
+
+  // Clicking two points zooms to the buckets between them
+  const selectPoint = (index: number) => {
+    const position = from + index;
+    if (anchor === undefined) {
+      setAnchor(position);
+      return;
+    }
+    if (position !== anchor) {
+      setRange({ from: Math.min(anchor, position), to: Math.max(anchor, position) });
+    }
+    setAnchor(undefined);
+  };
+
+  const resetZoom = () => {
+    setRange(undefined);
+    setAnchor(undefined);
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    interaction: { mode: 'index', intersect: false },
+    onClick: (_, elements) => {
+      if (elements.length > 0) selectPoint(elements[0].index);
+    },
+    plugins: {
+      legend: { labels: { color: '#ffffff', boxWidth: 12 } },
+      tooltip: {
+        callbacks: {
+          label: ({ dataset, parsed }) => parsed.y === null
+            ? `${dataset.label}: -`
+            : `${dataset.label}: ${view === 'yoy' ? `${parsed.y.toFixed(1)}%` : formatDollars(parsed.y)}`
+        }
+      }
+    },
+    scales: {
+      x: { ticks: { color: '#ffffff' }, grid: { color: 'rgba(0, 204, 255, 0.1)' } },
+      y: {
+        ticks: {
+          color: '#ffffff',
+          callback: value => (view === 'yoy' ? `${value}%` : formatDollars(Number(value)))
+        },
+        grid: { color: 'rgba(0, 204, 255, 0.1)' }
+      }
+    }
+  };
+
+  const changeGranularity = (next: Granularity) => {
+    setGranularity(next);
+    resetZoom();
+  };
+
+  return (
+    <div className="timeseries-panel">
+      <div className="mode-toggle">
+        {(['month', 'quarter'] as const).map(g => (
+          <button
+            key={g}
+            className={`cyber-button ${granularity === g ? 'primary' : ''}`}
+            onClick={() => changeGranularity(g)}
+          >
+            {g === 'month' ? 'Monthly' : 'Quarterly'}
+          </button>
+        ))}
+        {(Object.keys(DIMENSION_LABELS) as Dimension[]).map(d => (
+          <button
+            key={d}
+            className={`cyber-button ${dimension === d ? 'primary' : ''}`}
+            onClick={() => setDimension(d)}
+          >
+            {DIMENSION_LABELS[d]}
+          </button>
+        ))}
+      </div>
+
+      <div className="timeseries-controls">
+        <select className="cyber-select" value={view} onChange={e => setView(e.target.value as View)}>
+          <option value="totals">Totals</option>
+          <option value="yoy">Year over year</option>
+        </select>
+        <label className="timeseries-average">
+          <input
+            type="checkbox"
+            checked={showAverage}
+            disabled={view === 'yoy'}
+            onChange={e => setShowAverage(e.target.checked)}
+          />
+          Moving average
+        </label>
+      </div>
+
+      <div className="timeseries-controls">
+        <select
+          className="cyber-select"
+          value={from}
+          onChange={e => setRange({ from: Number(e.target.value), to: Math.max(to, Number(e.target.value)) })}
+        >
+          {table.buckets.map((bucket, i) => (
+            <option key={bucket} value={i}>{bucketLabel(bucket, granularity)}</option>
+          ))}
+        </select>
+        <select
+          className="cyber-select"
+          value={to}
+          onChange={e => setRange({ from: Math.min(from, Number(e.target.value)), to: Number(e.target.value) })}
+        >
+          {table.buckets.map((bucket, i) => (
+            <option key={bucket} value={i}>{bucketLabel(bucket, granularity)}</option>
+          ))}
+        </select>
+        <button className="cyber-button" onClick={resetZoom} disabled={!zoomed && anchor === undefined}>
+          Reset zoom
+        </button>
+      </div>
+
+      <Line data={{ labels: cut(table.buckets).map(b => bucketLabel(b, granularity)), datasets }} options={options} />
+
+      <div className="entity-meta">
+        Charting {revealedCount} of {charted.length} records whose donation is revealed or decrypted for you.{' '}
+        {anchor !== undefined
+          ? `From ${bucketLabel(table.buckets[anchor], granularity)}: click another point to zoom`
+          : `Click two points to zoom. ${view === 'yoy'
+            ? 'Change from the same period a year earlier, blank where there is nothing to compare.'
+            : `Moving averages cover ${AVERAGE_WINDOW[granularity]} ${granularity === 'month' ? 'months' : 'quarters'}.`}`}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { LobbyingClient, type FhevmEncryptor } from "../../../src/client";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -81,6 +82,31 @@ export async function getContractWithSigner() {
   }
 }
 
+export function getLobbyingClientReadOnly() {
+  if (!config.lobbyingContractAddress) {
+    return null;
+  }
+  const provider = new ethers.JsonRpcProvider(config.network);
+  return new LobbyingClient(config.lobbyingContractAddress, provider);
+}
+
+export async function getLobbyingClient(fhevm?: FhevmEncryptor) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.lobbyingContractAddress) {
+    throw new Error("LobbyingAnalysisFHE address missing from config.json");
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new LobbyingClient(config.lobbyingContractAddress, signer, fhevm);
+  } catch (error) {
+    console.error("Failed to create LobbyingAnalysisFHE client:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
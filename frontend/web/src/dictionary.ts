@@ -0,0 +1,18 @@
+// dictionary.ts
+import { EntityDictionary, verifyDictionary, type DictionaryFile } from "../../../src/dictionary";
+import dictionaryFile from "./dictionary.json";
+import { config } from "./contract";
+
+// Only dictionaries signed by the deployer are trusted; anything else falls back to an empty one
+const verification = verifyDictionary(dictionaryFile as DictionaryFile, [config.deployer]);
+if (!verification.valid && dictionaryFile.entries.length > 0) {
+  console.error("Ignoring entity dictionary:", verification.reason);
+}
+
+export const dictionary = verification.valid ? verification.dictionary : new EntityDictionary();
+export const dictionaryVersion = verification.valid ? verification.version : 0;
+
+export function displayName(id: number | undefined, fallback: string) {
+  if (id === undefined) return fallback;
+  return dictionary.nameOf(id) ?? fallback;
+}
@@ -0,0 +1,51 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { config } from "./contract";
+
+export const HARDHAT_CHAIN_ID = 31337;
+
+// Gateway verifying contracts used by the @fhevm/hardhat-plugin mock runtime
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+let cachedInstance: { chainId: number; instance: Promise<FhevmInstance> } | null = null;
+
+// The SDK's web build is loaded from the Zama CDN script in index.html; the bundle entry re-exports window.relayerSDK
+const createRelayerInstance = async (): Promise<FhevmInstance> => {
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: config.network });
+};
+
+// Local Hardhat node started with @fhevm/hardhat-plugin: inputs are produced by the mock coprocessor
+const createMockInstance = async (): Promise<FhevmInstance> => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(config.network);
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: HARDHAT_CHAIN_ID,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance as unknown as FhevmInstance;
+};
+
+export function isMockChain(chainId: number) {
+  return chainId === HARDHAT_CHAIN_ID;
+}
+
+export async function getFhevmInstance(chainId: number): Promise<FhevmInstance> {
+  if (!cachedInstance || cachedInstance.chainId !== chainId) {
+    const instance = isMockChain(chainId) ? createMockInstance() : createRelayerInstance();
+    // Drop failed initialisations so the next call can retry
+    instance.catch(() => { cachedInstance = null; });
+    cachedInstance = { chainId, instance };
+  }
+  return cachedInstance.instance;
+}
@@ -0,0 +1,53 @@
+// resolution.ts
+import type { EntityKind } from "../../../src/dictionary";
+import { EntityResolver, emptyRules, parseRules, type ResolutionRules } from "../../../src/resolution";
+import { dictionary } from "./dictionary";
+
+const STORAGE_KEY = "lobbying:resolution-rules";
+
+const loadRules = (): ResolutionRules => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseRules(JSON.parse(stored)) : emptyRules();
+  } catch (e) {
+    console.error("Ignoring stored resolution rules:", e);
+    return emptyRules();
+  }
+};
+
+// One resolver for the statistics, search and new records, so all of them agree on what one entity is
+export const resolver = new EntityResolver(dictionary, loadRules());
+
+export function saveRules(rules: ResolutionRules) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  resolver.setRules(rules);
+}
+
+// Names still encrypted in their donation are not observed until they are revealed
+export function observeRecords(records: { company?: string; recipient?: string }[]) {
+  resolver.clear();
+  for (const record of records) {
+    if (record.company?.trim()) resolver.add(record.company, "company");
+    if (record.recipient?.trim()) resolver.add(record.recipient, "recipient");
+  }
+}
+
+export interface ResolvedName {
+  id: number;
+  name: string;
+  published: boolean;
+}
+
+// Spellings of a known entity take its ID; new ones get the ID they will receive when published
+export function resolveName(name: string, kind: EntityKind): ResolvedName {
+  const { id, name: canonical, published } = resolver.resolve(name, kind);
+  return { id, name: canonical, published };
+}
+
+// Matches the canonical name or any observed spelling of the entity
+export function matchesEntity(name: string, kind: EntityKind, term: string) {
+  if (!name.trim()) return false;
+  const entity = resolver.resolve(name, kind);
+  const needle = term.toLowerCase();
+  return [name, entity.name, ...entity.variants].some(variant => variant.toLowerCase().includes(needle));
+}
@@ -0,0 +1,21 @@
+// taxonomy.ts
+import { loadTaxonomy } from "../../../src/taxonomy";
+import taxonomyFile from "./taxonomy.json";
+
+export const { taxonomy, version: taxonomyVersion } = loadTaxonomy(taxonomyFile);
+
+// <select> options for every node, indented under its parent
+export const categoryOptions = taxonomy.nodes().map(node => ({
+  value: node.code,
+  label: "  ".repeat(taxonomy.depth(node.code)) + node.name
+}));
+
+/** Stored category for user input: the node's code if the taxonomy knows it, the input otherwise. */
+export function categoryCode(category: string) {
+  return taxonomy.find(category)?.code ?? category.trim();
+}
+
+/** A record is in a category if it is filed under it or anything below it. */
+export function inCategory(category: string, selected: string) {
+  return category === selected || taxonomy.isWithin(category, selected);
+}
@@ -1,11 +1,21 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import path from "path";
 
 export default defineConfig({
   plugins: [react()],
   define: {
     'process.env': process.env
   },
+  resolve: {
+    // The shared client in ../../src imports these; resolve them from this app's node_modules
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [path.resolve(__dirname, "../../src"), "."]
+    }
+  },
   esbuild: {
     target: "es2022",
     supported: {
@@ -20,4 +30,4 @@ export default defineConfig({
       }
     }
   }
-});
\ No newline at end of file
+});
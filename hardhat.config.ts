@@ -3,6 +3,12 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/dictionary";
+import "./tasks/fec";
+import "./tasks/lda";
+import "./tasks/lobbying";
+import "./tasks/migrate";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
@@ -0,0 +1,124 @@
+import type { AlertWatch, LobbyingClient, ThresholdAlert } from "../client";
+import type { EntityKind } from "../dictionary";
+
+export const ALERT_KINDS: EntityKind[] = ["company", "recipient"];
+
+/**
+ * Donations added per `updateAlertTotal` transaction. Like a connection
+ * analysis, each one extends the chain of FHE operations on the total, which
+ * the coprocessor caps at 5M HCU.
+ */
+export const ALERT_UPDATE_BATCH = 12;
+
+/** A donor or recipient whose alert total is checked against the threshold. */
+export interface AlertSubject {
+  kind: EntityKind;
+  id: number;
+}
+
+/**
+ * Adds every donation recorded since `watch` was last updated to its alert
+ * total, one transaction per `batchSize` donations. Recording a donation
+ * leaves watched totals alone, so this runs before every check. Returns the
+ * last donation added.
+ */
+export async function updateAlertTotal(
+  client: LobbyingClient,
+  watch: AlertWatch,
+  batchSize = ALERT_UPDATE_BATCH,
+  onProgress?: (countedThrough: bigint, donationCount: bigint) => void,
+): Promise<bigint> {
+  let { countedThrough } = watch;
+  let donationCount = await client.getDonationCount();
+  while (countedThrough < donationCount) {
+    ({ countedThrough, donationCount } = await client.updateAlertTotal(
+      watch.kind,
+      watch.id,
+      batchSize,
+    ));
+    onProgress?.(countedThrough, donationCount);
+  }
+  return countedThrough;
+}
+
+/**
+ * Owner only. Starts keeping an encrypted alert total for `subject` and
+ * adds the donations recorded so far, so it can be checked.
+ */
+export async function watchAlertSubject(
+  client: LobbyingClient,
+  { kind, id }: AlertSubject,
+  onProgress?: (countedThrough: bigint, donationCount: bigint) => void,
+): Promise<AlertWatch> {
+  const watched = async () =>
+    (await client.getAlertWatches()).find(
+      (watch) => watch.kind === kind && watch.id === id,
+    );
+  if (!(await watched())) {
+    await client.setAlertWatch(kind, id, true);
+  }
+  const watch = (await watched())!;
+  const countedThrough = await updateAlertTotal(
+    client,
+    watch,
+    ALERT_UPDATE_BATCH,
+    onProgress,
+  );
+  return { ...watch, countedThrough };
+}
+
+/**
+ * Analysts and the owner only. Requests a threshold check of every watched
+ * alert total of `kinds`,
+ * updating it first; kinds without a threshold are skipped. The
+ * oracle answers each check on its own, so `loadThresholdAlerts` shows them
+ * once it has. Returns the subjects that were checked.
+ */
+export async function checkThresholdAlerts(
+  client: LobbyingClient,
+  kinds: EntityKind[] = ALERT_KINDS,
+  onProgress?: (done: number, total: number) => void,
+): Promise<AlertSubject[]> {
+  const thresholds = await client.getAlertThresholds();
+  const watches = (await client.getAlertWatches()).filter(
+    ({ kind }) =>
+      kinds.includes(kind) &&
+      (kind === "company" ? thresholds.donor : thresholds.entity) !== 0n,
+  );
+  for (const [i, watch] of watches.entries()) {
+    await updateAlertTotal(client, watch);
+    await client.requestAlertCheck(watch.kind, watch.id);
+    onProgress?.(i + 1, watches.length);
+  }
+  return watches.map(({ kind, id }) => ({ kind, id }));
+}
+
+/** The last answered check of every watched alert total that was checked, donors first. */
+export async function loadThresholdAlerts(
+  client: LobbyingClient,
+): Promise<ThresholdAlert[]> {
+  const watches = await client.getAlertWatches();
+  const alerts: ThresholdAlert[] = [];
+  for (const kind of ALERT_KINDS) {
+    const ids = watches
+      .filter((watch) => watch.kind === kind)
+      .map((watch) => watch.id);
+    for (const alert of await Promise.all(
+      ids.map((id) => client.getThresholdAlert(kind, id)),
+    )) {
+      if (alert) alerts.push(alert);
+    }
+  }
+  return alerts;
+}
+
+/** Alerts over their threshold, in the order checks first flagged them. */
+export function flaggedAlerts(alerts: ThresholdAlert[]): ThresholdAlert[] {
+  return alerts
+    .filter((alert) => alert.exceeded)
+    .sort(
+      (a, b) =>
+        (a.flaggedAt ?? a.checkedAt) - (b.flaggedAt ?? b.checkedAt) ||
+        a.id - b.id,
+    );
+}
@@ -0,0 +1,10 @@
+export {
+  ALERT_KINDS,
+  ALERT_UPDATE_BATCH,
+  checkThresholdAlerts,
+  flaggedAlerts,
+  loadThresholdAlerts,
+  updateAlertTotal,
+  watchAlertSubject,
+} from "./alerts";
+export type { AlertSubject } from "./alerts";
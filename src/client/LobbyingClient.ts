@@ -0,0 +1,1101 @@
+import { ethers } from "ethers";
+import type { EntityKind } from "../dictionary";
+import { assertCents } from "../money";
+import { isReportingPeriod, type ReportingPeriod } from "../records";
+import { LOBBYING_ALERTS_ABI, LOBBYING_ANALYSIS_ABI } from "./abi";
+import type {
+  AlertThresholds,
+  AlertWatch,
+  BatchRecordResult,
+  Concentration,
+  ConcentrationMarket,
+  ConnectionPair,
+  DecryptedDonation,
+  DonationDates,
+  DonationInput,
+  EncryptedConnection,
+  EncryptedDonation,
+  EncryptedDonationBatch,
+  EncryptedDonationInput,
+  FhevmEncryptor,
+  LobbyingEventMap,
+  LobbyingEventName,
+  RecordedDonation,
+  ThresholdAlert,
+} from "./types";
+
+const UINT32_MAX = 0xffffffff;
+
+// A category and its ancestors, as enforced by the contract
+const MAX_DONATION_CATEGORIES = 8;
+
+// An input proof covers at most 2048 bits: 64 (amount) + 32 (entity) + 32 (donor) per donation
+export const MAX_DONATIONS_PER_PROOF = 16;
+
+// Emitted by the alerts contract rather than LobbyingAnalysisFHE itself
+const ALERT_EVENTS: ReadonlySet<LobbyingEventName> = new Set([
+  "AlertThresholdsUpdated",
+  "AlertWatchUpdated",
+  "AlertTotalUpdated",
+  "ThresholdAlertChecked",
+]);
+const ALERTS_INTERFACE = new ethers.Interface(LOBBYING_ALERTS_ABI);
+
+/**
+ * Typed wrapper around a deployed LobbyingAnalysisFHE contract.
+ *
+ * Reads only need a provider; writes need a signer, and encrypted writes also
+ * need an FHEVM encryptor (relayer SDK instance in the browser, `hre.fhevm` in
+ * Hardhat scripts).
+ *
+ * Threshold alerts live in the LobbyingAlertsFHE contract the donation
+ * contract deploys; the alert methods and events resolve it on first use.
+ */
+export class LobbyingClient {
+  readonly contract: ethers.Contract;
+  private alertsContract?: Promise<ethers.Contract>;
+  private alertsAddress?: string;
+
+  constructor(
+    readonly address: string,
+    private readonly runner: ethers.ContractRunner,
+    private readonly fhevm?: FhevmEncryptor,
+  ) {
+    this.contract = new ethers.Contract(address, LOBBYING_ANALYSIS_ABI, runner);
+  }
+
+  withEncryptor(fhevm: FhevmEncryptor): LobbyingClient {
+    return new LobbyingClient(this.address, this.runner, fhevm);
+  }
+
+  async encryptDonation(
+    donation: DonationInput,
+  ): Promise<EncryptedDonationInput> {
+    const batch = await this.encryptDonationBatch([donation]);
+    return {
+      amount: batch.amounts[0],
+      entity: batch.entities[0],
+      donor: batch.donors[0],
+      inputProof: batch.inputProof,
+      dates: batch.dates[0],
+      categories: batch.categories[0],
+      commitment: batch.commitments[0],
+    };
+  }
+
+  /** Encrypts up to `MAX_DONATIONS_PER_PROOF` donations under one input proof. */
+  async encryptDonationBatch(
+    donations: DonationInput[],
+  ): Promise<EncryptedDonationBatch> {
+    if (!this.fhevm) {
+      throw new Error(
+        "LobbyingClient: an FHEVM encryptor is required to encrypt inputs",
+      );
+    }
+    if (donations.length === 0 || donations.length > MAX_DONATIONS_PER_PROOF) {
+      throw new Error(
+        `A batch must hold 1 to ${MAX_DONATIONS_PER_PROOF} donations, got ${donations.length}`,
+      );
+    }
+    const validated = donations.map(validateDonation);
+
+    const userAddress = await this.getSigner().getAddress();
+    const input = this.fhevm.createEncryptedInput(this.address, userAddress);
+    for (const donation of validated) {
+      input
+        .add64(donation.amount)
+        .add32(donation.entityId)
+        .add32(donation.donorId);
+    }
+    const { handles, inputProof } = await input.encrypt();
+
+    return {
+      amounts: validated.map((_, i) => handles[3 * i]),
+      entities: validated.map((_, i) => handles[3 * i + 1]),
+      donors: validated.map((_, i) => handles[3 * i + 2]),
+      inputProof,
+      dates: validated.map((donation) => donation.dates),
+      categories: validated.map((donation) => donation.categories),
+      commitments: validated.map((donation) => donation.commitment),
+    };
+  }
+
+  async recordEncryptedDonation(
+    donation: DonationInput | EncryptedDonationInput,
+  ): Promise<RecordedDonation> {
+    const input =
+      "inputProof" in donation
+        ? donation
+        : await this.encryptDonation(donation);
+
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("recordEncryptedDonation")
+      .send(
+        input.amount,
+        input.entity,
+        input.donor,
+        input.inputProof,
+        encodeDates(input.dates),
+        input.categories,
+        input.commitment,
+      );
+    const receipt = await waitForReceipt(tx);
+
+    const [recorded] = this.parseReceipt(receipt, "DonationRecorded");
+    if (!recorded) {
+      throw new Error(
+        `DonationRecorded event missing from transaction ${tx.hash}`,
+      );
+    }
+    return { donationId: recorded.id, receipt };
+  }
+
+  /**
+   * Records many donations, `MAX_DONATIONS_PER_PROOF` per transaction.
+   *
+   * Invalid rows are rejected before anything is sent, and a failed
+   * transaction only fails its own chunk: the result maps every row to its
+   * donation ID or to the error that stopped it, so callers can retry just
+   * the failed rows.
+   */
+  async recordEncryptedDonations(
+    donations: DonationInput[],
+    onProgress?: (recorded: number, total: number) => void,
+  ): Promise<BatchRecordResult> {
+    const result: BatchRecordResult = {
+      donationIds: donations.map(() => undefined),
+      ranges: [],
+      failures: [],
+      receipts: [],
+    };
+
+    const valid: number[] = [];
+    donations.forEach((donation, index) => {
+      try {
+        validateDonation(donation);
+        valid.push(index);
+      } catch (e) {
+        result.failures.push({ indexes: [index], error: e as Error });
+      }
+    });
+
+    let recorded = 0;
+    for (
+      let start = 0;
+      start < valid.length;
+      start += MAX_DONATIONS_PER_PROOF
+    ) {
+      const indexes = valid.slice(start, start + MAX_DONATIONS_PER_PROOF);
+      try {
+        const batch = await this.encryptDonationBatch(
+          indexes.map((index) => donations[index]),
+        );
+        const tx: ethers.ContractTransactionResponse = await this.contract
+          .getFunction("recordEncryptedDonations")
+          .send(
+            batch.amounts,
+            batch.entities,
+            batch.donors,
+            batch.inputProof,
+            batch.dates.map(encodeDates),
+            batch.categories,
+            batch.commitments,
+          );
+        const receipt = await waitForReceipt(tx);
+
+        const [range] = this.parseReceipt(receipt, "DonationBatchRecorded");
+        if (!range) {
+          throw new Error(
+            `DonationBatchRecorded event missing from transaction ${tx.hash}`,
+          );
+        }
+        indexes.forEach((index, offset) => {
+          result.donationIds[index] = range.firstId + BigInt(offset);
+        });
+        result.ranges.push({ firstId: range.firstId, lastId: range.lastId });
+        result.receipts.push(receipt);
+        recorded += indexes.length;
+      } catch (e) {
+        result.failures.push({ indexes, error: e as Error });
+      }
+      onProgress?.(recorded, donations.length);
+    }
+
+    return result;
+  }
+
+  async requestDonationDecryption(
+    donationId: bigint | number,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("requestDonationDecryption")
+      .send(donationId);
+    return waitForReceipt(tx);
+  }
+
+  async requestEntityTotalDecryption(
+    entityId: number,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("requestEntityTotalDecryption")
+      .send(entityId);
+    return waitForReceipt(tx);
+  }
+
+  async requestDonorTotalDecryption(
+    donorId: number,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("requestDonorTotalDecryption")
+      .send(donorId);
+    return waitForReceipt(tx);
+  }
+
+  /**
+   * Commits the hash of a donation's note ciphertext and stores its 256-bit
+   * AES key encrypted, readable by the caller and by analysts granted access
+   * to the donation.
+   */
+  async attachNote(
+    donationId: bigint | number,
+    key: bigint,
+    contentHash: string,
+  ): Promise<ethers.TransactionReceipt> {
+    if (!this.fhevm) {
+      throw new Error(
+        "LobbyingClient: an FHEVM encryptor is required to encrypt inputs",
+      );
+    }
+    const userAddress = await this.getSigner().getAddress();
+    const { handles, inputProof } = await this.fhevm
+      .createEncryptedInput(this.address, userAddress)
+      .add256(key)
+      .encrypt();
+
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("attachNote")
+      .send(donationId, handles[0], inputProof, contentHash);
+    return waitForReceipt(tx);
+  }
+
+  /**
+   * Grants the calling submitter ACL access to the period's commitment salt,
+   * which the contract draws at random the first time any account asks for it.
+   */
+  async grantPeriodSalt({
+    year,
+    quarter,
+  }: ReportingPeriod): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("grantPeriodSalt")
+      .send(year, quarter);
+    return waitForReceipt(tx);
+  }
+
+  /** Returns the bytes32 handle of the period's salt, zero before the first grant. */
+  async getPeriodSalt({ year, quarter }: ReportingPeriod): Promise<string> {
+    return this.contract.getFunction("getPeriodSalt").staticCall(year, quarter);
+  }
+
+  async hasPeriodSaltAccess(
+    { year, quarter }: ReportingPeriod,
+    account: string,
+  ): Promise<boolean> {
+    return this.contract
+      .getFunction("hasPeriodSaltAccess")
+      .staticCall(year, quarter, account);
+  }
+
+  /** Donation recorded with `commitment`, 0 if none. */
+  async getCommitmentDonation(commitment: string): Promise<bigint> {
+    return this.contract
+      .getFunction("commitmentDonations")
+      .staticCall(commitment);
+  }
+
+  async setAnalyst(
+    analyst: string,
+    authorized: boolean,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("setAnalyst")
+      .send(analyst, authorized);
+    return waitForReceipt(tx);
+  }
+
+  /** Lets `submitter` read the commitment salts (owner only). */
+  async setSubmitter(
+    submitter: string,
+    authorized: boolean,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("setSubmitter")
+      .send(submitter, authorized);
+    return waitForReceipt(tx);
+  }
+
+  async isSubmitter(account: string): Promise<boolean> {
+    return this.contract.getFunction("submitters").staticCall(account);
+  }
+
+  /** Grants the calling analyst ACL access to a donation's ciphertexts. */
+  async grantDonationAccess(
+    donationId: bigint | number,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("grantDonationAccess")
+      .send(donationId);
+    return waitForReceipt(tx);
+  }
+
+  async isAnalyst(account: string): Promise<boolean> {
+    return this.contract.getFunction("analysts").staticCall(account);
+  }
+
+  async hasDonationAccess(
+    donationId: bigint | number,
+    account: string,
+  ): Promise<boolean> {
+    return this.contract
+      .getFunction("hasDonationAccess")
+      .staticCall(donationId, account);
+  }
+
+  async getDonationCount(): Promise<bigint> {
+    return this.contract.getFunction("donationCount").staticCall();
+  }
+
+  async getEncryptedDonation(
+    donationId: bigint | number,
+  ): Promise<EncryptedDonation> {
+    const result = await this.contract
+      .getFunction("encryptedDonations")
+      .staticCall(donationId);
+    return {
+      id: result.id,
+      encryptedAmount: result.encryptedAmount,
+      encryptedEntity: result.encryptedEntity,
+      encryptedDonor: result.encryptedDonor,
+      timestamp: result.timestamp,
+    };
+  }
+
+  /** Dates stored with the donation; fields the submitter left out are `undefined`. */
+  async getDonationDates(donationId: bigint | number): Promise<DonationDates> {
+    const result = await this.contract
+      .getFunction("donationDates")
+      .staticCall(donationId);
+    return {
+      activityDate: Number(result.activityDate) || undefined,
+      reportingPeriod:
+        Number(result.reportingQuarter) > 0
+          ? {
+              year: Number(result.reportingYear),
+              quarter: Number(result.reportingQuarter),
+            }
+          : undefined,
+      filingDate: Number(result.filingDate) || undefined,
+    };
+  }
+
+  /** Whether the donation was recorded under the taxonomy code `category`. */
+  async isDonationInCategory(
+    donationId: bigint | number,
+    category: string,
+  ): Promise<boolean> {
+    return this.contract
+      .getFunction("isDonationInCategory")
+      .staticCall(donationId, category);
+  }
+
+  async getDecryptedDonation(
+    donationId: bigint | number,
+  ): Promise<DecryptedDonation> {
+    const result = await this.contract
+      .getFunction("getDecryptedDonation")
+      .staticCall(donationId);
+    return {
+      amount: result.amount,
+      entityId: Number(result.entityId),
+      donorId: Number(result.donorId),
+      isRevealed: result.isRevealed,
+    };
+  }
+
+  /** Returns the bytes32 handle of the note key, zero if the donation has no note. */
+  async getNoteKey(donationId: bigint | number): Promise<string> {
+    return this.contract.getFunction("getNoteKey").staticCall(donationId);
+  }
+
+  /** Committed note content hash, `ethers.ZeroHash` if the donation has no note. */
+  async getNoteHash(donationId: bigint | number): Promise<string> {
+    return this.contract.getFunction("noteHashes").staticCall(donationId);
+  }
+
+  /** Returns the bytes32 handle of the encrypted running total for `entityId`. */
+  async getEncryptedEntityTotal(entityId: number): Promise<string> {
+    return this.contract
+      .getFunction("getEncryptedEntityTotal")
+      .staticCall(entityId);
+  }
+
+  /** Returns the bytes32 handle of the encrypted running total for `donorId`. */
+  async getEncryptedDonorTotal(donorId: number): Promise<string> {
+    return this.contract
+      .getFunction("getEncryptedDonorTotal")
+      .staticCall(donorId);
+  }
+
+  /** Recipient entity IDs that have a running total (revealed donations only). */
+  async getEntityIds(): Promise<number[]> {
+    const ids: bigint[] = await this.contract
+      .getFunction("getEntityIds")
+      .staticCall();
+    return ids.map(Number);
+  }
+
+  /** Donor IDs that have a running total (revealed donations only). */
+  async getDonorIds(): Promise<number[]> {
+    const ids: bigint[] = await this.contract
+      .getFunction("getDonorIds")
+      .staticCall();
+    return ids.map(Number);
+  }
+
+  /** Last publicly decrypted total for `entityId` in cents, 0 if never decrypted. */
+  async getDecryptedEntityTotal(entityId: number): Promise<bigint> {
+    return this.contract
+      .getFunction("decryptedEntityTotals")
+      .staticCall(entityId);
+  }
+
+  /** Last publicly decrypted total for `donorId` in cents, 0 if never decrypted. */
+  async getDecryptedDonorTotal(donorId: number): Promise<bigint> {
+    return this.contract
+      .getFunction("decryptedDonorTotals")
+      .staticCall(donorId);
+  }
+
+  async getAlertThresholds(): Promise<AlertThresholds> {
+    const alerts = await this.alerts();
+    const [donor, entity]: bigint[] = await Promise.all([
+      alerts.getFunction("donorAlertThreshold").staticCall(),
+      alerts.getFunction("entityAlertThreshold").staticCall(),
+    ]);
+    return { donor, entity };
+  }
+
+  /**
+   * Unix seconds from which the thresholds may change again, 0 if they were
+   * never set.
+   */
+  async getNextAlertThresholdChange(): Promise<number> {
+    const alerts = await this.alerts();
+    const [updatedAt, interval]: bigint[] = await Promise.all([
+      alerts.getFunction("thresholdsUpdatedAt").staticCall(),
+      alerts.getFunction("ALERT_THRESHOLD_INTERVAL").staticCall(),
+    ]);
+    return updatedAt === 0n ? 0 : Number(updatedAt + interval);
+  }
+
+  /**
+   * Owner only, at most once per the contract's threshold interval so checks
+   * cannot binary-search a total. Answers about the previous thresholds are
+   * dropped.
+   */
+  async setAlertThresholds({
+    donor,
+    entity,
+  }: AlertThresholds): Promise<ethers.TransactionReceipt> {
+    const alerts = await this.alerts();
+    const tx: ethers.ContractTransactionResponse = await alerts
+      .getFunction("setAlertThresholds")
+      .send(assertCents(donor), assertCents(entity));
+    return waitForReceipt(tx);
+  }
+
+  /**
+   * Owner only. Starts or stops keeping an encrypted alert total for a donor
+   * or recipient; the contract keeps at most 4. A new watch starts from zero,
+   * see `updateAlertTotal`; stopping one also clears its last check.
+   */
+  async setAlertWatch(
+    kind: EntityKind,
+    id: number,
+    watched: boolean,
+  ): Promise<ethers.TransactionReceipt> {
+    assertUint32(kind === "company" ? "donorId" : "entityId", id);
+    const alerts = await this.alerts();
+    const tx: ethers.ContractTransactionResponse = await alerts
+      .getFunction("setAlertWatch")
+      .send(id, kind === "company", watched);
+    return waitForReceipt(tx);
+  }
+
+  /**
+   * Adds up to `maxDonations` of the donations recorded since the last update
+   * to a watched alert total. Returns how far the total now reaches and how
+   * many donations there were.
+   */
+  async updateAlertTotal(
+    kind: EntityKind,
+    id: number,
+    maxDonations: number,
+  ): Promise<{
+    countedThrough: bigint;
+    donationCount: bigint;
+    receipt: ethers.TransactionReceipt;
+  }> {
+    assertUint32(kind === "company" ? "donorId" : "entityId", id);
+    const alerts = await this.alerts();
+    const tx: ethers.ContractTransactionResponse = await alerts
+      .getFunction("updateAlertTotal")
+      .send(id, kind === "company", maxDonations);
+    const receipt = await waitForReceipt(tx);
+
+    const [updated] = this.parseReceipt(receipt, "AlertTotalUpdated");
+    if (!updated) {
+      throw new Error(
+        `AlertTotalUpdated event missing from transaction ${tx.hash}`,
+      );
+    }
+    return {
+      countedThrough: updated.countedThrough,
+      donationCount: updated.donationCount,
+      receipt,
+    };
+  }
+
+  /** Every watched donor and recipient. */
+  async getAlertWatches(): Promise<AlertWatch[]> {
+    const slots: ethers.Result[] = await (await this.alerts())
+      .getFunction("getAlertWatches")
+      .staticCall();
+    return slots
+      .filter((slot) => slot.subjectId !== 0n)
+      .map((slot) => ({
+        kind: slot.isDonor ? "company" : "recipient",
+        id: Number(slot.subjectId),
+        countedThrough: slot.countedThrough,
+      }));
+  }
+
+  /**
+   * Analysts and the owner only. Compares a watched alert total with the
+   * current threshold under encryption and requests public decryption of
+   * only whether it is over.
+   */
+  async requestAlertCheck(
+    kind: EntityKind,
+    id: number,
+  ): Promise<ethers.TransactionReceipt> {
+    assertUint32(kind === "company" ? "donorId" : "entityId", id);
+    const alerts = await this.alerts();
+    const tx: ethers.ContractTransactionResponse = await alerts
+      .getFunction(
+        kind === "company"
+          ? "requestDonorAlertCheck"
+          : "requestEntityAlertCheck",
+      )
+      .send(id);
+    return waitForReceipt(tx);
+  }
+
+  /** The last answered check, `undefined` if the total was never checked. */
+  async getThresholdAlert(
+    kind: EntityKind,
+    id: number,
+  ): Promise<ThresholdAlert | undefined> {
+    const result = await (await this.alerts())
+      .getFunction(kind === "company" ? "getDonorAlert" : "getEntityAlert")
+      .staticCall(id);
+    if (result.checkedAt === 0n) return undefined;
+    return {
+      kind,
+      id,
+      threshold: result.threshold,
+      exceeded: result.exceeded,
+      checkedAt: Number(result.checkedAt),
+      flaggedAt: Number(result.flaggedAt) || undefined,
+    };
+  }
+
+  /**
+   * Adds up to `maxDonations` donations recorded since the last analysis to
+   * the pair's encrypted weight, starting a new connection on first use.
+   * Returns how far the weight now reaches.
+   */
+  async analyzeConnection(
+    { donorId, entityId }: ConnectionPair,
+    maxDonations: number,
+  ): Promise<{ processedThrough: bigint; receipt: ethers.TransactionReceipt }> {
+    assertUint32("donorId", donorId);
+    assertUint32("entityId", entityId);
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("analyzeEncryptedConnection")
+      .send(donorId, entityId, maxDonations);
+    const receipt = await waitForReceipt(tx);
+
+    const [analyzed] = this.parseReceipt(receipt, "ConnectionAnalyzed");
+    if (!analyzed) {
+      throw new Error(
+        `ConnectionAnalyzed event missing from transaction ${tx.hash}`,
+      );
+    }
+    return { processedThrough: analyzed.processedThrough, receipt };
+  }
+
+  /** Grants the calling analyst ACL access to a connection's weight, kept across later analyses. */
+  async grantConnectionAccess({
+    donorId,
+    entityId,
+  }: ConnectionPair): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("grantConnectionAccess")
+      .send(donorId, entityId);
+    return waitForReceipt(tx);
+  }
+
+  async hasConnectionAccess(
+    { donorId, entityId }: ConnectionPair,
+    account: string,
+  ): Promise<boolean> {
+    return this.contract
+      .getFunction("hasConnectionAccess")
+      .staticCall(donorId, entityId, account);
+  }
+
+  /** The pair's weight handle, zero if it was never analyzed. */
+  async getConnection(pair: ConnectionPair): Promise<EncryptedConnection> {
+    const result = await this.contract
+      .getFunction("getConnection")
+      .staticCall(pair.donorId, pair.entityId);
+    return {
+      donorId: pair.donorId,
+      entityId: pair.entityId,
+      weight: result.weight,
+      processedThrough: result.processedThrough,
+    };
+  }
+
+  /** Every analyzed pair, in the order each was first analyzed. */
+  async getConnections(): Promise<ConnectionPair[]> {
+    const result = await this.contract
+      .getFunction("getConnections")
+      .staticCall();
+    return (result.donorIds as bigint[]).map((donorId, i) => ({
+      donorId: Number(donorId),
+      entityId: Number(result.entityIds[i]),
+    }));
+  }
+
+  /**
+   * Starts a concentration market over the candidate donors, which are sent
+   * in ascending order. Returns the market key.
+   */
+  async openConcentration(
+    { entityId, category, period }: ConcentrationMarket,
+    donorIds: number[],
+  ): Promise<{ market: string; receipt: ethers.TransactionReceipt }> {
+    if (entityId !== undefined) assertUint32("entityId", entityId);
+    donorIds.forEach((donorId) => assertUint32("donorId", donorId));
+    if (!isReportingPeriod(period)) {
+      throw new Error(`Invalid reporting period ${JSON.stringify(period)}`);
+    }
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("openConcentration")
+      .send(
+        entityId ?? 0,
+        category ?? "",
+        period.year,
+        period.quarter,
+        [...new Set(donorIds)].sort((a, b) => a - b),
+      );
+    const receipt = await waitForReceipt(tx);
+
+    const [opened] = this.parseReceipt(receipt, "ConcentrationOpened");
+    if (!opened) {
+      throw new Error(
+        `ConcentrationOpened event missing from transaction ${tx.hash}`,
+      );
+    }
+    return { market: opened.market, receipt };
+  }
+
+  /**
+   * Adds donations of the market's period to the encrypted donor shares;
+   * donations counted before are skipped. Returns how many are counted now.
+   */
+  async addConcentrationDonations(
+    market: string,
+    donationIds: (bigint | number)[],
+  ): Promise<{ donationCount: bigint; receipt: ethers.TransactionReceipt }> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("addConcentrationDonations")
+      .send(market, donationIds);
+    const receipt = await waitForReceipt(tx);
+
+    const [updated] = this.parseReceipt(receipt, "ConcentrationUpdated");
+    if (!updated) {
+      throw new Error(
+        `ConcentrationUpdated event missing from transaction ${tx.hash}`,
+      );
+    }
+    return { donationCount: updated.donationCount, receipt };
+  }
+
+  /**
+   * Runs up to `maxSteps` steps of the encrypted index computation: one per
+   * candidate donor, one to set up the division and 14 division rounds.
+   */
+  async computeConcentration(
+    market: string,
+    maxSteps: number,
+  ): Promise<{
+    stepsDone: bigint;
+    stepsTotal: bigint;
+    receipt: ethers.TransactionReceipt;
+  }> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("computeConcentration")
+      .send(market, maxSteps);
+    const receipt = await waitForReceipt(tx);
+
+    const [computed] = this.parseReceipt(receipt, "ConcentrationComputed");
+    if (!computed) {
+      throw new Error(
+        `ConcentrationComputed event missing from transaction ${tx.hash}`,
+      );
+    }
+    return {
+      stepsDone: computed.stepsDone,
+      stepsTotal: computed.stepsTotal,
+      receipt,
+    };
+  }
+
+  /** Requests public decryption of the market's computed index. */
+  async requestConcentrationDecryption(
+    market: string,
+  ): Promise<ethers.TransactionReceipt> {
+    const tx: ethers.ContractTransactionResponse = await this.contract
+      .getFunction("requestConcentrationDecryption")
+      .send(market);
+    return waitForReceipt(tx);
+  }
+
+  /** The market's public state, `undefined` if it was never opened. */
+  async getConcentration(market: string): Promise<Concentration | undefined> {
+    const result = await this.contract
+      .getFunction("getConcentration")
+      .staticCall(market);
+    if (Number(result.year) === 0) return undefined;
+    return {
+      market,
+      entityId: Number(result.entityId) || undefined,
+      category: result.category || undefined,
+      period: { year: Number(result.year), quarter: Number(result.quarter) },
+      donorIds: (result.donorIds as bigint[]).map(Number),
+      donationCount: result.counted,
+      isComputed: result.isComputed,
+      index: result.isRevealed ? Number(result.revealedIndex) : undefined,
+      revealedCount: result.revealedCount,
+    };
+  }
+
+  /** Every market key, in the order the markets were opened. */
+  async getConcentrationMarkets(): Promise<string[]> {
+    const markets: string[] = await this.contract
+      .getFunction("getConcentrationMarkets")
+      .staticCall();
+    return [...markets];
+  }
+
+  /**
+   * Subscribes to a contract event. Returns a function that removes the
+   * listener.
+   */
+  on<K extends LobbyingEventName>(
+    name: K,
+    listener: (event: LobbyingEventMap[K]) => void,
+  ): () => void {
+    const handler = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload;
+      listener(this.decodeEvent(name, payload.log));
+    };
+    const contract = this.eventContract(name);
+    void contract.then((c) => c.on(name, handler));
+    return () => {
+      void contract.then((c) => c.off(name, handler));
+    };
+  }
+
+  async queryEvents<K extends LobbyingEventName>(
+    name: K,
+    fromBlock: ethers.BlockTag = 0,
+    toBlock: ethers.BlockTag = "latest",
+  ): Promise<LobbyingEventMap[K][]> {
+    const contract = await this.eventContract(name);
+    const logs = await contract.queryFilter(name, fromBlock, toBlock);
+    return logs.map((log) => this.decodeEvent(name, log));
+  }
+
+  /**
+   * Decodes every `name` event emitted by this contract in `receipt`. Alert
+   * events are only found once an alert method has resolved the alerts
+   * contract.
+   */
+  parseReceipt<K extends LobbyingEventName>(
+    receipt: ethers.TransactionReceipt,
+    name: K,
+  ): LobbyingEventMap[K][] {
+    const address = ALERT_EVENTS.has(name) ? this.alertsAddress : this.address;
+    return receipt.logs
+      .filter((log) => log.address.toLowerCase() === address?.toLowerCase())
+      .filter((log) => this.interfaceFor(name).parseLog(log)?.name === name)
+      .map((log) => this.decodeEvent(name, log));
+  }
+
+  private decodeEvent<K extends LobbyingEventName>(
+    name: K,
+    log: ethers.Log,
+  ): LobbyingEventMap[K] {
+    const parsed = this.interfaceFor(name).parseLog(log);
+    if (!parsed || parsed.name !== name) {
+      throw new Error(
+        `Log ${log.transactionHash}:${log.index} is not a ${name} event`,
+      );
+    }
+
+    const events: { [E in LobbyingEventName]: () => LobbyingEventMap[E] } = {
+      DonationRecorded: () => ({
+        id: parsed.args.id,
+        timestamp: parsed.args.timestamp,
+        log,
+      }),
+      DonationBatchRecorded: () => ({
+        firstId: parsed.args.firstId,
+        lastId: parsed.args.lastId,
+        log,
+      }),
+      DecryptionRequested: () => ({
+        id: parsed.args.id,
+        requestId: parsed.args.requestId,
+        log,
+      }),
+      DonationDecrypted: () => ({
+        id: parsed.args.id,
+        requestId: parsed.args.requestId,
+        log,
+      }),
+      ConnectionAnalyzed: () => ({
+        donorId: Number(parsed.args.donorId),
+        entityId: Number(parsed.args.entityId),
+        processedThrough: parsed.args.processedThrough,
+        log,
+      }),
+      ConcentrationOpened: () => ({
+        market: parsed.args.market,
+        entityId: Number(parsed.args.entityId),
+        category: parsed.args.category,
+        period: {
+          year: Number(parsed.args.year),
+          quarter: Number(parsed.args.quarter),
+        },
+        log,
+      }),
+      ConcentrationUpdated: () => ({
+        market: parsed.args.market,
+        donationCount: parsed.args.donationCount,
+        log,
+      }),
+      ConcentrationComputed: () => ({
+        market: parsed.args.market,
+        stepsDone: parsed.args.stepsDone,
+        stepsTotal: parsed.args.stepsTotal,
+        log,
+      }),
+      ConcentrationDecrypted: () => ({
+        market: parsed.args.market,
+        index: Number(parsed.args.index),
+        donationCount: parsed.args.donationCount,
+        log,
+      }),
+      EntityTotalDecrypted: () => ({
+        entityId: Number(parsed.args.entityId),
+        total: parsed.args.total,
+        log,
+      }),
+      DonorTotalDecrypted: () => ({
+        donorId: Number(parsed.args.donorId),
+        total: parsed.args.total,
+        log,
+      }),
+      AlertThresholdsUpdated: () => ({
+        donorThreshold: parsed.args.donorThreshold,
+        entityThreshold: parsed.args.entityThreshold,
+        log,
+      }),
+      AlertWatchUpdated: () => ({
+        kind: parsed.args.isDonor ? "company" : "recipient",
+        id: Number(parsed.args.subjectId),
+        watched: parsed.args.watched,
+        log,
+      }),
+      AlertTotalUpdated: () => ({
+        kind: parsed.args.isDonor ? "company" : "recipient",
+        id: Number(parsed.args.subjectId),
+        countedThrough: parsed.args.countedThrough,
+        donationCount: parsed.args.donationCount,
+        log,
+      }),
+      ThresholdAlertChecked: () => ({
+        kind: parsed.args.isDonor ? "company" : "recipient",
+        id: Number(parsed.args.subjectId),
+        threshold: parsed.args.threshold,
+        exceeded: parsed.args.exceeded,
+        log,
+      }),
+      NoteAttached: () => ({
+        id: parsed.args.id,
+        contentHash: parsed.args.contentHash,
+        log,
+      }),
+      PeriodSaltGranted: () => ({
+        periodKey: Number(parsed.args.periodKey),
+        account: parsed.args.account,
+        log,
+      }),
+    };
+    return events[name]() as LobbyingEventMap[K];
+  }
+
+  /** The LobbyingAlertsFHE contract this contract deployed. */
+  private alerts(): Promise<ethers.Contract> {
+    this.alertsContract ??= this.contract
+      .getFunction("alerts")
+      .staticCall()
+      .then((address: string) => {
+        this.alertsAddress = address;
+        return new ethers.Contract(address, LOBBYING_ALERTS_ABI, this.runner);
+      })
+      .catch((e) => {
+        this.alertsContract = undefined;
+        throw e;
+      });
+    return this.alertsContract;
+  }
+
+  private eventContract(name: LobbyingEventName): Promise<ethers.Contract> {
+    return ALERT_EVENTS.has(name)
+      ? this.alerts()
+      : Promise.resolve(this.contract);
+  }
+
+  private interfaceFor(name: LobbyingEventName): ethers.Interface {
+    return ALERT_EVENTS.has(name) ? ALERTS_INTERFACE : this.contract.interface;
+  }
+
+  private getSigner(): ethers.Signer {
+    const runner = this.runner as ethers.Signer;
+    if (typeof runner.getAddress !== "function") {
+      throw new Error(
+        "LobbyingClient: a signer is required for this operation",
+      );
+    }
+    return runner;
+  }
+}
+
+async function waitForReceipt(
+  tx: ethers.ContractTransactionResponse,
+): Promise<ethers.TransactionReceipt> {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was dropped`);
+  }
+  return receipt;
+}
+
+function validateDonation(donation: DonationInput) {
+  assertUint32("entityId", donation.entityId);
+  assertUint32("donorId", donation.donorId);
+  return {
+    amount: assertCents(donation.amount),
+    entityId: donation.entityId,
+    donorId: donation.donorId,
+    dates: validateDates(donation),
+    categories: categoryHashes(donation.categories ?? []),
+    commitment: validateCommitment(donation.commitment),
+  };
+}
+
+function categoryHashes(categories: string[]) {
+  const codes = [...new Set(categories)];
+  if (codes.length > MAX_DONATION_CATEGORIES) {
+    throw new Error(
+      `A donation can be filed under at most ${MAX_DONATION_CATEGORIES} categories, got ${codes.length}`,
+    );
+  }
+  if (codes.some((code) => !code.trim())) {
+    throw new Error("Category codes must not be empty");
+  }
+  return codes.map((code) => ethers.id(code));
+}
+
+function validateDates({
+  activityDate,
+  reportingPeriod,
+  filingDate,
+}: DonationDates): DonationDates {
+  for (const [field, date] of [
+    ["activityDate", activityDate],
+    ["filingDate", filingDate],
+  ] as const) {
+    if (date !== undefined && !(Number.isSafeInteger(date) && date > 0)) {
+      throw new Error(`${field} must be positive unix seconds, got ${date}`);
+    }
+  }
+  if (reportingPeriod !== undefined && !isReportingPeriod(reportingPeriod)) {
+    throw new Error(
+      `Invalid reporting period ${JSON.stringify(reportingPeriod)}`,
+    );
+  }
+  if (
+    activityDate !== undefined &&
+    filingDate !== undefined &&
+    filingDate < activityDate
+  ) {
+    throw new Error("filingDate is before activityDate");
+  }
+  return { activityDate, reportingPeriod, filingDate };
+}
+
+function validateCommitment(commitment: string) {
+  if (!ethers.isHexString(commitment, 32) || commitment === ethers.ZeroHash) {
+    throw new Error(
+      `commitment must be a non-zero bytes32, got ${String(commitment)}`,
+    );
+  }
+  return commitment;
+}
+
+// The contract stores 0 for unknown dates
+function encodeDates(dates: DonationDates) {
+  return {
+    activityDate: dates.activityDate ?? 0,
+    reportingYear: dates.reportingPeriod?.year ?? 0,
+    reportingQuarter: dates.reportingPeriod?.quarter ?? 0,
+    filingDate: dates.filingDate ?? 0,
+  };
+}
+
+function assertUint32(field: string, value: number | bigint) {
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    throw new Error(`${field} must be an integer, got ${value}`);
+  }
+  const n = BigInt(value);
+  if (n < 0n || n > BigInt(UINT32_MAX)) {
+    throw new Error(`${field} ${value} does not fit an encrypted uint32`);
+  }
+}
@@ -0,0 +1,85 @@
+// Human-readable ABI for contracts/LobbyingAnalysisFHE.sol.
+// Encrypted values are exchanged as bytes32 handles (euint32 / euint64 / euint256 and their external inputs).
+// Amounts and totals are integer cents.
+export const LOBBYING_ANALYSIS_ABI = [
+  "function owner() view returns (address)",
+  "function alerts() view returns (address)",
+  "function analysts(address account) view returns (bool)",
+  "function setAnalyst(address analyst, bool authorized)",
+  "function submitters(address account) view returns (bool)",
+  "function setSubmitter(address submitter, bool authorized)",
+  "function grantDonationAccess(uint256 donationId)",
+  "function hasDonationAccess(uint256 donationId, address account) view returns (bool)",
+  "function donationCount() view returns (uint256)",
+  "function recordEncryptedDonation(bytes32 amountInput, bytes32 entityInput, bytes32 donorInput, bytes inputProof, tuple(uint64 activityDate, uint16 reportingYear, uint8 reportingQuarter, uint64 filingDate) dates, bytes32[] categories, bytes32 commitment)",
+  "function recordEncryptedDonations(bytes32[] amountInputs, bytes32[] entityInputs, bytes32[] donorInputs, bytes inputProof, tuple(uint64 activityDate, uint16 reportingYear, uint8 reportingQuarter, uint64 filingDate)[] dates, bytes32[][] categories, bytes32[] commitments) returns (uint256 firstId, uint256 lastId)",
+  "function requestDonationDecryption(uint256 donationId)",
+  "function getDecryptedDonation(uint256 donationId) view returns (uint64 amount, uint32 entityId, uint32 donorId, bool isRevealed)",
+  "function getEncryptedEntityTotal(uint32 entityId) view returns (bytes32)",
+  "function getEncryptedDonorTotal(uint32 donorId) view returns (bytes32)",
+  "function getEntityIds() view returns (uint32[])",
+  "function getDonorIds() view returns (uint32[])",
+  "function requestEntityTotalDecryption(uint32 entityId)",
+  "function decryptedEntityTotals(uint32 entityId) view returns (uint64)",
+  "function requestDonorTotalDecryption(uint32 donorId)",
+  "function decryptedDonorTotals(uint32 donorId) view returns (uint64)",
+  "function attachNote(uint256 donationId, bytes32 keyInput, bytes inputProof, bytes32 contentHash)",
+  "function getNoteKey(uint256 donationId) view returns (bytes32)",
+  "function noteHashes(uint256 donationId) view returns (bytes32)",
+  "function grantPeriodSalt(uint16 year, uint8 quarter)",
+  "function getPeriodSalt(uint16 year, uint8 quarter) view returns (bytes32)",
+  "function hasPeriodSaltAccess(uint16 year, uint8 quarter, address account) view returns (bool)",
+  "function commitmentDonations(bytes32 commitment) view returns (uint256)",
+  "function isDonationInCategory(uint256 donationId, string category) view returns (bool)",
+  "function donationDates(uint256 donationId) view returns (uint64 activityDate, uint16 reportingYear, uint8 reportingQuarter, uint64 filingDate)",
+  "function analyzeEncryptedConnection(uint32 donorId, uint32 entityId, uint256 maxDonations)",
+  "function grantConnectionAccess(uint32 donorId, uint32 entityId)",
+  "function hasConnectionAccess(uint32 donorId, uint32 entityId, address account) view returns (bool)",
+  "function getConnection(uint32 donorId, uint32 entityId) view returns (bytes32 weight, uint256 processedThrough)",
+  "function getConnections() view returns (uint32[] donorIds, uint32[] entityIds)",
+  "function openConcentration(uint32 entityId, string category, uint16 year, uint8 quarter, uint32[] donorIds) returns (bytes32 market)",
+  "function addConcentrationDonations(bytes32 market, uint256[] donationIds)",
+  "function computeConcentration(bytes32 market, uint256 maxSteps)",
+  "function requestConcentrationDecryption(bytes32 market)",
+  "function getConcentration(bytes32 market) view returns (uint32 entityId, string category, uint16 year, uint8 quarter, uint32[] donorIds, uint256 counted, bool isComputed, uint16 revealedIndex, uint256 revealedCount, bool isRevealed)",
+  "function getConcentrationMarkets() view returns (bytes32[])",
+  "function encryptedDonations(uint256 donationId) view returns (uint256 id, bytes32 encryptedAmount, bytes32 encryptedEntity, bytes32 encryptedDonor, uint256 timestamp)",
+  "event DonationRecorded(uint256 indexed id, uint256 timestamp)",
+  "event DonationBatchRecorded(uint256 indexed firstId, uint256 lastId)",
+  "event DecryptionRequested(uint256 indexed id, uint256 indexed requestId)",
+  "event DonationDecrypted(uint256 indexed id, uint256 indexed requestId)",
+  "event ConnectionAnalyzed(uint32 indexed donorId, uint32 indexed entityId, uint256 processedThrough)",
+  "event ConnectionAccessGranted(uint32 indexed donorId, uint32 indexed entityId, address indexed analyst)",
+  "event ConcentrationOpened(bytes32 indexed market, uint32 indexed entityId, string category, uint16 year, uint8 quarter)",
+  "event ConcentrationUpdated(bytes32 indexed market, uint256 donationCount)",
+  "event ConcentrationComputed(bytes32 indexed market, uint256 stepsDone, uint256 stepsTotal)",
+  "event ConcentrationDecrypted(bytes32 indexed market, uint16 index, uint256 donationCount)",
+  "event AnalystUpdated(address indexed analyst, bool authorized)",
+  "event SubmitterUpdated(address indexed submitter, bool authorized)",
+  "event DonationAccessGranted(uint256 indexed id, address indexed analyst)",
+  "event EntityTotalDecrypted(uint32 indexed entityId, uint64 total)",
+  "event DonorTotalDecrypted(uint32 indexed donorId, uint64 total)",
+  "event NoteAttached(uint256 indexed id, bytes32 contentHash)",
+  "event PeriodSaltGranted(uint32 indexed periodKey, address indexed account)",
+] as const;
+
+// Human-readable ABI for contracts/LobbyingAlertsFHE.sol, deployed by LobbyingAnalysisFHE at `alerts()`.
+export const LOBBYING_ALERTS_ABI = [
+  "function lobbying() view returns (address)",
+  "function donorAlertThreshold() view returns (uint64)",
+  "function entityAlertThreshold() view returns (uint64)",
+  "function thresholdsUpdatedAt() view returns (uint256)",
+  "function ALERT_THRESHOLD_INTERVAL() view returns (uint256)",
+  "function setAlertThresholds(uint64 donorThreshold, uint64 entityThreshold)",
+  "function setAlertWatch(uint32 subjectId, bool isDonor, bool watched)",
+  "function updateAlertTotal(uint32 subjectId, bool isDonor, uint256 maxDonations)",
+  "function getAlertWatches() view returns (tuple(uint32 subjectId, bool isDonor, bytes32 total, uint256 countedThrough)[4])",
+  "function requestDonorAlertCheck(uint32 donorId)",
+  "function requestEntityAlertCheck(uint32 entityId)",
+  "function getDonorAlert(uint32 donorId) view returns (uint64 threshold, bool exceeded, uint256 checkedAt, uint256 flaggedAt)",
+  "function getEntityAlert(uint32 entityId) view returns (uint64 threshold, bool exceeded, uint256 checkedAt, uint256 flaggedAt)",
+  "event AlertThresholdsUpdated(uint64 donorThreshold, uint64 entityThreshold)",
+  "event AlertWatchUpdated(uint32 indexed subjectId, bool indexed isDonor, bool watched)",
+  "event AlertTotalUpdated(uint32 indexed subjectId, bool indexed isDonor, uint256 countedThrough, uint256 donationCount)",
+  "event ThresholdAlertChecked(uint32 indexed subjectId, bool indexed isDonor, uint64 threshold, bool exceeded)",
+] as const;
@@ -0,0 +1,3 @@
+export { LobbyingClient, MAX_DONATIONS_PER_PROOF } from "./LobbyingClient";
+export { LOBBYING_ALERTS_ABI, LOBBYING_ANALYSIS_ABI } from "./abi";
+export * from "./types";
@@ -0,0 +1,332 @@
+import type { ethers } from "ethers";
+import type { EntityKind } from "../dictionary";
+import type { ReportingPeriod } from "../records";
+
+// Structural subset of the relayer SDK `FhevmInstance` (web and node builds) and of
+// `hre.fhevm` from @fhevm/hardhat-plugin, so the client runs against either.
+export interface EncryptedInputBuilder {
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  add256(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export interface FhevmEncryptor {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+  ): EncryptedInputBuilder;
+}
+
+/** When a donation happened and was disclosed; stored in plaintext next to it. */
+export interface DonationDates {
+  /** Unix seconds the donation was made or the lobbying took place. */
+  activityDate?: number;
+  reportingPeriod?: ReportingPeriod;
+  /** Unix seconds the disclosure was filed. */
+  filingDate?: number;
+}
+
+/** What a donation is; importers plan these before commitments are computed. */
+export interface DonationFields extends DonationDates {
+  /** Integer cents, see `dollarsToCents`. */
+  amount: number | bigint;
+  entityId: number;
+  donorId: number;
+  /**
+   * The disclosure the donation comes from, e.g. an FEC transaction. Only
+   * part of the commitment: it keeps separate filings with equal fields apart.
+   */
+  reference?: string;
+  /**
+   * Taxonomy codes the donation is filed under, see `Taxonomy.lineage`.
+   * Stored on-chain so a category market only counts donations filed under
+   * its category; public like the category of the stored record.
+   */
+  categories?: string[];
+}
+
+export interface DonationInput extends DonationFields {
+  /**
+   * bytes32 commitment over the normalized fields, salted for the reporting
+   * period (see `CommitmentSalts`). The contract rejects a commitment it has
+   * already recorded.
+   */
+  commitment: string;
+}
+
+export interface EncryptedDonationInput {
+  amount: Uint8Array;
+  entity: Uint8Array;
+  donor: Uint8Array;
+  inputProof: Uint8Array;
+  dates: DonationDates;
+  /** keccak256 of each category code. */
+  categories: string[];
+  commitment: string;
+}
+
+/** Donations encrypted together; handle `i` of each array belongs to donation `i`. */
+export interface EncryptedDonationBatch {
+  amounts: Uint8Array[];
+  entities: Uint8Array[];
+  donors: Uint8Array[];
+  inputProof: Uint8Array;
+  dates: DonationDates[];
+  categories: string[][];
+  commitments: string[];
+}
+
+export interface EncryptedDonation {
+  id: bigint;
+  encryptedAmount: string;
+  encryptedEntity: string;
+  encryptedDonor: string;
+  /** Block time of recording; see `DonationDates` for when the donation happened. */
+  timestamp: bigint;
+}
+
+export interface DecryptedDonation {
+  /** Cents. */
+  amount: bigint;
+  entityId: number;
+  donorId: number;
+  isRevealed: boolean;
+}
+
+/** A donor -> recipient pair whose encrypted weight the contract keeps. */
+export interface ConnectionPair {
+  donorId: number;
+  entityId: number;
+}
+
+export interface EncryptedConnection extends ConnectionPair {
+  /** bytes32 handle of the summed amount in cents. */
+  weight: string;
+  /** Donations up to this ID are counted in `weight`. */
+  processedThrough: bigint;
+}
+
+/**
+ * Where concentration is measured: donations to one recipient, donations
+ * filed under one category, or both, in one reporting period.
+ */
+export interface ConcentrationMarket {
+  entityId?: number;
+  /** Taxonomy code. */
+  category?: string;
+  period: ReportingPeriod;
+}
+
+export interface Concentration extends ConcentrationMarket {
+  /** bytes32 market key, see `concentrationMarketKey`. */
+  market: string;
+  /** Candidate donors whose encrypted shares make up the index. */
+  donorIds: number[];
+  donationCount: bigint;
+  /** Whether the encrypted index covers every counted donation. */
+  isComputed: boolean;
+  /** Last decrypted Herfindahl-Hirschman index, 0-10000. */
+  index?: number;
+  /** `donationCount` when `index` was computed. */
+  revealedCount: bigint;
+}
+
+/** Legal limits in cents that running totals are checked against; 0 disables checks. */
+export interface AlertThresholds {
+  donor: bigint;
+  entity: bigint;
+}
+
+/**
+ * A donor or recipient whose encrypted alert total the contract keeps. The
+ * total counts donations through `countedThrough` and can only be checked
+ * once it counts every recorded donation.
+ */
+export interface AlertWatch {
+  kind: EntityKind;
+  id: number;
+  countedThrough: bigint;
+}
+
+/** The last answered threshold check of a donor's or recipient's alert total. */
+export interface ThresholdAlert {
+  kind: EntityKind;
+  id: number;
+  /** Cents the total was compared with. */
+  threshold: bigint;
+  exceeded: boolean;
+  /** Unix seconds of the last answered check. */
+  checkedAt: number;
+  /**
+   * Unix seconds of the first answered check that found the total over
+   * `threshold`. The total crossed it at some point after the check before,
+   * which no check pins down.
+   */
+  flaggedAt?: number;
+}
+
+export interface RecordedDonation {
+  donationId: bigint;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface BatchFailure {
+  /** Indexes into the submitted array. */
+  indexes: number[];
+  error: Error;
+}
+
+export interface BatchRecordResult {
+  /** Donation ID per submitted row, `undefined` where the row failed. */
+  donationIds: (bigint | undefined)[];
+  /**
+   * Consecutive ID ranges, one per transaction. Other submitters can land
+   * between transactions, so ranges are not necessarily adjacent.
+   */
+  ranges: { firstId: bigint; lastId: bigint }[];
+  failures: BatchFailure[];
+  receipts: ethers.TransactionReceipt[];
+}
+
+export interface DonationRecordedEvent {
+  id: bigint;
+  timestamp: bigint;
+  log: ethers.Log;
+}
+
+export interface DonationBatchRecordedEvent {
+  firstId: bigint;
+  lastId: bigint;
+  log: ethers.Log;
+}
+
+export interface DecryptionRequestedEvent {
+  id: bigint;
+  requestId: bigint;
+  log: ethers.Log;
+}
+
+export interface DonationDecryptedEvent {
+  id: bigint;
+  requestId: bigint;
+  log: ethers.Log;
+}
+
+export interface ConnectionAnalyzedEvent {
+  donorId: number;
+  entityId: number;
+  processedThrough: bigint;
+  log: ethers.Log;
+}
+
+export interface ConcentrationOpenedEvent {
+  market: string;
+  entityId: number;
+  category: string;
+  period: ReportingPeriod;
+  log: ethers.Log;
+}
+
+export interface ConcentrationUpdatedEvent {
+  market: string;
+  donationCount: bigint;
+  log: ethers.Log;
+}
+
+export interface ConcentrationComputedEvent {
+  market: string;
+  stepsDone: bigint;
+  stepsTotal: bigint;
+  log: ethers.Log;
+}
+
+export interface ConcentrationDecryptedEvent {
+  market: string;
+  /** Herfindahl-Hirschman index, 0-10000. */
+  index: number;
+  donationCount: bigint;
+  log: ethers.Log;
+}
+
+export interface EntityTotalDecryptedEvent {
+  entityId: number;
+  /** Cents. */
+  total: bigint;
+  log: ethers.Log;
+}
+
+export interface DonorTotalDecryptedEvent {
+  donorId: number;
+  /** Cents. */
+  total: bigint;
+  log: ethers.Log;
+}
+
+export interface AlertThresholdsUpdatedEvent {
+  /** Cents. */
+  donorThreshold: bigint;
+  /** Cents. */
+  entityThreshold: bigint;
+  log: ethers.Log;
+}
+
+export interface AlertWatchUpdatedEvent {
+  kind: EntityKind;
+  id: number;
+  watched: boolean;
+  log: ethers.Log;
+}
+
+export interface AlertTotalUpdatedEvent {
+  kind: EntityKind;
+  id: number;
+  countedThrough: bigint;
+  donationCount: bigint;
+  log: ethers.Log;
+}
+
+export interface ThresholdAlertCheckedEvent {
+  kind: EntityKind;
+  id: number;
+  /** Cents. */
+  threshold: bigint;
+  exceeded: boolean;
+  log: ethers.Log;
+}
+
+export interface NoteAttachedEvent {
+  id: bigint;
+  /** keccak256 of the stored note ciphertext. */
+  contentHash: string;
+  log: ethers.Log;
+}
+
+export interface PeriodSaltGrantedEvent {
+  /** year * 10 + quarter, see `periodKey`. */
+  periodKey: number;
+  account: string;
+  log: ethers.Log;
+}
+
+export interface LobbyingEventMap {
+  DonationRecorded: DonationRecordedEvent;
+  DonationBatchRecorded: DonationBatchRecordedEvent;
+  DecryptionRequested: DecryptionRequestedEvent;
+  DonationDecrypted: DonationDecryptedEvent;
+  ConnectionAnalyzed: ConnectionAnalyzedEvent;
+  ConcentrationOpened: ConcentrationOpenedEvent;
+  ConcentrationUpdated: ConcentrationUpdatedEvent;
+  ConcentrationComputed: ConcentrationComputedEvent;
+  ConcentrationDecrypted: ConcentrationDecryptedEvent;
+  EntityTotalDecrypted: EntityTotalDecryptedEvent;
+  DonorTotalDecrypted: DonorTotalDecryptedEvent;
+  AlertThresholdsUpdated: AlertThresholdsUpdatedEvent;
+  AlertWatchUpdated: AlertWatchUpdatedEvent;
+  AlertTotalUpdated: AlertTotalUpdatedEvent;
+  ThresholdAlertChecked: ThresholdAlertCheckedEvent;
+  NoteAttached: NoteAttachedEvent;
+  PeriodSaltGranted: PeriodSaltGrantedEvent;
+}
+
+export type LobbyingEventName = keyof LobbyingEventMap;
@@ -0,0 +1,161 @@
+import { ethers } from "ethers";
+import type { DonationFields, DonationInput, LobbyingClient } from "../client";
+import { assertCents } from "../money";
+import { periodKey, periodOf, type ReportingPeriod } from "../records";
+
+/** Bumped if the normalized fields change, so old and new commitments never collide. */
+export const COMMITMENT_VERSION = 1;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * The period undated donations are salted for. It has to stay the same over
+ * time, or an undated donation submitted again in a later quarter would get
+ * a different commitment; no filing is dated this early.
+ */
+export const UNDATED_COMMITMENT_PERIOD: ReportingPeriod = {
+  year: 1000,
+  quarter: 1,
+};
+
+/** Decrypts a euint256 handle the caller has ACL access to. */
+export type SaltDecryptor = (handle: string) => Promise<bigint>;
+
+/** What a donation duplicates: a recorded donation or an earlier row of the same submission. */
+export type Duplicate = { donationId: bigint } | { row: number };
+
+/**
+ * The period a donation's commitment is salted for: its reporting period,
+ * else the quarter of its activity date, else `UNDATED_COMMITMENT_PERIOD`.
+ */
+export function commitmentPeriod(donation: DonationFields): ReportingPeriod {
+  if (donation.reportingPeriod) return donation.reportingPeriod;
+  return donation.activityDate === undefined
+    ? UNDATED_COMMITMENT_PERIOD
+    : periodOf(donation.activityDate);
+}
+
+/**
+ * keccak256 over the period salt and the fields that identify a disclosure:
+ * donor, recipient, amount, the UTC day of the activity and the source
+ * reference if there is one. Category, note and filing date are left out, so
+ * a re-filed or recategorised copy of the same donation still collides.
+ */
+export function recordCommitment(
+  salt: bigint,
+  period: ReportingPeriod,
+  donation: DonationFields,
+): string {
+  const activityDay =
+    donation.activityDate === undefined
+      ? 0
+      : donation.activityDate - (donation.activityDate % SECONDS_PER_DAY);
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      [
+        "uint8",
+        "uint256",
+        "uint16",
+        "uint8",
+        "uint32",
+        "uint32",
+        "uint64",
+        "uint64",
+        "bytes32",
+      ],
+      [
+        COMMITMENT_VERSION,
+        salt,
+        period.year,
+        period.quarter,
+        donation.donorId,
+        donation.entityId,
+        assertCents(donation.amount),
+        activityDay,
+        donation.reference
+          ? ethers.id(donation.reference.trim().toLowerCase())
+          : ethers.ZeroHash,
+      ],
+    ),
+  );
+}
+
+/**
+ * Commitment salts for one account, fetched once per period and cached. The
+ * first commitment in a period the account cannot read the salt of costs a
+ * `grantPeriodSalt` transaction.
+ */
+export class CommitmentSalts {
+  private readonly salts = new Map<number, Promise<bigint>>();
+
+  constructor(
+    private readonly client: LobbyingClient,
+    private readonly account: string,
+    private readonly decrypt: SaltDecryptor,
+  ) {}
+
+  saltFor(period: ReportingPeriod): Promise<bigint> {
+    const key = periodKey(period);
+    let salt = this.salts.get(key);
+    if (!salt) {
+      salt = this.fetch(period);
+      // A failed fetch is retried on the next call rather than cached
+      salt.catch(() => this.salts.delete(key));
+      this.salts.set(key, salt);
+    }
+    return salt;
+  }
+
+  /** Adds the commitment each donation is submitted with. */
+  async commit(donations: DonationFields[]): Promise<DonationInput[]> {
+    const committed: DonationInput[] = [];
+    for (const donation of donations) {
+      const period = commitmentPeriod(donation);
+      const salt = await this.saltFor(period);
+      committed.push({
+        ...donation,
+        commitment: recordCommitment(salt, period, donation),
+      });
+    }
+    return committed;
+  }
+
+  private async fetch(period: ReportingPeriod) {
+    if (!(await this.client.hasPeriodSaltAccess(period, this.account))) {
+      await this.client.grantPeriodSalt(period);
+    }
+    return this.decrypt(await this.client.getPeriodSalt(period));
+  }
+}
+
+/**
+ * Checks commitments before anything is sent: each donation maps to the
+ * recorded donation or the earlier row it duplicates, `undefined` if it is
+ * new. The contract would revert on either kind.
+ */
+export async function findDuplicates(
+  client: LobbyingClient,
+  donations: Pick<DonationInput, "commitment">[],
+): Promise<(Duplicate | undefined)[]> {
+  const firstRows = new Map<string, number>();
+  const earlierRows = donations.map(({ commitment }, row) => {
+    const first = firstRows.get(commitment);
+    if (first === undefined) firstRows.set(commitment, row);
+    return first;
+  });
+
+  return Promise.all(
+    donations.map(async ({ commitment }, row) => {
+      const earlier = earlierRows[row];
+      if (earlier !== undefined) return { row: earlier };
+      const donationId = await client.getCommitmentDonation(commitment);
+      return donationId > 0n ? { donationId } : undefined;
+    }),
+  );
+}
+
+export function describeDuplicate(duplicate: Duplicate): string {
+  return "donationId" in duplicate
+    ? `Duplicate of donation #${duplicate.donationId}`
+    : `Duplicate of row ${duplicate.row + 1}`;
+}
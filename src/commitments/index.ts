@@ -0,0 +1,10 @@
+export {
+  COMMITMENT_VERSION,
+  UNDATED_COMMITMENT_PERIOD,
+  CommitmentSalts,
+  commitmentPeriod,
+  describeDuplicate,
+  findDuplicates,
+  recordCommitment,
+} from "./commitments";
+export type { Duplicate, SaltDecryptor } from "./commitments";
@@ -0,0 +1,207 @@
+import { ethers } from "ethers";
+import type {
+  Concentration,
+  ConcentrationMarket,
+  LobbyingClient,
+} from "../client";
+import { periodKey, type ReportingPeriod } from "../records";
+
+/** Index of a market where a single donor gave everything. */
+export const HHI_SCALE = 10_000;
+
+/** Most candidate donors a market can have, as enforced by the contract. */
+export const MAX_CONCENTRATION_DONORS = 16;
+
+/**
+ * Fewest candidate donors a market can have, as enforced by the contract;
+ * with fewer the index gives away how the money splits between them.
+ */
+export const MIN_CONCENTRATION_DONORS = 3;
+
+/**
+ * Donations sent per `addConcentrationDonations` transaction. Each donation
+ * is compared with every candidate and added to the market total, so the
+ * batch shrinks as the candidate list grows; it never exceeds 12, the most
+ * donations one transaction can add up within the HCU depth limit.
+ */
+export function concentrationBatchSize(candidates: number): number {
+  return Math.max(1, Math.min(12, Math.floor(32 / (candidates + 1))));
+}
+
+/** Steps of the encrypted index computation per `computeConcentration` transaction. */
+export const CONCENTRATION_STEPS = 4;
+
+export type ConcentrationLevel = "unconcentrated" | "moderate" | "high";
+
+/** A market's revealed indexes, oldest period first. */
+export interface ConcentrationSeries {
+  entityId?: number;
+  category?: string;
+  points: { period: ReportingPeriod; index: number; donationCount: bigint }[];
+}
+
+/** The key the contract stores `market` under. */
+export function concentrationMarketKey({
+  entityId,
+  category,
+  period,
+}: ConcentrationMarket): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint32", "string", "uint16", "uint8"],
+      [entityId ?? 0, category ?? "", period.year, period.quarter],
+    ),
+  );
+}
+
+/** Index of plaintext per-donor amounts, floored like the contract's. */
+export function herfindahlIndex(amounts: bigint[]): number {
+  let total = 0n;
+  let squares = 0n;
+  for (const amount of amounts) {
+    total += amount;
+    squares += amount * amount;
+  }
+  return total === 0n
+    ? 0
+    : Number((squares * BigInt(HHI_SCALE)) / (total * total));
+}
+
+/** Bands of the 2023 US Merger Guidelines: above 1800 is highly concentrated. */
+export function concentrationLevel(index: number): ConcentrationLevel {
+  if (index > 1800) return "high";
+  if (index >= 1000) return "moderate";
+  return "unconcentrated";
+}
+
+/**
+ * Donations whose on-chain reporting period is `period`. Donations recorded
+ * without a reporting period cannot be counted in any market.
+ */
+export async function periodDonationIds(
+  client: LobbyingClient,
+  period: ReportingPeriod,
+): Promise<bigint[]> {
+  const count = await client.getDonationCount();
+  const ids: bigint[] = [];
+  for (let id = 1n; id <= count; id++) {
+    const { reportingPeriod } = await client.getDonationDates(id);
+    if (reportingPeriod && periodKey(reportingPeriod) === periodKey(period)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/** The donations of `donationIds` recorded under the taxonomy code `category`. */
+export async function categoryDonationIds(
+  client: LobbyingClient,
+  category: string,
+  donationIds: bigint[],
+): Promise<bigint[]> {
+  const filed = await Promise.all(
+    donationIds.map((id) => client.isDonationInCategory(id, category)),
+  );
+  return donationIds.filter((_, i) => filed[i]);
+}
+
+/**
+ * Counts `donationIds` into the market's encrypted total and donor shares,
+ * computes the index and requests its public decryption; `getConcentration`
+ * returns it once the oracle has answered. A category market only accepts
+ * donations recorded under its category (see `categoryDonationIds`). A new
+ * market is opened over `donorIds`; an existing one keeps the candidates it
+ * was opened with. A revealed index is final, so a revealed market cannot be
+ * measured again. Returns the market key.
+ */
+export async function measureConcentration(
+  client: LobbyingClient,
+  market: ConcentrationMarket,
+  donorIds: number[],
+  donationIds: (bigint | number)[],
+  onProgress?: (
+    stage: "count" | "compute",
+    done: number,
+    total: number,
+  ) => void,
+): Promise<string> {
+  const key = concentrationMarketKey(market);
+  const existing = await client.getConcentration(key);
+  if (existing?.index !== undefined) {
+    throw new Error(
+      `Market ${key} was revealed over ${existing.revealedCount} donations`,
+    );
+  }
+  const candidates = existing?.donorIds ?? [...new Set(donorIds)];
+  if (
+    candidates.length < MIN_CONCENTRATION_DONORS ||
+    candidates.length > MAX_CONCENTRATION_DONORS
+  ) {
+    throw new Error(
+      `A market needs ${MIN_CONCENTRATION_DONORS}-${MAX_CONCENTRATION_DONORS} candidate donors, got ${candidates.length}`,
+    );
+  }
+  if (!existing) {
+    await client.openConcentration(market, candidates);
+  }
+
+  const batchSize = concentrationBatchSize(candidates.length);
+  for (let start = 0; start < donationIds.length; start += batchSize) {
+    const batch = donationIds.slice(start, start + batchSize);
+    await client.addConcentrationDonations(key, batch);
+    onProgress?.("count", start + batch.length, donationIds.length);
+  }
+  for (;;) {
+    const { stepsDone, stepsTotal } = await client.computeConcentration(
+      key,
+      CONCENTRATION_STEPS,
+    );
+    onProgress?.("compute", Number(stepsDone), Number(stepsTotal));
+    if (stepsDone >= stepsTotal) break;
+  }
+  await client.requestConcentrationDecryption(key);
+  return key;
+}
+
+/** Every opened market, in the order they were opened. */
+export async function loadConcentrations(
+  client: LobbyingClient,
+): Promise<Concentration[]> {
+  const concentrations = await Promise.all(
+    (await client.getConcentrationMarkets()).map((market) =>
+      client.getConcentration(market),
+    ),
+  );
+  return concentrations.filter(
+    (concentration): concentration is Concentration => Boolean(concentration),
+  );
+}
+
+/**
+ * Groups markets with a revealed index by recipient and category, so each
+ * series shows one market's concentration over time.
+ */
+export function concentrationSeries(
+  concentrations: Concentration[],
+): ConcentrationSeries[] {
+  const series = new Map<string, ConcentrationSeries>();
+  for (const concentration of concentrations) {
+    if (concentration.index === undefined) continue;
+    const { entityId, category } = concentration;
+    const key = `${entityId ?? ""}|${category ?? ""}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { entityId, category, points: [] };
+      series.set(key, entry);
+    }
+    entry.points.push({
+      period: concentration.period,
+      index: concentration.index,
+      donationCount: concentration.revealedCount,
+    });
+  }
+  for (const entry of series.values()) {
+    entry.points.sort((a, b) => periodKey(a.period) - periodKey(b.period));
+  }
+  return [...series.values()];
+}
@@ -0,0 +1,16 @@
+export {
+  CONCENTRATION_STEPS,
+  HHI_SCALE,
+  MAX_CONCENTRATION_DONORS,
+  MIN_CONCENTRATION_DONORS,
+  categoryDonationIds,
+  concentrationBatchSize,
+  concentrationLevel,
+  concentrationMarketKey,
+  concentrationSeries,
+  herfindahlIndex,
+  loadConcentrations,
+  measureConcentration,
+  periodDonationIds,
+} from "./concentration";
+export type { ConcentrationLevel, ConcentrationSeries } from "./concentration";
@@ -0,0 +1,177 @@
+import type { LobbyingClient } from "../client";
+
+export type DecryptionStatus = "pending" | "fulfilled" | "timed_out";
+
+export interface TrackedDecryption {
+  donationId: string;
+  requestId: string;
+  txHash: string;
+  requestedAt: number;
+  fulfilledAt?: number;
+  status: DecryptionStatus;
+}
+
+/** Minimal `localStorage`-compatible store used to persist pending requests. */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface DecryptionTrackerOptions {
+  /** Time after which an unanswered request is reported as timed out. */
+  timeoutMs?: number;
+  storageKey?: string;
+  now?: () => number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Follows public decryption requests from `DecryptionRequested` to the oracle
+ * callback's `DonationDecrypted`, keyed by oracle request ID.
+ *
+ * Requests are persisted in `storage` so pending entries survive a reload;
+ * `start()` reconciles them against the contract and listens for callbacks.
+ */
+export class DecryptionTracker {
+  private readonly timeoutMs: number;
+  private readonly storageKey: string;
+  private readonly now: () => number;
+  private entries: Map<string, TrackedDecryption>;
+  private readonly listeners = new Set<
+    (entries: TrackedDecryption[]) => void
+  >();
+
+  constructor(
+    private readonly reader: LobbyingClient,
+    private readonly storage: KeyValueStorage,
+    options: DecryptionTrackerOptions = {},
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.storageKey =
+      options.storageKey ??
+      `lobbying.decryptions.${reader.address.toLowerCase()}`;
+    this.now = options.now ?? Date.now;
+    this.entries = this.load();
+  }
+
+  /** All tracked requests, newest first, with timeouts applied. */
+  list(): TrackedDecryption[] {
+    const now = this.now();
+    return [...this.entries.values()]
+      .map((entry) =>
+        entry.status === "pending" && now - entry.requestedAt > this.timeoutMs
+          ? { ...entry, status: "timed_out" as const }
+          : entry,
+      )
+      .sort((a, b) => b.requestedAt - a.requestedAt);
+  }
+
+  /** Latest request for `donationId`, if any. */
+  forDonation(donationId: bigint | number | string) {
+    return this.list().find(
+      (entry) => entry.donationId === donationId.toString(),
+    );
+  }
+
+  /**
+   * Sends `requestDonationDecryption` through `writer` and tracks the oracle
+   * request it emits. Also used to re-request after a timeout.
+   */
+  async request(
+    writer: LobbyingClient,
+    donationId: bigint | number,
+  ): Promise<TrackedDecryption> {
+    const receipt = await writer.requestDonationDecryption(donationId);
+    const [requested] = writer.parseReceipt(receipt, "DecryptionRequested");
+    if (!requested) {
+      throw new Error(
+        `DecryptionRequested event missing from transaction ${receipt.hash}`,
+      );
+    }
+
+    const entry: TrackedDecryption = {
+      donationId: requested.id.toString(),
+      requestId: requested.requestId.toString(),
+      txHash: receipt.hash,
+      requestedAt: this.now(),
+      status: "pending",
+    };
+    this.entries.set(entry.requestId, entry);
+    this.save();
+    return entry;
+  }
+
+  /**
+   * Reconciles pending requests with on-chain state and subscribes to
+   * `DonationDecrypted`. Returns a function that stops listening.
+   */
+  async start(): Promise<() => void> {
+    const unsubscribe = this.reader.on("DonationDecrypted", (event) =>
+      this.markFulfilled(event.id.toString(), event.requestId.toString()),
+    );
+
+    for (const entry of this.entries.values()) {
+      if (entry.status !== "pending") continue;
+      const donation = await this.reader.getDecryptedDonation(
+        BigInt(entry.donationId),
+      );
+      if (donation.isRevealed) {
+        this.markFulfilled(entry.donationId, entry.requestId);
+      }
+    }
+
+    return unsubscribe;
+  }
+
+  subscribe(listener: (entries: TrackedDecryption[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Drops fulfilled entries; pending and timed out ones are kept. */
+  clearSettled() {
+    for (const [requestId, entry] of this.entries) {
+      if (entry.status === "fulfilled") this.entries.delete(requestId);
+    }
+    this.save();
+  }
+
+  private markFulfilled(donationId: string, requestId: string) {
+    const fulfilledAt = this.now();
+    // A reveal settles every outstanding request for that donation, including
+    // earlier ones that timed out and were re-requested.
+    for (const entry of this.entries.values()) {
+      const matches =
+        entry.donationId === donationId || entry.requestId === requestId;
+      if (matches && entry.status === "pending") {
+        entry.status = "fulfilled";
+        entry.fulfilledAt = fulfilledAt;
+      }
+    }
+    this.save();
+  }
+
+  private load(): Map<string, TrackedDecryption> {
+    const raw = this.storage.getItem(this.storageKey);
+    if (!raw) return new Map();
+    try {
+      const stored = JSON.parse(raw) as TrackedDecryption[];
+      return new Map(stored.map((entry) => [entry.requestId, entry]));
+    } catch (e) {
+      console.error("Discarding unreadable decryption tracker state:", e);
+      return new Map();
+    }
+  }
+
+  private save() {
+    this.storage.setItem(
+      this.storageKey,
+      JSON.stringify([...this.entries.values()]),
+    );
+    const entries = this.list();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
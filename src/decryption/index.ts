@@ -0,0 +1,14 @@
+export { DecryptionTracker } from "./DecryptionTracker";
+export type {
+  DecryptionStatus,
+  DecryptionTrackerOptions,
+  KeyValueStorage,
+  TrackedDecryption,
+} from "./DecryptionTracker";
+export { UserDecryptionSession, revealDonation } from "./userDecrypt";
+export type {
+  HandleContractPair,
+  RevealedDonation,
+  UserDecryptEIP712,
+  UserDecryptor,
+} from "./userDecrypt";
@@ -0,0 +1,165 @@
+import type { ethers } from "ethers";
+import type { LobbyingClient } from "../client";
+
+export interface HandleContractPair {
+  handle: string | Uint8Array;
+  contractAddress: string;
+}
+
+export interface UserDecryptEIP712 {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  types: Record<string, { name: string; type: string }[]>;
+  message: Record<string, unknown>;
+  primaryType: string;
+}
+
+// Structural subset of the relayer SDK `FhevmInstance` (and the mock instance)
+// needed for user decryption.
+export interface UserDecryptor {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): UserDecryptEIP712;
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+export interface RevealedDonation {
+  donationId: bigint;
+  /** Cents. */
+  amount: bigint;
+  entityId: number;
+  donorId: number;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * A keypair plus the EIP-712 authorisation signed by the viewer. Ciphertexts
+ * are re-encrypted under the session public key by the KMS and decrypted
+ * locally, so cleartexts never leave the viewer's machine.
+ */
+export class UserDecryptionSession {
+  private constructor(
+    private readonly decryptor: UserDecryptor,
+    private readonly keypair: { publicKey: string; privateKey: string },
+    private readonly signature: string,
+    readonly userAddress: string,
+    readonly contractAddresses: string[],
+    readonly startTimestamp: number,
+    readonly durationDays: number,
+  ) {}
+
+  /** Generates a keypair and asks `signer` to sign the decryption request. */
+  static async open(
+    decryptor: UserDecryptor,
+    signer: ethers.Signer,
+    contractAddresses: string[],
+    durationDays = 1,
+  ): Promise<UserDecryptionSession> {
+    const keypair = decryptor.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = decryptor.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimestamp,
+      durationDays,
+    );
+
+    // ethers derives the domain type itself and rejects an explicit EIP712Domain entry
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { [eip712.primaryType]: eip712.types[eip712.primaryType] },
+      eip712.message,
+    );
+
+    return new UserDecryptionSession(
+      decryptor,
+      keypair,
+      signature.replace(/^0x/, ""),
+      await signer.getAddress(),
+      contractAddresses,
+      startTimestamp,
+      durationDays,
+    );
+  }
+
+  isValidFor(userAddress: string, contractAddress: string, now = Date.now()) {
+    const expiresAt =
+      (this.startTimestamp + this.durationDays * SECONDS_PER_DAY) * 1000;
+    return (
+      now < expiresAt &&
+      this.userAddress.toLowerCase() === userAddress.toLowerCase() &&
+      this.contractAddresses.some(
+        (address) => address.toLowerCase() === contractAddress.toLowerCase(),
+      )
+    );
+  }
+
+  async decrypt(
+    handles: HandleContractPair[],
+  ): Promise<Record<string, bigint | boolean | string>> {
+    return this.decryptor.userDecrypt(
+      handles,
+      this.keypair.privateKey,
+      this.keypair.publicKey,
+      this.signature,
+      this.contractAddresses,
+      this.userAddress,
+      this.startTimestamp,
+      this.durationDays,
+    );
+  }
+}
+
+/**
+ * Privately decrypts a donation's amount, recipient entity ID and donor ID.
+ * The session user must hold ACL access: contributors get it when recording,
+ * analysts through `grantDonationAccess`.
+ */
+export async function revealDonation(
+  client: LobbyingClient,
+  session: UserDecryptionSession,
+  donationId: bigint | number,
+): Promise<RevealedDonation> {
+  const donation = await client.getEncryptedDonation(donationId);
+  const handles = [
+    donation.encryptedAmount,
+    donation.encryptedEntity,
+    donation.encryptedDonor,
+  ];
+  const results = await session.decrypt(
+    handles.map((handle) => ({ handle, contractAddress: client.address })),
+  );
+
+  const [amount, entityId, donorId] = handles.map((handle) => {
+    const value = results[handle] ?? results[handle.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`No cleartext returned for handle ${handle}`);
+    }
+    return BigInt(value);
+  });
+
+  return {
+    donationId: BigInt(donationId),
+    amount,
+    entityId: Number(entityId),
+    donorId: Number(donorId),
+  };
+}
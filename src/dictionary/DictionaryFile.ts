@@ -0,0 +1,93 @@
+import { ethers } from "ethers";
+import { EntityDictionary, type DictionaryEntry } from "./EntityDictionary";
+
+export interface DictionaryFile {
+  version: number;
+  /** ISO-8601 timestamp of publication. */
+  publishedAt: string;
+  entries: DictionaryEntry[];
+  /** Address that signed `digest(file)`, empty for an unsigned file. */
+  signer: string;
+  signature: string;
+}
+
+export type DictionaryVerification =
+  | { valid: true; dictionary: EntityDictionary; version: number }
+  | { valid: false; reason: string };
+
+/**
+ * keccak256 over the canonical JSON of version, publication time and entries
+ * sorted by ID, so re-serialising the file does not change what was signed.
+ */
+export function dictionaryDigest(
+  file: Pick<DictionaryFile, "version" | "publishedAt" | "entries">,
+): string {
+  const entries = [...file.entries]
+    .sort((a, b) => a.id - b.id)
+    // Alias-free entries hash as they did before aliases existed, so older signatures stay valid
+    .map(({ id, name, kind, aliases }) =>
+      aliases?.length ? { id, name, kind, aliases } : { id, name, kind },
+    );
+  const canonical = JSON.stringify({
+    version: file.version,
+    publishedAt: file.publishedAt,
+    entries,
+  });
+  return ethers.keccak256(ethers.toUtf8Bytes(canonical));
+}
+
+/** Builds the next version of a dictionary file and signs it (EIP-191). */
+export async function signDictionary(
+  dictionary: EntityDictionary,
+  version: number,
+  signer: ethers.Signer,
+  publishedAt = new Date().toISOString(),
+): Promise<DictionaryFile> {
+  const unsigned = { version, publishedAt, entries: dictionary.entries() };
+  const signature = await signer.signMessage(
+    ethers.getBytes(dictionaryDigest(unsigned)),
+  );
+  return { ...unsigned, signer: await signer.getAddress(), signature };
+}
+
+/**
+ * Checks that `file` was signed by one of `trustedSigners` and that its
+ * entries are collision free before handing out a dictionary.
+ */
+export function verifyDictionary(
+  file: DictionaryFile,
+  trustedSigners: string[],
+): DictionaryVerification {
+  if (!file.signature) {
+    return { valid: false, reason: "Dictionary is not signed" };
+  }
+
+  let recovered: string;
+  try {
+    recovered = ethers.verifyMessage(
+      ethers.getBytes(dictionaryDigest(file)),
+      file.signature,
+    );
+  } catch (e) {
+    return { valid: false, reason: `Unreadable signature: ${String(e)}` };
+  }
+  const trusted = trustedSigners.some(
+    (address) => address.toLowerCase() === recovered.toLowerCase(),
+  );
+  if (!trusted) {
+    return {
+      valid: false,
+      reason: `Dictionary signed by untrusted address ${recovered}`,
+    };
+  }
+
+  try {
+    return {
+      valid: true,
+      dictionary: new EntityDictionary(file.entries),
+      version: file.version,
+    };
+  } catch (e) {
+    return { valid: false, reason: (e as Error).message };
+  }
+}
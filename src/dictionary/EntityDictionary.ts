@@ -0,0 +1,189 @@
+import { ethers } from "ethers";
+
+export type EntityKind = "company" | "recipient";
+
+export interface DictionaryEntry {
+  id: number;
+  /** Canonical display name. */
+  name: string;
+  kind: EntityKind;
+  /** Other spellings that resolve to this entry, e.g. "ACME Corporation" for "Acme Corp". */
+  aliases?: string[];
+}
+
+export interface DictionaryCollision {
+  kind: EntityKind;
+  name: string;
+  /** IDs that were already taken before `assignedId` was found. */
+  candidates: number[];
+  assignedId: number;
+}
+
+// Rehash attempts before giving up; a clash after this many means a bug, not bad luck
+const MAX_PROBES = 16;
+
+/** Case- and whitespace-insensitive key used to match names. */
+export function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Deterministic uint32 ID for a name: the first 4 bytes of
+ * keccak256("<kind>:<normalized name>[#<attempt>]"). 0 is reserved for
+ * "unset" on-chain and never returned.
+ */
+export function candidateId(
+  kind: EntityKind,
+  name: string,
+  attempt = 0,
+): number {
+  const suffix = attempt === 0 ? "" : `#${attempt}`;
+  const hash = ethers.id(`${kind}:${normalizeName(name)}${suffix}`);
+  const id = parseInt(hash.slice(2, 10), 16);
+  return id === 0 ? candidateId(kind, name, attempt + 1) : id;
+}
+
+/**
+ * Maps canonical company and recipient names to the uint32 IDs that are
+ * encrypted into LobbyingAnalysisFHE, and back.
+ *
+ * Companies and recipients share one ID space so a decrypted ID resolves to a
+ * single entry. IDs are stable: existing entries keep theirs and a new name
+ * that hashes onto a taken ID is rehashed, with the clash recorded in
+ * `collisions`.
+ */
+export class EntityDictionary {
+  private readonly byId = new Map<number, DictionaryEntry>();
+  private readonly byName = new Map<string, DictionaryEntry>();
+  readonly collisions: DictionaryCollision[] = [];
+
+  constructor(entries: DictionaryEntry[] = []) {
+    for (const entry of entries) {
+      if (
+        !Number.isInteger(entry.id) ||
+        entry.id <= 0 ||
+        entry.id > 0xffffffff
+      ) {
+        throw new Error(
+          `Invalid dictionary ID ${entry.id} for "${entry.name}"`,
+        );
+      }
+      const existing = this.byId.get(entry.id);
+      if (existing) {
+        throw new Error(
+          `Dictionary ID ${entry.id} is assigned to both "${existing.name}" and "${entry.name}"`,
+        );
+      }
+      for (const name of [entry.name, ...(entry.aliases ?? [])]) {
+        const clash = this.byName.get(nameKey(entry.kind, name));
+        if (clash) {
+          throw new Error(
+            clash === entry
+              ? `Duplicate ${entry.kind} "${name}" in dictionary`
+              : `${entry.kind} "${name}" is listed under both "${clash.name}" and "${entry.name}"`,
+          );
+        }
+        this.byName.set(nameKey(entry.kind, name), entry);
+      }
+      this.byId.set(entry.id, entry);
+    }
+  }
+
+  get size() {
+    return this.byId.size;
+  }
+
+  entries(): DictionaryEntry[] {
+    return [...this.byId.values()].sort((a, b) => a.id - b.id);
+  }
+
+  lookup(name: string, kind: EntityKind): DictionaryEntry | undefined {
+    return this.byName.get(nameKey(kind, name));
+  }
+
+  entryOf(id: number): DictionaryEntry | undefined {
+    return this.byId.get(id);
+  }
+
+  nameOf(id: number): string | undefined {
+    return this.byId.get(id)?.name;
+  }
+
+  /**
+   * ID that `register` would give `name` without adding it. Used to preview
+   * and encrypt names that are not in the published dictionary yet.
+   */
+  resolve(name: string, kind: EntityKind): number {
+    return this.lookup(name, kind)?.id ?? this.probe(name, kind).id;
+  }
+
+  /** Returns the existing entry for `name`, or adds one with a fresh ID. */
+  register(name: string, kind: EntityKind): DictionaryEntry {
+    const existing = this.lookup(name, kind);
+    if (existing) return existing;
+    if (!normalizeName(name)) {
+      throw new Error(`Cannot register an empty ${kind} name`);
+    }
+
+    const { id, taken } = this.probe(name, kind);
+    const entry: DictionaryEntry = { id, name: name.trim(), kind };
+    this.byId.set(id, entry);
+    this.byName.set(nameKey(kind, name), entry);
+    if (taken.length > 0) {
+      this.collisions.push({
+        kind,
+        name: entry.name,
+        candidates: taken,
+        assignedId: id,
+      });
+    }
+    return entry;
+  }
+
+  /**
+   * Makes `alias` resolve to the entry with `id`, so a spelling merged during
+   * entity review encrypts to the ID already on-chain instead of a new one.
+   */
+  addAlias(id: number, alias: string): DictionaryEntry {
+    const entry = this.byId.get(id);
+    if (!entry) {
+      throw new Error(`Unknown dictionary ID ${id}`);
+    }
+    const existing = this.lookup(alias, entry.kind);
+    if (existing?.id === id) return existing;
+    if (existing) {
+      throw new Error(
+        `${entry.kind} "${alias}" already resolves to "${existing.name}"`,
+      );
+    }
+    if (!normalizeName(alias)) {
+      throw new Error(`Cannot alias an empty ${entry.kind} name`);
+    }
+
+    const updated: DictionaryEntry = {
+      ...entry,
+      aliases: [...(entry.aliases ?? []), alias.trim()],
+    };
+    this.byId.set(id, updated);
+    for (const name of [updated.name, ...updated.aliases!]) {
+      this.byName.set(nameKey(entry.kind, name), updated);
+    }
+    return updated;
+  }
+
+  private probe(name: string, kind: EntityKind) {
+    const taken: number[] = [];
+    for (let attempt = 0; attempt < MAX_PROBES; attempt++) {
+      const id = candidateId(kind, name, attempt);
+      if (!this.byId.has(id)) return { id, taken };
+      taken.push(id);
+    }
+    throw new Error(
+      `No free dictionary ID for ${kind} "${name}" after ${MAX_PROBES} attempts`,
+    );
+  }
+}
+
+function nameKey(kind: EntityKind, name: string) {
+  return `${kind}:${normalizeName(name)}`;
+}
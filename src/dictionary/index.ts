@@ -0,0 +1,18 @@
+export {
+  EntityDictionary,
+  candidateId,
+  normalizeName,
+} from "./EntityDictionary";
+export type {
+  DictionaryCollision,
+  DictionaryEntry,
+  EntityKind,
+} from "./EntityDictionary";
+export {
+  dictionaryDigest,
+  signDictionary,
+  verifyDictionary,
+} from "./DictionaryFile";
+export type { DictionaryFile, DictionaryVerification } from "./DictionaryFile";
+export { createNameResolver } from "./resolveNames";
+export type { MissingNames, NameResolver } from "./resolveNames";
@@ -0,0 +1,40 @@
+import { EntityDictionary, type EntityKind } from "./EntityDictionary";
+
+/** Names without a published ID, in the `dictionary:publish --names` format. */
+export interface MissingNames {
+  companies: string[];
+  recipients: string[];
+}
+
+export interface NameResolver {
+  /**
+   * Published ID for `name`. Unpublished names are recorded in `missing` and
+   * resolve to `undefined`, or to the ID they would receive when published if
+   * the resolver allows unpublished names.
+   */
+  resolve(name: unknown, kind: EntityKind): number | undefined;
+  missing: MissingNames;
+}
+
+export function createNameResolver(
+  dictionary: EntityDictionary,
+  allowUnpublished = false,
+): NameResolver {
+  const missing: MissingNames = { companies: [], recipients: [] };
+  // Provisional registrations must not hand two new names the same ID
+  const working = new EntityDictionary(dictionary.entries());
+
+  const resolve = (name: unknown, kind: EntityKind) => {
+    if (typeof name !== "string" || !name.trim()) {
+      throw new Error(`Missing ${kind} name`);
+    }
+    const published = dictionary.lookup(name, kind);
+    if (published) return published.id;
+
+    const names = kind === "company" ? missing.companies : missing.recipients;
+    if (!names.includes(name.trim())) names.push(name.trim());
+    return allowUnpublished ? working.register(name, kind).id : undefined;
+  };
+
+  return { resolve, missing };
+}
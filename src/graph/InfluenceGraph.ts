@@ -0,0 +1,125 @@
+/** Money from one donor company to one recipient entity, in cents. */
+export interface InfluenceEdge {
+  donorId: number;
+  entityId: number;
+  weight: bigint;
+}
+
+/**
+ * Bipartite donor -> recipient graph over revealed weights. Donor and
+ * recipient IDs come from different dictionary kinds, so the two sides are
+ * kept apart even when an ID appears on both.
+ */
+export class InfluenceGraph {
+  private readonly outgoing = new Map<number, Map<number, bigint>>();
+  private readonly incoming = new Map<number, Map<number, bigint>>();
+
+  constructor(edges: InfluenceEdge[]) {
+    for (const { donorId, entityId, weight } of edges) {
+      adjacent(this.outgoing, donorId).set(entityId, weight);
+      adjacent(this.incoming, entityId).set(donorId, weight);
+    }
+  }
+
+  /** Donor IDs in the order their first edge was added. */
+  donors(): number[] {
+    return [...this.outgoing.keys()];
+  }
+
+  /** Recipient entity IDs in the order their first edge was added. */
+  entities(): number[] {
+    return [...this.incoming.keys()];
+  }
+
+  edges(): InfluenceEdge[] {
+    return [...this.outgoing].flatMap(([donorId, recipients]) =>
+      [...recipients].map(([entityId, weight]) => ({
+        donorId,
+        entityId,
+        weight,
+      })),
+    );
+  }
+
+  /** Cents from `donorId` to `entityId`, 0 if there is no edge. */
+  weight(donorId: number, entityId: number): bigint {
+    return this.outgoing.get(donorId)?.get(entityId) ?? 0n;
+  }
+
+  /** Recipients of `donorId` by entity ID, with the cents each received. */
+  recipientsOf(donorId: number): ReadonlyMap<number, bigint> {
+    return this.outgoing.get(donorId) ?? new Map();
+  }
+
+  /** Donors of `entityId` by donor ID, with the cents each gave. */
+  donorsOf(entityId: number): ReadonlyMap<number, bigint> {
+    return this.incoming.get(entityId) ?? new Map();
+  }
+
+  totalGiven(donorId: number): bigint {
+    return sum(this.recipientsOf(donorId).values());
+  }
+
+  totalReceived(entityId: number): bigint {
+    return sum(this.donorsOf(entityId).values());
+  }
+}
+
+/**
+ * Collects edges from revealed connection weights or individually revealed
+ * donations. Weights for the same pair are added up, and pairs that end at
+ * zero (analyzed, but no money flowed) are left out of the graph.
+ */
+export class InfluenceGraphBuilder {
+  private readonly weights = new Map<string, InfluenceEdge>();
+
+  addEdge({ donorId, entityId, weight }: InfluenceEdge): this {
+    if (weight < 0n) {
+      throw new Error(
+        `Edge ${donorId} -> ${entityId} has negative weight ${weight}`,
+      );
+    }
+    const key = `${donorId}:${entityId}`;
+    const edge = this.weights.get(key);
+    if (edge) {
+      edge.weight += weight;
+    } else {
+      this.weights.set(key, { donorId, entityId, weight });
+    }
+    return this;
+  }
+
+  /** Adds a donation's amount to its pair, e.g. from `revealDonation`. */
+  addDonation(donation: {
+    donorId: number;
+    entityId: number;
+    amount: bigint;
+  }): this {
+    return this.addEdge({
+      donorId: donation.donorId,
+      entityId: donation.entityId,
+      weight: donation.amount,
+    });
+  }
+
+  build(): InfluenceGraph {
+    return new InfluenceGraph(
+      [...this.weights.values()].filter((edge) => edge.weight > 0n),
+    );
+  }
+}
+
+function adjacent(map: Map<number, Map<number, bigint>>, id: number) {
+  let neighbours = map.get(id);
+  if (!neighbours) {
+    neighbours = new Map();
+    map.set(id, neighbours);
+  }
+  return neighbours;
+}
+
+function sum(values: Iterable<bigint>) {
+  let total = 0n;
+  for (const value of values) total += value;
+  return total;
+}
@@ -0,0 +1,273 @@
+import type { EntityKind } from "../dictionary";
+import type { InfluenceGraph } from "./InfluenceGraph";
+
+export type CentralityMeasure =
+  | "weightedDegree"
+  | "pageRank"
+  | "betweenness"
+  | "eigenvector";
+
+export const CENTRALITY_MEASURES: CentralityMeasure[] = [
+  "weightedDegree",
+  "pageRank",
+  "betweenness",
+  "eigenvector",
+];
+
+/** Scores of one graph node. Donors are companies, recipients are entities. */
+export interface NodeCentrality {
+  kind: EntityKind;
+  id: number;
+  /** Cents given by a company or received by a recipient. */
+  weightedDegree: bigint;
+  /** Share of a weighted random walk's time spent on the node; sums to 1. */
+  pageRank: number;
+  /** Share of weighted shortest paths between other nodes through the node, 0-1. */
+  betweenness: number;
+  /** Leading eigenvector entry, scaled so the most central node has 1. */
+  eigenvector: number;
+}
+
+export interface CentralityOptions {
+  /** PageRank damping factor, 0.85 by default. */
+  damping?: number;
+  /** Iterations stop once no score moves more than this. */
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+/** Most influential companies and most targeted recipients, best first. */
+export interface InfluenceRanking {
+  measure: CentralityMeasure;
+  companies: NodeCentrality[];
+  recipients: NodeCentrality[];
+}
+
+interface Adjacency {
+  nodes: { kind: EntityKind; id: number; weightedDegree: bigint }[];
+  neighbours: [number, number][][];
+}
+
+/**
+ * Every centrality measure for every node. Money ties are treated as
+ * undirected: a recipient ranks high when it is funded by companies that
+ * fund a lot, and a company when it funds recipients that are funded a lot.
+ * Betweenness treats strong ties as short, with a distance of 1 / weight.
+ */
+export function centrality(
+  graph: InfluenceGraph,
+  options: CentralityOptions = {},
+): NodeCentrality[] {
+  const adjacency = toAdjacency(graph);
+  const pageRanks = pageRank(adjacency, options);
+  const betweennesses = betweenness(adjacency);
+  const eigenvectors = eigenvector(adjacency, options);
+  return adjacency.nodes.map((node, i) => ({
+    ...node,
+    pageRank: pageRanks[i],
+    betweenness: betweennesses[i],
+    eigenvector: eigenvectors[i],
+  }));
+}
+
+/** Sorts scored nodes by `measure` per side, keeping the first `limit` of each. */
+export function rankInfluence(
+  scores: NodeCentrality[],
+  measure: CentralityMeasure = "pageRank",
+  limit?: number,
+): InfluenceRanking {
+  const ranked = [...scores].sort((a, b) => {
+    const x = a[measure];
+    const y = b[measure];
+    return x === y ? a.id - b.id : x > y ? -1 : 1;
+  });
+  const side = (kind: EntityKind) =>
+    ranked.filter((node) => node.kind === kind).slice(0, limit);
+  return {
+    measure,
+    companies: side("company"),
+    recipients: side("recipient"),
+  };
+}
+
+// Weights are scaled to at most 1 so the float iterations stay well
+// conditioned whatever the amounts are; none of the measures depend on scale
+function toAdjacency(graph: InfluenceGraph): Adjacency {
+  const donors = graph.donors();
+  const entities = graph.entities();
+  const nodes = [
+    ...donors.map((id) => ({
+      kind: "company" as const,
+      id,
+      weightedDegree: graph.totalGiven(id),
+    })),
+    ...entities.map((id) => ({
+      kind: "recipient" as const,
+      id,
+      weightedDegree: graph.totalReceived(id),
+    })),
+  ];
+  const entityIndex = new Map(entities.map((id, i) => [id, donors.length + i]));
+  const edges = graph.edges();
+  const maxWeight = edges.reduce(
+    (max, e) => (e.weight > max ? e.weight : max),
+    0n,
+  );
+  const neighbours: [number, number][][] = nodes.map(() => []);
+  donors.forEach((donorId, d) => {
+    for (const [entityId, weight] of graph.recipientsOf(donorId)) {
+      const e = entityIndex.get(entityId)!;
+      const scaled = Number(weight) / Number(maxWeight);
+      neighbours[d].push([e, scaled]);
+      neighbours[e].push([d, scaled]);
+    }
+  });
+  return { nodes, neighbours };
+}
+
+function strength(neighbours: [number, number][]) {
+  return neighbours.reduce((total, [, weight]) => total + weight, 0);
+}
+
+function pageRank(
+  { neighbours }: Adjacency,
+  {
+    damping = 0.85,
+    tolerance = 1e-10,
+    maxIterations = 1000,
+  }: CentralityOptions,
+): number[] {
+  const n = neighbours.length;
+  const strengths = neighbours.map(strength);
+  let ranks = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Array<number>(n).fill((1 - damping) / n);
+    ranks.forEach((rank, i) => {
+      for (const [j, weight] of neighbours[i]) {
+        next[j] += (damping * rank * weight) / strengths[i];
+      }
+    });
+    const change = next.reduce(
+      (max, rank, i) => Math.max(max, Math.abs(rank - ranks[i])),
+      0,
+    );
+    ranks = next;
+    if (change < tolerance) break;
+  }
+  return ranks;
+}
+
+// Power iteration on A + I: a bipartite graph has eigenvalues -λ and λ, so
+// iterating A alone would flip between the two sides instead of converging
+function eigenvector(
+  { neighbours }: Adjacency,
+  { tolerance = 1e-10, maxIterations = 1000 }: CentralityOptions,
+): number[] {
+  let scores = new Array<number>(neighbours.length).fill(1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = scores.map(
+      (score, i) =>
+        score +
+        neighbours[i].reduce(
+          (total, [j, weight]) => total + weight * scores[j],
+          0,
+        ),
+    );
+    const max = Math.max(...next);
+    if (max === 0) return next;
+    const change = next.reduce(
+      (most, score, i) => Math.max(most, Math.abs(score / max - scores[i])),
+      0,
+    );
+    scores = next.map((score) => score / max);
+    if (change < tolerance) break;
+  }
+  return scores;
+}
+
+// Brandes' algorithm with Dijkstra for weighted paths
+function betweenness({ neighbours }: Adjacency): number[] {
+  const n = neighbours.length;
+  const scores = new Array<number>(n).fill(0);
+  for (let source = 0; source < n; source++) {
+    const distance = new Array<number>(n).fill(Infinity);
+    const paths = new Array<number>(n).fill(0);
+    const predecessors: number[][] = neighbours.map(() => []);
+    const settled: number[] = [];
+    const done = new Array<boolean>(n).fill(false);
+    const queue = new MinHeap();
+    distance[source] = 0;
+    paths[source] = 1;
+    queue.push(0, source);
+    for (let next = queue.pop(); next; next = queue.pop()) {
+      const [, v] = next;
+      if (done[v]) continue;
+      done[v] = true;
+      settled.push(v);
+      for (const [w, weight] of neighbours[v]) {
+        const through = distance[v] + 1 / weight;
+        if (sameLength(through, distance[w])) {
+          paths[w] += paths[v];
+          predecessors[w].push(v);
+        } else if (through < distance[w]) {
+          distance[w] = through;
+          paths[w] = paths[v];
+          predecessors[w] = [v];
+          queue.push(through, w);
+        }
+      }
+    }
+    const dependency = new Array<number>(n).fill(0);
+    for (const w of settled.reverse()) {
+      for (const v of predecessors[w]) {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      }
+      if (w !== source) scores[w] += dependency[w];
+    }
+  }
+  // Each undirected path was counted from both ends
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  return scores.map((score) => (pairs > 0 ? score / 2 / pairs : 0));
+}
+
+// Path lengths are sums of reciprocals, so equal paths can differ by rounding
+function sameLength(a: number, b: number) {
+  return Number.isFinite(b) && Math.abs(a - b) <= 1e-12 * Math.max(a, b);
+}
+
+class MinHeap {
+  private readonly items: [number, number][] = [];
+
+  push(key: number, value: number) {
+    const items = this.items;
+    items.push([key, value]);
+    for (let i = items.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0])
+          smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0])
+          smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,117 @@
+import { ethers } from "ethers";
+import type { ConnectionPair, LobbyingClient } from "../client";
+import type { UserDecryptionSession } from "../decryption";
+import {
+  InfluenceGraphBuilder,
+  type InfluenceEdge,
+  type InfluenceGraph,
+} from "./InfluenceGraph";
+
+/**
+ * Donations compared per `analyzeEncryptedConnection` transaction. Each one
+ * extends the chain of FHE operations on the weight by a saturating addition
+ * (about 363k HCU), and the coprocessor rejects a transaction whose chain
+ * goes past 5M HCU. 13 donations is the most that fits; 12 leaves room for
+ * the comparisons that start the chain.
+ */
+export const CONNECTION_ANALYSIS_BATCH = 12;
+
+// A user decryption request covers at most 2048 bits: 32 euint64 weights
+const WEIGHTS_PER_DECRYPTION = 32;
+
+/**
+ * Brings a pair's encrypted weight up to the latest recorded donation, one
+ * transaction per `batchSize` donations. Returns the last donation counted.
+ */
+export async function analyzeConnection(
+  client: LobbyingClient,
+  pair: ConnectionPair,
+  batchSize = CONNECTION_ANALYSIS_BATCH,
+  onProgress?: (processedThrough: bigint, donationCount: bigint) => void,
+): Promise<bigint> {
+  const donationCount = await client.getDonationCount();
+  let { processedThrough } = await client.getConnection(pair);
+  while (processedThrough < donationCount) {
+    ({ processedThrough } = await client.analyzeConnection(pair, batchSize));
+    onProgress?.(processedThrough, donationCount);
+  }
+  return processedThrough;
+}
+
+/** Connection weights a user decryption session could read. */
+export interface RevealedConnections {
+  edges: InfluenceEdge[];
+  /** Analyzed pairs the session user has no access to. */
+  hidden: ConnectionPair[];
+}
+
+/**
+ * Privately decrypts the weights of `pairs` (every analyzed pair by
+ * default). Pairs the session user has no access to are left out and
+ * returned as hidden: analysts get access through `grantConnectionAccess`.
+ * Pairs that were never analyzed are skipped.
+ */
+export async function revealConnections(
+  client: LobbyingClient,
+  session: UserDecryptionSession,
+  pairs?: ConnectionPair[],
+): Promise<RevealedConnections> {
+  const connections = await Promise.all(
+    (pairs ?? (await client.getConnections())).map((pair) =>
+      client.getConnection(pair),
+    ),
+  );
+  const analyzed = connections.filter(
+    (connection) => connection.weight !== ethers.ZeroHash,
+  );
+  const access = await Promise.all(
+    analyzed.map((connection) =>
+      client.hasConnectionAccess(connection, session.userAddress),
+    ),
+  );
+  const readable = analyzed.filter((_, i) => access[i]);
+  const hidden = analyzed
+    .filter((_, i) => !access[i])
+    .map(({ donorId, entityId }) => ({ donorId, entityId }));
+
+  const edges: InfluenceEdge[] = [];
+  for (
+    let start = 0;
+    start < readable.length;
+    start += WEIGHTS_PER_DECRYPTION
+  ) {
+    const chunk = readable.slice(start, start + WEIGHTS_PER_DECRYPTION);
+    const results = await session.decrypt(
+      chunk.map(({ weight }) => ({
+        handle: weight,
+        contractAddress: client.address,
+      })),
+    );
+    for (const { donorId, entityId, weight } of chunk) {
+      const value = results[weight] ?? results[weight.toLowerCase()];
+      if (value === undefined) {
+        throw new Error(`No cleartext returned for handle ${weight}`);
+      }
+      edges.push({ donorId, entityId, weight: BigInt(value) });
+    }
+  }
+  return { edges, hidden };
+}
+
+/**
+ * Reveals connection weights and builds the graph from them. Every analyzed
+ * pair's weight covers all of its donations, revealed or not, so revealed
+ * donations are not added again.
+ */
+export async function buildInfluenceGraph(
+  client: LobbyingClient,
+  session: UserDecryptionSession,
+  pairs?: ConnectionPair[],
+): Promise<{ graph: InfluenceGraph; hidden: ConnectionPair[] }> {
+  const { edges, hidden } = await revealConnections(client, session, pairs);
+  const builder = new InfluenceGraphBuilder();
+  for (const edge of edges) {
+    builder.addEdge(edge);
+  }
+  return { graph: builder.build(), hidden };
+}
@@ -0,0 +1,16 @@
+export {
+  CONNECTION_ANALYSIS_BATCH,
+  analyzeConnection,
+  buildInfluenceGraph,
+  revealConnections,
+} from "./connections";
+export type { RevealedConnections } from "./connections";
+export { InfluenceGraph, InfluenceGraphBuilder } from "./InfluenceGraph";
+export type { InfluenceEdge } from "./InfluenceGraph";
+export { CENTRALITY_MEASURES, centrality, rankInfluence } from "./centrality";
+export type {
+  CentralityMeasure,
+  CentralityOptions,
+  InfluenceRanking,
+  NodeCentrality,
+} from "./centrality";
@@ -0,0 +1,525 @@
+import type { DonationFields } from "../client";
+import {
+  createNameResolver,
+  normalizeName,
+  type EntityDictionary,
+  type MissingNames,
+  type NameResolver,
+} from "../dictionary";
+import { dollarsToCents } from "../money";
+import {
+  documentHash,
+  type RecordBlob,
+  type RecordProvenance,
+  type ReportingPeriod,
+} from "../records";
+import { normalizeOrganizationName } from "./names";
+
+/**
+ * Column layout of the FEC contribution bulk files. `itcont.txt` (individual
+ * contributions) and `itoth.txt` (committee-to-committee transactions) share
+ * the first layout; `itpas2.txt` (committee contributions to candidates) adds
+ * CAND_ID after OTHER_ID.
+ */
+export const FEC_COLUMNS = [
+  "CMTE_ID",
+  "AMNDT_IND",
+  "RPT_TP",
+  "TRANSACTION_PGI",
+  "IMAGE_NUM",
+  "TRANSACTION_TP",
+  "ENTITY_TP",
+  "NAME",
+  "CITY",
+  "STATE",
+  "ZIP_CODE",
+  "EMPLOYER",
+  "OCCUPATION",
+  "TRANSACTION_DT",
+  "TRANSACTION_AMT",
+  "OTHER_ID",
+  "TRAN_ID",
+  "FILE_NUM",
+  "MEMO_CD",
+  "MEMO_TEXT",
+  "SUB_ID",
+] as const;
+
+export const FEC_PAS2_COLUMNS = [
+  ...FEC_COLUMNS.slice(0, 16),
+  "CAND_ID",
+  ...FEC_COLUMNS.slice(16),
+] as const;
+
+/** Category given to every FEC record; the files carry no issue codes. */
+export const FEC_CATEGORY = "Political";
+
+// Transaction types that return money to the contributor
+const REFUND_TYPES = new Set(["22Y", "22Z", "22R"]);
+
+// EMPLOYER values that do not name a company
+const NON_EMPLOYERS = new Set([
+  "",
+  "N/A",
+  "NA",
+  "NONE",
+  "NOT EMPLOYED",
+  "UNEMPLOYED",
+  "RETIRED",
+  "SELF",
+  "SELF-EMPLOYED",
+  "SELF EMPLOYED",
+  "HOMEMAKER",
+  "STUDENT",
+  "INFORMATION REQUESTED",
+  "INFORMATION REQUESTED PER BEST EFFORTS",
+  "REQUESTED",
+]);
+
+export interface FecContribution {
+  /** SUB_ID: unique per row across FEC data. */
+  subId: string;
+  line: number;
+  /** Filer committee; receives the money except in `itpas2`. */
+  committeeId: string;
+  amendment: string;
+  /** RPT_TP, e.g. "Q1", "YE", "M3" or "12G". */
+  reportType: string;
+  /** Scanned page of the report the row was filed on. */
+  imageNumber: string;
+  /** Unix seconds the report was received, from an 18-digit IMAGE_NUM. */
+  receivedDate?: number;
+  transactionType: string;
+  entityType: string;
+  name: string;
+  zip: string;
+  employer: string;
+  /** Unix seconds; undefined when TRANSACTION_DT is blank. */
+  date?: number;
+  /** Signed cents: negative amounts are refunds or downward amendments. */
+  amount: bigint;
+  otherId: string;
+  candidateId?: string;
+  transactionId: string;
+  fileNumber: number;
+  memo: boolean;
+  /** keccak256 of the line as it appears in the bulk file. */
+  documentHash: string;
+}
+
+export type FecRowStatus =
+  | "planned"
+  | "imported"
+  | "failed"
+  | "invalid"
+  | "skipped"
+  | "superseded"
+  | "refunded"
+  | "duplicate";
+
+export interface FecRowReport {
+  subId: string;
+  /** Line in the source file. */
+  line: number;
+  status: FecRowStatus;
+  reason?: string;
+  donationId?: string;
+  recordId?: string;
+  company?: string;
+  committeeId?: string;
+  /** Cents after refunds were netted off. */
+  amountCents?: string;
+  /** Refunds netted against this contribution, in cents. */
+  refundedCents?: string;
+  provenance?: RecordProvenance;
+}
+
+export interface FecRow {
+  subId: string;
+  record: RecordBlob;
+  donation: DonationFields;
+}
+
+export interface FecImportPlan {
+  rows: FecRow[];
+  /** Every contribution that is not planned, and every planned one that was reduced by a refund. */
+  reports: FecRowReport[];
+  missingNames: MissingNames;
+}
+
+/** FEC amounts are whole or decimal dollars with an optional sign. */
+export function fecAmountToCents(value: string): bigint {
+  const text = value.trim();
+  const negative = text.startsWith("-");
+  const cents = dollarsToCents(negative ? text.slice(1) : text);
+  return negative ? -cents : cents;
+}
+
+/** Company name for an EMPLOYER value, `undefined` for retirees, the self-employed and blanks. */
+export function normalizeEmployer(employer: string): string | undefined {
+  const cleaned = employer.trim().replace(/\s+/g, " ");
+  if (NON_EMPLOYERS.has(cleaned.toUpperCase())) return undefined;
+  return normalizeOrganizationName(cleaned) || undefined;
+}
+
+/** Parses one pipe-delimited line of `itcont`, `itoth` or `itpas2`. */
+export function parseFecLine(text: string, line: number): FecContribution {
+  const cells = text.split("|");
+  const columns: readonly string[] =
+    cells.length === FEC_PAS2_COLUMNS.length
+      ? FEC_PAS2_COLUMNS
+      : cells.length === FEC_COLUMNS.length
+        ? FEC_COLUMNS
+        : [];
+  if (columns.length === 0) {
+    throw new Error(
+      `Expected ${FEC_COLUMNS.length} or ${FEC_PAS2_COLUMNS.length} fields, got ${cells.length}`,
+    );
+  }
+  const row: Record<string, string> = {};
+  columns.forEach((column, i) => (row[column] = cells[i].trim()));
+
+  if (!row.SUB_ID) {
+    throw new Error("Missing SUB_ID");
+  }
+  if (!row.CMTE_ID) {
+    throw new Error("Missing CMTE_ID");
+  }
+  const date = parseFecDate(row.TRANSACTION_DT);
+  if (row.TRANSACTION_DT && date === undefined) {
+    throw new Error(`Invalid TRANSACTION_DT "${row.TRANSACTION_DT}"`);
+  }
+  return {
+    subId: row.SUB_ID,
+    line,
+    committeeId: row.CMTE_ID.toUpperCase(),
+    amendment: row.AMNDT_IND,
+    reportType: row.RPT_TP.toUpperCase(),
+    imageNumber: row.IMAGE_NUM,
+    receivedDate: parseImageDate(row.IMAGE_NUM),
+    transactionType: row.TRANSACTION_TP.toUpperCase(),
+    entityType: row.ENTITY_TP.toUpperCase(),
+    name: row.NAME,
+    zip: row.ZIP_CODE.slice(0, 5),
+    employer: row.EMPLOYER,
+    date,
+    amount: fecAmountToCents(row.TRANSACTION_AMT),
+    otherId: row.OTHER_ID.toUpperCase(),
+    candidateId: row.CAND_ID?.toUpperCase() || undefined,
+    transactionId: row.TRAN_ID,
+    fileNumber: Number(row.FILE_NUM) || 0,
+    memo: row.MEMO_CD.toUpperCase() === "X",
+    documentHash: documentHash(text),
+  };
+}
+
+/**
+ * Turns contributions into records and donations. The contract only stores
+ * unsigned amounts, so negative rows are netted off before anything is
+ * encrypted:
+ *
+ * - Rows re-filed in an amended report supersede the earlier row with the
+ *   same committee and TRAN_ID (the highest FILE_NUM wins), including
+ *   amendments that lower an amount.
+ * - Refunds (negative amounts or refund transaction types) reduce the same
+ *   contributor's latest earlier contributions to the same committee; a
+ *   contribution refunded in full is not recorded, and a refund with nothing
+ *   to net against is reported as invalid.
+ * - Memo entries repeat amounts reported elsewhere and are skipped.
+ *
+ * The donor is the contributor's employer for individuals and the
+ * contributing organisation otherwise; the recipient is the receiving
+ * committee ID.
+ *
+ * Contributions are added one at a time so bulk files can be planned while
+ * they are read: memo entries and superseded filings are reported and
+ * dropped as they arrive, and only the latest filing of each transaction is
+ * held until `finish` nets the refunds.
+ */
+export class FecImportPlanner {
+  private readonly resolver: NameResolver;
+  private readonly reports: FecRowReport[] = [];
+  private readonly order = new Map<FecContribution, number>();
+  // Latest filing of each transaction, and rows without a TRAN_ID to key them by
+  private readonly latest = new Map<string, FecContribution>();
+  private readonly untracked: FecContribution[] = [];
+  private readonly remaining = new Map<FecContribution, bigint>();
+  private added = 0;
+
+  constructor(
+    dictionary: EntityDictionary,
+    allowUnpublished = false,
+    private readonly now = Math.floor(Date.now() / 1000),
+  ) {
+    this.resolver = createNameResolver(dictionary, allowUnpublished);
+  }
+
+  add(contribution: FecContribution) {
+    this.order.set(contribution, this.added++);
+    if (contribution.memo) {
+      this.report(contribution, "skipped", "Memo entry");
+      this.order.delete(contribution);
+      return;
+    }
+    if (!contribution.transactionId) {
+      this.untracked.push(contribution);
+      return;
+    }
+    const key = `${contribution.committeeId}:${contribution.transactionId}`;
+    const previous = this.latest.get(key);
+    if (previous && previous.fileNumber > contribution.fileNumber) {
+      this.report(contribution, "superseded", `Amended by ${previous.subId}`);
+      this.order.delete(contribution);
+      return;
+    }
+    if (previous) {
+      this.report(previous, "superseded", `Amended by ${contribution.subId}`);
+      this.order.delete(previous);
+    }
+    this.latest.set(key, contribution);
+  }
+
+  /** Nets refunds against what was added and plans the remaining contributions. */
+  finish(): FecImportPlan {
+    const plan: FecImportPlan = {
+      rows: [],
+      reports: this.reports,
+      missingNames: this.resolver.missing,
+    };
+    const { resolve } = this.resolver;
+    const order = this.order;
+    const remaining = this.remaining;
+    const current = [...this.untracked, ...this.latest.values()].sort(
+      (a, b) => order.get(a)! - order.get(b)!,
+    );
+
+    const isRefund = (c: FecContribution) =>
+      c.amount < 0n || REFUND_TYPES.has(c.transactionType);
+    const contributorKey = (c: FecContribution) =>
+      `${recipientOf(c)}|${normalizeName(c.name)}|${c.zip}`;
+
+    const byContributor = new Map<string, FecContribution[]>();
+    for (const contribution of current) {
+      if (isRefund(contribution) || contribution.amount === 0n) continue;
+      remaining.set(contribution, contribution.amount);
+      const key = contributorKey(contribution);
+      byContributor.set(key, [...(byContributor.get(key) ?? []), contribution]);
+    }
+
+    for (const refund of current.filter(isRefund)) {
+      let owed = refund.amount < 0n ? -refund.amount : refund.amount;
+      // Latest contributions first, never ones made after the refund
+      const candidates = (byContributor.get(contributorKey(refund)) ?? [])
+        .filter((c) => !refund.date || !c.date || c.date <= refund.date)
+        .sort(
+          (a, b) =>
+            (b.date ?? 0) - (a.date ?? 0) || order.get(b)! - order.get(a)!,
+        );
+      for (const contribution of candidates) {
+        if (owed === 0n) break;
+        const left = remaining.get(contribution)!;
+        const netted = left < owed ? left : owed;
+        remaining.set(contribution, left - netted);
+        owed -= netted;
+      }
+      if (owed > 0n) {
+        this.report(
+          refund,
+          "invalid",
+          `Refund of ${owed} cents has no matching contribution`,
+        );
+      } else {
+        this.report(
+          refund,
+          "skipped",
+          "Refund netted against earlier contributions",
+        );
+      }
+    }
+
+    for (const contribution of current) {
+      if (isRefund(contribution)) continue;
+      if (contribution.amount === 0n) {
+        this.report(contribution, "skipped", "Zero amount");
+        continue;
+      }
+
+      const amount = remaining.get(contribution)!;
+      const refunded = contribution.amount - amount;
+      if (amount === 0n) {
+        const entry = this.report(contribution, "refunded", "Refunded in full");
+        entry.refundedCents = refunded.toString();
+        continue;
+      }
+
+      const company = donorOf(contribution);
+      const committeeId = recipientOf(contribution);
+      if (!company) {
+        this.report(
+          contribution,
+          "skipped",
+          "Contributor has no company employer",
+        );
+        continue;
+      }
+      try {
+        const donorId = resolve(company, "company");
+        const entityId = resolve(committeeId, "recipient");
+        if (donorId === undefined || entityId === undefined) {
+          throw new Error("Names are not in the published dictionary");
+        }
+        const dates = {
+          activityDate: contribution.date,
+          reportingPeriod: fecReportingPeriod(contribution),
+          // A receipt date before the contribution is a data error; the contribution date wins
+          filingDate:
+            contribution.receivedDate !== undefined &&
+            contribution.receivedDate >= (contribution.date ?? 0)
+              ? contribution.receivedDate
+              : undefined,
+        };
+        plan.rows.push({
+          subId: contribution.subId,
+          donation: {
+            amount,
+            donorId,
+            entityId,
+            ...dates,
+            // Stable across amendments, like the key that picks the latest one; rows without a
+            // TRAN_ID are never amended, so their SUB_ID keeps equal contributions apart
+            reference: contribution.transactionId
+              ? `fec:${contribution.committeeId}:${contribution.transactionId}`
+              : `fec:${contribution.committeeId}:sub:${contribution.subId}`,
+          },
+          record: {
+            timestamp: this.now,
+            ...dates,
+            category: FEC_CATEGORY,
+            status: "pending",
+            provenance: fecProvenance(contribution),
+          },
+        });
+        if (refunded > 0n) {
+          const entry = this.report(
+            contribution,
+            "planned",
+            "Partially refunded",
+          );
+          entry.refundedCents = refunded.toString();
+        }
+      } catch (e) {
+        this.report(contribution, "invalid", (e as Error).message);
+      }
+    }
+    return plan;
+  }
+
+  private report(
+    contribution: FecContribution,
+    status: FecRowStatus,
+    reason?: string,
+  ) {
+    const entry: FecRowReport = {
+      subId: contribution.subId,
+      line: contribution.line,
+      status,
+      reason,
+      company: donorOf(contribution),
+      committeeId: recipientOf(contribution),
+      amountCents: (
+        this.remaining.get(contribution) ?? contribution.amount
+      ).toString(),
+      provenance: fecProvenance(contribution),
+    };
+    this.reports.push(entry);
+    return entry;
+  }
+}
+
+/** Plans contributions that are already in memory; see `FecImportPlanner`. */
+export function planFecImport(
+  contributions: FecContribution[],
+  dictionary: EntityDictionary,
+  allowUnpublished = false,
+  now = Math.floor(Date.now() / 1000),
+): FecImportPlan {
+  const planner = new FecImportPlanner(dictionary, allowUnpublished, now);
+  contributions.forEach((contribution) => planner.add(contribution));
+  return planner.finish();
+}
+
+// Cites the scanned report page when there is one, the row's SUB_ID otherwise
+function fecProvenance(contribution: FecContribution): RecordProvenance {
+  return {
+    source: "fec",
+    documentId: contribution.imageNumber
+      ? `https://docquery.fec.gov/cgi-bin/fecimg/?${contribution.imageNumber}`
+      : contribution.subId,
+    documentHash: contribution.documentHash,
+  };
+}
+
+// In itpas2 the filer gives to the committee in OTHER_ID (or the candidate)
+function recipientOf(contribution: FecContribution) {
+  if (contribution.candidateId === undefined) return contribution.committeeId;
+  return contribution.otherId || contribution.candidateId;
+}
+
+function donorOf(contribution: FecContribution) {
+  if (contribution.candidateId !== undefined) return contribution.committeeId;
+  if (contribution.entityType === "IND" || contribution.entityType === "") {
+    return normalizeEmployer(contribution.employer);
+  }
+  return normalizeOrganizationName(contribution.name) || undefined;
+}
+
+const QUARTERLY_REPORTS: Record<string, number> = {
+  Q1: 1,
+  Q2: 2,
+  Q3: 3,
+  YE: 4,
+};
+
+/**
+ * The quarter a contribution was reported for. Quarterly reports are named
+ * after their quarter and monthly ones (M2-M12) after the month following
+ * the one they cover; election reports (12G, 30G, ...) have no quarter.
+ */
+export function fecReportingPeriod(
+  contribution: FecContribution,
+): ReportingPeriod | undefined {
+  if (contribution.date === undefined) return undefined;
+  const year = new Date(contribution.date * 1000).getUTCFullYear();
+  const quarter = QUARTERLY_REPORTS[contribution.reportType];
+  if (quarter) return { year, quarter };
+  const monthly = /^M(\d{1,2})$/.exec(contribution.reportType);
+  const month = monthly ? Number(monthly[1]) - 1 : 0;
+  return month >= 1 && month <= 11
+    ? { year, quarter: Math.ceil(month / 3) }
+    : undefined;
+}
+
+// 18-digit image numbers start with the YYYYMMDD the report was received; older 11-digit ones only have a year
+function parseImageDate(imageNumber: string): number | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})\d{10}$/.exec(imageNumber);
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  return utcDate(year, month, day);
+}
+
+// MMDDYYYY
+function parseFecDate(value: string): number | undefined {
+  const match = /^(\d{2})(\d{2})(\d{4})$/.exec(value);
+  if (!match) return undefined;
+  const [, month, day, year] = match;
+  return utcDate(year, month, day);
+}
+
+// Unix seconds of a calendar date, undefined if the month or day does not exist instead of rolling over
+function utcDate(year: string, month: string, day: string): number | undefined {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCMonth() === Number(month) - 1 &&
+    date.getUTCDate() === Number(day)
+    ? date.getTime() / 1000
+    : undefined;
+}
@@ -0,0 +1,38 @@
+export {
+  FEC_CATEGORY,
+  FEC_COLUMNS,
+  FEC_PAS2_COLUMNS,
+  FecImportPlanner,
+  fecAmountToCents,
+  fecReportingPeriod,
+  normalizeEmployer,
+  parseFecLine,
+  planFecImport,
+} from "./fec";
+export type {
+  FecContribution,
+  FecImportPlan,
+  FecRow,
+  FecRowReport,
+  FecRowStatus,
+} from "./fec";
+export {
+  LDA_CATEGORIES,
+  LDA_ISSUE_CODES,
+  filingAmount,
+  issueCategory,
+  issueCode,
+  ldaReportingPeriod,
+  parseLdaFile,
+  planLdaImport,
+} from "./lda";
+export type {
+  LdaCategory,
+  LdaFile,
+  LdaFiling,
+  LdaFilingReport,
+  LdaFilingStatus,
+  LdaImportPlan,
+  LdaRow,
+} from "./lda";
+export { normalizeOrganizationName } from "./names";
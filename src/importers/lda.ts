@@ -0,0 +1,623 @@
+import type { DonationFields } from "../client";
+import {
+  createNameResolver,
+  type EntityDictionary,
+  type MissingNames,
+} from "../dictionary";
+import { dollarsToCents } from "../money";
+import {
+  documentHash,
+  type RecordBlob,
+  type RecordProvenance,
+  type ReportingPeriod,
+} from "../records";
+import { normalizeOrganizationName } from "./names";
+
+/**
+ * One Senate Lobbying Disclosure Act filing, from either the lda.senate.gov
+ * JSON API or the bulk XML download.
+ */
+export interface LdaFiling {
+  filingId: string;
+  /** e.g. "Q1", "Q4 REPORT", "1A" (amendment). */
+  filingType: string;
+  year?: number;
+  period?: string;
+  postedAt?: string;
+  registrant: { id?: string; name: string };
+  client: { id?: string; name: string };
+  selfFiler: boolean;
+  /** Cents; reported by lobbying firms. */
+  income?: bigint;
+  /** Cents; reported by organisations lobbying for themselves. */
+  expenses?: bigint;
+  /** Three-letter general issue codes, e.g. "TAX". */
+  issueCodes: string[];
+  coveredOfficials: { lobbyist: string; position: string }[];
+  governmentEntities: string[];
+  /** `filing_document_url` from the API; the bulk XML has none. */
+  documentUrl?: string;
+  /**
+   * keccak256 of the filing as exported: the `<Filing>` element for XML, the
+   * filing object re-serialized with `JSON.stringify` for the API.
+   */
+  documentHash: string;
+}
+
+/** A parsed export file; filings that could not be read are listed in `errors`. */
+export interface LdaFile {
+  file: string;
+  filings: LdaFiling[];
+  errors: { index: number; filingId?: string; reason: string }[];
+}
+
+export interface LdaRow {
+  filingId: string;
+  /** The record blob, without the donation ID it gets once recorded. */
+  record: RecordBlob;
+  /** The client pays the registrant. */
+  donation: DonationFields;
+}
+
+export type LdaFilingStatus =
+  | "planned"
+  | "imported"
+  | "failed"
+  | "invalid"
+  | "duplicate";
+
+export interface LdaFilingReport {
+  file: string;
+  filingId: string;
+  status: LdaFilingStatus;
+  reason?: string;
+  donationId?: string;
+  /** UniversalAdapter record ID (`<key>#<index>`). */
+  recordId?: string;
+  client?: string;
+  registrant?: string;
+  amountCents?: string;
+  category?: string;
+  issueCodes: string[];
+  coveredOfficials: { lobbyist: string; position: string }[];
+  provenance?: RecordProvenance;
+}
+
+export interface LdaImportPlan {
+  rows: LdaRow[];
+  /** One entry per filing, in input order. */
+  filings: LdaFilingReport[];
+  missingNames: MissingNames;
+}
+
+export const LDA_CATEGORIES = [
+  "Technology",
+  "Finance",
+  "Healthcare",
+  "Energy",
+  "Other",
+] as const;
+
+export type LdaCategory = (typeof LDA_CATEGORIES)[number];
+
+/**
+ * LDA general issue codes with their display names, as they appear in the
+ * bulk XML, and the record category each one maps to.
+ */
+export const LDA_ISSUE_CODES: Record<
+  string,
+  { name: string; category: LdaCategory }
+> = {
+  ACC: { name: "Accounting", category: "Finance" },
+  ADV: { name: "Advertising", category: "Other" },
+  AER: { name: "Aerospace", category: "Other" },
+  AGR: { name: "Agriculture", category: "Other" },
+  ALC: { name: "Alcohol and Drug Abuse", category: "Healthcare" },
+  ANI: { name: "Animals", category: "Other" },
+  APP: { name: "Apparel/Clothing Industry/Textiles", category: "Other" },
+  ART: { name: "Arts/Entertainment", category: "Other" },
+  AUT: { name: "Automotive Industry", category: "Other" },
+  AVI: { name: "Aviation/Aircraft/Airlines", category: "Other" },
+  BAN: { name: "Banking", category: "Finance" },
+  BEV: { name: "Beverage Industry", category: "Other" },
+  BNK: { name: "Bankruptcy", category: "Finance" },
+  BUD: { name: "Budget/Appropriations", category: "Other" },
+  CAW: { name: "Clean Air and Water (Quality)", category: "Energy" },
+  CDT: { name: "Commodities (Big Ticket)", category: "Finance" },
+  CHM: { name: "Chemicals/Chemical Industry", category: "Other" },
+  CIV: { name: "Civil Rights/Civil Liberties", category: "Other" },
+  COM: {
+    name: "Communications/Broadcasting/Radio/TV",
+    category: "Technology",
+  },
+  CON: { name: "Constitution", category: "Other" },
+  CPI: { name: "Computer Industry", category: "Technology" },
+  CPT: { name: "Copyright/Patent/Trademark", category: "Technology" },
+  CSP: { name: "Consumer Issues/Safety/Protection", category: "Other" },
+  DEF: { name: "Defense", category: "Other" },
+  DIS: { name: "Disaster Planning/Emergencies", category: "Other" },
+  DOC: { name: "District of Columbia", category: "Other" },
+  ECN: { name: "Economics/Economic Development", category: "Finance" },
+  EDU: { name: "Education", category: "Other" },
+  ENG: { name: "Energy/Nuclear", category: "Energy" },
+  ENV: { name: "Environmental/Superfund", category: "Energy" },
+  FAM: { name: "Family Issues/Abortion/Adoption", category: "Other" },
+  FIN: {
+    name: "Financial Institutions/Investments/Securities",
+    category: "Finance",
+  },
+  FIR: { name: "Firearms/Guns/Ammunition", category: "Other" },
+  FOO: { name: "Food Industry (Safety, Labeling, etc.)", category: "Other" },
+  FOR: { name: "Foreign Relations", category: "Other" },
+  FUE: { name: "Fuel/Gas/Oil", category: "Energy" },
+  GAM: { name: "Gaming/Gambling/Casino", category: "Other" },
+  GOV: { name: "Government Issues", category: "Other" },
+  HCR: { name: "Health Issues", category: "Healthcare" },
+  HOM: { name: "Homeland Security", category: "Other" },
+  HOU: { name: "Housing", category: "Other" },
+  IMM: { name: "Immigration", category: "Other" },
+  IND: { name: "Indian/Native American Affairs", category: "Other" },
+  INS: { name: "Insurance", category: "Finance" },
+  INT: { name: "Intelligence and Surveillance", category: "Other" },
+  LAW: {
+    name: "Law Enforcement/Crime/Criminal Justice",
+    category: "Other",
+  },
+  LBR: { name: "Labor Issues/Antitrust/Workplace", category: "Other" },
+  MAN: { name: "Manufacturing", category: "Other" },
+  MAR: { name: "Marine/Maritime/Boating/Fisheries", category: "Other" },
+  MED: { name: "Media (Information/Publishing)", category: "Technology" },
+  MIA: {
+    name: "Medical/Disease Research/Clinical Labs",
+    category: "Healthcare",
+  },
+  MMM: { name: "Medicare/Medicaid", category: "Healthcare" },
+  MON: { name: "Minting/Money/Gold Standard", category: "Finance" },
+  NAT: { name: "Natural Resources", category: "Energy" },
+  PHA: { name: "Pharmacy", category: "Healthcare" },
+  POS: { name: "Postal", category: "Other" },
+  REL: { name: "Religion", category: "Other" },
+  RES: {
+    name: "Real Estate/Land Use/Conservation",
+    category: "Other",
+  },
+  RET: { name: "Retirement", category: "Finance" },
+  ROD: { name: "Roads/Highway", category: "Other" },
+  RRR: { name: "Railroads", category: "Other" },
+  SCI: { name: "Science/Technology", category: "Technology" },
+  SMB: { name: "Small Business", category: "Other" },
+  SPO: { name: "Sports/Athletics", category: "Other" },
+  TAR: { name: "Miscellaneous Tariff Bills", category: "Other" },
+  TAX: { name: "Taxation/Internal Revenue Code", category: "Finance" },
+  TEC: { name: "Telecommunications", category: "Technology" },
+  TOB: { name: "Tobacco", category: "Healthcare" },
+  TOR: { name: "Torts", category: "Other" },
+  TRA: { name: "Transportation", category: "Other" },
+  TRD: { name: "Trade (Domestic and Foreign)", category: "Other" },
+  TRU: { name: "Trucking/Shipping", category: "Other" },
+  UNM: { name: "Unemployment", category: "Other" },
+  URB: { name: "Urban Development/Municipalities", category: "Other" },
+  UTI: { name: "Utilities", category: "Energy" },
+  VET: { name: "Veterans", category: "Other" },
+  WAS: {
+    name: "Waste (hazardous/solid/interstate/nuclear)",
+    category: "Energy",
+  },
+  WEL: { name: "Welfare", category: "Other" },
+};
+
+// The bulk XML spells issue codes out, sometimes with "&" for "and"
+const ISSUE_CODES_BY_NAME = new Map(
+  Object.entries(LDA_ISSUE_CODES).map(([code, { name }]) => [
+    issueNameKey(name),
+    code,
+  ]),
+);
+
+function issueNameKey(name: string) {
+  return name
+    .toUpperCase()
+    .replace(/&/g, "AND")
+    .replace(/[^A-Z]/g, "");
+}
+
+// API periods are spelled out ("first_quarter"), XML ones read "1st Quarter (Jan 1 - Mar 31)" and
+// filing types ("Q1", "1A") are the fallback. Semiannual reports from before 2008 count as the
+// quarter they end in.
+const PERIOD_QUARTERS: [RegExp, number][] = [
+  [/\b(first|1st)\b|^q?1[a-z]?\b/, 1],
+  [/\b(second|2nd)\b|mid ?year|^q?2[a-z]?\b/, 2],
+  [/\b(third|3rd)\b|^q?3[a-z]?\b/, 3],
+  [/\b(fourth|4th)\b|year ?end|^q?4[a-z]?\b/, 4],
+];
+
+/** The quarter a filing covers, `undefined` for registrations and filings without a year. */
+export function ldaReportingPeriod(
+  filing: LdaFiling,
+): ReportingPeriod | undefined {
+  if (!filing.year) return undefined;
+  for (const text of [filing.period, filing.filingType]) {
+    const words = (text ?? "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim();
+    const match = PERIOD_QUARTERS.find(([pattern]) => pattern.test(words));
+    if (match) return { year: filing.year, quarter: match[1] };
+  }
+  return undefined;
+}
+
+/** Three-letter code for a code or display name, `undefined` if unknown. */
+export function issueCode(value: string): string | undefined {
+  const trimmed = value.trim().toUpperCase();
+  if (LDA_ISSUE_CODES[trimmed]) return trimmed;
+  return ISSUE_CODES_BY_NAME.get(issueNameKey(trimmed));
+}
+
+/**
+ * The category most of a filing's issue codes map to. Ties go to the code
+ * listed first; filings with no mapped code are "Other".
+ */
+export function issueCategory(codes: string[]): LdaCategory {
+  const counts = new Map<LdaCategory, number>();
+  for (const code of codes) {
+    const category = LDA_ISSUE_CODES[code]?.category;
+    if (category && category !== "Other") {
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+  }
+  let best: LdaCategory = "Other";
+  for (const [category, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = category;
+  }
+  return best;
+}
+
+/**
+ * Parses an LDA export: a JSON API page (`{ results: [...] }`), an array of
+ * API filings, a single API filing, or the bulk `<PublicFilings>` XML. Throws
+ * only when the file as a whole is unreadable.
+ */
+export function parseLdaFile(file: string, text: string): LdaFile {
+  const trimmed = text.trim();
+  const result: LdaFile = { file, filings: [], errors: [] };
+
+  let entries: { filingId?: string; parse: () => LdaFiling }[];
+  if (trimmed.startsWith("<")) {
+    if (!/<PublicFilings\b|<Filing\b/.test(trimmed)) {
+      throw new Error(`${file} is not an LDA filings XML export`);
+    }
+    entries = xmlFilings(trimmed).map(([element, attributes, body]) => ({
+      filingId: xmlAttributes(attributes).ID,
+      parse: () => ({
+        ...parseXmlFiling(attributes, body),
+        documentHash: documentHash(element),
+      }),
+    }));
+  } else {
+    const json = JSON.parse(trimmed) as unknown;
+    const filings: unknown[] = Array.isArray(json)
+      ? json
+      : isObject(json) && Array.isArray(json.results)
+        ? json.results
+        : [json];
+    entries = filings.map((filing) => ({
+      filingId: isObject(filing) ? optionalText(filing.filing_uuid) : undefined,
+      parse: () => {
+        if (!isObject(filing)) {
+          throw new Error("Filing is not an object");
+        }
+        return {
+          ...parseJsonFiling(filing),
+          documentHash: documentHash(JSON.stringify(filing)),
+        };
+      },
+    }));
+  }
+
+  entries.forEach(({ filingId, parse }, index) => {
+    try {
+      result.filings.push(parse());
+    } catch (e) {
+      result.errors.push({ index, filingId, reason: (e as Error).message });
+    }
+  });
+  return result;
+}
+
+/** Amount the client paid for lobbying: income for firms, expenses for self-filers. */
+export function filingAmount(filing: LdaFiling): bigint | undefined {
+  return filing.selfFiler
+    ? (filing.expenses ?? filing.income)
+    : (filing.income ?? filing.expenses);
+}
+
+/**
+ * Turns filings into records and donations. Repeated filing IDs (the same
+ * filing in two exports) are reported as duplicates, filings without a
+ * reported amount as invalid, and names go through the published
+ * dictionary like the legacy migration.
+ */
+export function planLdaImport(
+  files: LdaFile[],
+  dictionary: EntityDictionary,
+  allowUnpublished = false,
+  now = Math.floor(Date.now() / 1000),
+): LdaImportPlan {
+  const { resolve, missing } = createNameResolver(dictionary, allowUnpublished);
+  const plan: LdaImportPlan = { rows: [], filings: [], missingNames: missing };
+  const seen = new Set<string>();
+
+  for (const { file, filings, errors } of files) {
+    for (const { index, filingId, reason } of errors) {
+      plan.filings.push({
+        file,
+        filingId: filingId ?? `#${index}`,
+        status: "invalid",
+        reason,
+        issueCodes: [],
+        coveredOfficials: [],
+      });
+    }
+    for (const filing of filings) {
+      const company = normalizeOrganizationName(filing.client.name);
+      const recipient = normalizeOrganizationName(filing.registrant.name);
+      const category = issueCategory(filing.issueCodes);
+      const amount = filingAmount(filing);
+      const provenance: RecordProvenance = {
+        source: "lda",
+        documentId: filing.documentUrl ?? filing.filingId,
+        documentHash: filing.documentHash,
+      };
+      const report: LdaFilingReport = {
+        file,
+        filingId: filing.filingId,
+        status: "planned",
+        client: company,
+        registrant: recipient,
+        amountCents: amount?.toString(),
+        category,
+        issueCodes: filing.issueCodes,
+        coveredOfficials: filing.coveredOfficials,
+        provenance,
+      };
+      plan.filings.push(report);
+
+      if (seen.has(filing.filingId)) {
+        report.status = "duplicate";
+        continue;
+      }
+      seen.add(filing.filingId);
+
+      try {
+        if (!amount) {
+          throw new Error("No income or expenses reported");
+        }
+        const donorId = resolve(company, "company");
+        const entityId = resolve(recipient, "recipient");
+        if (donorId === undefined || entityId === undefined) {
+          throw new Error("Names are not in the published dictionary");
+        }
+        // A filing covers a quarter rather than a single day, so it has no activity date
+        const postedAt = filing.postedAt ? Date.parse(filing.postedAt) : NaN;
+        const dates = {
+          reportingPeriod: ldaReportingPeriod(filing),
+          filingDate: Number.isNaN(postedAt)
+            ? undefined
+            : Math.floor(postedAt / 1000),
+        };
+        plan.rows.push({
+          filingId: filing.filingId,
+          donation: {
+            amount,
+            donorId,
+            entityId,
+            ...dates,
+            reference: `lda:${filing.filingId}`,
+          },
+          record: {
+            timestamp: now,
+            ...dates,
+            category,
+            status: "pending",
+            provenance,
+          },
+        });
+      } catch (e) {
+        report.status = "invalid";
+        report.reason = (e as Error).message;
+      }
+    }
+  }
+  return plan;
+}
+
+function parseJsonFiling(
+  filing: Record<string, unknown>,
+): Omit<LdaFiling, "documentHash"> {
+  const registrant = asObject(filing.registrant);
+  const client = asObject(filing.client);
+  const activities = Array.isArray(filing.lobbying_activities)
+    ? filing.lobbying_activities.filter(isObject)
+    : [];
+
+  const issueCodes: string[] = [];
+  const coveredOfficials: LdaFiling["coveredOfficials"] = [];
+  const governmentEntities: string[] = [];
+  for (const activity of activities) {
+    const code = issueCode(String(activity.general_issue_code ?? ""));
+    if (code && !issueCodes.includes(code)) issueCodes.push(code);
+
+    for (const entry of asArray(activity.lobbyists)) {
+      const position = String(entry.covered_position ?? "").trim();
+      if (!position) continue;
+      const lobbyist = asObject(entry.lobbyist);
+      coveredOfficials.push({
+        lobbyist: [lobbyist.first_name, lobbyist.last_name]
+          .filter(Boolean)
+          .join(" "),
+        position,
+      });
+    }
+    for (const entity of asArray(activity.government_entities)) {
+      const name = String(entity.name ?? "").trim();
+      if (name && !governmentEntities.includes(name)) {
+        governmentEntities.push(name);
+      }
+    }
+  }
+
+  const clientName = String(client.name ?? "");
+  const registrantName = String(registrant.name ?? "");
+  return {
+    filingId: requireText(filing.filing_uuid, "filing_uuid"),
+    filingType: String(filing.filing_type ?? ""),
+    year: filing.filing_year ? Number(filing.filing_year) : undefined,
+    period: optionalText(filing.filing_period),
+    postedAt: optionalText(filing.dt_posted),
+    registrant: {
+      id: optionalText(registrant.id),
+      name: requireText(registrantName, "registrant.name"),
+    },
+    client: {
+      id: optionalText(client.client_id ?? client.id),
+      name: requireText(clientName, "client.name"),
+    },
+    // A self-filer registers itself as its own client
+    selfFiler:
+      normalizeOrganizationName(clientName) ===
+      normalizeOrganizationName(registrantName),
+    income: optionalCents(filing.income),
+    expenses: optionalCents(filing.expenses),
+    issueCodes,
+    coveredOfficials,
+    governmentEntities,
+    documentUrl: optionalText(filing.filing_document_url),
+  };
+}
+
+// The whole element, its attributes and its body
+function xmlFilings(xml: string): [string, string, string][] {
+  const pattern = /<Filing\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Filing>)/g;
+  return Array.from(xml.matchAll(pattern), (match) => [
+    match[0],
+    match[1],
+    match[2] ?? "",
+  ]);
+}
+
+function parseXmlFiling(
+  attributeText: string,
+  body: string,
+): Omit<LdaFiling, "documentHash"> {
+  const filing = xmlAttributes(attributeText);
+  const registrant = xmlAttributes(xmlElements(body, "Registrant")[0] ?? "");
+  const client = xmlAttributes(xmlElements(body, "Client")[0] ?? "");
+  const selfFiler = (client.SelfFiler ?? "").toUpperCase() === "TRUE";
+  // The bulk export has one Amount: income, or expenses for self-filers
+  const amount = optionalCents(filing.Amount);
+
+  const issueCodes: string[] = [];
+  for (const issue of xmlElements(body, "Issue")) {
+    const code = issueCode(xmlAttributes(issue).Code ?? "");
+    if (code && !issueCodes.includes(code)) issueCodes.push(code);
+  }
+
+  return {
+    filingId: requireText(filing.ID, "Filing ID"),
+    filingType: filing.Type ?? "",
+    year: filing.Year ? Number(filing.Year) : undefined,
+    period: filing.Period,
+    postedAt: filing.Received,
+    registrant: {
+      id: registrant.RegistrantID,
+      name: requireText(registrant.RegistrantName, "RegistrantName"),
+    },
+    client: {
+      id: client.ClientID,
+      name: requireText(client.ClientName, "ClientName"),
+    },
+    selfFiler,
+    income: selfFiler ? undefined : amount,
+    expenses: selfFiler ? amount : undefined,
+    issueCodes,
+    coveredOfficials: xmlElements(body, "Lobbyist")
+      .map(xmlAttributes)
+      .filter((lobbyist) => lobbyist.OfficialPosition?.trim())
+      .map((lobbyist) => ({
+        lobbyist: lobbyist.LobbyistName ?? "",
+        position: lobbyist.OfficialPosition.trim(),
+      })),
+    governmentEntities: xmlElements(body, "GovernmentEntity")
+      .map((entity) => xmlAttributes(entity).GovEntityName)
+      .filter(Boolean),
+  };
+}
+
+// The LDA XML keeps every value in attributes, so elements are read as attribute lists
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)\\/?>`, "g");
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function xmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of text.matchAll(
+    /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g,
+  )) {
+    attributes[name] = decodeXmlEntities(double ?? single);
+  }
+  return attributes;
+}
+
+function decodeXmlEntities(value: string) {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi,
+    (_, entity: string) => {
+      const named: Record<string, string> = {
+        amp: "&",
+        lt: "<",
+        gt: ">",
+        quot: '"',
+        apos: "'",
+      };
+      if (entity[0] !== "#") return named[entity.toLowerCase()];
+      return String.fromCodePoint(
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : Number(entity.slice(1)),
+      );
+    },
+  );
+}
+
+function optionalCents(value: unknown): bigint | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  return dollarsToCents(typeof value === "number" ? value : String(value));
+}
+
+function optionalText(value: unknown): string | undefined {
+  return value === null || value === undefined || value === ""
+    ? undefined
+    : String(value);
+}
+
+function requireText(value: unknown, field: string): string {
+  const text = optionalText(value)?.trim();
+  if (!text) {
+    throw new Error(`Filing is missing ${field}`);
+  }
+  return text;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return isObject(value) ? value : {};
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
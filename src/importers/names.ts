@@ -0,0 +1,39 @@
+const NAME_SUFFIXES: Record<string, string> = {
+  CORPORATION: "Corp",
+  CORP: "Corp",
+  INCORPORATED: "Inc",
+  INC: "Inc",
+  COMPANY: "Co",
+  CO: "Co",
+  LIMITED: "Ltd",
+  LTD: "Ltd",
+  LLC: "LLC",
+  LLP: "LLP",
+  LP: "LP",
+  PLLC: "PLLC",
+  PC: "PC",
+};
+
+/**
+ * Canonical spelling of an organisation name so the same organisation gets
+ * one dictionary ID across filings and data sets: "formerly" notes and
+ * punctuation are dropped and corporate suffixes are spelled one way
+ * ("ACME CORPORATION, INC." and "Acme Corp Inc" both become "ACME Corp Inc").
+ */
+export function normalizeOrganizationName(name: string): string {
+  const words = name
+    .replace(/\((formerly|fka|f\/k\/a)[^)]*\)/gi, " ")
+    .replace(/\b([A-Za-z])\.(?=[A-Za-z]\.)/g, "$1")
+    .replace(/[.,]/g, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Only trailing words are suffixes: "Co" in "Co Bank" stays as written
+  let end = words.length;
+  while (end > 1 && NAME_SUFFIXES[words[end - 1].toUpperCase()]) end--;
+  return [
+    ...words.slice(0, end),
+    ...words.slice(end).map((word) => NAME_SUFFIXES[word.toUpperCase()]),
+  ].join(" ");
+}
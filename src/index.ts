@@ -0,0 +1,15 @@
+export * from "./alerts";
+export * from "./client";
+export * from "./commitments";
+export * from "./concentration";
+export * from "./decryption";
+export * from "./dictionary";
+export * from "./graph";
+export * from "./importers";
+export * from "./money";
+export * from "./notes";
+export * from "./migration";
+export * from "./records";
+export * from "./resolution";
+export * from "./taxonomy";
+export * from "./timeseries";
@@ -0,0 +1,14 @@
+export {
+  emptyMapping,
+  planMigration,
+  readLegacyRecords,
+  runMigration,
+} from "./migrateLegacyRecords";
+export type {
+  LegacyEntry,
+  MigrationMapping,
+  MigrationPlan,
+  MigrationResult,
+  MigrationRow,
+  RecordStore,
+} from "./migrateLegacyRecords";
@@ -0,0 +1,248 @@
+import { ethers } from "ethers";
+import {
+  LobbyingClient,
+  MAX_DONATIONS_PER_PROOF,
+  type DonationFields,
+} from "../client";
+import {
+  describeDuplicate,
+  findDuplicates,
+  type CommitmentSalts,
+} from "../commitments";
+import {
+  createNameResolver,
+  type EntityDictionary,
+  type MissingNames,
+} from "../dictionary";
+import {
+  expandRecordBlob,
+  recordActivityDate,
+  recordAmountCents,
+  type BatchRecordBlob,
+  type RecordBlob,
+} from "../records";
+import type { Taxonomy } from "../taxonomy";
+
+/** The part of UniversalAdapter the migration reads. */
+export interface RecordStore {
+  getData(key: string): Promise<string>;
+}
+
+export interface LegacyEntry {
+  recordId: string;
+  blob?: RecordBlob;
+  /** Why the blob could not be read. */
+  error?: string;
+}
+
+export interface MigrationMapping {
+  adapter: string;
+  lobbying: string;
+  /** Old UniversalAdapter record ID -> new LobbyingAnalysisFHE donation. */
+  records: Record<
+    string,
+    { donationId: string; txHash: string; migratedAt: string }
+  >;
+}
+
+export interface MigrationRow {
+  recordId: string;
+  donation: DonationFields;
+}
+
+export interface MigrationPlan {
+  rows: MigrationRow[];
+  invalid: { recordId: string; reason: string }[];
+  skipped: { recordId: string; reason: "migrated" | "already_encrypted" }[];
+  missingNames: MissingNames;
+}
+
+export interface MigrationResult {
+  migrated: number;
+  failures: { recordIds: string[]; error: Error }[];
+}
+
+export function emptyMapping(
+  adapter: string,
+  lobbying: string,
+): MigrationMapping {
+  return { adapter, lobbying, records: {} };
+}
+
+/** Reads every record indexed by `lobbying_keys`; unreadable blobs are kept with an error. */
+export async function readLegacyRecords(
+  store: RecordStore,
+): Promise<LegacyEntry[]> {
+  const keysBytes = await store.getData("lobbying_keys");
+  if (ethers.dataLength(keysBytes) === 0) return [];
+  const keys = JSON.parse(ethers.toUtf8String(keysBytes)) as string[];
+
+  const entries: LegacyEntry[] = [];
+  for (const key of keys) {
+    try {
+      const bytes = await store.getData(`lobbying_${key}`);
+      if (ethers.dataLength(bytes) === 0) {
+        entries.push({ recordId: key, error: "Blob is empty" });
+        continue;
+      }
+      const blob = JSON.parse(ethers.toUtf8String(bytes)) as
+        | RecordBlob
+        | BatchRecordBlob;
+      for (const [recordId, record] of expandRecordBlob(key, blob)) {
+        entries.push({ recordId, blob: record });
+      }
+    } catch (e) {
+      entries.push({ recordId: key, error: (e as Error).message });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Validates legacy records and resolves their names to dictionary IDs and
+ * their categories to the taxonomy codes the donations are filed under.
+ * Records already in `mapping` or already pointing at an encrypted donation
+ * are skipped, which is what makes re-running the migration safe.
+ *
+ * Names missing from the published dictionary make a record invalid unless
+ * `allowUnpublished` is set, in which case they get the ID they would receive
+ * when published.
+ */
+export function planMigration(
+  entries: LegacyEntry[],
+  dictionary: EntityDictionary,
+  taxonomy: Taxonomy,
+  mapping: MigrationMapping,
+  allowUnpublished = false,
+): MigrationPlan {
+  const { resolve, missing } = createNameResolver(dictionary, allowUnpublished);
+  const plan: MigrationPlan = {
+    rows: [],
+    invalid: [],
+    skipped: [],
+    missingNames: missing,
+  };
+
+  for (const entry of entries) {
+    if (mapping.records[entry.recordId]) {
+      plan.skipped.push({ recordId: entry.recordId, reason: "migrated" });
+      continue;
+    }
+    if (!entry.blob) {
+      plan.invalid.push({
+        recordId: entry.recordId,
+        reason: entry.error ?? "Unreadable blob",
+      });
+      continue;
+    }
+    if (entry.blob.donationId !== undefined) {
+      plan.skipped.push({
+        recordId: entry.recordId,
+        reason: "already_encrypted",
+      });
+      continue;
+    }
+
+    try {
+      const { company, recipient } = entry.blob;
+      const amount = recordAmountCents(entry.blob);
+      if (!company || !recipient || amount === undefined) {
+        throw new Error("Missing company, recipient or amount");
+      }
+      const donorId = resolve(company, "company");
+      const entityId = resolve(recipient, "recipient");
+      if (donorId === undefined || entityId === undefined) {
+        throw new Error("Names are not in the published dictionary");
+      }
+      plan.rows.push({
+        recordId: entry.recordId,
+        donation: {
+          amount,
+          donorId,
+          entityId,
+          // Undated legacy records fall back to their submission time; the
+          // reference keeps equal records apart in the commitment
+          activityDate: recordActivityDate(entry.blob),
+          reportingPeriod: entry.blob.reportingPeriod,
+          filingDate: entry.blob.filingDate,
+          reference: `legacy:${entry.recordId}`,
+          categories: entry.blob.category
+            ? taxonomy.lineage(entry.blob.category)
+            : [],
+        },
+      });
+    } catch (e) {
+      plan.invalid.push({
+        recordId: entry.recordId,
+        reason: (e as Error).message,
+      });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Records the planned rows one proof-sized chunk at a time and calls `save`
+ * with the updated mapping after every chunk, so an interrupted run resumes
+ * where it stopped. Rows whose commitment is already recorded, or repeats an
+ * earlier row, are reported as failures instead of being sent.
+ */
+export async function runMigration(
+  client: LobbyingClient,
+  salts: CommitmentSalts,
+  plan: MigrationPlan,
+  mapping: MigrationMapping,
+  save: (mapping: MigrationMapping) => void,
+  onProgress?: (migrated: number, total: number) => void,
+): Promise<MigrationResult> {
+  const result: MigrationResult = { migrated: 0, failures: [] };
+
+  for (
+    let start = 0;
+    start < plan.rows.length;
+    start += MAX_DONATIONS_PER_PROOF
+  ) {
+    const rows = plan.rows.slice(start, start + MAX_DONATIONS_PER_PROOF);
+    const donations = await salts.commit(rows.map((row) => row.donation));
+    const duplicates = await findDuplicates(client, donations);
+    duplicates.forEach((duplicate, i) => {
+      if (!duplicate) return;
+      const error =
+        "row" in duplicate
+          ? `Duplicate of ${rows[duplicate.row].recordId}`
+          : describeDuplicate(duplicate);
+      result.failures.push({
+        recordIds: [rows[i].recordId],
+        error: new Error(error),
+      });
+    });
+    const chunk = rows.filter((_, i) => !duplicates[i]);
+    if (chunk.length === 0) continue;
+
+    const recorded = await client.recordEncryptedDonations(
+      donations.filter((_, i) => !duplicates[i]),
+    );
+
+    const migratedAt = new Date().toISOString();
+    chunk.forEach((row, i) => {
+      const donationId = recorded.donationIds[i];
+      if (donationId === undefined) return;
+      mapping.records[row.recordId] = {
+        donationId: donationId.toString(),
+        txHash: recorded.receipts[0].hash,
+        migratedAt,
+      };
+      result.migrated += 1;
+    });
+    for (const failure of recorded.failures) {
+      result.failures.push({
+        recordIds: failure.indexes.map((i) => chunk[i].recordId),
+        error: failure.error,
+      });
+    }
+
+    save(mapping);
+    onProgress?.(result.migrated, plan.rows.length);
+  }
+  return result;
+}
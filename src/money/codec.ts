@@ -0,0 +1,80 @@
+/**
+ * Money is encoded as an integer number of cents everywhere it is encrypted or
+ * stored: `euint64` on-chain, `bigint` in TypeScript. Floats only appear when
+ * formatting for display.
+ */
+export const CENTS_PER_DOLLAR = 100n;
+
+/** Largest amount an `euint64` can hold, in cents (~$184 quadrillion). */
+export const MAX_AMOUNT_CENTS = 2n ** 64n - 1n;
+
+// Optional $, digits with optional thousands separators, up to two decimals
+const DOLLARS_PATTERN = /^\$?(\d{1,3}(?:,\d{3})+|\d+)?(?:\.(\d{0,2}))?$/;
+
+/**
+ * Parses a dollar amount ("1234.5", "$1,234.50", 1234.5) into cents.
+ * Rejects negatives, sub-cent precision and anything above `MAX_AMOUNT_CENTS`
+ * instead of rounding or wrapping.
+ */
+export function dollarsToCents(value: string | number): bigint {
+  const text = typeof value === "number" ? numberToText(value) : value.trim();
+  const match = DOLLARS_PATTERN.exec(text);
+  if (!text || !match || (match[1] === undefined && !match[2])) {
+    throw new Error(`"${value}" is not a valid dollar amount`);
+  }
+
+  const whole = BigInt((match[1] ?? "0").replace(/,/g, ""));
+  const fraction = BigInt((match[2] ?? "").padEnd(2, "0"));
+  return assertCents(whole * CENTS_PER_DOLLAR + fraction);
+}
+
+/** Validates an integer cent amount coming from storage or a decryption. */
+export function assertCents(cents: bigint | number | string): bigint {
+  let value: bigint;
+  try {
+    value = BigInt(cents);
+  } catch {
+    throw new Error(`${cents} is not an integer number of cents`);
+  }
+  if (value < 0n) {
+    throw new Error(`Negative amount ${formatCents(-value)} is not allowed`);
+  }
+  if (value > MAX_AMOUNT_CENTS) {
+    throw new Error(
+      `Amount of ${value} cents exceeds the encrypted uint64 range`,
+    );
+  }
+  return value;
+}
+
+/** "$1,234.50". Exact for any cent amount, unlike going through a float. */
+export function formatCents(cents: bigint | number): string {
+  const value = BigInt(cents);
+  const sign = value < 0n ? "-" : "";
+  const abs = value < 0n ? -value : value;
+  const whole = (abs / CENTS_PER_DOLLAR)
+    .toString()
+    .replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const fraction = (abs % CENTS_PER_DOLLAR).toString().padStart(2, "0");
+  return `${sign}$${whole}.${fraction}`;
+}
+
+/** Dollars as a float, for charts and sums where rounding is acceptable. */
+export function centsToDollars(cents: bigint | number): number {
+  return Number(cents) / Number(CENTS_PER_DOLLAR);
+}
+
+function numberToText(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`${value} is not a valid dollar amount`);
+  }
+  if (value < 0) {
+    throw new Error(`Negative amount ${value} is not allowed`);
+  }
+  // Only accept floats that round-trip through two decimals, e.g. 12.5 but not 0.1 + 0.2
+  const fixed = value.toFixed(2);
+  if (Number(fixed) !== value) {
+    throw new Error(`${value} has sub-cent precision`);
+  }
+  return fixed;
+}
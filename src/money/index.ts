@@ -0,0 +1,8 @@
+export {
+  CENTS_PER_DOLLAR,
+  MAX_AMOUNT_CENTS,
+  assertCents,
+  centsToDollars,
+  dollarsToCents,
+  formatCents,
+} from "./codec";
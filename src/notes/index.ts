@@ -0,0 +1,9 @@
+export {
+  NOTE_VERSION,
+  attachNote,
+  noteStorageKey,
+  openNote,
+  readNote,
+  sealNote,
+} from "./notes";
+export type { NoteBlob, NoteStore, SealedNote } from "./notes";
@@ -0,0 +1,165 @@
+import { ethers } from "ethers";
+import type { LobbyingClient } from "../client";
+import type { UserDecryptionSession } from "../decryption";
+
+export const NOTE_VERSION = 1;
+
+/** What is stored off-chain: the AES-256-GCM ciphertext of the note text. */
+export interface NoteBlob {
+  version: number;
+  /** 12-byte GCM nonce, hex. */
+  iv: string;
+  /** Ciphertext with the GCM tag appended, hex. */
+  ciphertext: string;
+}
+
+export interface SealedNote {
+  /** The AES key as a uint256, encrypted on-chain by `attachNote`. */
+  key: bigint;
+  /** UTF-8 JSON of the `NoteBlob`, the exact bytes to store. */
+  bytes: Uint8Array;
+  /** keccak256 of `bytes`, committed on-chain and in the record blob. */
+  contentHash: string;
+}
+
+/** Where note blobs live; UniversalAdapter fits, as would any key/value store. */
+export interface NoteStore {
+  getData(key: string): Promise<string>;
+  /** May return a transaction, which is waited for. */
+  setData(
+    key: string,
+    data: Uint8Array,
+  ): Promise<{ wait?: () => Promise<unknown> } | void>;
+}
+
+// WebCrypto's DOM typings reject views that could sit on a SharedArrayBuffer
+function buffer(bytes: Uint8Array) {
+  return Uint8Array.from(bytes);
+}
+
+export function noteStorageKey(donationId: bigint | number) {
+  return `lobbying_note_${donationId}`;
+}
+
+/** Encrypts `text` under a fresh random key. */
+export async function sealNote(
+  text: string,
+  subtle = globalThis.crypto.subtle,
+): Promise<SealedNote> {
+  if (!text.trim()) {
+    throw new Error("Cannot seal an empty note");
+  }
+  const keyBytes = ethers.randomBytes(32);
+  const iv = ethers.randomBytes(12);
+  const key = await subtle.importKey(
+    "raw",
+    buffer(keyBytes),
+    "AES-GCM",
+    false,
+    ["encrypt"],
+  );
+  const ciphertext = await subtle.encrypt(
+    { name: "AES-GCM", iv: buffer(iv) },
+    key,
+    buffer(ethers.toUtf8Bytes(text)),
+  );
+
+  const blob: NoteBlob = {
+    version: NOTE_VERSION,
+    iv: ethers.hexlify(iv),
+    ciphertext: ethers.hexlify(new Uint8Array(ciphertext)),
+  };
+  const bytes = ethers.toUtf8Bytes(JSON.stringify(blob));
+  return {
+    key: ethers.toBigInt(keyBytes),
+    bytes,
+    contentHash: ethers.keccak256(bytes),
+  };
+}
+
+/**
+ * Checks `bytes` against the committed hash before decrypting, so a blob
+ * replaced in storage is rejected rather than shown.
+ */
+export async function openNote(
+  bytes: Uint8Array,
+  key: bigint,
+  contentHash: string,
+  subtle = globalThis.crypto.subtle,
+): Promise<string> {
+  if (ethers.keccak256(bytes) !== contentHash.toLowerCase()) {
+    throw new Error("Stored note does not match its committed hash");
+  }
+  const blob = JSON.parse(ethers.toUtf8String(bytes)) as NoteBlob;
+  if (blob.version !== NOTE_VERSION) {
+    throw new Error(`Unsupported note version ${blob.version}`);
+  }
+
+  const aesKey = await subtle.importKey(
+    "raw",
+    buffer(ethers.getBytes(ethers.toBeHex(key, 32))),
+    "AES-GCM",
+    false,
+    ["decrypt"],
+  );
+  try {
+    const text = await subtle.decrypt(
+      { name: "AES-GCM", iv: buffer(ethers.getBytes(blob.iv)) },
+      aesKey,
+      buffer(ethers.getBytes(blob.ciphertext)),
+    );
+    return ethers.toUtf8String(new Uint8Array(text));
+  } catch {
+    throw new Error("Note could not be decrypted with the stored key");
+  }
+}
+
+/**
+ * Seals `text`, stores the ciphertext and commits its hash and encrypted key
+ * for `donationId`. Returns the content hash to keep in the record blob.
+ */
+export async function attachNote(
+  client: LobbyingClient,
+  store: NoteStore,
+  donationId: bigint | number,
+  text: string,
+): Promise<string> {
+  const note = await sealNote(text);
+  const tx = await store.setData(noteStorageKey(donationId), note.bytes);
+  await tx?.wait?.();
+  await client.attachNote(donationId, note.key, note.contentHash);
+  return note.contentHash;
+}
+
+/**
+ * Decrypts a donation's note. The session user needs ACL access to the note
+ * key: the contributor has it, analysts get it with `grantDonationAccess`.
+ */
+export async function readNote(
+  client: LobbyingClient,
+  session: UserDecryptionSession,
+  store: NoteStore,
+  donationId: bigint | number,
+): Promise<string> {
+  const contentHash = await client.getNoteHash(donationId);
+  if (contentHash === ethers.ZeroHash) {
+    throw new Error(`Donation #${donationId} has no note`);
+  }
+
+  const handle = await client.getNoteKey(donationId);
+  const results = await session.decrypt([
+    { handle, contractAddress: client.address },
+  ]);
+  const key = results[handle] ?? results[handle.toLowerCase()];
+  if (key === undefined) {
+    throw new Error(`No cleartext returned for handle ${handle}`);
+  }
+
+  const bytes = ethers.getBytes(
+    await store.getData(noteStorageKey(donationId)),
+  );
+  if (bytes.length === 0) {
+    throw new Error(`Note blob for donation #${donationId} is missing`);
+  }
+  return openNote(bytes, BigInt(key), contentHash);
+}
@@ -0,0 +1,74 @@
+import { assertCents } from "../money";
+import type { ReportingPeriod } from "./periods";
+import type { RecordProvenance } from "./provenance";
+
+export type RecordStatus = "pending" | "verified" | "rejected";
+
+/**
+ * Plaintext JSON stored in UniversalAdapter under `lobbying_<key>`. Older
+ * blobs have a float dollar `amount` and no IDs; newer ones point at the
+ * encrypted donation in LobbyingAnalysisFHE. From version 3 the company,
+ * recipient and amount are only in the encrypted donation, and the blob
+ * keeps the metadata that is public anyway.
+ */
+export interface RecordBlob {
+  /** Absent on blobs written before the schema was versioned (version 0). */
+  schemaVersion?: number;
+  /** Required from schema version 3. */
+  donationId?: number;
+  /** Before version 3 only, like the names and amount. */
+  donorId?: number;
+  entityId?: number;
+  /** Unix seconds the record was submitted; see `recordActivityDate` for when it happened. */
+  timestamp: number;
+  /** Unix seconds the donation was made or the lobbying took place. */
+  activityDate?: number;
+  /** Quarter the disclosure covers. */
+  reportingPeriod?: ReportingPeriod;
+  /** Unix seconds the disclosure was filed. */
+  filingDate?: number;
+  company?: string;
+  /** Dollars as a float, written before the cents encoding. */
+  amount?: number;
+  /** Integer cents as a decimal string. */
+  amountCents?: string;
+  recipient?: string;
+  category: string;
+  status?: RecordStatus;
+  /** keccak256 of the donation's encrypted note, also committed on-chain. */
+  noteHash?: string;
+  /** Required from schema version 2. */
+  provenance?: RecordProvenance;
+}
+
+/** A batch blob holds several records under one key. */
+export interface BatchRecordBlob {
+  records: RecordBlob[];
+}
+
+// Batch rows are addressed as `<key>#<index>`
+export function splitRecordId(recordId: string) {
+  const [key, index] = recordId.split("#");
+  return { key, index: index === undefined ? undefined : Number(index) };
+}
+
+/** Flattens a single or batch blob into `[recordId, blob]` pairs. */
+export function expandRecordBlob(
+  key: string,
+  blob: RecordBlob | BatchRecordBlob,
+): [string, RecordBlob][] {
+  if ("records" in blob && Array.isArray(blob.records)) {
+    return blob.records.map((record, index) => [`${key}#${index}`, record]);
+  }
+  return [[key, blob as RecordBlob]];
+}
+
+/**
+ * Amount in cents; legacy float amounts are rounded to the nearest cent.
+ * `undefined` for records that keep the amount encrypted (version 3).
+ */
+export function recordAmountCents(blob: RecordBlob): bigint | undefined {
+  if (blob.amountCents !== undefined) return assertCents(blob.amountCents);
+  if (blob.amount === undefined) return undefined;
+  return assertCents(Math.round(Number(blob.amount) * 100));
+}
@@ -0,0 +1,40 @@
+export { expandRecordBlob, recordAmountCents, splitRecordId } from "./blobs";
+export type { BatchRecordBlob, RecordBlob, RecordStatus } from "./blobs";
+export {
+  formatPeriod,
+  isReportingPeriod,
+  parsePeriod,
+  periodKey,
+  periodOf,
+  periodStart,
+  recordActivityDate,
+  recordPeriod,
+} from "./periods";
+export type { ReportingPeriod } from "./periods";
+export {
+  PROVENANCE_COLUMNS,
+  PROVENANCE_SOURCES,
+  documentHash,
+  provenanceCsv,
+  provenanceRow,
+} from "./provenance";
+export type {
+  ProvenanceRow,
+  ProvenanceSource,
+  RecordProvenance,
+} from "./provenance";
+export {
+  RECORD_SCHEMA_VERSION,
+  assertRecordBlob,
+  isTombstone,
+  readRecordBlob,
+  replaceStoredRecord,
+  tombstoneRecord,
+  validateRecordBlob,
+} from "./schema";
+export type {
+  QuarantinedRecord,
+  RecordReadResult,
+  RecordTombstone,
+  RecordValidation,
+} from "./schema";
@@ -0,0 +1,75 @@
+import type { RecordBlob } from "./blobs";
+
+/** A calendar quarter, the unit LDA reports and FEC quarterly reports cover. */
+export interface ReportingPeriod {
+  year: number;
+  /** 1 to 4. */
+  quarter: number;
+}
+
+export function isReportingPeriod(value: unknown): value is ReportingPeriod {
+  const period = value as ReportingPeriod | null;
+  return (
+    typeof period === "object" &&
+    period !== null &&
+    Number.isInteger(period.year) &&
+    period.year >= 1000 &&
+    period.year <= 9999 &&
+    Number.isInteger(period.quarter) &&
+    period.quarter >= 1 &&
+    period.quarter <= 4
+  );
+}
+
+/** The UTC calendar quarter containing `timestamp` (unix seconds). */
+export function periodOf(timestamp: number): ReportingPeriod {
+  const date = new Date(timestamp * 1000);
+  return {
+    year: date.getUTCFullYear(),
+    quarter: Math.floor(date.getUTCMonth() / 3) + 1,
+  };
+}
+
+/** First second of the period, unix seconds. */
+export function periodStart({ year, quarter }: ReportingPeriod): number {
+  return Date.UTC(year, (quarter - 1) * 3, 1) / 1000;
+}
+
+/** Orders periods chronologically: 20241 for 2024 Q1. */
+export function periodKey({ year, quarter }: ReportingPeriod): number {
+  return year * 10 + quarter;
+}
+
+export function formatPeriod({ year, quarter }: ReportingPeriod): string {
+  return `${year} Q${quarter}`;
+}
+
+/** Reads "2024 Q1", "2024-Q1", "2024Q1" or "Q1 2024". */
+export function parsePeriod(text: string): ReportingPeriod {
+  const value = text.trim().toUpperCase();
+  const yearFirst = /^(\d{4})\s*[-/ ]?\s*Q([1-4])$/.exec(value);
+  if (yearFirst) {
+    return { year: Number(yearFirst[1]), quarter: Number(yearFirst[2]) };
+  }
+  const quarterFirst = /^Q([1-4])\s*[-/ ]?\s*(\d{4})$/.exec(value);
+  if (quarterFirst) {
+    return { year: Number(quarterFirst[2]), quarter: Number(quarterFirst[1]) };
+  }
+  throw new Error(`"${text}" is not a reporting period (use 2024 Q1)`);
+}
+
+/**
+ * When the activity took place: the activity date if known, else the start
+ * of the reporting period, else the submission time. Every time-based view
+ * goes through this rather than `timestamp`.
+ */
+export function recordActivityDate(blob: RecordBlob): number {
+  if (blob.activityDate !== undefined) return blob.activityDate;
+  if (blob.reportingPeriod) return periodStart(blob.reportingPeriod);
+  return blob.timestamp;
+}
+
+/** The reporting period, or the quarter of the activity date. */
+export function recordPeriod(blob: RecordBlob): ReportingPeriod {
+  return blob.reportingPeriod ?? periodOf(recordActivityDate(blob));
+}
@@ -0,0 +1,115 @@
+import { ethers } from "ethers";
+import type { RecordBlob } from "./blobs";
+import { formatPeriod, recordPeriod } from "./periods";
+
+export type ProvenanceSource = "lda" | "fec" | "manual";
+
+export const PROVENANCE_SOURCES: ProvenanceSource[] = ["lda", "fec", "manual"];
+
+/** Where a record came from, so an aggregate can be traced back to its inputs. */
+export interface RecordProvenance {
+  source: ProvenanceSource;
+  /** ID of the filing or transaction in the source system, or a URL to it. */
+  documentId?: string;
+  /** keccak256 of the source document as it was read; see `documentHash`. */
+  documentHash?: string;
+  /** Organization that contributed the record. */
+  contributor?: string;
+}
+
+/** One line of a provenance export. Amounts are deliberately left out. */
+export interface ProvenanceRow {
+  recordId: string;
+  donationId?: number;
+  period: string;
+  /** Blank for records that keep the names encrypted (schema version 3). */
+  company?: string;
+  recipient?: string;
+  category: string;
+  source: string;
+  documentId: string;
+  documentHash: string;
+  contributor: string;
+}
+
+export const PROVENANCE_COLUMNS: (keyof ProvenanceRow)[] = [
+  "recordId",
+  "donationId",
+  "period",
+  "company",
+  "recipient",
+  "category",
+  "source",
+  "documentId",
+  "documentHash",
+  "contributor",
+];
+
+/**
+ * keccak256 of a source document: text is hashed as UTF-8, so a filing or
+ * CSV line hashes the same in the importers and in the browser.
+ */
+export function documentHash(content: string | Uint8Array): string {
+  return ethers.keccak256(
+    typeof content === "string" ? ethers.toUtf8Bytes(content) : content,
+  );
+}
+
+/** Why `value` is not valid provenance, `undefined` if it is. */
+export function provenanceProblem(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "Provenance is not an object";
+  }
+  const provenance = value as Record<string, unknown>;
+  if (!PROVENANCE_SOURCES.includes(provenance.source as ProvenanceSource)) {
+    return `Unknown provenance source ${JSON.stringify(provenance.source)}`;
+  }
+  for (const field of ["documentId", "contributor"]) {
+    const text = provenance[field];
+    if (text !== undefined && (typeof text !== "string" || !text.trim())) {
+      return `Invalid provenance ${field} ${JSON.stringify(text)}`;
+    }
+  }
+  if (
+    provenance.documentHash !== undefined &&
+    !/^0x[0-9a-f]{64}$/i.test(String(provenance.documentHash))
+  ) {
+    return `Invalid provenance documentHash ${JSON.stringify(provenance.documentHash)}`;
+  }
+  return undefined;
+}
+
+/** Export line for a stored record; records from before provenance have an empty source. */
+export function provenanceRow(
+  recordId: string,
+  record: RecordBlob,
+): ProvenanceRow {
+  return {
+    recordId,
+    donationId: record.donationId,
+    period: formatPeriod(recordPeriod(record)),
+    company: record.company,
+    recipient: record.recipient,
+    category: record.category,
+    source: record.provenance?.source ?? "",
+    documentId: record.provenance?.documentId ?? "",
+    documentHash: record.provenance?.documentHash ?? "",
+    contributor: record.provenance?.contributor ?? "",
+  };
+}
+
+/** Provenance rows as CSV with a header line, quoting cells where needed. */
+export function provenanceCsv(rows: ProvenanceRow[]): string {
+  const cell = (value: string | number | undefined) => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    PROVENANCE_COLUMNS.join(","),
+    ...rows.map((row) =>
+      PROVENANCE_COLUMNS.map((column) => cell(row[column])).join(","),
+    ),
+  ]
+    .map((line) => line + "\n")
+    .join("");
+}
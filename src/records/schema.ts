@@ -0,0 +1,310 @@
+import {
+  expandRecordBlob,
+  recordAmountCents,
+  type BatchRecordBlob,
+  type RecordBlob,
+  type RecordStatus,
+} from "./blobs";
+import { isReportingPeriod } from "./periods";
+import { provenanceProblem } from "./provenance";
+
+/**
+ * Version written into every new record. Version 3 requires `donationId` and
+ * leaves out the names, IDs and amount the donation encrypts; version 2
+ * requires `provenance`, version 1 `amountCents`; version 0 (no
+ * `schemaVersion`) also accepts the legacy float `amount`.
+ */
+export const RECORD_SCHEMA_VERSION = 3;
+
+/** Fields a version 3 record must not carry: the donation keeps them encrypted. */
+const ENCRYPTED_FIELDS = [
+  "company",
+  "recipient",
+  "amount",
+  "amountCents",
+  "donorId",
+  "entityId",
+];
+
+/** Stands in for a removed record so batch indexes and record IDs stay stable. */
+export interface RecordTombstone {
+  schemaVersion: number;
+  tombstone: {
+    reason: string;
+    /** Unix seconds. */
+    removedAt: number;
+    removedBy: string;
+  };
+}
+
+export type RecordValidation =
+  | { valid: true; record: RecordBlob }
+  | { valid: false; reason: string };
+
+export interface QuarantinedRecord {
+  recordId: string;
+  reason: string;
+  /** The stored value, or the raw text if it is not JSON. */
+  raw: unknown;
+}
+
+export interface RecordReadResult {
+  records: [string, RecordBlob][];
+  quarantined: QuarantinedRecord[];
+  tombstoned: string[];
+}
+
+const STATUSES: RecordStatus[] = ["pending", "verified", "rejected"];
+
+export function validateRecordBlob(value: unknown): RecordValidation {
+  const reason = recordProblem(value);
+  return reason
+    ? { valid: false, reason }
+    : { valid: true, record: value as RecordBlob };
+}
+
+/** Returns `value` as a record, or throws with the reason it is not one. */
+export function assertRecordBlob(value: unknown): RecordBlob {
+  const validation = validateRecordBlob(value);
+  if (!validation.valid) {
+    throw new Error(`Invalid record: ${validation.reason}`);
+  }
+  return validation.record;
+}
+
+export function isTombstone(value: unknown): value is RecordTombstone {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as RecordTombstone).tombstone === "object"
+  );
+}
+
+export function tombstoneRecord(
+  reason: string,
+  removedBy: string,
+  now = Date.now(),
+): RecordTombstone {
+  if (!reason.trim()) {
+    throw new Error("A tombstone needs a reason");
+  }
+  return {
+    schemaVersion: RECORD_SCHEMA_VERSION,
+    tombstone: {
+      reason: reason.trim(),
+      removedAt: Math.floor(now / 1000),
+      removedBy,
+    },
+  };
+}
+
+/**
+ * Parses and validates the blob stored under `lobbying_<key>`. Records that
+ * fail validation are quarantined with the reason instead of being dropped,
+ * and a blob that is not JSON at all is quarantined as a whole.
+ */
+export function readRecordBlob(key: string, text: string): RecordReadResult {
+  const result: RecordReadResult = {
+    records: [],
+    quarantined: [],
+    tombstoned: [],
+  };
+
+  let blob: unknown;
+  try {
+    blob = JSON.parse(text);
+  } catch (e) {
+    result.quarantined.push({
+      recordId: key,
+      reason: `Not JSON: ${(e as Error).message}`,
+      raw: text,
+    });
+    return result;
+  }
+  if (typeof blob !== "object" || blob === null || Array.isArray(blob)) {
+    result.quarantined.push({
+      recordId: key,
+      reason: "Blob is not an object",
+      raw: blob,
+    });
+    return result;
+  }
+  if ("records" in blob && !Array.isArray(blob.records)) {
+    result.quarantined.push({
+      recordId: key,
+      reason: "Batch records is not an array",
+      raw: blob,
+    });
+    return result;
+  }
+
+  for (const [recordId, value] of expandRecordBlob(
+    key,
+    blob as RecordBlob | BatchRecordBlob,
+  )) {
+    if (isTombstone(value)) {
+      result.tombstoned.push(recordId);
+      continue;
+    }
+    const validation = validateRecordBlob(value);
+    if (validation.valid) {
+      result.records.push([recordId, validation.record]);
+    } else {
+      result.quarantined.push({
+        recordId,
+        reason: validation.reason,
+        raw: value,
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * The blob to write back after replacing one record: `replacement` itself
+ * for a single-record blob, otherwise a copy of the batch with row `index`
+ * replaced.
+ */
+export function replaceStoredRecord(
+  stored: unknown,
+  index: number | undefined,
+  replacement: RecordBlob | RecordTombstone,
+): RecordBlob | RecordTombstone | BatchRecordBlob {
+  if (index === undefined) return replacement;
+  const batch = stored as BatchRecordBlob | null;
+  if (!Array.isArray(batch?.records) || index >= batch.records.length) {
+    throw new Error(`Stored blob has no record #${index}`);
+  }
+  return {
+    ...batch,
+    records: batch.records.map((record, i) =>
+      i === index ? (replacement as RecordBlob) : record,
+    ),
+  };
+}
+
+function recordProblem(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "Record is not an object";
+  }
+  const record = value as Record<string, unknown>;
+
+  const version = record.schemaVersion ?? 0;
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    return `Invalid schemaVersion ${JSON.stringify(version)}`;
+  }
+  if ((version as number) > RECORD_SCHEMA_VERSION) {
+    return `Schema version ${version} is newer than the supported version ${RECORD_SCHEMA_VERSION}`;
+  }
+
+  const encrypted = (version as number) >= 3;
+  const required = encrypted
+    ? ["category"]
+    : ["company", "recipient", "category"];
+  for (const field of required) {
+    const text = record[field];
+    if (typeof text !== "string" || !text.trim()) {
+      return `Missing ${field}`;
+    }
+  }
+  if (encrypted) {
+    const leaked = ENCRYPTED_FIELDS.find(
+      (field) => record[field] !== undefined,
+    );
+    if (leaked) return `${leaked} must stay in the encrypted donation`;
+    if (record.donationId === undefined) return "Missing donationId";
+  }
+  if (
+    !Number.isSafeInteger(record.timestamp) ||
+    (record.timestamp as number) <= 0
+  ) {
+    return "Missing or invalid timestamp";
+  }
+  for (const field of ["activityDate", "filingDate"]) {
+    const date = record[field];
+    if (
+      date !== undefined &&
+      !(Number.isSafeInteger(date) && (date as number) > 0)
+    ) {
+      return `Invalid ${field} ${JSON.stringify(date)}`;
+    }
+  }
+  if (
+    record.reportingPeriod !== undefined &&
+    !isReportingPeriod(record.reportingPeriod)
+  ) {
+    return `Invalid reportingPeriod ${JSON.stringify(record.reportingPeriod)}`;
+  }
+  if (
+    record.activityDate !== undefined &&
+    record.filingDate !== undefined &&
+    (record.filingDate as number) < (record.activityDate as number)
+  ) {
+    return "filingDate is before activityDate";
+  }
+
+  if (record.amountCents === undefined) {
+    if (version === 0) {
+      if (
+        typeof record.amount !== "number" ||
+        !Number.isFinite(record.amount)
+      ) {
+        return "Missing amount";
+      }
+    } else if (!encrypted) {
+      return "Missing amountCents";
+    }
+  } else if (
+    typeof record.amountCents !== "string" ||
+    !/^\d+$/.test(record.amountCents)
+  ) {
+    return `Invalid amountCents ${JSON.stringify(record.amountCents)}`;
+  }
+  try {
+    recordAmountCents(record as unknown as RecordBlob);
+  } catch (e) {
+    return (e as Error).message;
+  }
+
+  if (
+    record.donationId !== undefined &&
+    !(
+      Number.isSafeInteger(record.donationId) &&
+      (record.donationId as number) >= 0
+    )
+  ) {
+    return `Invalid donationId ${JSON.stringify(record.donationId)}`;
+  }
+  for (const field of ["donorId", "entityId"]) {
+    const id = record[field];
+    if (
+      id !== undefined &&
+      !(
+        Number.isInteger(id) &&
+        (id as number) > 0 &&
+        (id as number) <= 0xffffffff
+      )
+    ) {
+      return `Invalid ${field} ${JSON.stringify(id)}`;
+    }
+  }
+  if (
+    record.noteHash !== undefined &&
+    !/^0x[0-9a-f]{64}$/i.test(String(record.noteHash))
+  ) {
+    return `Invalid noteHash ${JSON.stringify(record.noteHash)}`;
+  }
+  if (record.provenance === undefined) {
+    if ((version as number) >= 2) return "Missing provenance";
+  } else {
+    const problem = provenanceProblem(record.provenance);
+    if (problem) return problem;
+  }
+  if (
+    record.status !== undefined &&
+    !STATUSES.includes(record.status as RecordStatus)
+  ) {
+    return `Unknown status ${JSON.stringify(record.status)}`;
+  }
+  return undefined;
+}
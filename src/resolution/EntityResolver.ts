@@ -0,0 +1,229 @@
+import {
+  normalizeName,
+  type DictionaryEntry,
+  type EntityDictionary,
+  type EntityKind,
+} from "../dictionary";
+import { normalizeOrganizationName } from "../importers/names";
+import { entityKey, jaroWinkler } from "./entityKey";
+import { emptyRules, pairKey, type ResolutionRules } from "./rules";
+
+export interface ResolvedEntity {
+  kind: EntityKind;
+  /**
+   * Identity of the entity within the resolver: `<kind>:id:<n>` for
+   * dictionary entries, `<kind>:key:<entity key>` for clusters of unpublished
+   * spellings and `<kind>:name:<name>` for split names.
+   */
+  key: string;
+  /** Canonical display name. */
+  name: string;
+  /** Dictionary ID, or the ID the canonical name will receive when published. */
+  id: number;
+  published: boolean;
+  /** Observed spellings, in the order they were first seen. */
+  variants: string[];
+  /** Number of observed names that resolved to the entity. */
+  count: number;
+}
+
+export interface MergeSuggestion {
+  a: ResolvedEntity;
+  b: ResolvedEntity;
+  score: number;
+}
+
+interface Location {
+  key: string;
+  entry?: DictionaryEntry;
+  /** Canonical name if the entity has not been observed yet. */
+  name: string;
+}
+
+interface Observed {
+  name: string;
+  variants: string[];
+  count: number;
+}
+
+// Merges can chain; anything deeper than this is a cycle
+const MAX_MERGE_DEPTH = 8;
+
+/**
+ * Groups the spellings of company and recipient names into canonical
+ * entities, so statistics count organisations rather than strings and every
+ * spelling encrypts to the same dictionary ID.
+ *
+ * A name resolves, in order, through: a manual split (its own entity), a
+ * manual merge of its cluster, the dictionary (names and aliases), the only
+ * dictionary entry sharing its entity key, and finally the cluster of
+ * observed spellings with that key, named after the first one seen.
+ */
+export class EntityResolver {
+  private current: ResolutionRules = emptyRules();
+  private merges = new Map<string, string>();
+  private splits = new Set<string>();
+  private distinct = new Set<string>();
+  private readonly entriesByKey = new Map<string, DictionaryEntry[]>();
+  private readonly names: { name: string; kind: EntityKind }[] = [];
+  private readonly observed = new Map<string, Observed>();
+
+  constructor(
+    private readonly dictionary: EntityDictionary,
+    rules: ResolutionRules = emptyRules(),
+  ) {
+    for (const entry of dictionary.entries()) {
+      for (const name of [entry.name, ...(entry.aliases ?? [])]) {
+        const key = `${entry.kind}:${entityKey(name)}`;
+        const entries = this.entriesByKey.get(key) ?? [];
+        if (!entries.includes(entry)) entries.push(entry);
+        this.entriesByKey.set(key, entries);
+      }
+    }
+    this.setRules(rules);
+  }
+
+  get rules(): ResolutionRules {
+    return this.current;
+  }
+
+  /** Replaces the manual rules and re-resolves every observed name. */
+  setRules(rules: ResolutionRules) {
+    this.current = rules;
+    this.merges = new Map(
+      rules.merges.map((rule) => [
+        `${rule.kind}:${entityKey(rule.from)}`,
+        rule.into,
+      ]),
+    );
+    this.splits = new Set(
+      rules.splits.map((rule) => `${rule.kind}:${normalizeName(rule.name)}`),
+    );
+    this.distinct = new Set(
+      rules.distinct.map((rule) => `${rule.kind}:${pairKey(rule.a, rule.b)}`),
+    );
+
+    this.observed.clear();
+    for (const { name, kind } of this.names) this.observe(name, kind);
+  }
+
+  /** Records a spelling seen in the data and returns its entity. */
+  add(name: string, kind: EntityKind): ResolvedEntity {
+    if (!normalizeName(name)) {
+      throw new Error(`Missing ${kind} name`);
+    }
+    this.names.push({ name, kind });
+    return this.entity(kind, this.observe(name, kind));
+  }
+
+  /** Forgets every observed name; the rules are kept. */
+  clear() {
+    this.names.length = 0;
+    this.observed.clear();
+  }
+
+  /** Entity of `name` without recording it as observed. */
+  resolve(name: string, kind: EntityKind): ResolvedEntity {
+    if (!normalizeName(name)) {
+      throw new Error(`Missing ${kind} name`);
+    }
+    return this.entity(kind, this.locate(name, kind, 0));
+  }
+
+  /** Observed entities of `kind`, most frequent first. */
+  entities(kind: EntityKind): ResolvedEntity[] {
+    const found: ResolvedEntity[] = [];
+    for (const [key, seen] of this.observed) {
+      if (!key.startsWith(`${kind}:`)) continue;
+      const entry = key.startsWith(`${kind}:id:`)
+        ? this.dictionary.entryOf(Number(key.slice(kind.length + 4)))
+        : undefined;
+      found.push(this.entity(kind, { key, entry, name: seen.name }));
+    }
+    return found.sort(
+      (a, b) => b.count - a.count || a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * Pairs of observed entities whose names look alike, best match first.
+   * Pairs marked distinct are left out.
+   */
+  suggestions(kind: EntityKind, threshold = 0.88): MergeSuggestion[] {
+    const entities = this.entities(kind);
+    const keys = entities.map((entity) => entityKey(entity.name));
+    const suggestions: MergeSuggestion[] = [];
+    for (let i = 0; i < entities.length; i++) {
+      for (let j = i + 1; j < entities.length; j++) {
+        if (
+          this.distinct.has(
+            `${kind}:${pairKey(entities[i].name, entities[j].name)}`,
+          )
+        ) {
+          continue;
+        }
+        const score = jaroWinkler(keys[i], keys[j]);
+        if (score >= threshold) {
+          suggestions.push({ a: entities[i], b: entities[j], score });
+        }
+      }
+    }
+    return suggestions.sort((x, y) => y.score - x.score);
+  }
+
+  private observe(name: string, kind: EntityKind): Location {
+    const location = this.locate(name, kind, 0);
+    const seen = this.observed.get(location.key) ?? {
+      name: location.name,
+      variants: [],
+      count: 0,
+    };
+    if (!seen.variants.some((v) => normalizeName(v) === normalizeName(name))) {
+      seen.variants.push(name.trim());
+    }
+    seen.count++;
+    this.observed.set(location.key, seen);
+    return location;
+  }
+
+  private locate(name: string, kind: EntityKind, depth: number): Location {
+    const key = entityKey(name);
+    if (this.splits.has(`${kind}:${normalizeName(name)}`)) {
+      const entry = this.dictionary.lookup(name, kind);
+      return entry
+        ? { key: `${kind}:id:${entry.id}`, entry, name: entry.name }
+        : { key: `${kind}:name:${normalizeName(name)}`, name: name.trim() };
+    }
+
+    const into = this.merges.get(`${kind}:${key}`);
+    if (into !== undefined && depth < MAX_MERGE_DEPTH) {
+      return this.locate(into, kind, depth + 1);
+    }
+
+    const entry =
+      this.dictionary.lookup(name, kind) ??
+      onlyOne(this.entriesByKey.get(`${kind}:${key}`));
+    if (entry) {
+      return { key: `${kind}:id:${entry.id}`, entry, name: entry.name };
+    }
+    return { key: `${kind}:key:${key}`, name: normalizeOrganizationName(name) };
+  }
+
+  private entity(kind: EntityKind, location: Location): ResolvedEntity {
+    const seen = this.observed.get(location.key);
+    const name = location.entry?.name ?? seen?.name ?? location.name;
+    return {
+      kind,
+      key: location.key,
+      name,
+      id: location.entry?.id ?? this.dictionary.resolve(name, kind),
+      published: Boolean(location.entry),
+      variants: seen ? [...seen.variants] : [],
+      count: seen?.count ?? 0,
+    };
+  }
+}
+
+function onlyOne<T>(items: T[] | undefined): T | undefined {
+  return items?.length === 1 ? items[0] : undefined;
+}
@@ -0,0 +1,95 @@
+import { normalizeOrganizationName } from "../importers/names";
+
+// Legal forms that say nothing about which organisation is meant
+const LEGAL_FORMS = new Set([
+  "corp",
+  "corporation",
+  "inc",
+  "incorporated",
+  "co",
+  "company",
+  "ltd",
+  "limited",
+  "llc",
+  "llp",
+  "lp",
+  "pllc",
+  "pc",
+  "plc",
+  "gmbh",
+  "ag",
+  "nv",
+  "sa",
+]);
+
+/**
+ * Key under which spellings of one organisation cluster: accents, punctuation,
+ * a leading "The" and every trailing legal form are dropped and "&" reads as
+ * "and", so "Acme Corp.", "ACME Corporation" and "The Acme Co., Inc." all
+ * become "acme".
+ */
+export function entityKey(name: string): string {
+  const words = normalizeOrganizationName(name)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+  if (words.length > 1 && words[0] === "the") words.shift();
+  let end = words.length;
+  while (end > 1 && LEGAL_FORMS.has(words[end - 1])) end--;
+  return words.slice(0, end).join(" ");
+}
+
+/**
+ * Jaro-Winkler similarity in [0, 1]. Favours strings that share a prefix,
+ * which suits organisation names where typos and abbreviations tend to come
+ * at the end.
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = Math.max(0, i - window); j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/** How likely two names are to mean the same organisation, in [0, 1]. */
+export function nameSimilarity(a: string, b: string): number {
+  return jaroWinkler(entityKey(a), entityKey(b));
+}
@@ -0,0 +1,17 @@
+export { EntityResolver } from "./EntityResolver";
+export type { MergeSuggestion, ResolvedEntity } from "./EntityResolver";
+export { entityKey, jaroWinkler, nameSimilarity } from "./entityKey";
+export {
+  addDistinct,
+  addMerge,
+  addSplit,
+  emptyRules,
+  pairKey,
+  parseRules,
+} from "./rules";
+export type {
+  DistinctRule,
+  MergeRule,
+  ResolutionRules,
+  SplitRule,
+} from "./rules";
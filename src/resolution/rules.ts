@@ -0,0 +1,145 @@
+import { normalizeName, type EntityKind } from "../dictionary";
+import { entityKey } from "./entityKey";
+
+/** Every spelling clustered with `from` resolves to the entity of `into`. */
+export interface MergeRule {
+  kind: EntityKind;
+  from: string;
+  into: string;
+}
+
+/** `name` is its own entity even though its key clusters it with others. */
+export interface SplitRule {
+  kind: EntityKind;
+  name: string;
+}
+
+/** A reviewed pair that is not the same entity; it is no longer suggested. */
+export interface DistinctRule {
+  kind: EntityKind;
+  a: string;
+  b: string;
+}
+
+/** Manual decisions from entity review, kept separately from the dictionary. */
+export interface ResolutionRules {
+  merges: MergeRule[];
+  splits: SplitRule[];
+  distinct: DistinctRule[];
+}
+
+export function emptyRules(): ResolutionRules {
+  return { merges: [], splits: [], distinct: [] };
+}
+
+const KINDS: EntityKind[] = ["company", "recipient"];
+
+/** Validates rules read from storage or a file. */
+export function parseRules(value: unknown): ResolutionRules {
+  const rules = value as Partial<ResolutionRules> | null;
+  if (typeof rules !== "object" || rules === null) {
+    throw new Error("Resolution rules must be an object");
+  }
+  const list = <T>(field: keyof ResolutionRules, names: string[]): T[] => {
+    const items = rules[field] ?? [];
+    if (!Array.isArray(items)) {
+      throw new Error(`Resolution rules: ${field} must be an array`);
+    }
+    items.forEach((item, i) => {
+      const rule = item as unknown as Record<string, unknown>;
+      if (!KINDS.includes(rule?.kind as EntityKind)) {
+        throw new Error(`Resolution rules: ${field}[${i}] has no valid kind`);
+      }
+      for (const name of names) {
+        if (typeof rule[name] !== "string" || !normalizeName(rule[name])) {
+          throw new Error(
+            `Resolution rules: ${field}[${i}].${name} is missing`,
+          );
+        }
+      }
+    });
+    return items as T[];
+  };
+  return {
+    merges: list<MergeRule>("merges", ["from", "into"]),
+    splits: list<SplitRule>("splits", ["name"]),
+    distinct: list<DistinctRule>("distinct", ["a", "b"]),
+  };
+}
+
+/**
+ * Merges the cluster of `from` into the entity of `into`. Earlier decisions
+ * that contradict the merge (a merge the other way, a split of `from`, the
+ * pair marked distinct) are dropped.
+ */
+export function addMerge(
+  rules: ResolutionRules,
+  kind: EntityKind,
+  from: string,
+  into: string,
+): ResolutionRules {
+  const fromKey = entityKey(from);
+  const intoKey = entityKey(into);
+  if (fromKey === intoKey) {
+    throw new Error(`"${from}" and "${into}" are already the same entity`);
+  }
+  return {
+    merges: [
+      ...rules.merges.filter(
+        (rule) =>
+          rule.kind !== kind ||
+          (entityKey(rule.from) !== fromKey &&
+            !(
+              entityKey(rule.from) === intoKey &&
+              entityKey(rule.into) === fromKey
+            )),
+      ),
+      { kind, from: from.trim(), into: into.trim() },
+    ],
+    splits: rules.splits.filter(
+      (rule) =>
+        rule.kind !== kind || normalizeName(rule.name) !== normalizeName(from),
+    ),
+    distinct: rules.distinct.filter(
+      (rule) =>
+        rule.kind !== kind || pairKey(rule.a, rule.b) !== pairKey(from, into),
+    ),
+  };
+}
+
+/** Takes `name` out of whatever cluster or merge it would otherwise join. */
+export function addSplit(
+  rules: ResolutionRules,
+  kind: EntityKind,
+  name: string,
+): ResolutionRules {
+  const exists = rules.splits.some(
+    (rule) =>
+      rule.kind === kind && normalizeName(rule.name) === normalizeName(name),
+  );
+  return exists
+    ? rules
+    : { ...rules, splits: [...rules.splits, { kind, name: name.trim() }] };
+}
+
+export function addDistinct(
+  rules: ResolutionRules,
+  kind: EntityKind,
+  a: string,
+  b: string,
+): ResolutionRules {
+  const exists = rules.distinct.some(
+    (rule) => rule.kind === kind && pairKey(rule.a, rule.b) === pairKey(a, b),
+  );
+  return exists
+    ? rules
+    : {
+        ...rules,
+        distinct: [...rules.distinct, { kind, a: a.trim(), b: b.trim() }],
+      };
+}
+
+/** Order-independent key of a pair of names. */
+export function pairKey(a: string, b: string) {
+  return [entityKey(a), entityKey(b)].sort().join("\n");
+}
@@ -0,0 +1,146 @@
+import { normalizeName } from "../dictionary";
+
+export type TaxonomyScheme = "sector" | "industry" | "lda-issue";
+
+export interface TaxonomyNode {
+  /** Stable identifier stored in records: a sector slug, "NAICS-51" or an LDA issue code. */
+  code: string;
+  name: string;
+  /** Code of the parent node; top-level sectors have none. */
+  parent?: string;
+  scheme: TaxonomyScheme;
+}
+
+/**
+ * Parent-child hierarchy of record categories. Top-level sectors carry the
+ * names records used before the taxonomy existed ("Technology", "Other"), so
+ * old records resolve by name while new ones store a code.
+ */
+export class Taxonomy {
+  private readonly byCode = new Map<string, TaxonomyNode>();
+  private readonly byName = new Map<string, TaxonomyNode>();
+  private readonly childrenOf = new Map<string, TaxonomyNode[]>();
+  private readonly topLevel: TaxonomyNode[];
+  private readonly ordered: TaxonomyNode[] = [];
+
+  constructor(nodes: TaxonomyNode[]) {
+    for (const node of nodes) {
+      if (!node.code.trim() || !node.name.trim()) {
+        throw new Error("Taxonomy nodes need a code and a name");
+      }
+      const key = normalizeName(node.code);
+      if (this.byCode.has(key)) {
+        throw new Error(`Taxonomy code "${node.code}" is listed twice`);
+      }
+      this.byCode.set(key, node);
+      // LDA issues and NAICS sectors share some names; the first one listed wins a name lookup
+      const name = normalizeName(node.name);
+      if (!this.byName.has(name)) this.byName.set(name, node);
+    }
+
+    for (const node of nodes) {
+      if (node.parent === undefined) continue;
+      const parent = this.byCode.get(normalizeName(node.parent));
+      if (!parent) {
+        throw new Error(
+          `Taxonomy node "${node.code}" has unknown parent "${node.parent}"`,
+        );
+      }
+      const siblings = this.childrenOf.get(parent.code) ?? [];
+      this.childrenOf.set(parent.code, [...siblings, node]);
+    }
+
+    for (const node of nodes) this.path(node.code);
+    this.topLevel = nodes.filter((node) => node.parent === undefined);
+
+    // Depth-first from the roots, keeping file order among siblings
+    const visit = (node: TaxonomyNode) => {
+      this.ordered.push(node);
+      this.children(node.code).forEach(visit);
+    };
+    this.roots().forEach(visit);
+  }
+
+  /** Every node, each parent directly followed by its descendants. */
+  nodes(): TaxonomyNode[] {
+    return [...this.ordered];
+  }
+
+  get(code: string): TaxonomyNode | undefined {
+    return this.byCode.get(normalizeName(code));
+  }
+
+  /**
+   * The node a stored category refers to: a code, or a name for records
+   * written before categories were codes. Case-insensitive.
+   */
+  find(category: string): TaxonomyNode | undefined {
+    const key = normalizeName(category);
+    return this.byCode.get(key) ?? this.byName.get(key);
+  }
+
+  roots(): TaxonomyNode[] {
+    return [...this.topLevel];
+  }
+
+  children(code: string): TaxonomyNode[] {
+    const node = this.get(code);
+    return node ? [...(this.childrenOf.get(node.code) ?? [])] : [];
+  }
+
+  /** Nodes from the top-level sector down to `code` itself. */
+  path(code: string): TaxonomyNode[] {
+    const path: TaxonomyNode[] = [];
+    for (let node = this.get(code); node; ) {
+      if (path.includes(node)) {
+        throw new Error(`Taxonomy cycle through "${node.code}"`);
+      }
+      path.unshift(node);
+      node = node.parent === undefined ? undefined : this.get(node.parent);
+    }
+    return path;
+  }
+
+  /** 0 for top-level sectors. */
+  depth(code: string): number {
+    return Math.max(this.path(code).length - 1, 0);
+  }
+
+  /**
+   * The ancestor `depth` levels below the top of a category's path: its
+   * sector by default. Categories shallower than `depth` roll up to
+   * themselves; unknown ones to `undefined`.
+   */
+  rollUp(category: string, depth = 0): TaxonomyNode | undefined {
+    const node = this.find(category);
+    if (!node) return undefined;
+    const path = this.path(node.code);
+    return path[Math.min(depth, path.length - 1)];
+  }
+
+  /** True when `category` is the node `code` or one of its descendants. */
+  isWithin(category: string, code: string): boolean {
+    const node = this.find(category);
+    const ancestor = this.get(code);
+    if (!node || !ancestor) return false;
+    return this.path(node.code).includes(ancestor);
+  }
+
+  /**
+   * Codes a donation of `category` is filed under on-chain: its node and
+   * every ancestor, most specific first, so a market over any of them counts
+   * the donation. A category the taxonomy does not know is filed under itself.
+   */
+  lineage(category: string): string[] {
+    const node = this.find(category);
+    if (!node) return category.trim() ? [category.trim()] : [];
+    return this.path(node.code)
+      .map((ancestor) => ancestor.code)
+      .reverse();
+  }
+
+  /** Display name of a stored category, the category itself if unknown. */
+  nameOf(category: string): string {
+    return this.find(category)?.name ?? category;
+  }
+}
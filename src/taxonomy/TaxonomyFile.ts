@@ -0,0 +1,42 @@
+import { Taxonomy, type TaxonomyNode, type TaxonomyScheme } from "./Taxonomy";
+
+export interface TaxonomyFile {
+  /** Bumped whenever a node is added, moved or renamed. */
+  version: number;
+  /** ISO-8601 timestamp of publication. */
+  publishedAt: string;
+  nodes: TaxonomyNode[];
+}
+
+const SCHEMES: TaxonomyScheme[] = ["sector", "industry", "lda-issue"];
+
+/**
+ * Checks the shape of a taxonomy file and builds the hierarchy, throwing on
+ * the first malformed node, unknown parent or cycle.
+ */
+export function loadTaxonomy(file: unknown): {
+  taxonomy: Taxonomy;
+  version: number;
+} {
+  const { version, nodes } = (file ?? {}) as Partial<TaxonomyFile>;
+  if (!Number.isInteger(version) || version! < 1) {
+    throw new Error("Taxonomy file has no version");
+  }
+  if (!Array.isArray(nodes)) {
+    throw new Error("Taxonomy file has no nodes");
+  }
+  nodes.forEach((node: Partial<TaxonomyNode>, index) => {
+    if (typeof node?.code !== "string" || typeof node.name !== "string") {
+      throw new Error(`Taxonomy node ${index} needs a code and a name`);
+    }
+    if (node.parent !== undefined && typeof node.parent !== "string") {
+      throw new Error(`Taxonomy node "${node.code}" has an invalid parent`);
+    }
+    if (!SCHEMES.includes(node.scheme as TaxonomyScheme)) {
+      throw new Error(
+        `Taxonomy node "${node.code}" has unknown scheme "${node.scheme}"`,
+      );
+    }
+  });
+  return { taxonomy: new Taxonomy(nodes), version: version! };
+}
@@ -0,0 +1,4 @@
+export { Taxonomy } from "./Taxonomy";
+export type { TaxonomyNode, TaxonomyScheme } from "./Taxonomy";
+export { loadTaxonomy } from "./TaxonomyFile";
+export type { TaxonomyFile } from "./TaxonomyFile";
@@ -0,0 +1,14 @@
+export {
+  bucketLabel,
+  bucketOf,
+  bucketsPerYear,
+  buildTimeSeries,
+  movingAverage,
+  yearOverYear,
+} from "./timeseries";
+export type {
+  Granularity,
+  TimedAmount,
+  TimeSeries,
+  TimeSeriesTable,
+} from "./timeseries";
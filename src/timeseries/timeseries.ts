@@ -0,0 +1,150 @@
+import { formatPeriod, type ReportingPeriod } from "../records";
+
+export type Granularity = "month" | "quarter";
+
+/** One amount to chart, already attributed to a series. */
+export interface TimedAmount {
+  /** Category, donor or recipient the amount belongs to. */
+  series: string;
+  /** Unix seconds, see `recordActivityDate`. Months are bucketed by it. */
+  activityDate: number;
+  /** Quarters are bucketed by the reporting period, see `recordPeriod`. */
+  reportingPeriod: ReportingPeriod;
+  /** Cents. */
+  amount: bigint;
+}
+
+export interface TimeSeries {
+  series: string;
+  /** Cents per bucket of the table. */
+  values: bigint[];
+  total: bigint;
+}
+
+/**
+ * Amounts per series per month or quarter. Buckets run without gaps from
+ * the first to the last one with an amount, so moving averages and year
+ * over year comparisons line up by position.
+ */
+export interface TimeSeriesTable {
+  granularity: Granularity;
+  /** Consecutive bucket numbers, see `bucketOf`. */
+  buckets: number[];
+  /** Largest series first. */
+  series: TimeSeries[];
+  /** Every series outside the top ones summed, when a limit left any out. */
+  others?: TimeSeries;
+}
+
+/** Buckets per year, the distance of a year over year comparison. */
+export function bucketsPerYear(granularity: Granularity): number {
+  return granularity === "month" ? 12 : 4;
+}
+
+/**
+ * Consecutive number of the amount's month (year * 12 + month) or quarter
+ * (year * 4 + quarter), counted from 0.
+ */
+export function bucketOf(
+  amount: Pick<TimedAmount, "activityDate" | "reportingPeriod">,
+  granularity: Granularity,
+): number {
+  if (granularity === "quarter") {
+    const { year, quarter } = amount.reportingPeriod;
+    return year * 4 + quarter - 1;
+  }
+  const date = new Date(amount.activityDate * 1000);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+/** "2024-03" for a month, "2024 Q1" for a quarter. */
+export function bucketLabel(bucket: number, granularity: Granularity): string {
+  const perYear = bucketsPerYear(granularity);
+  const year = Math.floor(bucket / perYear);
+  const offset = bucket % perYear;
+  return granularity === "quarter"
+    ? formatPeriod({ year, quarter: offset + 1 })
+    : `${year}-${String(offset + 1).padStart(2, "0")}`;
+}
+
+/** Sums `amounts` per series and bucket, keeping the `limit` largest series. */
+export function buildTimeSeries(
+  amounts: TimedAmount[],
+  granularity: Granularity,
+  limit?: number,
+): TimeSeriesTable {
+  if (amounts.length === 0) return { granularity, buckets: [], series: [] };
+
+  const bucketOfAmount = amounts.map((amount) => bucketOf(amount, granularity));
+  const first = Math.min(...bucketOfAmount);
+  const last = Math.max(...bucketOfAmount);
+  const buckets = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+
+  const bySeries = new Map<string, TimeSeries>();
+  amounts.forEach(({ series, amount }, i) => {
+    let entry = bySeries.get(series);
+    if (!entry) {
+      entry = { series, values: buckets.map(() => 0n), total: 0n };
+      bySeries.set(series, entry);
+    }
+    entry.values[bucketOfAmount[i] - first] += amount;
+    entry.total += amount;
+  });
+
+  const ranked = [...bySeries.values()].sort((a, b) =>
+    a.total === b.total
+      ? a.series.localeCompare(b.series)
+      : a.total > b.total
+        ? -1
+        : 1,
+  );
+  if (limit === undefined || ranked.length <= limit) {
+    return { granularity, buckets, series: ranked };
+  }
+  const rest = ranked.slice(limit);
+  return {
+    granularity,
+    buckets,
+    series: ranked.slice(0, limit),
+    others: {
+      series: "Others",
+      values: buckets.map((_, i) =>
+        rest.reduce((total, entry) => total + entry.values[i], 0n),
+      ),
+      total: rest.reduce((total, entry) => total + entry.total, 0n),
+    },
+  };
+}
+
+/**
+ * Trailing average of the last `window` buckets in cents; `null` until a
+ * full window is available.
+ */
+export function movingAverage(
+  values: bigint[],
+  window: number,
+): (number | null)[] {
+  let sum = 0n;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= window) sum -= values[i - window];
+    return i < window - 1 ? null : Number(sum) / window;
+  });
+}
+
+/**
+ * Percent change from the same bucket a year earlier; `null` where there is
+ * no earlier year in the values or it had nothing to compare with.
+ */
+export function yearOverYear(
+  values: bigint[],
+  granularity: Granularity,
+): (number | null)[] {
+  const lag = bucketsPerYear(granularity);
+  return values.map((value, i) => {
+    const previous = i >= lag ? values[i - lag] : 0n;
+    return previous === 0n
+      ? null
+      : (Number(value - previous) / Number(previous)) * 100;
+  });
+}
@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { MAX_DONATIONS_PER_PROOF, type LobbyingClient } from "../src/client";
+import { CommitmentSalts } from "../src/commitments";
+import { EntityDictionary, verifyDictionary, type DictionaryFile } from "../src/dictionary";
+import { assertRecordBlob, RECORD_SCHEMA_VERSION, type RecordBlob, type RecordProvenance } from "../src/records";
+import { loadTaxonomy, type Taxonomy } from "../src/taxonomy";
+
+export const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+export const UNIVERSAL_ADAPTER_ABI = [
+  "function getData(string key) view returns (bytes)",
+  "function setData(string key, bytes data)",
+];
+
+export interface FrontendConfig {
+  network?: string;
+  contractAddress?: string;
+  lobbyingContractAddress?: string;
+  deployer?: string;
+}
+
+// Written by deploy/deploy.ts
+export function readFrontendConfig(): FrontendConfig {
+  const file = path.join(FRONTEND_SRC, "config.json");
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as FrontendConfig) : {};
+}
+
+// The taxonomy the app files categories under
+export function loadFrontendTaxonomy(): Taxonomy {
+  return loadTaxonomy(JSON.parse(fs.readFileSync(path.join(FRONTEND_SRC, "taxonomy.json"), "utf8"))).taxonomy;
+}
+
+// An empty unsigned dictionary is the initial state; anything else must carry a trusted signature
+export function loadPublishedDictionary(trustedSigners: (string | undefined)[]): EntityDictionary {
+  const file = JSON.parse(fs.readFileSync(path.join(FRONTEND_SRC, "dictionary.json"), "utf8")) as DictionaryFile;
+  const verification = verifyDictionary(
+    file,
+    trustedSigners.filter((signer): signer is string => Boolean(signer))
+  );
+  if (!verification.valid && file.entries.length > 0) {
+    throw new Error(`Dictionary rejected: ${verification.reason}`);
+  }
+  return verification.valid ? verification.dictionary : new EntityDictionary();
+}
+
+// Salts are user-decrypted with the signer's own keypair; needs initializeCLIApi first
+export function commitmentSalts(hre: HardhatRuntimeEnvironment, client: LobbyingClient, signer: HardhatEthersSigner) {
+  return new CommitmentSalts(client, signer.address, (handle) =>
+    hre.fhevm.userDecryptEuint(FhevmType.euint256, handle, client.address, signer)
+  );
+}
+
+// Importers cite the source document; who contributed the import is only known to the task
+export function withContributor<T extends { provenance?: RecordProvenance }>(item: T, contributor: string | undefined): T {
+  return item.provenance && contributor ? { ...item, provenance: { ...item.provenance, contributor } } : item;
+}
+
+/**
+ * Stores records in UniversalAdapter with the same blob layout as a batch
+ * submitted from the app, one blob per proof-sized chunk, and indexes the new
+ * keys in `lobbying_keys`. Records are stamped with the current schema version
+ * and validated before anything is written. Returns the `<key>#<index>` record
+ * ID of each record.
+ */
+export async function storeRecordBlobs(adapter: ethers.Contract, batchId: string, blobs: RecordBlob[]) {
+  const records = blobs.map((blob) => assertRecordBlob({ ...blob, schemaVersion: RECORD_SCHEMA_VERSION }));
+  const keys: string[] = [];
+  const recordIds: string[] = [];
+  for (let start = 0; start < records.length; start += MAX_DONATIONS_PER_PROOF) {
+    const chunk = records.slice(start, start + MAX_DONATIONS_PER_PROOF);
+    const key = `${batchId}-${keys.length}`;
+    await (await adapter.setData(`lobbying_${key}`, ethers.toUtf8Bytes(JSON.stringify({ records: chunk })))).wait();
+    chunk.forEach((_, index) => recordIds.push(`${key}#${index}`));
+    keys.push(key);
+  }
+
+  const keysBytes: string = await adapter.getData("lobbying_keys");
+  const existing = ethers.dataLength(keysBytes) > 0 ? (JSON.parse(ethers.toUtf8String(keysBytes)) as string[]) : [];
+  await (await adapter.setData("lobbying_keys", ethers.toUtf8Bytes(JSON.stringify([...existing, ...keys])))).wait();
+  return recordIds;
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import {
+  EntityDictionary,
+  signDictionary,
+  verifyDictionary,
+  type DictionaryFile,
+} from "../src/dictionary";
+import { EntityResolver, parseRules } from "../src/resolution";
+
+const DEFAULT_OUT = path.join(__dirname, "..", "frontend", "web", "src", "dictionary.json");
+
+interface NamesFile {
+  companies?: string[];
+  recipients?: string[];
+}
+
+interface PublishArgs {
+  names?: string;
+  resolution?: string;
+  out: string;
+}
+
+// npx hardhat dictionary:publish --names names.json [--resolution rules.json] [--network sepolia]
+task("dictionary:publish", "Adds names to the entity dictionary and publishes a new signed version")
+  .addOptionalParam("names", "JSON file with { companies: string[], recipients: string[] }")
+  .addOptionalParam("resolution", "Rules exported from entity review; merged spellings are published as aliases")
+  .addOptionalParam("out", "Dictionary file to update", DEFAULT_OUT, types.string)
+  .setAction(async ({ names, resolution, out }: PublishArgs, hre) => {
+    if (!names && !resolution) {
+      throw new Error("Nothing to publish: pass --names and/or --resolution");
+    }
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer) {
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    }
+
+    // Start from the published file so existing IDs never change
+    let version = 0;
+    let dictionary = new EntityDictionary();
+    if (fs.existsSync(out)) {
+      const current = JSON.parse(fs.readFileSync(out, "utf8")) as DictionaryFile;
+      if (current.entries.length > 0) {
+        const verification = verifyDictionary(current, [signer.address]);
+        if (!verification.valid) {
+          throw new Error(`Refusing to extend ${out}: ${verification.reason}`);
+        }
+        dictionary = verification.dictionary;
+      }
+      version = current.version;
+    }
+
+    const input = names ? (JSON.parse(fs.readFileSync(names, "utf8")) as NamesFile) : {};
+    const before = dictionary.size;
+    (input.companies ?? []).forEach((name) => dictionary.register(name, "company"));
+    (input.recipients ?? []).forEach((name) => dictionary.register(name, "recipient"));
+
+    // A merged spelling becomes an alias of its target, so it encrypts to the target's ID from now on
+    let aliases = 0;
+    if (resolution) {
+      const rules = parseRules(JSON.parse(fs.readFileSync(resolution, "utf8")));
+      const resolver = new EntityResolver(dictionary, rules);
+      for (const merge of rules.merges) {
+        const target = resolver.resolve(merge.into, merge.kind);
+        const entry = dictionary.lookup(target.name, merge.kind) ?? dictionary.register(target.name, merge.kind);
+        const existing = dictionary.lookup(merge.from, merge.kind);
+        if (existing && existing.id !== entry.id) {
+          console.warn(`Skipping merge of ${merge.kind} "${merge.from}": it is already published as ID ${existing.id}`);
+          continue;
+        }
+        if (!existing) {
+          dictionary.addAlias(entry.id, merge.from);
+          aliases++;
+        }
+      }
+    }
+
+    for (const collision of dictionary.collisions) {
+      console.warn(
+        `Collision: ${collision.kind} "${collision.name}" clashed with ID(s) ${collision.candidates.join(", ")}, assigned ${collision.assignedId}`
+      );
+    }
+
+    const file = await signDictionary(dictionary, version + 1, signer);
+    fs.writeFileSync(out, JSON.stringify(file, null, 2) + "\n");
+    console.log(
+      `Published dictionary v${file.version} (${dictionary.size - before} new, ${aliases} aliases, ${dictionary.size} total) signed by ${file.signer} to ${out}`
+    );
+  });
@@ -0,0 +1,210 @@
+import fs from "fs";
+import readline from "readline";
+import { task } from "hardhat/config";
+import { LobbyingClient, MAX_DONATIONS_PER_PROOF } from "../src/client";
+import { describeDuplicate, findDuplicates } from "../src/commitments";
+import { FecImportPlanner, parseFecLine, type FecRowReport } from "../src/importers";
+import { commitmentSalts, loadFrontendTaxonomy, loadPublishedDictionary, readFrontendConfig, storeRecordBlobs, UNIVERSAL_ADAPTER_ABI, withContributor } from "./common";
+
+interface ImportArgs {
+  files: string[];
+  committees?: string;
+  adapter?: string;
+  lobbying?: string;
+  mapping: string;
+  report: string;
+  contributor?: string;
+  dryRun: boolean;
+  allowUnpublished: boolean;
+  skipAdapter: boolean;
+}
+
+/** FEC SUB_ID -> donation, also the resume point. */
+interface FecMapping {
+  lobbying: string;
+  records: Record<string, { donationId: string; txHash: string; recordId?: string }>;
+}
+
+// Written to a temporary file first so an interrupted run never leaves a truncated mapping
+function saveMapping(file: string, mapping: FecMapping) {
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(mapping, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// Bulk files run to gigabytes, so each line is filtered and handed to the planner as it is read
+async function readContributions(file: string, committees: Set<string> | undefined, planner: FecImportPlanner, invalid: FecRowReport[]) {
+  let read = 0;
+  const lines = readline.createInterface({ input: fs.createReadStream(file, "utf8"), crlfDelay: Infinity });
+  let line = 0;
+  for await (const text of lines) {
+    line++;
+    if (!text.trim()) continue;
+    if (committees && !committees.has(text.slice(0, text.indexOf("|")).toUpperCase())) continue;
+    try {
+      planner.add(parseFecLine(text, line));
+      read++;
+    } catch (e) {
+      invalid.push({ subId: "", line, status: "invalid", reason: `${file}: ${(e as Error).message}` });
+    }
+  }
+  return read;
+}
+
+// npx hardhat lobbying:import-fec itcont.txt --committees C00401224,C00010603 --network localhost [--dry-run]
+task("lobbying:import-fec", "Imports FEC bulk contribution files (itcont, itoth, itpas2) as encrypted donations")
+  .addVariadicPositionalParam("files", "Pipe-delimited FEC bulk files")
+  .addOptionalParam("committees", "Comma-separated CMTE_IDs to import; everything else is ignored")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the frontend config)")
+  .addOptionalParam("lobbying", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addOptionalParam("mapping", "SUB_ID -> donation ID mapping file, also the resume point", "fec-mapping.json")
+  .addOptionalParam("report", "Import report", "fec-import-report.json")
+  .addOptionalParam("contributor", "Organization credited with the records (defaults to the signer address)")
+  .addFlag("dryRun", "Parse and report without sending transactions")
+  .addFlag("allowUnpublished", "Import contributions whose names are not in the published dictionary yet")
+  .addFlag("skipAdapter", "Do not store record blobs in UniversalAdapter")
+  .setAction(async (args: ImportArgs, hre) => {
+    const config = readFrontendConfig();
+    const adapterAddress = args.adapter ?? config.contractAddress;
+    const lobbyingAddress = args.lobbying ?? config.lobbyingContractAddress;
+    if (!lobbyingAddress || (!args.skipAdapter && !adapterAddress)) {
+      throw new Error("UniversalAdapter and LobbyingAnalysisFHE addresses are required");
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const dictionary = loadPublishedDictionary([config.deployer, signer?.address]);
+
+    let mapping: FecMapping = { lobbying: lobbyingAddress, records: {} };
+    if (fs.existsSync(args.mapping)) {
+      mapping = JSON.parse(fs.readFileSync(args.mapping, "utf8")) as FecMapping;
+      if (mapping.lobbying.toLowerCase() !== lobbyingAddress.toLowerCase()) {
+        throw new Error(`${args.mapping} belongs to LobbyingAnalysisFHE ${mapping.lobbying}, not ${lobbyingAddress}`);
+      }
+    }
+
+    const committees = args.committees
+      ? new Set(args.committees.split(",").map((id) => id.trim().toUpperCase()))
+      : undefined;
+    const unreadable: FecRowReport[] = [];
+    const planner = new FecImportPlanner(dictionary, args.allowUnpublished);
+    let contributions = 0;
+    for (const file of args.files) {
+      contributions += await readContributions(file, committees, planner, unreadable);
+    }
+
+    // Refunds are netted against the whole input, so already imported rows are dropped after planning
+    const plan = planner.finish();
+    const contributor = args.contributor ?? signer?.address;
+    plan.reports = plan.reports.map((report) => withContributor(report, contributor));
+    plan.rows = plan.rows.map((row) => ({ ...row, record: withContributor(row.record, contributor) }));
+    const rows = plan.rows.filter((row) => !mapping.records[row.subId]);
+    const reports = [...unreadable, ...plan.reports];
+    const count = (status: FecRowReport["status"]) => reports.filter((r) => r.status === status).length;
+    const reportOf = new Map(plan.reports.map((r) => [r.subId, r]));
+    for (const row of plan.rows) {
+      const entry = reportOf.get(row.subId);
+      const done = mapping.records[row.subId];
+      if (entry && done) Object.assign(entry, { status: "imported", donationId: done.donationId, recordId: done.recordId });
+    }
+
+    // companies/recipients at the top level make the report usable as a dictionary:publish names file
+    const writeReport = () => {
+      const report = { ...plan.missingNames, rows: reports };
+      fs.writeFileSync(args.report, JSON.stringify(report, null, 2) + "\n");
+    };
+
+    console.log(`Contributions read:   ${contributions}`);
+    console.log(`To import:            ${rows.length}`);
+    console.log(`Already imported:     ${plan.rows.length - rows.length}`);
+    console.log(`Superseded:           ${count("superseded")}`);
+    console.log(`Refunded in full:     ${count("refunded")}`);
+    console.log(`Skipped:              ${count("skipped")}`);
+    console.log(`Invalid:              ${count("invalid")}`);
+    const missing = plan.missingNames.companies.length + plan.missingNames.recipients.length;
+    if (missing > 0) {
+      console.log(`Names missing from the dictionary: ${missing} (publish them with dictionary:publish --names ${args.report})`);
+    }
+
+    if (args.dryRun || rows.length === 0) {
+      writeReport();
+      console.log(`Wrote import report to ${args.report}`);
+      return;
+    }
+    if (!signer) {
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    }
+    await hre.fhevm.initializeCLIApi();
+
+    const client = new LobbyingClient(lobbyingAddress, signer, hre.fhevm);
+    const adapter = args.skipAdapter ? undefined : new hre.ethers.Contract(adapterAddress!, UNIVERSAL_ADAPTER_ABI, signer);
+    const salts = commitmentSalts(hre, client, signer);
+    const taxonomy = loadFrontendTaxonomy();
+    let imported = 0;
+    let failed = 0;
+    let repeated = 0;
+    try {
+      for (let start = 0; start < rows.length; start += MAX_DONATIONS_PER_PROOF) {
+        // Contributions already on-chain without a mapping entry (another mapping file, a lost one) are not sent again
+        const candidates = rows.slice(start, start + MAX_DONATIONS_PER_PROOF);
+        const donations = await salts.commit(
+          candidates.map((row) => ({ ...row.donation, categories: taxonomy.lineage(row.record.category) }))
+        );
+        const duplicates = await findDuplicates(client, donations);
+        duplicates.forEach((duplicate, i) => {
+          if (!duplicate) return;
+          repeated++;
+          const reason = "row" in duplicate ? `Same contribution as SUB_ID ${candidates[duplicate.row].subId}` : describeDuplicate(duplicate);
+          const entry = reportOf.get(candidates[i].subId);
+          if (entry) Object.assign(entry, { status: "duplicate", reason });
+          else reports.push({ subId: candidates[i].subId, line: 0, status: "duplicate", reason });
+        });
+        const chunk = candidates.filter((_, i) => !duplicates[i]);
+        if (chunk.length === 0) continue;
+
+        const result = await client.recordEncryptedDonations(donations.filter((_, i) => !duplicates[i]));
+        for (const failure of result.failures) {
+          failed += failure.indexes.length;
+          failure.indexes.forEach((i) => {
+            const entry = reportOf.get(chunk[i].subId);
+            const reason = failure.error.message;
+            if (entry) Object.assign(entry, { status: "failed", reason });
+            else reports.push({ subId: chunk[i].subId, line: 0, status: "failed", reason });
+          });
+        }
+
+        const recorded = chunk.flatMap((row, i) => {
+          const donationId = result.donationIds[i];
+          return donationId === undefined ? [] : [{ row, donationId }];
+        });
+        // Saved before the blobs are written: a failure there must not lose donations that are already on-chain
+        recorded.forEach(({ row, donationId }) => {
+          mapping.records[row.subId] = { donationId: donationId.toString(), txHash: result.receipts[0].hash };
+          const entry = reportOf.get(row.subId);
+          if (entry) Object.assign(entry, { status: "imported", donationId: donationId.toString() });
+        });
+        imported += recorded.length;
+        saveMapping(args.mapping, mapping);
+
+        if (adapter && recorded.length > 0) {
+          const recordIds = await storeRecordBlobs(
+            adapter,
+            `fec-${Date.now()}`,
+            recorded.map(({ row, donationId }) => ({ ...row.record, donationId: Number(donationId) }))
+          );
+          recorded.forEach(({ row }, i) => {
+            mapping.records[row.subId].recordId = recordIds[i];
+            const entry = reportOf.get(row.subId);
+            if (entry) entry.recordId = recordIds[i];
+          });
+          saveMapping(args.mapping, mapping);
+        }
+        console.log(`Imported ${imported}/${rows.length}`);
+      }
+    } finally {
+      writeReport();
+    }
+
+    console.log(`Imported ${imported} contributions, ${failed} failed, ${repeated} already recorded. Mapping: ${args.mapping}, report: ${args.report}`);
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { LobbyingClient } from "../src/client";
+import { describeDuplicate, findDuplicates } from "../src/commitments";
+import { parseLdaFile, planLdaImport, type LdaFile, type LdaFilingReport } from "../src/importers";
+import type { RecordBlob } from "../src/records";
+import { commitmentSalts, loadFrontendTaxonomy, loadPublishedDictionary, readFrontendConfig, storeRecordBlobs, UNIVERSAL_ADAPTER_ABI, withContributor } from "./common";
+
+interface ImportArgs {
+  files: string[];
+  adapter?: string;
+  lobbying?: string;
+  report: string;
+  contributor?: string;
+  dryRun: boolean;
+  allowUnpublished: boolean;
+  skipAdapter: boolean;
+}
+
+// npx hardhat lobbying:import-lda filings/2024_Q1.json filings/2024_Q2.xml --network localhost [--dry-run]
+task("lobbying:import-lda", "Imports Senate LDA filings (JSON API or bulk XML) as encrypted donations")
+  .addVariadicPositionalParam("files", "LDA export files")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the frontend config)")
+  .addOptionalParam("lobbying", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addOptionalParam("report", "Per-filing import report", "lda-import-report.json")
+  .addOptionalParam("contributor", "Organization credited with the records (defaults to the signer address)")
+  .addFlag("dryRun", "Parse and report without sending transactions")
+  .addFlag("allowUnpublished", "Import filings whose names are not in the published dictionary yet")
+  .addFlag("skipAdapter", "Do not store record blobs in UniversalAdapter")
+  .setAction(async (args: ImportArgs, hre) => {
+    const config = readFrontendConfig();
+    const adapterAddress = args.adapter ?? config.contractAddress;
+    const lobbyingAddress = args.lobbying ?? config.lobbyingContractAddress;
+    if (!lobbyingAddress || (!args.skipAdapter && !adapterAddress)) {
+      throw new Error("UniversalAdapter and LobbyingAnalysisFHE addresses are required");
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const dictionary = loadPublishedDictionary([config.deployer, signer?.address]);
+
+    const parsed: LdaFile[] = [];
+    const unreadable: { file: string; reason: string }[] = [];
+    for (const file of args.files) {
+      try {
+        parsed.push(parseLdaFile(path.basename(file), fs.readFileSync(file, "utf8")));
+      } catch (e) {
+        unreadable.push({ file, reason: (e as Error).message });
+      }
+    }
+    const plan = planLdaImport(parsed, dictionary, args.allowUnpublished);
+    const contributor = args.contributor ?? signer?.address;
+    plan.filings = plan.filings.map((filing) => withContributor(filing, contributor));
+    plan.rows = plan.rows.map((row) => ({ ...row, record: withContributor(row.record, contributor) }));
+
+    // companies/recipients at the top level make the report usable as a dictionary:publish names file
+    const writeReport = () => {
+      const report = { ...plan.missingNames, unreadable, filings: plan.filings };
+      fs.writeFileSync(args.report, JSON.stringify(report, null, 2) + "\n");
+    };
+    const count = (status: LdaFilingReport["status"]) => plan.filings.filter((f) => f.status === status).length;
+
+    console.log(`Files read:       ${parsed.length} of ${args.files.length}`);
+    console.log(`Filings found:    ${plan.filings.length}`);
+    console.log(`To import:        ${plan.rows.length}`);
+    console.log(`Duplicates:       ${count("duplicate")}`);
+    console.log(`Invalid:          ${count("invalid")}`);
+    unreadable.forEach(({ file, reason }) => console.log(`  ${file}: ${reason}`));
+    plan.filings
+      .filter((f) => f.status === "invalid")
+      .forEach(({ file, filingId, reason }) => console.log(`  ${file} ${filingId}: ${reason}`));
+    const missing = plan.missingNames.companies.length + plan.missingNames.recipients.length;
+    if (missing > 0) {
+      console.log(`Names missing from the dictionary: ${missing} (publish them with dictionary:publish --names ${args.report})`);
+    }
+
+    if (args.dryRun || plan.rows.length === 0) {
+      writeReport();
+      console.log(`Wrote import report to ${args.report}`);
+      return;
+    }
+    if (!signer) {
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    }
+    await hre.fhevm.initializeCLIApi();
+
+    const reportOf = new Map(
+      plan.filings.filter((f) => f.status === "planned").map((f) => [f.filingId, f])
+    );
+    const client = new LobbyingClient(lobbyingAddress, signer, hre.fhevm);
+    try {
+      // Filings already on-chain (e.g. from an earlier run with another report file) are not sent again
+      const taxonomy = loadFrontendTaxonomy();
+      const donations = await commitmentSalts(hre, client, signer).commit(
+        plan.rows.map((row) => ({ ...row.donation, categories: taxonomy.lineage(row.record.category) }))
+      );
+      const duplicates = await findDuplicates(client, donations);
+      duplicates.forEach((duplicate, i) => {
+        if (!duplicate) return;
+        reportOf.get(plan.rows[i].filingId)!.status = "duplicate";
+        reportOf.get(plan.rows[i].filingId)!.reason =
+          "row" in duplicate ? `Same donation as filing ${plan.rows[duplicate.row].filingId}` : describeDuplicate(duplicate);
+      });
+      const repeated = duplicates.filter(Boolean).length;
+      if (repeated > 0) {
+        console.log(`Already recorded: ${repeated} (not sent, see ${args.report})`);
+      }
+      const rows = plan.rows.filter((_, i) => !duplicates[i]);
+
+      const result = await client.recordEncryptedDonations(
+        donations.filter((_, i) => !duplicates[i]),
+        (recorded, total) => console.log(`Recorded ${recorded}/${total}`)
+      );
+
+      const imported: { filingId: string; record: RecordBlob }[] = [];
+      rows.forEach((row, i) => {
+        const donationId = result.donationIds[i];
+        if (donationId === undefined) return;
+        reportOf.get(row.filingId)!.status = "imported";
+        reportOf.get(row.filingId)!.donationId = donationId.toString();
+        imported.push({ filingId: row.filingId, record: { ...row.record, donationId: Number(donationId) } });
+      });
+      for (const failure of result.failures) {
+        for (const i of failure.indexes) {
+          reportOf.get(rows[i].filingId)!.status = "failed";
+          reportOf.get(rows[i].filingId)!.reason = failure.error.message;
+        }
+      }
+
+      if (!args.skipAdapter && imported.length > 0) {
+        const adapter = new hre.ethers.Contract(adapterAddress!, UNIVERSAL_ADAPTER_ABI, signer);
+        const recordIds = await storeRecordBlobs(adapter, `lda-${Date.now()}`, imported.map((i) => i.record));
+        imported.forEach(({ filingId }, i) => (reportOf.get(filingId)!.recordId = recordIds[i]));
+      }
+    } finally {
+      writeReport();
+    }
+
+    console.log(`Imported ${count("imported")} filings, ${count("failed")} failed. Report: ${args.report}`);
+    if (count("failed") > 0) {
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,740 @@
+import fs from "fs";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ALERT_KINDS, checkThresholdAlerts, flaggedAlerts, loadThresholdAlerts, watchAlertSubject } from "../src/alerts";
+import { LobbyingClient } from "../src/client";
+import { describeDuplicate, findDuplicates } from "../src/commitments";
+import { categoryDonationIds, concentrationLevel, concentrationSeries, loadConcentrations, MAX_CONCENTRATION_DONORS, measureConcentration, MIN_CONCENTRATION_DONORS, periodDonationIds } from "../src/concentration";
+import { UserDecryptionSession } from "../src/decryption";
+import type { EntityDictionary, EntityKind } from "../src/dictionary";
+import { analyzeConnection, buildInfluenceGraph, CENTRALITY_MEASURES, centrality, CONNECTION_ANALYSIS_BATCH, rankInfluence, type NodeCentrality } from "../src/graph";
+import { dollarsToCents, formatCents } from "../src/money";
+import { formatPeriod, parsePeriod, periodKey, provenanceCsv, provenanceRow, readRecordBlob, recordPeriod, type ProvenanceRow, type RecordBlob } from "../src/records";
+import { commitmentSalts, loadFrontendTaxonomy, loadPublishedDictionary, readFrontendConfig, UNIVERSAL_ADAPTER_ABI } from "./common";
+
+// Poll interval when waiting for the decryption oracle on a real network
+const ORACLE_POLL_MS = 5_000;
+const ORACLE_TIMEOUT_MS = 10 * 60_000;
+
+interface CommonArgs {
+  address?: string;
+  json: boolean;
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, address?: string) {
+  const config = readFrontendConfig();
+  const lobbyingAddress = address ?? config.lobbyingContractAddress;
+  if (!lobbyingAddress) {
+    throw new Error("LobbyingAnalysisFHE address is required (--address or the frontend config)");
+  }
+  const [signer] = await hre.ethers.getSigners();
+  const client = new LobbyingClient(lobbyingAddress, signer ?? hre.ethers.provider, hre.fhevm);
+  const dictionary = loadPublishedDictionary([config.deployer, signer?.address]);
+  return { client, signer, dictionary };
+}
+
+function requireSigner<T>(hre: HardhatRuntimeEnvironment, signer: T | undefined): T {
+  if (!signer) {
+    throw new Error(`No signer configured for network ${hre.network.name}`);
+  }
+  return signer;
+}
+
+// Accepts a dictionary name or a raw numeric ID
+function resolveId(dictionary: EntityDictionary, value: string, kind: EntityKind): number {
+  if (/^\d+$/.test(value.trim())) return Number(value.trim());
+  const entry = dictionary.lookup(value, kind);
+  if (!entry) {
+    throw new Error(`${kind} "${value}" is not in the published dictionary`);
+  }
+  return entry.id;
+}
+
+function describe(dictionary: EntityDictionary, id: number) {
+  return { id, name: dictionary.nameOf(id) ?? null };
+}
+
+function label({ id, name }: { id: number; name: string | null }) {
+  return name ? `${name} (#${id})` : `#${id}`;
+}
+
+function marketLabel(entity: { id: number; name: string | null } | null, category: string | undefined) {
+  return [entity && label(entity), category && `category ${category}`].filter(Boolean).join(", ");
+}
+
+// YYYY-MM-DD as UTC midnight, in unix seconds
+function parseDay(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`--${option} must be a date like 2024-03-15, got "${value}"`);
+  }
+  return time / 1000;
+}
+
+function formatDay(seconds: number | undefined) {
+  return seconds === undefined ? null : new Date(seconds * 1000).toISOString().slice(0, 10);
+}
+
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+}
+
+// The mock oracle only answers when asked to; on a real network the relayer calls back by itself
+async function waitForOracle(hre: HardhatRuntimeEnvironment, fulfilled: () => Promise<boolean>) {
+  await hre.fhevm.initializeCLIApi();
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+    return;
+  }
+  const deadline = Date.now() + ORACLE_TIMEOUT_MS;
+  while (!(await fulfilled())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the decryption oracle");
+    }
+    await new Promise((resolve) => setTimeout(resolve, ORACLE_POLL_MS));
+  }
+}
+
+// npx hardhat lobbying:record --company "Acme Corp" --recipient "Sen. Smith" --amount 2500.00 --activity-date 2024-03-15 --period "2024 Q1" --network localhost
+task("lobbying:record", "Encrypts and records a single donation")
+  .addParam("company", "Donor company name (or dictionary ID)")
+  .addParam("recipient", "Recipient name (or dictionary ID)")
+  .addParam("amount", "Amount in dollars, e.g. 2500.00")
+  .addOptionalParam("activityDate", "When the donation or lobbying took place, YYYY-MM-DD")
+  .addOptionalParam("period", "Reporting period, e.g. \"2024 Q1\"")
+  .addOptionalParam("filingDate", "When the disclosure was filed, YYYY-MM-DD")
+  .addOptionalParam("category", "Taxonomy code or name; category concentration markets only count donations recorded under it")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("allowUnpublished", "Use the ID a name would get when published instead of failing")
+  .addFlag("json", "Print JSON")
+  .setAction(
+    async (
+      args: CommonArgs & {
+        company: string;
+        recipient: string;
+        amount: string;
+        activityDate?: string;
+        period?: string;
+        filingDate?: string;
+        category?: string;
+        allowUnpublished: boolean;
+      },
+      hre
+    ) => {
+      const { client, signer, dictionary } = await connect(hre, args.address);
+      const submitter = requireSigner(hre, signer);
+
+      const idOf = (name: string, kind: EntityKind) =>
+        args.allowUnpublished && !/^\d+$/.test(name.trim())
+          ? dictionary.resolve(name, kind)
+          : resolveId(dictionary, name, kind);
+      const donation = {
+        amount: dollarsToCents(args.amount),
+        donorId: idOf(args.company, "company"),
+        entityId: idOf(args.recipient, "recipient"),
+        activityDate: parseDay(args.activityDate, "activity-date"),
+        reportingPeriod: args.period === undefined ? undefined : parsePeriod(args.period),
+        filingDate: parseDay(args.filingDate, "filing-date"),
+        categories: args.category === undefined ? undefined : loadFrontendTaxonomy().lineage(args.category),
+      };
+
+      await hre.fhevm.initializeCLIApi();
+      const [committed] = await commitmentSalts(hre, client, submitter).commit([donation]);
+      const [duplicate] = await findDuplicates(client, [committed]);
+      if (duplicate) {
+        throw new Error(`${describeDuplicate(duplicate)}; nothing was recorded`);
+      }
+      const { donationId, receipt } = await client.recordEncryptedDonation(committed);
+
+      if (args.json) {
+        printJson({ donationId, txHash: receipt.hash, blockNumber: receipt.blockNumber, ...donation });
+        return;
+      }
+      console.log(`Recorded donation #${donationId} in ${receipt.hash}`);
+      console.log(`  ${label(describe(dictionary, donation.donorId))} -> ${label(describe(dictionary, donation.entityId))}: ${formatCents(donation.amount)}`);
+      if (donation.activityDate) console.log(`  Activity:  ${formatDay(donation.activityDate)}`);
+      if (donation.reportingPeriod) console.log(`  Period:    ${formatPeriod(donation.reportingPeriod)}`);
+      if (donation.filingDate) console.log(`  Filed:     ${formatDay(donation.filingDate)}`);
+    }
+  );
+
+// npx hardhat lobbying:request-decrypt 1 --wait --network localhost
+task("lobbying:request-decrypt", "Requests public decryption of a donation through the oracle")
+  .addPositionalParam("id", "Donation ID", undefined, types.bigint)
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("wait", "Wait for the oracle to publish the cleartext")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { id: bigint; wait: boolean }, hre) => {
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    requireSigner(hre, signer);
+
+    const receipt = await client.requestDonationDecryption(args.id);
+    const [requested] = client.parseReceipt(receipt, "DecryptionRequested");
+    if (!args.wait) {
+      if (args.json) {
+        printJson({ donationId: args.id, requestId: requested.requestId, txHash: receipt.hash });
+        return;
+      }
+      console.log(`Requested decryption of donation #${args.id}: request ${requested.requestId} in ${receipt.hash}`);
+      return;
+    }
+
+    await waitForOracle(hre, async () => (await client.getDecryptedDonation(args.id)).isRevealed);
+    const decrypted = await client.getDecryptedDonation(args.id);
+    const donor = describe(dictionary, decrypted.donorId);
+    const entity = describe(dictionary, decrypted.entityId);
+    if (args.json) {
+      printJson({ donationId: args.id, requestId: requested.requestId, txHash: receipt.hash, amount: decrypted.amount, donor, entity });
+      return;
+    }
+    console.log(`Donation #${args.id} decrypted (request ${requested.requestId})`);
+    console.log(`  ${label(donor)} -> ${label(entity)}: ${formatCents(decrypted.amount)}`);
+  });
+
+// npx hardhat lobbying:show 1 [--decrypt] --network localhost
+task("lobbying:show", "Shows a donation, decrypting it privately with --decrypt when the signer has access")
+  .addPositionalParam("id", "Donation ID", undefined, types.bigint)
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("decrypt", "User-decrypt the ciphertexts with the first signer")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { id: bigint; decrypt: boolean }, hre) => {
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    const encrypted = await client.getEncryptedDonation(args.id);
+    if (encrypted.id === 0n) {
+      throw new Error(`Donation #${args.id} does not exist`);
+    }
+    const published = await client.getDecryptedDonation(args.id);
+    const dates = await client.getDonationDates(args.id);
+
+    let cleartext: { amount: bigint; donorId: number; entityId: number; source: string } | undefined;
+    if (published.isRevealed) {
+      cleartext = { ...published, source: "public" };
+    } else if (args.decrypt) {
+      const viewer = requireSigner(hre, signer);
+      if (!(await client.hasDonationAccess(args.id, viewer.address))) {
+        throw new Error(`${viewer.address} has no access to donation #${args.id} (analysts can call grantDonationAccess)`);
+      }
+      await hre.fhevm.initializeCLIApi();
+      const decrypt = (type: FhevmType.euint32 | FhevmType.euint64, handle: string) =>
+        hre.fhevm.userDecryptEuint(type, handle, client.address, viewer);
+      cleartext = {
+        amount: await decrypt(FhevmType.euint64, encrypted.encryptedAmount),
+        donorId: Number(await decrypt(FhevmType.euint32, encrypted.encryptedDonor)),
+        entityId: Number(await decrypt(FhevmType.euint32, encrypted.encryptedEntity)),
+        source: "user",
+      };
+    }
+
+    const recordedAt = new Date(Number(encrypted.timestamp) * 1000).toISOString();
+    const donor = cleartext && describe(dictionary, cleartext.donorId);
+    const entity = cleartext && describe(dictionary, cleartext.entityId);
+    if (args.json) {
+      printJson({
+        donationId: encrypted.id,
+        recordedAt,
+        activityDate: formatDay(dates.activityDate),
+        reportingPeriod: dates.reportingPeriod ? formatPeriod(dates.reportingPeriod) : null,
+        filingDate: formatDay(dates.filingDate),
+        status: published.isRevealed ? "revealed" : "encrypted",
+        handles: {
+          amount: encrypted.encryptedAmount,
+          entity: encrypted.encryptedEntity,
+          donor: encrypted.encryptedDonor,
+        },
+        cleartext: cleartext && { source: cleartext.source, amount: cleartext.amount, donor, entity },
+      });
+      return;
+    }
+
+    console.log(`Donation #${encrypted.id}, recorded ${recordedAt}`);
+    console.log(`  Status:    ${published.isRevealed ? "publicly decrypted" : "encrypted"}`);
+    console.log(`  Activity:  ${formatDay(dates.activityDate) ?? "unknown"}`);
+    console.log(`  Period:    ${dates.reportingPeriod ? formatPeriod(dates.reportingPeriod) : "unknown"}`);
+    console.log(`  Filed:     ${formatDay(dates.filingDate) ?? "unknown"}`);
+    if (cleartext && donor && entity) {
+      console.log(`  Amount:    ${formatCents(cleartext.amount)}${cleartext.source === "user" ? " (private decryption)" : ""}`);
+      console.log(`  Company:   ${label(donor)}`);
+      console.log(`  Recipient: ${label(entity)}`);
+    } else {
+      console.log(`  Amount:    ${encrypted.encryptedAmount}`);
+      console.log(`  Company:   ${encrypted.encryptedDonor}`);
+      console.log(`  Recipient: ${encrypted.encryptedEntity}`);
+    }
+  });
+
+// npx hardhat lobbying:list --from-block 0 --network localhost
+task("lobbying:list", "Lists recorded donations and whether they have been publicly decrypted")
+  .addOptionalParam("fromBlock", "First block to scan", 0, types.int)
+  .addOptionalParam("toBlock", "Last block to scan (defaults to latest)", undefined, types.int)
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { fromBlock: number; toBlock?: number }, hre) => {
+    const { client, dictionary } = await connect(hre, args.address);
+    const events = await client.queryEvents("DonationRecorded", args.fromBlock, args.toBlock ?? "latest");
+
+    const rows = [];
+    for (const event of events) {
+      const decrypted = await client.getDecryptedDonation(event.id);
+      rows.push({
+        donationId: event.id,
+        blockNumber: event.log.blockNumber,
+        recordedAt: new Date(Number(event.timestamp) * 1000).toISOString(),
+        status: decrypted.isRevealed ? "revealed" : "encrypted",
+        amount: decrypted.isRevealed ? decrypted.amount : null,
+        donor: decrypted.isRevealed ? describe(dictionary, decrypted.donorId) : null,
+        entity: decrypted.isRevealed ? describe(dictionary, decrypted.entityId) : null,
+      });
+    }
+
+    if (args.json) {
+      printJson(rows);
+      return;
+    }
+    for (const row of rows) {
+      const details =
+        row.amount !== null && row.donor && row.entity
+          ? `${formatCents(row.amount)}  ${label(row.donor)} -> ${label(row.entity)}`
+          : "(encrypted)";
+      console.log(`#${row.donationId}`.padEnd(8) + `${row.recordedAt}  ${details}`);
+    }
+    console.log(`${rows.length} donations, ${rows.filter((row) => row.status === "revealed").length} publicly decrypted`);
+  });
+
+// npx hardhat lobbying:connection "Acme Corp" "Sen. Smith" [--grant] [--reveal] --network localhost
+task("lobbying:connection", "Adds new donations to a donor -> recipient encrypted weight, optionally revealing it privately")
+  .addPositionalParam("company", "Donor company name (or dictionary ID)")
+  .addPositionalParam("recipient", "Recipient name (or dictionary ID)")
+  .addOptionalParam("batch", "Donations compared per transaction", CONNECTION_ANALYSIS_BATCH, types.int)
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("grant", "Grant the signer (an analyst) access to the weight")
+  .addFlag("reveal", "User-decrypt the weight with the first signer")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { company: string; recipient: string; batch: number; grant: boolean; reveal: boolean }, hre) => {
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    const analyst = requireSigner(hre, signer);
+    const pair = {
+      donorId: resolveId(dictionary, args.company, "company"),
+      entityId: resolveId(dictionary, args.recipient, "recipient"),
+    };
+
+    const processedThrough = await analyzeConnection(client, pair, args.batch, (done, total) => {
+      if (!args.json) console.log(`Compared donations 1-${done} of ${total}`);
+    });
+    if (args.grant) {
+      await client.grantConnectionAccess(pair);
+    }
+    const { weight } = await client.getConnection(pair);
+
+    let cleartext: bigint | undefined;
+    if (args.reveal && weight !== ethers.ZeroHash) {
+      if (!(await client.hasConnectionAccess(pair, analyst.address))) {
+        throw new Error(`${analyst.address} has no access to this connection (analysts can pass --grant)`);
+      }
+      await hre.fhevm.initializeCLIApi();
+      cleartext = await hre.fhevm.userDecryptEuint(FhevmType.euint64, weight, client.address, analyst);
+    }
+
+    const donor = describe(dictionary, pair.donorId);
+    const entity = describe(dictionary, pair.entityId);
+    if (args.json) {
+      printJson({ donor, entity, processedThrough, handle: weight, weight: cleartext ?? null });
+      return;
+    }
+    console.log(`${label(donor)} -> ${label(entity)}`);
+    console.log(`  Donations counted: 1-${processedThrough}`);
+    console.log(`  Encrypted weight:  ${weight}`);
+    if (cleartext !== undefined) console.log(`  Weight:            ${formatCents(cleartext)} (private decryption)`);
+  });
+
+// Builds the graph from every connection weight the viewer can decrypt, counting the ones it cannot
+async function decryptGraph(hre: HardhatRuntimeEnvironment, client: LobbyingClient, viewer: HardhatEthersSigner) {
+  await hre.fhevm.initializeCLIApi();
+  const session = await UserDecryptionSession.open(hre.fhevm, viewer, [client.address]);
+  const { graph, hidden } = await buildInfluenceGraph(client, session);
+  return { graph, hidden: hidden.length };
+}
+
+// npx hardhat lobbying:graph --network localhost
+task("lobbying:graph", "Prints the donor -> recipient graph from every connection weight the signer can decrypt")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs, hre) => {
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    const { graph, hidden } = await decryptGraph(hre, client, requireSigner(hre, signer));
+
+    if (args.json) {
+      printJson({
+        donors: graph.donors().map((id) => ({
+          ...describe(dictionary, id),
+          recipients: [...graph.recipientsOf(id)].map(([entityId, weight]) => ({ ...describe(dictionary, entityId), weight })),
+        })),
+        hiddenConnections: hidden,
+      });
+      return;
+    }
+    for (const donorId of graph.donors()) {
+      console.log(`${label(describe(dictionary, donorId))}  ${formatCents(graph.totalGiven(donorId))}`);
+      for (const [entityId, weight] of graph.recipientsOf(donorId)) {
+        console.log(`  -> ${label(describe(dictionary, entityId))}  ${formatCents(weight)}`);
+      }
+    }
+    console.log(`${graph.edges().length} connections with money, ${hidden} the signer cannot decrypt`);
+  });
+
+// npx hardhat lobbying:influence --by betweenness --top 5 --network localhost
+task("lobbying:influence", "Ranks the most influential companies and most targeted recipients by centrality in the decrypted graph")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addOptionalParam("by", `Measure to rank by: ${CENTRALITY_MEASURES.join(", ")}`, "pageRank")
+  .addOptionalParam("top", "Nodes listed per side", 10, types.int)
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { by: string; top: number; json: boolean }, hre) => {
+    const measure = CENTRALITY_MEASURES.find((m) => m.toLowerCase() === args.by.toLowerCase());
+    if (!measure) {
+      throw new Error(`Unknown measure ${args.by} (expected ${CENTRALITY_MEASURES.join(", ")})`);
+    }
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    const { graph, hidden } = await decryptGraph(hre, client, requireSigner(hre, signer));
+    const ranking = rankInfluence(centrality(graph), measure, args.top);
+    const named = (nodes: NodeCentrality[]) => nodes.map((node) => ({ ...node, name: dictionary.nameOf(node.id) ?? null }));
+
+    if (args.json) {
+      printJson({ measure, companies: named(ranking.companies), recipients: named(ranking.recipients), hiddenConnections: hidden });
+      return;
+    }
+    for (const [title, nodes] of [["Most influential companies", ranking.companies], ["Most targeted recipients", ranking.recipients]] as const) {
+      console.log(title);
+      named(nodes).forEach((node, i) => {
+        console.log(
+          `  ${i + 1}. ${label(node)}  ${formatCents(node.weightedDegree)}  pagerank ${node.pageRank.toFixed(4)}  betweenness ${node.betweenness.toFixed(4)}  eigenvector ${node.eigenvector.toFixed(4)}`,
+        );
+      });
+    }
+    console.log(`${graph.edges().length} connections with money, ${hidden} the signer cannot decrypt`);
+  });
+
+// npx hardhat lobbying:concentration --recipient "Sen. Smith" --period "2024 Q1" --network localhost
+task("lobbying:concentration", "Computes a market's Herfindahl-Hirschman index over encrypted donor shares, decrypting only the index")
+  .addOptionalParam("recipient", "Recipient name (or dictionary ID)")
+  .addOptionalParam("category", "Taxonomy code or name; only donations recorded under it are counted")
+  .addParam("period", 'Reporting period, e.g. "2024 Q1"')
+  .addOptionalParam("donors", `Comma-separated candidate donors, ${MIN_CONCENTRATION_DONORS}-${MAX_CONCENTRATION_DONORS} of them (defaults to the donors named by older stored records of the market)`)
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the frontend config)")
+  .addFlag("json", "Print JSON")
+  .setAction(
+    async (args: CommonArgs & { recipient?: string; category?: string; period: string; donors?: string; adapter?: string }, hre) => {
+      if (args.recipient === undefined && args.category === undefined) {
+        throw new Error("--recipient or --category is required");
+      }
+      const { client, signer, dictionary } = await connect(hre, args.address);
+      requireSigner(hre, signer);
+      const taxonomy = loadFrontendTaxonomy();
+      const category = args.category === undefined ? undefined : taxonomy.find(args.category)?.code;
+      if (args.category !== undefined && !category) {
+        throw new Error(`Category "${args.category}" is not in the taxonomy`);
+      }
+      const market = {
+        entityId: args.recipient === undefined ? undefined : resolveId(dictionary, args.recipient, "recipient"),
+        category,
+        period: parsePeriod(args.period),
+      };
+
+      // Recipient filtering happens under encryption, so a recipient market gets every donation of the period;
+      // categories are public and the contract rejects donations recorded under another one
+      let donationIds = await periodDonationIds(client, market.period);
+      if (category !== undefined) {
+        donationIds = await categoryDonationIds(client, category, donationIds);
+      }
+      let donorIds = args.donors?.split(",").map((donor) => resolveId(dictionary, donor, "company"));
+      if (donorIds === undefined) {
+        const records = (await readStoredRecords(hre, args.adapter)).records
+          .map(([, record]) => record)
+          .filter(
+            (record) =>
+              record.donationId !== undefined &&
+              periodKey(recordPeriod(record)) === periodKey(market.period) &&
+              (category === undefined || record.category === category || taxonomy.isWithin(record.category, category))
+          );
+        // Only records from before schema version 3 name their donor and recipient
+        donorIds = [
+          ...new Set(records.flatMap((record) => (record.donorId === undefined || (market.entityId !== undefined && record.entityId !== market.entityId) ? [] : [record.donorId]))),
+        ];
+      }
+      if (donorIds.length === 0) {
+        throw new Error("No candidate donors in the stored records of this market (pass --donors)");
+      }
+
+      const key = await measureConcentration(client, market, donorIds, donationIds, (stage, done, total) => {
+        if (!args.json) console.log(stage === "count" ? `Counted ${done} of ${total} donations` : `Computed step ${done} of ${total}`);
+      });
+      await waitForOracle(hre, async () => {
+        const measured = await client.getConcentration(key);
+        return Boolean(measured?.index !== undefined && measured.revealedCount === measured.donationCount);
+      });
+      const concentration = (await client.getConcentration(key))!;
+
+      const entity = market.entityId === undefined ? null : describe(dictionary, market.entityId);
+      const donors = concentration.donorIds.map((id) => describe(dictionary, id));
+      if (args.json) {
+        printJson({ market: key, entity, category: category ?? null, period: formatPeriod(market.period), donors, donations: concentration.donationCount, index: concentration.index });
+        return;
+      }
+      console.log(`${marketLabel(entity, category)}, ${formatPeriod(market.period)}`);
+      console.log(`  Candidate donors: ${donors.map(label).join(", ")}`);
+      console.log(`  Donations counted: ${concentration.donationCount}`);
+      console.log(`  HHI: ${concentration.index} (${concentrationLevel(concentration.index!)})`);
+    }
+  );
+
+// npx hardhat lobbying:concentrations --network localhost
+task("lobbying:concentrations", "Lists every decrypted concentration index by market and period")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs, hre) => {
+    const { client, dictionary } = await connect(hre, args.address);
+    const series = concentrationSeries(await loadConcentrations(client));
+
+    const markets = series.map(({ entityId, category, points }) => ({
+      entity: entityId === undefined ? null : describe(dictionary, entityId),
+      category: category ?? null,
+      points: points.map(({ period, index, donationCount }) => ({ period: formatPeriod(period), index, level: concentrationLevel(index), donations: donationCount })),
+    }));
+    if (args.json) {
+      printJson(markets);
+      return;
+    }
+    for (const { entity, category, points } of markets) {
+      console.log(marketLabel(entity, category ?? undefined));
+      for (const point of points) {
+        console.log(`  ${point.period}  ${String(point.index).padStart(5)}  ${point.level} (${point.donations} donations)`);
+      }
+    }
+    console.log(`${markets.length} markets with a decrypted index`);
+  });
+
+// Quarantined records are left out: the app does not count them in any aggregate either
+async function readStoredRecords(hre: HardhatRuntimeEnvironment, address: string | undefined) {
+  const adapterAddress = address ?? readFrontendConfig().contractAddress;
+  if (!adapterAddress) {
+    throw new Error("UniversalAdapter address is required (--adapter or the frontend config)");
+  }
+  const adapter = new hre.ethers.Contract(adapterAddress, UNIVERSAL_ADAPTER_ABI, hre.ethers.provider);
+  const keysBytes: string = await adapter.getData("lobbying_keys");
+  const keys = ethers.dataLength(keysBytes) > 0 ? (JSON.parse(ethers.toUtf8String(keysBytes)) as string[]) : [];
+
+  const records: [string, RecordBlob][] = [];
+  let quarantined = 0;
+  for (const key of keys) {
+    const read = readRecordBlob(key, ethers.toUtf8String(await adapter.getData(`lobbying_${key}`)));
+    records.push(...read.records);
+    quarantined += read.quarantined.length;
+  }
+  return { records, quarantined };
+}
+
+// npx hardhat lobbying:export --out provenance.csv --network localhost
+task("lobbying:export", "Exports where every stored record came from, without amounts")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the frontend config)")
+  .addOptionalParam("out", "Output file; .json for JSON, CSV otherwise", "provenance.csv")
+  .setAction(async (args: { adapter?: string; out: string }, hre) => {
+    const { records, quarantined } = await readStoredRecords(hre, args.adapter);
+    const rows: ProvenanceRow[] = records.map(([recordId, record]) => provenanceRow(recordId, record));
+
+    fs.writeFileSync(args.out, args.out.endsWith(".json") ? JSON.stringify(rows, null, 2) + "\n" : provenanceCsv(rows));
+    const unsourced = rows.filter((row) => !row.source).length;
+    console.log(`Exported ${rows.length} records to ${args.out}`);
+    if (unsourced > 0) console.log(`  ${unsourced} predate provenance and have no source`);
+    if (quarantined > 0) console.log(`  ${quarantined} quarantined records left out`);
+  });
+
+type TotalArgs = CommonArgs & { name: string; request: boolean; wait: boolean };
+
+// Entity totals are keyed by recipient IDs, donor totals by company IDs
+async function showTotal(args: TotalArgs, hre: HardhatRuntimeEnvironment, kind: EntityKind) {
+  const { client, signer, dictionary } = await connect(hre, args.address);
+  const id = resolveId(dictionary, args.name, kind);
+  const isEntity = kind === "recipient";
+  const readHandle = () => (isEntity ? client.getEncryptedEntityTotal(id) : client.getEncryptedDonorTotal(id));
+  const readTotal = () => (isEntity ? client.getDecryptedEntityTotal(id) : client.getDecryptedDonorTotal(id));
+
+  const handle = await readHandle();
+  if (handle === ethers.ZeroHash) {
+    throw new Error(`${label(describe(dictionary, id))} has no revealed donations yet`);
+  }
+
+  let requestTx: string | undefined;
+  if (args.request) {
+    requireSigner(hre, signer);
+    const receipt = await (isEntity ? client.requestEntityTotalDecryption(id) : client.requestDonorTotalDecryption(id));
+    requestTx = receipt.hash;
+    if (args.wait) {
+      // The total may be unchanged since the last decryption, so wait for the callback event instead
+      const fulfilled = async () => {
+        const events = isEntity
+          ? (await client.queryEvents("EntityTotalDecrypted", receipt.blockNumber)).map((e) => e.entityId)
+          : (await client.queryEvents("DonorTotalDecrypted", receipt.blockNumber)).map((e) => e.donorId);
+        return events.includes(id);
+      };
+      await waitForOracle(hre, fulfilled);
+    }
+  }
+
+  const total = await readTotal();
+  const subject = describe(dictionary, id);
+  if (args.json) {
+    printJson({ kind, ...subject, handle, decryptedTotal: total, requestTx: requestTx ?? null });
+    return;
+  }
+  console.log(`${isEntity ? "Recipient" : "Donor"} ${label(subject)}`);
+  console.log(`  Encrypted total:       ${handle}`);
+  console.log(`  Last decrypted total:  ${formatCents(total)}`);
+  if (requestTx) {
+    console.log(`  Decryption requested in ${requestTx}${args.wait ? "" : " (re-run to see the new total)"}`);
+  }
+}
+
+// npx hardhat lobbying:entity-total "Sen. Smith" [--request --wait] --network localhost
+task("lobbying:entity-total", "Shows the running total received by a recipient")
+  .addPositionalParam("name", "Recipient name (or dictionary ID)")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("request", "Request public decryption of the current total")
+  .addFlag("wait", "With --request, wait for the oracle to publish the total")
+  .addFlag("json", "Print JSON")
+  .setAction((args: TotalArgs, hre) => showTotal(args, hre, "recipient"));
+
+// npx hardhat lobbying:donor-total "Acme Corp" [--request --wait] --network localhost
+task("lobbying:donor-total", "Shows the running total given by a donor company")
+  .addPositionalParam("name", "Donor company name (or dictionary ID)")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("request", "Request public decryption of the current total")
+  .addFlag("wait", "With --request, wait for the oracle to publish the total")
+  .addFlag("json", "Print JSON")
+  .setAction((args: TotalArgs, hre) => showTotal(args, hre, "company"));
+
+// npx hardhat lobbying:submitter 0xabc... [--add | --remove] --network localhost
+task("lobbying:submitter", "Shows whether an account may read commitment salts, changing it with --add / --remove (owner only)")
+  .addPositionalParam("account", "Account address")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("add", "Let the account read commitment salts")
+  .addFlag("remove", "Stop granting the account salts; salts it already holds stay readable")
+  .setAction(async (args: { account: string; address?: string; add: boolean; remove: boolean }, hre) => {
+    if (args.add && args.remove) {
+      throw new Error("Pass either --add or --remove");
+    }
+    const { client, signer } = await connect(hre, args.address);
+    if (args.add || args.remove) {
+      requireSigner(hre, signer);
+      await client.setSubmitter(args.account, args.add);
+    }
+    console.log(`${args.account} ${(await client.isSubmitter(args.account)) ? "is" : "is not"} a submitter`);
+  });
+
+// npx hardhat lobbying:alert-thresholds --donor 5000.00 --entity 100000.00 --network localhost
+task("lobbying:alert-thresholds", "Shows the legal limits watched totals are checked against, setting them with --donor / --entity (owner only)")
+  .addOptionalParam("donor", "Limit on what a donor company gives, in dollars; 0 disables donor checks")
+  .addOptionalParam("entity", "Limit on what a recipient receives, in dollars; 0 disables recipient checks")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { donor?: string; entity?: string }, hre) => {
+    const { client, signer } = await connect(hre, args.address);
+    let thresholds = await client.getAlertThresholds();
+    if (args.donor !== undefined || args.entity !== undefined) {
+      requireSigner(hre, signer);
+      await client.setAlertThresholds({
+        donor: args.donor === undefined ? thresholds.donor : dollarsToCents(args.donor),
+        entity: args.entity === undefined ? thresholds.entity : dollarsToCents(args.entity),
+      });
+      thresholds = await client.getAlertThresholds();
+    }
+
+    if (args.json) {
+      printJson(thresholds);
+      return;
+    }
+    const show = (cents: bigint) => (cents === 0n ? "not set" : formatCents(cents));
+    console.log(`Donor limit:      ${show(thresholds.donor)}`);
+    console.log(`Recipient limit:  ${show(thresholds.entity)}`);
+    const nextChange = await client.getNextAlertThresholdChange();
+    if (nextChange * 1000 > Date.now()) {
+      console.log(`Limits can change again from ${new Date(nextChange * 1000).toISOString()}`);
+    }
+  });
+
+// npx hardhat lobbying:alert-watch "Acme Corp" [--recipient] [--remove] --network localhost
+task("lobbying:alert-watch", "Lists watched donors and recipients, starting (or with --remove stopping) an encrypted alert total for one (owner only)")
+  .addOptionalPositionalParam("name", "Donor company name (or dictionary ID), a recipient with --recipient")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("recipient", "Watch a recipient instead of a donor company")
+  .addFlag("remove", "Stop watching; the total and its last check are dropped")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { name?: string; recipient: boolean; remove: boolean }, hre) => {
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    if (args.name !== undefined) {
+      requireSigner(hre, signer);
+      const kind: EntityKind = args.recipient ? "recipient" : "company";
+      const id = resolveId(dictionary, args.name, kind);
+      if (args.remove) {
+        await client.setAlertWatch(kind, id, false);
+      } else {
+        // Every donation recorded so far is added under encryption, a batch per transaction
+        await watchAlertSubject(client, { kind, id }, (countedThrough, donationCount) => {
+          if (!args.json) process.stdout.write(`\r  Counted ${countedThrough}/${donationCount} donations`);
+        });
+        if (!args.json) process.stdout.write("\n");
+      }
+    }
+
+    const watches = (await client.getAlertWatches()).map((watch) => ({ kind: watch.kind, ...describe(dictionary, watch.id) }));
+    if (args.json) {
+      printJson(watches);
+      return;
+    }
+    for (const watch of watches) {
+      console.log(`${watch.kind === "company" ? "Donor" : "Recipient"} ${label(watch)}`);
+    }
+    console.log(`${watches.length} watched`);
+  });
+
+// npx hardhat lobbying:alerts [--check] --network localhost
+task("lobbying:alerts", "Lists watched donors and recipients whose total, revealed or not, is over its limit; only that bit is ever decrypted")
+  .addOptionalParam("address", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addFlag("check", "Check every watched total against the current limits first (analysts and the owner)")
+  .addFlag("json", "Print JSON")
+  .setAction(async (args: CommonArgs & { check: boolean }, hre) => {
+    const { client, signer, dictionary } = await connect(hre, args.address);
+    if (args.check) {
+      requireSigner(hre, signer);
+      const fromBlock = await hre.ethers.provider.getBlockNumber();
+      const checked = await checkThresholdAlerts(client, ALERT_KINDS, (done, total) => {
+        if (!args.json) process.stdout.write(`\r  Requested ${done}/${total} checks`);
+      });
+      if (!args.json && checked.length > 0) process.stdout.write("\n");
+      // Every check answers with its own event; wait until each subject has one
+      const fulfilled = async () => {
+        const answered = new Set((await client.queryEvents("ThresholdAlertChecked", fromBlock)).map((e) => `${e.kind}:${e.id}`));
+        return checked.every(({ kind, id }) => answered.has(`${kind}:${id}`));
+      };
+      if (checked.length > 0) await waitForOracle(hre, fulfilled);
+    }
+
+    const flagged = flaggedAlerts(await loadThresholdAlerts(client)).map((alert) => ({
+      kind: alert.kind,
+      ...describe(dictionary, alert.id),
+      threshold: alert.threshold,
+      flaggedAt: alert.flaggedAt === undefined ? null : new Date(alert.flaggedAt * 1000).toISOString(),
+      checkedAt: new Date(alert.checkedAt * 1000).toISOString(),
+    }));
+    if (args.json) {
+      printJson(flagged);
+      return;
+    }
+    for (const alert of flagged) {
+      console.log(`${alert.kind === "company" ? "Donor" : "Recipient"} ${label(alert)}`);
+      console.log(`  Over ${formatCents(alert.threshold)}, flagged ${alert.flaggedAt} (last checked ${alert.checkedAt})`);
+    }
+    console.log(`${flagged.length} over their limit`);
+  });
@@ -0,0 +1,109 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import { LobbyingClient } from "../src/client";
+import {
+  emptyMapping,
+  planMigration,
+  readLegacyRecords,
+  runMigration,
+  type MigrationMapping,
+  type RecordStore,
+} from "../src/migration";
+import { commitmentSalts, loadFrontendTaxonomy, loadPublishedDictionary, readFrontendConfig, UNIVERSAL_ADAPTER_ABI } from "./common";
+
+interface MigrateArgs {
+  adapter?: string;
+  lobbying?: string;
+  mapping: string;
+  report?: string;
+  dryRun: boolean;
+  allowUnpublished: boolean;
+}
+
+// Written to a temporary file first so an interrupted run never leaves a truncated mapping
+function saveMapping(file: string, mapping: MigrationMapping) {
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(mapping, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// npx hardhat lobbying:migrate --network localhost [--dry-run] [--report report.json]
+task("lobbying:migrate", "Re-records plaintext UniversalAdapter records as encrypted LobbyingAnalysisFHE donations")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the frontend config)")
+  .addOptionalParam("lobbying", "LobbyingAnalysisFHE address (defaults to the frontend config)")
+  .addOptionalParam("mapping", "Old record ID -> donation ID mapping file, also the resume point", "migration-mapping.json")
+  .addOptionalParam("report", "Write the migration plan to this JSON file")
+  .addFlag("dryRun", "Validate and report without sending transactions")
+  .addFlag("allowUnpublished", "Migrate records whose names are not in the published dictionary yet")
+  .setAction(async (args: MigrateArgs, hre) => {
+    const config = readFrontendConfig();
+    const adapterAddress = args.adapter ?? config.contractAddress;
+    const lobbyingAddress = args.lobbying ?? config.lobbyingContractAddress;
+    if (!adapterAddress || !lobbyingAddress) {
+      throw new Error("UniversalAdapter and LobbyingAnalysisFHE addresses are required");
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const dictionary = loadPublishedDictionary([config.deployer, signer?.address]);
+
+    let mapping = emptyMapping(adapterAddress, lobbyingAddress);
+    if (fs.existsSync(args.mapping)) {
+      mapping = JSON.parse(fs.readFileSync(args.mapping, "utf8")) as MigrationMapping;
+      if (mapping.lobbying.toLowerCase() !== lobbyingAddress.toLowerCase()) {
+        throw new Error(`${args.mapping} belongs to LobbyingAnalysisFHE ${mapping.lobbying}, not ${lobbyingAddress}`);
+      }
+    }
+
+    const adapter = new hre.ethers.Contract(adapterAddress, UNIVERSAL_ADAPTER_ABI, hre.ethers.provider);
+    const entries = await readLegacyRecords(adapter as unknown as RecordStore);
+    const plan = planMigration(entries, dictionary, loadFrontendTaxonomy(), mapping, args.allowUnpublished);
+
+    console.log(`Records found:        ${entries.length}`);
+    console.log(`To migrate:           ${plan.rows.length}`);
+    console.log(`Already migrated:     ${plan.skipped.filter((s) => s.reason === "migrated").length}`);
+    console.log(`Already encrypted:    ${plan.skipped.filter((s) => s.reason === "already_encrypted").length}`);
+    console.log(`Invalid:              ${plan.invalid.length}`);
+    plan.invalid.forEach(({ recordId, reason }) => console.log(`  ${recordId}: ${reason}`));
+    const missing = plan.missingNames.companies.length + plan.missingNames.recipients.length;
+    if (missing > 0) {
+      console.log(`Names missing from the dictionary: ${missing} (publish them with dictionary:publish --names <report>)`);
+    }
+
+    if (args.report) {
+      // companies/recipients at the top level make the report usable as a dictionary:publish names file
+      const report = {
+        ...plan.missingNames,
+        rows: plan.rows.map(({ recordId, donation }) => ({
+          recordId,
+          amountCents: donation.amount.toString(),
+          donorId: donation.donorId,
+          entityId: donation.entityId,
+        })),
+        invalid: plan.invalid,
+        skipped: plan.skipped,
+      };
+      fs.writeFileSync(args.report, JSON.stringify(report, null, 2) + "\n");
+      console.log(`Wrote migration report to ${args.report}`);
+    }
+    if (args.dryRun || plan.rows.length === 0) return;
+
+    if (!signer) {
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    }
+    await hre.fhevm.initializeCLIApi();
+
+    const client = new LobbyingClient(lobbyingAddress, signer, hre.fhevm);
+    const result = await runMigration(
+      client,
+      commitmentSalts(hre, client, signer),
+      plan,
+      mapping,
+      (updated) => saveMapping(args.mapping, updated),
+      (migrated, total) => console.log(`Migrated ${migrated}/${total}`)
+    );
+
+    result.failures.forEach(({ recordIds, error }) => console.error(`Failed ${recordIds.join(", ")}: ${error.message}`));
+    console.log(`Migrated ${result.migrated} records, ${result.failures.length} failed batches. Mapping: ${args.mapping}`);
+    if (result.failures.length > 0) {
+      process.exitCode = 1;
+    }
+  });
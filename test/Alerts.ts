@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import {
+  checkThresholdAlerts,
+  flaggedAlerts,
+  updateAlertTotal,
+} from "../src/alerts";
+import type {
+  AlertThresholds,
+  AlertWatch,
+  LobbyingClient,
+  ThresholdAlert,
+} from "../src/client";
+import type { EntityKind } from "../src/dictionary";
+
+const alert = (
+  kind: EntityKind,
+  id: number,
+  checkedAt: number,
+  flaggedAt?: number,
+): ThresholdAlert => ({
+  kind,
+  id,
+  threshold: 500_000n,
+  exceeded: flaggedAt !== undefined,
+  checkedAt,
+  flaggedAt,
+});
+
+// Just the alert calls, answered from memory the way the contract would
+function alertsClient(
+  donationCount: bigint,
+  watches: AlertWatch[],
+  thresholds: AlertThresholds,
+) {
+  const calls: string[] = [];
+  const client = {
+    getDonationCount: async () => donationCount,
+    getAlertThresholds: async () => thresholds,
+    getAlertWatches: async () => watches,
+    updateAlertTotal: async (kind: EntityKind, id: number, max: number) => {
+      const watch = watches.find((w) => w.kind === kind && w.id === id)!;
+      const countedThrough = watch.countedThrough + BigInt(max);
+      watch.countedThrough =
+        countedThrough < donationCount ? countedThrough : donationCount;
+      calls.push(`update ${kind}:${id} ${watch.countedThrough}`);
+      return { countedThrough: watch.countedThrough, donationCount };
+    },
+    requestAlertCheck: async (kind: EntityKind, id: number) => {
+      const watch = watches.find((w) => w.kind === kind && w.id === id)!;
+      if (watch.countedThrough !== donationCount) {
+        throw new Error("Alert total not up to date");
+      }
+      calls.push(`check ${kind}:${id}`);
+    },
+  };
+  return { client: client as unknown as LobbyingClient, calls };
+}
+
+describe("Alerts", function () {
+  it("lists alerts over their threshold in the order they were flagged", function () {
+    const alerts = [
+      alert("company", 7, 300, 200),
+      alert("recipient", 3, 300),
+      alert("recipient", 2, 400, 100),
+      alert("company", 5, 300, 200),
+    ];
+
+    expect(
+      flaggedAlerts(alerts).map(({ kind, id }) => `${kind}:${id}`),
+    ).to.deep.eq(["recipient:2", "company:5", "company:7"]);
+    expect(flaggedAlerts([alert("company", 1, 300)])).to.deep.eq([]);
+  });
+
+  it("pulls every recorded donation into a watched total in batches", async function () {
+    const watch: AlertWatch = { kind: "company", id: 1001, countedThrough: 3n };
+    const { client, calls } = alertsClient(30n, [watch], {
+      donor: 1n,
+      entity: 0n,
+    });
+    const progress: bigint[] = [];
+
+    expect(
+      await updateAlertTotal(client, watch, 12, (countedThrough) =>
+        progress.push(countedThrough),
+      ),
+    ).to.eq(30n);
+    expect(progress).to.deep.eq([15n, 27n, 30n]);
+    expect(await updateAlertTotal(client, watch)).to.eq(30n);
+    expect(calls).to.have.length(3);
+  });
+
+  it("updates each watched total before checking it, skipping kinds without a threshold", async function () {
+    const { client, calls } = alertsClient(
+      2n,
+      [
+        { kind: "company", id: 1001, countedThrough: 0n },
+        { kind: "recipient", id: 2001, countedThrough: 1n },
+        { kind: "company", id: 1002, countedThrough: 2n },
+      ],
+      { donor: 400_000n, entity: 0n },
+    );
+
+    expect(await checkThresholdAlerts(client)).to.deep.eq([
+      { kind: "company", id: 1001 },
+      { kind: "company", id: 1002 },
+    ]);
+    expect(calls).to.deep.eq([
+      "update company:1001 2",
+      "check company:1001",
+      "check company:1002",
+    ]);
+    expect(await checkThresholdAlerts(client, ["recipient"])).to.deep.eq([]);
+  });
+});
@@ -0,0 +1,187 @@
+import { expect } from "chai";
+import {
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsvDate,
+  parseDelimited,
+} from "../frontend/web/src/batch";
+
+const day = (year: number, month: number, date: number) =>
+  Date.UTC(year, month - 1, date) / 1000;
+
+describe("Batch", function () {
+  it("splits quoted delimiters, escaped quotes and quoted newlines into one cell", function () {
+    const table = parseDelimited(
+      [
+        "Company,Amount,Recipient,Category,Notes",
+        'Acme, "1,250.00" ,Jane Roe,Energy,"Said ""no comment"""',
+        "",
+        'Globex,300,"Office of',
+        'the Senator",Defense,"line one',
+        'line two"',
+        "Initech,75,John Doe,Tech,",
+      ].join("\r\n"),
+    );
+
+    expect(table.delimiter).to.eq(",");
+    expect(table.rows.map(({ line }) => line)).to.deep.eq([1, 2, 4, 7]);
+    expect(table.rows[1].cells).to.deep.eq([
+      "Acme",
+      "1,250.00",
+      "Jane Roe",
+      "Energy",
+      'Said "no comment"',
+    ]);
+    expect(table.rows[2].cells[2]).to.eq("Office of\r\nthe Senator");
+    expect(table.rows[2].cells[4]).to.eq("line one\r\nline two");
+    expect(table.rows[3].cells).to.deep.eq([
+      "Initech",
+      "75",
+      "John Doe",
+      "Tech",
+      "",
+    ]);
+  });
+
+  it("detects semicolon and tab separated uploads from their first line", function () {
+    const semicolons = parseDelimited("Acme;1,5;Jane Roe;Energy\nGlobex;2;X;Y");
+    expect(semicolons.delimiter).to.eq(";");
+    expect(semicolons.rows[0].cells).to.deep.eq([
+      "Acme",
+      "1,5",
+      "Jane Roe",
+      "Energy",
+    ]);
+
+    const tabs = parseDelimited("Acme\t1,250\tJane Roe; staff\tEnergy");
+    expect(tabs.delimiter).to.eq("\t");
+    expect(tabs.rows[0].cells[1]).to.eq("1,250");
+    expect(tabs.rows[0].cells[2]).to.eq("Jane Roe; staff");
+  });
+
+  it("maps headers by name, preferring exact names over prefixes", function () {
+    expect(
+      guessColumnMapping([
+        "Date Filed",
+        "Contributor Name",
+        "Amount ($)",
+        "Committee",
+        "Industry",
+        "Transaction Date",
+        "Filing Period",
+        "Memo",
+      ]),
+    ).to.deep.eq({
+      filed: 0,
+      company: 1,
+      amount: 2,
+      recipient: 3,
+      category: 4,
+      date: 5,
+      period: 6,
+      description: 7,
+    });
+
+    // A column only goes to one field, even when it matches several
+    expect(guessColumnMapping(["Donor", "Total", "Date", "Posted"])).to.deep.eq(
+      { company: 0, amount: 1, date: 2, filed: 3 },
+    );
+    expect(guessColumnMapping(undefined)).to.deep.eq({
+      company: 0,
+      amount: 1,
+      recipient: 2,
+      category: 3,
+    });
+  });
+
+  it("reads ISO and US dates, taking slashed dates as month first", function () {
+    expect(parseCsvDate("2024-03-15")).to.eq(day(2024, 3, 15));
+    expect(parseCsvDate("2024-03-15T10:30:00Z")).to.eq(day(2024, 3, 15));
+    expect(parseCsvDate("3/15/2024")).to.eq(day(2024, 3, 15));
+    expect(parseCsvDate("03/04/2024")).to.eq(day(2024, 3, 4));
+    expect(parseCsvDate("2024-02-29")).to.eq(day(2024, 2, 29));
+
+    for (const value of [
+      "15/03/2024",
+      "2024/03/15",
+      "2023-02-29",
+      "2024-13-01",
+      "2/30/2024",
+      "March 4, 2024",
+      "",
+    ]) {
+      expect(() => parseCsvDate(value), value).to.throw(
+        `"${value}" is not a date (use YYYY-MM-DD or MM/DD/YYYY)`,
+      );
+    }
+    const nextYear = new Date().getUTCFullYear() + 1;
+    expect(() => parseCsvDate(`${nextYear}-01-01`)).to.throw(
+      `${nextYear}-01-01 is in the future`,
+    );
+  });
+
+  it("validates every data row against the column mapping", function () {
+    const table = parseDelimited(
+      [
+        "Company,Amount,Recipient,Category,Date,Period,Filed,Source",
+        '"Acme, Inc.","1,250.50",Jane Roe,Energy,03/04/2024,2024 Q1,2024-04-20,fec:1',
+        "Globex,,Jane Roe,,,,,",
+        "Initech,12.345,Jane Roe,Tech,,,,",
+        "Umbrella,10,Jane Roe,Health,2024-04-20,,2024-04-19,",
+        "Hooli,10,Jane Roe,Tech,,Q5 2024,,",
+        "Soylent,10,Jane Roe,Food,,,,",
+      ].join("\n"),
+    );
+
+    const { rows, errors } = mapCsvRows(
+      table,
+      guessColumnMapping(table.rows[0].cells),
+      true,
+    );
+    expect(rows).to.deep.eq([
+      {
+        line: 2,
+        text: "Acme, Inc., 1,250.50, Jane Roe, Energy, 03/04/2024, 2024 Q1, 2024-04-20, fec:1",
+        company: "Acme, Inc.",
+        amountCents: 125_050n,
+        recipient: "Jane Roe",
+        category: "Energy",
+        description: undefined,
+        activityDate: day(2024, 3, 4),
+        reportingPeriod: { year: 2024, quarter: 1 },
+        filingDate: day(2024, 4, 20),
+        source: "fec:1",
+      },
+      {
+        line: 7,
+        text: "Soylent, 10, Jane Roe, Food, , , , ",
+        company: "Soylent",
+        amountCents: 1_000n,
+        recipient: "Jane Roe",
+        category: "Food",
+        description: undefined,
+        activityDate: undefined,
+        reportingPeriod: undefined,
+        filingDate: undefined,
+        source: undefined,
+      },
+    ]);
+    expect(errors.map(({ line, message }) => [line, message])).to.deep.eq([
+      [3, "Missing amount, category"],
+      [4, '"12.345" is not a valid dollar amount'],
+      [5, "Filed before the donation date"],
+      [6, '"Q5 2024" is not a reporting period (use 2024 Q1)'],
+    ]);
+
+    // Without a header the first row is data too
+    const pasted = mapCsvRows(
+      parseDelimited("Acme\t5\tJane Roe\tEnergy"),
+      guessColumnMapping(undefined),
+      false,
+    );
+    expect(
+      pasted.rows.map(({ line, amountCents }) => [line, amountCents]),
+    ).to.deep.eq([[1, 500n]]);
+    expect(pasted.errors).to.deep.eq([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import type { LobbyingClient } from "../src/client";
+import {
+  CommitmentSalts,
+  UNDATED_COMMITMENT_PERIOD,
+  commitmentPeriod,
+  describeDuplicate,
+  findDuplicates,
+  recordCommitment,
+} from "../src/commitments";
+import { periodKey, type ReportingPeriod } from "../src/records";
+
+const SALT = 0x5a17n;
+const Q1 = { year: 2024, quarter: 1 };
+
+const donation = {
+  amount: 250_000n,
+  entityId: 2001,
+  donorId: 1001,
+  activityDate: Date.UTC(2024, 1, 10, 9) / 1000,
+};
+
+// Just the salt calls, answered from memory the way the contract would
+function saltClient(granted: number[] = []) {
+  const calls: string[] = [];
+  const access = new Set(granted);
+  const client = {
+    hasPeriodSaltAccess: async (period: ReportingPeriod) =>
+      access.has(periodKey(period)),
+    grantPeriodSalt: async (period: ReportingPeriod) => {
+      calls.push(`grant ${periodKey(period)}`);
+      access.add(periodKey(period));
+    },
+    getPeriodSalt: async (period: ReportingPeriod) =>
+      `salt:${periodKey(period)}`,
+  };
+  return { client: client as unknown as LobbyingClient, calls };
+}
+
+describe("Commitments", function () {
+  it("salts a donation for its reporting period, its activity quarter or a fixed undated period", function () {
+    expect(commitmentPeriod({ ...donation, reportingPeriod: Q1 })).to.eq(Q1);
+    expect(
+      commitmentPeriod({
+        ...donation,
+        activityDate: Date.UTC(2024, 3, 1) / 1000,
+      }),
+    ).to.deep.eq({ year: 2024, quarter: 2 });
+
+    const undated = { ...donation, activityDate: undefined };
+    expect(commitmentPeriod(undated)).to.eq(UNDATED_COMMITMENT_PERIOD);
+    expect(recordCommitment(SALT, commitmentPeriod(undated), undated)).to.eq(
+      recordCommitment(SALT, UNDATED_COMMITMENT_PERIOD, undated),
+    );
+  });
+
+  it("commits to the identifying fields only", function () {
+    const commitment = recordCommitment(SALT, Q1, donation);
+
+    // Same UTC day, a different category and a re-filing still collide
+    expect(
+      recordCommitment(SALT, Q1, {
+        ...donation,
+        activityDate: donation.activityDate + 3600,
+        categories: ["defense"],
+        filingDate: donation.activityDate + 86_400,
+      }),
+    ).to.eq(commitment);
+    expect(
+      recordCommitment(SALT, Q1, { ...donation, reference: " FEC:C1:T9 " }),
+    ).to.eq(
+      recordCommitment(SALT, Q1, { ...donation, reference: "fec:c1:t9" }),
+    );
+
+    for (const other of [
+      { ...donation, amount: 250_001n },
+      { ...donation, donorId: 1002 },
+      { ...donation, activityDate: donation.activityDate + 86_400 },
+      { ...donation, reference: "fec:c1:t9" },
+    ]) {
+      expect(recordCommitment(SALT, Q1, other)).to.not.eq(commitment);
+    }
+    expect(recordCommitment(SALT + 1n, Q1, donation)).to.not.eq(commitment);
+    expect(() =>
+      recordCommitment(SALT, Q1, { ...donation, amount: 1.5 }),
+    ).to.throw();
+  });
+
+  it("fetches each period salt once, granting it only without access", async function () {
+    const { client, calls } = saltClient([periodKey(Q1)]);
+    const decrypted: string[] = [];
+    const salts = new CommitmentSalts(client, "0xabc", async (handle) => {
+      decrypted.push(handle);
+      return BigInt(handle.length);
+    });
+
+    const [first, second, undated] = await salts.commit([
+      donation,
+      { ...donation, amount: 1n, reportingPeriod: Q1 },
+      { ...donation, activityDate: undefined },
+    ]);
+    expect(first.commitment).to.eq(
+      recordCommitment(BigInt("salt:20241".length), Q1, donation),
+    );
+    expect(second.commitment).to.not.eq(first.commitment);
+    expect(undated.commitment).to.be.a("string");
+    expect(calls).to.deep.eq(["grant 10001"]);
+    expect(decrypted).to.deep.eq(["salt:20241", "salt:10001"]);
+  });
+
+  it("retries a salt whose decryption failed", async function () {
+    const { client } = saltClient([periodKey(Q1)]);
+    let attempts = 0;
+    const salts = new CommitmentSalts(client, "0xabc", async () => {
+      attempts++;
+      if (attempts === 1) throw new Error("relayer unavailable");
+      return SALT;
+    });
+
+    await expect(salts.saltFor(Q1)).to.be.rejectedWith("relayer unavailable");
+    expect(await salts.saltFor(Q1)).to.eq(SALT);
+    expect(await salts.saltFor(Q1)).to.eq(SALT);
+    expect(attempts).to.eq(2);
+  });
+
+  it("finds recorded commitments and repeats within a submission", async function () {
+    const client = {
+      getCommitmentDonation: async (commitment: string) =>
+        commitment === "0x01" ? 7n : 0n,
+    } as unknown as LobbyingClient;
+
+    const duplicates = await findDuplicates(
+      client,
+      ["0x01", "0x02", "0x03", "0x02"].map((commitment) => ({ commitment })),
+    );
+    expect(duplicates).to.deep.eq([
+      { donationId: 7n },
+      undefined,
+      undefined,
+      { row: 1 },
+    ]);
+    expect(describeDuplicate(duplicates[0]!)).to.eq("Duplicate of donation #7");
+    expect(describeDuplicate(duplicates[3]!)).to.eq("Duplicate of row 2");
+  });
+});
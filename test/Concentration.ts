@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import type { Concentration } from "../src/client";
+import {
+  concentrationBatchSize,
+  concentrationLevel,
+  concentrationSeries,
+  herfindahlIndex,
+} from "../src/concentration";
+
+describe("Concentration", function () {
+  it("computes the index the contract decrypts and groups it over time", function () {
+    expect(herfindahlIndex([100n])).to.eq(10_000);
+    expect(herfindahlIndex([1n, 1n, 1n, 1n])).to.eq(2_500);
+    expect(herfindahlIndex([2n, 1n])).to.eq(5_555);
+    expect(herfindahlIndex([0n, 0n])).to.eq(0);
+    expect(concentrationLevel(2_500)).to.eq("high");
+    expect(concentrationLevel(1_800)).to.eq("moderate");
+    expect(concentrationLevel(999)).to.eq("unconcentrated");
+    expect(concentrationBatchSize(1)).to.eq(12);
+    expect(concentrationBatchSize(16)).to.eq(1);
+
+    const market = (
+      period: Concentration["period"],
+      index?: number,
+    ): Concentration => ({
+      market: `${period.year}${period.quarter}`,
+      entityId: 2001,
+      period,
+      donorIds: [1001],
+      donationCount: 3n,
+      isComputed: true,
+      index,
+      revealedCount: 3n,
+    });
+    const series = concentrationSeries([
+      market({ year: 2024, quarter: 2 }, 6_000),
+      { ...market({ year: 2024, quarter: 1 }, 4_000), category: "defense" },
+      market({ year: 2024, quarter: 1 }, 5_000),
+      // Never decrypted
+      market({ year: 2024, quarter: 3 }),
+    ]);
+    expect(series).to.have.length(2);
+    expect(series[0].points.map((point) => point.index)).to.deep.eq([
+      5_000, 6_000,
+    ]);
+    expect(series[1].category).to.eq("defense");
+  });
+});
@@ -0,0 +1,118 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { LobbyingClient } from "../src/client";
+import { DecryptionTracker, type KeyValueStorage } from "../src/decryption";
+
+const TIMEOUT_MS = 60_000;
+
+// Stands in for localStorage; a new tracker over the same storage is a page reload
+function memoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe("DecryptionTracker", function () {
+  let alice: LobbyingClient;
+  let storage: ReturnType<typeof memoryStorage>;
+  let now: number;
+
+  const tracker = () =>
+    new DecryptionTracker(alice, storage, {
+      timeoutMs: TIMEOUT_MS,
+      now: () => now,
+    });
+
+  async function recordDonation() {
+    const { donationId } = await alice.recordEncryptedDonation({
+      amount: 12_345n,
+      entityId: 2001,
+      donorId: 1001,
+      commitment: ethers.hexlify(ethers.randomBytes(32)),
+    });
+    return donationId;
+  }
+
+  beforeEach(async function () {
+    // The decryption oracle only exists on the mock runtime
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const [, signer]: HardhatEthersSigner[] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("LobbyingAnalysisFHE");
+    const contract = await factory.deploy();
+    alice = new LobbyingClient(await contract.getAddress(), signer, fhevm);
+    storage = memoryStorage();
+    now = 1_700_000_000_000;
+  });
+
+  it("follows a request from pending to fulfilled across a reload", async function () {
+    const donationId = await recordDonation();
+    const first = tracker();
+    const entry = await first.request(alice, donationId);
+    expect(entry).to.include({
+      donationId: donationId.toString(),
+      requestedAt: now,
+      status: "pending",
+    });
+
+    // Pending requests are read back from storage
+    const reloaded = tracker();
+    expect(reloaded.list()).to.deep.eq([entry]);
+
+    await fhevm.awaitDecryptionOracle();
+    now += 1_000;
+    const notified: string[][] = [];
+    reloaded.subscribe((entries) =>
+      notified.push(entries.map((e) => e.status)),
+    );
+    const stop = await reloaded.start();
+    stop();
+
+    expect(reloaded.forDonation(donationId)).to.deep.eq({
+      ...entry,
+      status: "fulfilled",
+      fulfilledAt: now,
+    });
+    expect(notified).to.deep.eq([["fulfilled"]]);
+    expect(tracker().list()[0].status).to.eq("fulfilled");
+
+    reloaded.clearSettled();
+    expect(reloaded.list()).to.be.empty;
+    expect(tracker().list()).to.be.empty;
+  });
+
+  it("times out an unanswered request and settles it on a late answer", async function () {
+    const donationId = await recordDonation();
+    const first = tracker();
+    const entry = await first.request(alice, donationId);
+
+    now += TIMEOUT_MS + 1;
+    expect(first.forDonation(donationId)?.status).to.eq("timed_out");
+    // The timeout is derived on read; storage still holds the request as pending
+    expect(JSON.parse([...storage.items.values()][0])[0].status).to.eq(
+      "pending",
+    );
+    // Nothing on-chain has changed, so a reload keeps it timed out
+    const reloaded = tracker();
+    (await reloaded.start())();
+    expect(reloaded.forDonation(donationId)?.status).to.eq("timed_out");
+    // Timed-out entries are kept so they can be re-requested
+    reloaded.clearSettled();
+    expect(reloaded.list()).to.have.length(1);
+
+    await fhevm.awaitDecryptionOracle();
+    (await reloaded.start())();
+    expect(reloaded.forDonation(donationId)).to.deep.eq({
+      ...entry,
+      status: "fulfilled",
+      fulfilledAt: now,
+    });
+  });
+});
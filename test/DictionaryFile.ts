@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  EntityDictionary,
+  dictionaryDigest,
+  signDictionary,
+  verifyDictionary,
+  type DictionaryFile,
+} from "../src/dictionary";
+
+const PUBLISHED_AT = "2024-07-01T00:00:00.000Z";
+
+describe("DictionaryFile", function () {
+  const publisher = ethers.Wallet.createRandom();
+  const stranger = ethers.Wallet.createRandom();
+  let file: DictionaryFile;
+
+  beforeEach(async function () {
+    const dictionary = new EntityDictionary();
+    dictionary.register("Acme Corp", "company");
+    dictionary.register("Sen. Jane Doe", "recipient");
+    file = await signDictionary(dictionary, 2, publisher, PUBLISHED_AT);
+  });
+
+  it("verifies a signed file from a trusted signer", function () {
+    expect(file).to.include({
+      version: 2,
+      publishedAt: PUBLISHED_AT,
+      signer: publisher.address,
+    });
+
+    const verification = verifyDictionary(file, [
+      stranger.address,
+      publisher.address.toLowerCase(),
+    ]);
+    if (!verification.valid) throw new Error(verification.reason);
+    expect(verification.version).to.eq(2);
+    expect(verification.dictionary.entries()).to.deep.eq(file.entries);
+    expect(verification.dictionary.lookup("acme  corp", "company")?.name).to.eq(
+      "Acme Corp",
+    );
+  });
+
+  it("survives re-serialisation and reordered entries", function () {
+    const reread: DictionaryFile = JSON.parse(
+      JSON.stringify({ ...file, entries: [...file.entries].reverse() }),
+    );
+    expect(dictionaryDigest(reread)).to.eq(dictionaryDigest(file));
+    expect(verifyDictionary(reread, [publisher.address]).valid).to.eq(true);
+  });
+
+  it("keeps the digest of alias-free entries stable", function () {
+    const withEmptyAliases = {
+      ...file,
+      entries: file.entries.map((entry) => ({ ...entry, aliases: [] })),
+    };
+    expect(dictionaryDigest(withEmptyAliases)).to.eq(dictionaryDigest(file));
+
+    const [first, ...rest] = file.entries;
+    const aliased = {
+      ...file,
+      entries: [{ ...first, aliases: ["ACME Corporation"] }, ...rest],
+    };
+    expect(dictionaryDigest(aliased)).not.to.eq(dictionaryDigest(file));
+  });
+
+  it("rejects unsigned, untrusted and tampered files", function () {
+    const reasonOf = (candidate: DictionaryFile) => {
+      const verification = verifyDictionary(candidate, [publisher.address]);
+      return verification.valid ? undefined : verification.reason;
+    };
+
+    expect(reasonOf({ ...file, signature: "" })).to.eq(
+      "Dictionary is not signed",
+    );
+    expect(reasonOf({ ...file, signature: "0x1234" })).to.match(
+      /^Unreadable signature: /,
+    );
+    // Tampering changes the digest, so the signature recovers another address
+    const renamed = file.entries.map((entry) =>
+      entry.kind === "company" ? { ...entry, name: "Globex" } : entry,
+    );
+    for (const tampered of [
+      { ...file, entries: renamed },
+      { ...file, version: 3 },
+      { ...file, publishedAt: "2024-07-02T00:00:00.000Z" },
+    ]) {
+      expect(reasonOf(tampered)).to.match(
+        /^Dictionary signed by untrusted address 0x/,
+      );
+    }
+    expect(
+      verifyDictionary(file, [stranger.address]).valid,
+      "untrusted signer",
+    ).to.eq(false);
+  });
+
+  it("rejects a trusted file whose entries collide", async function () {
+    const entry = file.entries.find((e) => e.kind === "company")!;
+    const unsigned = {
+      version: 3,
+      publishedAt: PUBLISHED_AT,
+      entries: [entry, { ...entry, name: "Globex" }],
+    };
+    // signDictionary only signs valid dictionaries, so sign the digest directly
+    const signature = await publisher.signMessage(
+      ethers.getBytes(dictionaryDigest(unsigned)),
+    );
+    const verification = verifyDictionary(
+      { ...unsigned, signer: publisher.address, signature },
+      [publisher.address],
+    );
+    expect(verification).to.deep.eq({
+      valid: false,
+      reason: `Dictionary ID ${entry.id} is assigned to both "Acme Corp" and "Globex"`,
+    });
+  });
+});
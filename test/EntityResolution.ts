@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import {
+  EntityDictionary,
+  dictionaryDigest,
+  type DictionaryEntry,
+} from "../src/dictionary";
+import {
+  EntityResolver,
+  addDistinct,
+  addMerge,
+  addSplit,
+  emptyRules,
+  entityKey,
+  jaroWinkler,
+  parseRules,
+} from "../src/resolution";
+
+describe("Entity resolution", function () {
+  it("clusters spellings that differ only in case, punctuation and legal form", function () {
+    expect(entityKey("Acme Corp.")).to.eq("acme");
+    expect(entityKey("ACME Corporation")).to.eq("acme");
+    expect(entityKey("The Acme Co., Inc.")).to.eq("acme");
+    expect(entityKey("Procter & Gamble Co")).to.eq("procter and gamble");
+    expect(entityKey("Nestlé S.A.")).to.eq("nestle");
+    expect(entityKey("Co Bank")).to.eq("co bank");
+
+    expect(jaroWinkler("martha", "marhta")).to.be.closeTo(0.961, 0.001);
+    expect(jaroWinkler("abc", "xyz")).to.eq(0);
+  });
+
+  it("counts one entity per organisation and encrypts every spelling to one ID", function () {
+    const resolver = new EntityResolver(new EntityDictionary());
+    ["Acme Corp.", "ACME Corporation", "Acme Inc", "Globex LLC"].forEach(
+      (name) => resolver.add(name, "company"),
+    );
+
+    const companies = resolver.entities("company");
+    expect(companies.map((c) => [c.name, c.count])).to.deep.eq([
+      ["Acme Corp", 3],
+      ["Globex LLC", 1],
+    ]);
+    expect(companies[0].variants).to.deep.eq([
+      "Acme Corp.",
+      "ACME Corporation",
+      "Acme Inc",
+    ]);
+    expect(resolver.resolve("acme, incorporated", "company").id).to.eq(
+      companies[0].id,
+    );
+  });
+
+  it("prefers published names and aliases", function () {
+    const dictionary = new EntityDictionary();
+    const acme = dictionary.register("Acme Holdings", "company");
+    dictionary.addAlias(acme.id, "Acme Corp");
+    const resolver = new EntityResolver(dictionary);
+
+    // Matched through the alias's entity key
+    expect(resolver.resolve("ACME CORPORATION", "company")).to.include({
+      id: acme.id,
+      name: "Acme Holdings",
+      published: true,
+    });
+    expect(() => dictionary.addAlias(acme.id, "")).to.throw("empty");
+    const globex = dictionary.register("Globex", "company");
+    expect(() => dictionary.addAlias(globex.id, "acme corp")).to.throw(
+      'already resolves to "Acme Holdings"',
+    );
+  });
+
+  it("applies manual merges, splits and distinct pairs", function () {
+    const resolver = new EntityResolver(new EntityDictionary());
+    ["Acme Corp", "Acme Inc", "Acme Holdings", "Acmee Corp"].forEach((name) =>
+      resolver.add(name, "company"),
+    );
+    expect(
+      resolver.suggestions("company").map(({ a, b }) => [a.name, b.name]),
+    ).to.deep.eq([["Acme Corp", "Acmee Corp"]]);
+
+    let rules = addMerge(emptyRules(), "company", "Acmee Corp", "Acme Corp");
+    rules = addMerge(rules, "company", "Acme Holdings", "Acme");
+    rules = addSplit(rules, "company", "Acme Inc");
+    resolver.setRules(rules);
+    expect(
+      resolver.entities("company").map((c) => [c.name, c.variants]),
+    ).to.deep.eq([
+      ["Acme Corp", ["Acme Corp", "Acme Holdings", "Acmee Corp"]],
+      ["Acme Inc", ["Acme Inc"]],
+    ]);
+
+    rules = addDistinct(rules, "company", "Acme Corp", "Acme Inc");
+    resolver.setRules(rules);
+    expect(resolver.suggestions("company")).to.be.empty;
+    expect(() => addMerge(rules, "company", "ACME Co", "Acme Corp")).to.throw(
+      "already the same entity",
+    );
+    expect(parseRules(JSON.parse(JSON.stringify(rules)))).to.deep.eq(rules);
+    expect(() => parseRules({ merges: [{ kind: "donor" }] })).to.throw(
+      "merges[0] has no valid kind",
+    );
+  });
+
+  it("keeps digests of alias-free dictionaries unchanged", function () {
+    const entries: DictionaryEntry[] = [
+      { id: 7, name: "Acme Corp", kind: "company" },
+    ];
+    const file = { version: 1, publishedAt: "2024-01-01T00:00:00Z", entries };
+    const withEmptyAliases = {
+      ...file,
+      entries: [{ ...entries[0], aliases: [] }],
+    };
+    const withAliases = {
+      ...file,
+      entries: [{ ...entries[0], aliases: ["ACME Corporation"] }],
+    };
+
+    expect(dictionaryDigest(withEmptyAliases)).to.eq(dictionaryDigest(file));
+    expect(dictionaryDigest(withAliases)).to.not.eq(dictionaryDigest(file));
+    expect(
+      () =>
+        new EntityDictionary([
+          { id: 7, name: "Acme Corp", kind: "company" },
+          { id: 8, name: "Acme Inc", kind: "company", aliases: ["acme corp"] },
+        ]),
+    ).to.throw('is listed under both "Acme Corp" and "Acme Inc"');
+  });
+});
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { EntityDictionary } from "../src/dictionary";
+import {
+  fecAmountToCents,
+  fecReportingPeriod,
+  normalizeEmployer,
+  parseFecLine,
+  planFecImport,
+  type FecContribution,
+} from "../src/importers";
+import { documentHash } from "../src/records";
+
+const COMMITTEE = "C00401224";
+const NOW = Date.UTC(2024, 5, 1) / 1000;
+
+let subId = 0;
+
+// One itcont.txt line; fields not given default to an individual's contribution
+function itcont(fields: {
+  name?: string;
+  zip?: string;
+  employer?: string;
+  entityType?: string;
+  type?: string;
+  date?: string;
+  amount: string;
+  tranId?: string;
+  fileNum?: string;
+  memo?: string;
+  reportType?: string;
+}) {
+  subId++;
+  return [
+    COMMITTEE,
+    "N",
+    fields.reportType ?? "Q1",
+    "P2024",
+    "202404159000000001",
+    fields.type ?? "15",
+    fields.entityType ?? "IND",
+    fields.name ?? "DOE, JANE",
+    "SPRINGFIELD",
+    "IL",
+    fields.zip ?? "627011234",
+    fields.employer ?? "ACME CORPORATION",
+    "ENGINEER",
+    fields.date ?? "03152024",
+    fields.amount,
+    "",
+    fields.tranId ?? `T${subId}`,
+    fields.fileNum ?? "1000",
+    fields.memo ?? "",
+    "",
+    `40${subId}`,
+  ].join("|");
+}
+
+function parse(lines: string[]): FecContribution[] {
+  return lines.map((line, i) => parseFecLine(line, i + 1));
+}
+
+describe("FEC importer", function () {
+  let dictionary: EntityDictionary;
+
+  beforeEach(function () {
+    dictionary = new EntityDictionary();
+    dictionary.register("ACME Corp", "company");
+    dictionary.register(COMMITTEE, "recipient");
+  });
+
+  it("parses itcont and itpas2 lines with signed cent amounts", function () {
+    const [contribution] = parse([itcont({ amount: "250" })]);
+    expect(contribution).to.include({
+      committeeId: COMMITTEE,
+      entityType: "IND",
+      zip: "62701",
+      amount: 25_000n,
+      date: Date.UTC(2024, 2, 15) / 1000,
+      receivedDate: Date.UTC(2024, 3, 15) / 1000,
+      memo: false,
+    });
+
+    const pas2 = parseFecLine(
+      "C00010603|N|Q1|P2024|1|24K|CCM|SMITH FOR SENATE|X|IL|62701|||03012024|5000|C00999999|S4IL00000|T1|1001|||99",
+      1,
+    );
+    expect(pas2).to.include({
+      candidateId: "S4IL00000",
+      otherId: "C00999999",
+      amount: 500_000n,
+    });
+
+    expect(fecAmountToCents("-75.5")).to.eq(-7_550n);
+    expect(() => parseFecLine("C001|N|Q1", 3)).to.throw("Expected 21 or 22");
+  });
+
+  it("maps employers to company names", function () {
+    expect(normalizeEmployer("ACME CORPORATION")).to.eq("ACME Corp");
+    expect(normalizeEmployer("Self-Employed")).to.eq(undefined);
+    expect(normalizeEmployer("INFORMATION REQUESTED")).to.eq(undefined);
+    expect(normalizeEmployer("  ")).to.eq(undefined);
+  });
+
+  it("nets refunds against earlier contributions from the same contributor", function () {
+    const plan = planFecImport(
+      parse([
+        itcont({ amount: "1000", date: "01102024" }),
+        itcont({ amount: "500", date: "02102024" }),
+        itcont({ amount: "-700", date: "03102024", type: "22Y" }),
+        itcont({ name: "ROE, RICHARD", amount: "300", date: "01052024" }),
+        itcont({ name: "ROE, RICHARD", amount: "-300", date: "02052024" }),
+        itcont({ name: "NOBODY, NED", amount: "-50" }),
+      ]),
+      dictionary,
+    );
+
+    // The refund empties the latest contribution first
+    expect(plan.rows.map((row) => row.donation.amount)).to.deep.eq([80_000n]);
+    const status = Object.fromEntries(
+      plan.reports.map((r) => [r.line, [r.status, r.refundedCents]]),
+    );
+    expect(status).to.deep.eq({
+      1: ["planned", "20000"],
+      2: ["refunded", "50000"],
+      3: ["skipped", undefined],
+      4: ["refunded", "30000"],
+      5: ["skipped", undefined],
+      6: ["invalid", undefined],
+    });
+  });
+
+  it("keeps only the latest amendment of a transaction and skips memo entries", function () {
+    const lines = [
+      itcont({ amount: "900", tranId: "SA11", fileNum: "1000" }),
+      itcont({ amount: "600", tranId: "SA11", fileNum: "1005" }),
+      itcont({ amount: "600", memo: "X" }),
+      itcont({ amount: "100", employer: "RETIRED" }),
+      itcont({ amount: "100", entityType: "ORG", name: "GLOBEX, INC." }),
+    ];
+    const plan = planFecImport(parse(lines), dictionary, false, NOW);
+
+    // The company, committee and amount only go into the encrypted donation
+    expect(plan.rows.map((row) => row.record)).to.deep.include({
+      timestamp: NOW,
+      activityDate: Date.UTC(2024, 2, 15) / 1000,
+      reportingPeriod: { year: 2024, quarter: 1 },
+      filingDate: Date.UTC(2024, 3, 15) / 1000,
+      category: "Political",
+      status: "pending",
+      provenance: {
+        source: "fec",
+        documentId:
+          "https://docquery.fec.gov/cgi-bin/fecimg/?202404159000000001",
+        documentHash: documentHash(lines[1]),
+      },
+    });
+    expect(plan.rows).to.have.length(1);
+    expect(plan.reports[0].provenance?.documentHash).to.eq(
+      documentHash(lines[0]),
+    );
+    expect(plan.reports.map((r) => [r.line, r.status])).to.deep.eq([
+      [1, "superseded"],
+      [3, "skipped"],
+      [4, "skipped"],
+      [5, "invalid"],
+    ]);
+    expect(plan.missingNames.companies).to.deep.eq(["GLOBEX Inc"]);
+  });
+
+  it("keeps equal contributions without a TRAN_ID apart", function () {
+    const plan = planFecImport(
+      parse([
+        itcont({ amount: "250", tranId: "" }),
+        itcont({ amount: "250", tranId: "" }),
+      ]),
+      dictionary,
+    );
+
+    // Their references, and so their commitments, come from the SUB_ID
+    const [first, second] = plan.rows.map((row) => row.donation.reference);
+    expect(plan.rows).to.have.length(2);
+    expect(first).to.match(/^fec:C00401224:sub:40\d+$/);
+    expect(second).not.to.eq(first);
+  });
+
+  it("rejects contribution dates that do not exist", function () {
+    expect(() => parse([itcont({ amount: "1", date: "13322024" })])).to.throw(
+      'Invalid TRANSACTION_DT "13322024"',
+    );
+    expect(() => parse([itcont({ amount: "1", date: "02302024" })])).to.throw(
+      "Invalid TRANSACTION_DT",
+    );
+    expect(parse([itcont({ amount: "1", date: "02292024" })])[0].date).to.eq(
+      Date.UTC(2024, 1, 29) / 1000,
+    );
+  });
+
+  it("dates contributions by their report's quarter", function () {
+    const period = (reportType: string, date = "02102024") =>
+      fecReportingPeriod(parse([itcont({ amount: "1", reportType, date })])[0]);
+
+    expect(period("Q3", "08012024")).to.deep.eq({ year: 2024, quarter: 3 });
+    expect(period("YE", "12012023")).to.deep.eq({ year: 2023, quarter: 4 });
+    // Monthly reports cover the month before the one they are named after
+    expect(period("M4", "03102024")).to.deep.eq({ year: 2024, quarter: 1 });
+    expect(period("M5", "04102024")).to.deep.eq({ year: 2024, quarter: 2 });
+    expect(period("12G")).to.eq(undefined);
+  });
+});
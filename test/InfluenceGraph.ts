@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { centrality, InfluenceGraphBuilder, rankInfluence } from "../src/graph";
+
+describe("InfluenceGraph", function () {
+  it("builds a bipartite adjacency from edges and revealed donations", function () {
+    const graph = new InfluenceGraphBuilder()
+      .addEdge({ donorId: 1, entityId: 10, weight: 500n })
+      .addDonation({ donorId: 1, entityId: 10, amount: 250n })
+      .addEdge({ donorId: 1, entityId: 11, weight: 100n })
+      .addEdge({ donorId: 2, entityId: 10, weight: 300n })
+      // Analyzed, but no money flowed
+      .addEdge({ donorId: 3, entityId: 11, weight: 0n })
+      // The same ID on the recipient side is a different node
+      .addEdge({ donorId: 10, entityId: 1, weight: 40n })
+      .build();
+
+    expect(graph.donors()).to.deep.eq([1, 2, 10]);
+    expect(graph.entities()).to.deep.eq([10, 11, 1]);
+    expect(graph.weight(1, 10)).to.eq(750n);
+    expect(graph.weight(3, 11)).to.eq(0n);
+    expect([...graph.recipientsOf(1)]).to.deep.eq([
+      [10, 750n],
+      [11, 100n],
+    ]);
+    expect([...graph.donorsOf(10)]).to.deep.eq([
+      [1, 750n],
+      [2, 300n],
+    ]);
+    expect(graph.totalGiven(1)).to.eq(850n);
+    expect(graph.totalReceived(10)).to.eq(1050n);
+    expect(graph.edges()).to.have.length(4);
+
+    expect(() =>
+      new InfluenceGraphBuilder().addEdge({
+        donorId: 1,
+        entityId: 2,
+        weight: -1n,
+      }),
+    ).to.throw("negative weight");
+  });
+
+  it("scores centrality and ranks companies and recipients", function () {
+    // Companies 1 and 2 fund separate recipients; 3 bridges them through 11 and 12
+    const graph = new InfluenceGraphBuilder()
+      .addEdge({ donorId: 1, entityId: 10, weight: 900n })
+      .addEdge({ donorId: 1, entityId: 11, weight: 100n })
+      .addEdge({ donorId: 2, entityId: 12, weight: 200n })
+      .addEdge({ donorId: 3, entityId: 11, weight: 300n })
+      .addEdge({ donorId: 3, entityId: 12, weight: 300n })
+      .build();
+    const scores = centrality(graph);
+    const score = (kind: string, id: number) =>
+      scores.find((node) => node.kind === kind && node.id === id)!;
+
+    expect(scores).to.have.length(6);
+    expect(score("company", 1).weightedDegree).to.eq(1000n);
+    expect(score("recipient", 11).weightedDegree).to.eq(400n);
+    const totalRank = scores.reduce((total, node) => total + node.pageRank, 0);
+    expect(totalRank).to.be.closeTo(1, 1e-9);
+    // A leaf lies on no path between two other nodes
+    expect(score("recipient", 10).betweenness).to.eq(0);
+    expect(score("company", 2).betweenness).to.eq(0);
+    expect(score("company", 3).betweenness).to.be.greaterThan(
+      score("company", 1).betweenness,
+    );
+    expect(Math.max(...scores.map((node) => node.eigenvector))).to.eq(1);
+    expect(score("company", 1).eigenvector).to.be.greaterThan(
+      score("company", 2).eigenvector,
+    );
+
+    const byDegree = rankInfluence(scores, "weightedDegree", 2);
+    expect(byDegree.companies.map((node) => node.id)).to.deep.eq([1, 3]);
+    expect(byDegree.recipients.map((node) => node.id)).to.deep.eq([10, 12]);
+    expect(
+      rankInfluence(scores, "betweenness").companies.map((node) => node.id),
+    ).to.deep.eq([3, 1, 2]);
+
+    expect(centrality(new InfluenceGraphBuilder().build())).to.deep.eq([]);
+  });
+});
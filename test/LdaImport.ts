@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { EntityDictionary } from "../src/dictionary";
+import {
+  issueCategory,
+  ldaReportingPeriod,
+  normalizeOrganizationName,
+  parseLdaFile,
+  planLdaImport,
+} from "../src/importers";
+import { documentHash } from "../src/records";
+
+const API_PAGE = JSON.stringify({
+  count: 2,
+  results: [
+    {
+      filing_uuid: "a1b2c3",
+      filing_type: "Q1",
+      filing_year: 2024,
+      filing_period: "first_quarter",
+      income: "120000.00",
+      expenses: null,
+      dt_posted: "2024-04-19T10:15:00-04:00",
+      filing_document_url:
+        "https://lda.senate.gov/filings/public/filing/a1b2c3/print/",
+      registrant: { id: 401, name: "CAPITOL STRATEGIES, L.L.C." },
+      client: { id: 9001, client_id: 12, name: "ACME CORPORATION, INC." },
+      lobbying_activities: [
+        {
+          general_issue_code: "TEC",
+          lobbyists: [
+            {
+              lobbyist: { first_name: "Jane", last_name: "Roe" },
+              covered_position: "Legislative Director, Sen. Smith",
+            },
+            { lobbyist: { first_name: "John", last_name: "Doe" } },
+          ],
+          government_entities: [{ id: 1, name: "SENATE" }],
+        },
+        { general_issue_code: "TAX", lobbyists: [], government_entities: [] },
+        { general_issue_code: "CPI", lobbyists: [], government_entities: [] },
+      ],
+    },
+    {
+      filing_uuid: "d4e5f6",
+      filing_type: "Q1",
+      income: null,
+      expenses: null,
+      registrant: { name: "CAPITOL STRATEGIES LLC" },
+      client: { name: "GLOBEX" },
+      lobbying_activities: [],
+    },
+  ],
+});
+
+const BULK_XML = `<?xml version="1.0" encoding="UTF-16"?>
+<PublicFilings>
+  <Filing ID="X-100" Year="2024" Received="2024-07-20T00:00:00" Amount="85,000" Type="Q2 REPORT" Period="2nd Quarter (Apr 1 - June 30)">
+    <Registrant xmlns="" RegistrantID="77" RegistrantName="GLOBEX ENERGY &amp; POWER CO." />
+    <Client xmlns="" ClientName="Globex Energy &amp; Power Co" ClientID="5" SelfFiler="TRUE" />
+    <Lobbyists>
+      <Lobbyist xmlns="" LobbyistName="SMITH, ANN" OfficialPosition="Former Counsel, House E&amp;C" />
+    </Lobbyists>
+    <Issues>
+      <Issue xmlns="" Code="ENERGY/NUCLEAR" SpecificIssue="Grid reliability" />
+      <Issue xmlns="" Code="UTILITIES" SpecificIssue="Rates" />
+    </Issues>
+  </Filing>
+  <Filing ID="X-101" Amount="-5" Type="Q2 REPORT">
+    <Registrant xmlns="" RegistrantName="SOMEONE" />
+    <Client xmlns="" ClientName="SOMEONE ELSE" SelfFiler="FALSE" />
+  </Filing>
+</PublicFilings>`;
+
+describe("LDA importer", function () {
+  it("parses JSON API pages into filings", function () {
+    const { filings, errors } = parseLdaFile("q1.json", API_PAGE);
+
+    expect(errors).to.be.empty;
+    expect(filings).to.have.length(2);
+    expect(filings[0]).to.include({
+      filingId: "a1b2c3",
+      income: 12_000_000n,
+      expenses: undefined,
+      selfFiler: false,
+    });
+    expect(filings[0].issueCodes).to.deep.eq(["TEC", "TAX", "CPI"]);
+    expect(filings[0].coveredOfficials).to.deep.eq([
+      { lobbyist: "Jane Roe", position: "Legislative Director, Sen. Smith" },
+    ]);
+    expect(filings[0].governmentEntities).to.deep.eq(["SENATE"]);
+    expect(filings[0].documentHash).to.eq(
+      documentHash(JSON.stringify(JSON.parse(API_PAGE).results[0])),
+    );
+  });
+
+  it("parses the bulk XML export and keeps unreadable filings as errors", function () {
+    const { filings, errors } = parseLdaFile("q2.xml", BULK_XML);
+
+    expect(filings).to.have.length(1);
+    expect(filings[0]).to.include({
+      filingId: "X-100",
+      selfFiler: true,
+      expenses: 8_500_000n,
+      income: undefined,
+    });
+    expect(filings[0].registrant.name).to.eq("GLOBEX ENERGY & POWER CO.");
+    expect(filings[0].issueCodes).to.deep.eq(["ENG", "UTI"]);
+    expect(filings[0].coveredOfficials[0].position).to.eq(
+      "Former Counsel, House E&C",
+    );
+    expect(errors).to.have.length(1);
+    expect(errors[0]).to.include({ index: 1, filingId: "X-101" });
+    // Hashed as the element appears in the export
+    expect(filings[0].documentHash).to.eq(
+      documentHash(
+        BULK_XML.slice(
+          BULK_XML.indexOf("<Filing"),
+          BULK_XML.indexOf("</Filing>") + 9,
+        ),
+      ),
+    );
+    expect(ldaReportingPeriod(filings[0])).to.deep.eq({
+      year: 2024,
+      quarter: 2,
+    });
+  });
+
+  it("normalizes names so spelling variants share one dictionary name", function () {
+    expect(normalizeOrganizationName("ACME CORPORATION, INC.")).to.eq(
+      "ACME Corp Inc",
+    );
+    expect(normalizeOrganizationName("Acme Corp Inc")).to.eq("Acme Corp Inc");
+    expect(normalizeOrganizationName("CAPITOL STRATEGIES, L.L.C.")).to.eq(
+      "CAPITOL STRATEGIES LLC",
+    );
+    expect(normalizeOrganizationName("NEWCO (FORMERLY OLDCO INC)")).to.eq(
+      "NEWCO",
+    );
+    expect(normalizeOrganizationName("CO BANK")).to.eq("CO BANK");
+  });
+
+  it("maps issue codes to the most common category", function () {
+    expect(issueCategory(["TEC", "TAX", "CPI"])).to.eq("Technology");
+    expect(issueCategory(["TAX", "HCR"])).to.eq("Finance");
+    expect(issueCategory(["DEF", "VET"])).to.eq("Other");
+    expect(issueCategory([])).to.eq("Other");
+  });
+
+  it("plans records, reporting duplicates, missing amounts and missing names", function () {
+    const dictionary = new EntityDictionary();
+    const acme = dictionary.register("ACME Corp Inc", "company");
+    const capitol = dictionary.register("CAPITOL STRATEGIES LLC", "recipient");
+    const q1 = parseLdaFile("q1.json", API_PAGE);
+
+    const now = Date.UTC(2024, 5, 1) / 1000;
+    const plan = planLdaImport(
+      [q1, { ...q1, file: "copy.json" }],
+      dictionary,
+      false,
+      now,
+    );
+
+    expect(plan.rows).to.have.length(1);
+    expect(plan.rows[0].donation).to.deep.eq({
+      amount: 12_000_000n,
+      donorId: acme.id,
+      entityId: capitol.id,
+      reportingPeriod: { year: 2024, quarter: 1 },
+      filingDate: 1713536100,
+      reference: `lda:${plan.rows[0].filingId}`,
+    });
+    // The client, registrant and amount only go into the encrypted donation
+    expect(plan.rows[0].record).to.deep.eq({
+      category: "Technology",
+      status: "pending",
+      timestamp: now,
+      reportingPeriod: { year: 2024, quarter: 1 },
+      filingDate: 1713536100,
+      provenance: {
+        source: "lda",
+        documentId:
+          "https://lda.senate.gov/filings/public/filing/a1b2c3/print/",
+        documentHash: q1.filings[0].documentHash,
+      },
+    });
+    expect(plan.filings[0].provenance).to.deep.eq(
+      plan.rows[0].record.provenance,
+    );
+    expect(plan.filings.map((f) => f.status)).to.deep.eq([
+      "planned",
+      "invalid",
+      "duplicate",
+      "duplicate",
+    ]);
+    expect(plan.filings[1].reason).to.eq("No income or expenses reported");
+
+    const unpublished = planLdaImport(
+      [parseLdaFile("q2.xml", BULK_XML)],
+      dictionary,
+    );
+    expect(unpublished.rows).to.be.empty;
+    expect(unpublished.missingNames).to.deep.eq({
+      companies: ["Globex Energy & Power Co"],
+      recipients: ["GLOBEX ENERGY & POWER Co"],
+    });
+  });
+});
@@ -0,0 +1,853 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { Contract } from "ethers";
+import {
+  checkThresholdAlerts,
+  flaggedAlerts,
+  loadThresholdAlerts,
+  watchAlertSubject,
+} from "../src/alerts";
+import { LobbyingClient } from "../src/client";
+import { CommitmentSalts, findDuplicates } from "../src/commitments";
+import {
+  categoryDonationIds,
+  herfindahlIndex,
+  loadConcentrations,
+  measureConcentration,
+  periodDonationIds,
+} from "../src/concentration";
+import { UserDecryptionSession } from "../src/decryption";
+import {
+  analyzeConnection,
+  buildInfluenceGraph,
+  revealConnections,
+} from "../src/graph";
+import { MAX_AMOUNT_CENTS } from "../src/money";
+import { openNote, sealNote } from "../src/notes";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const ACME = 1001;
+const GLOBEX = 1002;
+const INITECH = 1003;
+const SENATOR = 2001;
+const REPRESENTATIVE = 2002;
+
+// Contract tests that are not about duplicates only need commitments to differ
+function unique() {
+  return ethers.hexlify(ethers.randomBytes(32));
+}
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("LobbyingAnalysisFHE");
+  const contract = (await factory.deploy()) as unknown as Contract;
+  const address = await contract.getAddress();
+  return { contract, address };
+}
+
+describe("LobbyingAnalysisFHE", function () {
+  let signers: Signers;
+  let contract: Contract;
+  let address: string;
+  let alice: LobbyingClient;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // The decryption oracle and debugger only exist on the mock runtime
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, address } = await deployFixture());
+    alice = new LobbyingClient(address, signers.alice, fhevm);
+    await new LobbyingClient(address, signers.deployer).setSubmitter(
+      signers.alice.address,
+      true,
+    );
+  });
+
+  async function revealDonation(donationId: bigint) {
+    const receipt = await alice.requestDonationDecryption(donationId);
+    const [requested] = alice.parseReceipt(receipt, "DecryptionRequested");
+    await fhevm.awaitDecryptionOracle();
+    return requested.requestId;
+  }
+
+  it("records an encrypted donation that only the submitter can decrypt", async function () {
+    const { donationId } = await alice.recordEncryptedDonation({
+      amount: 2_500_000n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+
+    expect(donationId).to.eq(1n);
+    expect(await alice.getDonationCount()).to.eq(1n);
+
+    const donation = await alice.getEncryptedDonation(donationId);
+    const amount = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      donation.encryptedAmount,
+      address,
+      signers.alice,
+    );
+    const entity = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      donation.encryptedEntity,
+      address,
+      signers.alice,
+    );
+    const donor = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      donation.encryptedDonor,
+      address,
+      signers.alice,
+    );
+    expect(amount).to.eq(2_500_000n);
+    expect(entity).to.eq(BigInt(SENATOR));
+    expect(donor).to.eq(BigInt(ACME));
+
+    expect(
+      await alice.hasDonationAccess(donationId, signers.alice.address),
+    ).to.eq(true);
+    expect(
+      await alice.hasDonationAccess(donationId, signers.bob.address),
+    ).to.eq(false);
+    expect((await alice.getDecryptedDonation(donationId)).isRevealed).to.eq(
+      false,
+    );
+  });
+
+  it("records a batch with consecutive donation IDs", async function () {
+    const result = await alice.recordEncryptedDonations([
+      { amount: 100n, entityId: SENATOR, donorId: ACME, commitment: unique() },
+      {
+        amount: 200n,
+        entityId: REPRESENTATIVE,
+        donorId: GLOBEX,
+        commitment: unique(),
+      },
+      {
+        amount: 300n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        commitment: unique(),
+      },
+    ]);
+
+    expect(result.failures).to.be.empty;
+    expect(result.ranges).to.deep.eq([{ firstId: 1n, lastId: 3n }]);
+    expect(result.donationIds).to.deep.eq([1n, 2n, 3n]);
+
+    const second = await alice.getEncryptedDonation(2n);
+    const amount = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      second.encryptedAmount,
+      address,
+      signers.alice,
+    );
+    expect(amount).to.eq(200n);
+  });
+
+  it("stores when a donation happened and was disclosed", async function () {
+    const dates = {
+      activityDate: Date.UTC(2024, 1, 10) / 1000,
+      reportingPeriod: { year: 2024, quarter: 1 },
+      filingDate: Date.UTC(2024, 3, 15) / 1000,
+    };
+    const result = await alice.recordEncryptedDonations([
+      {
+        amount: 100n,
+        entityId: SENATOR,
+        donorId: ACME,
+        ...dates,
+        commitment: unique(),
+      },
+      {
+        amount: 200n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        commitment: unique(),
+      },
+      {
+        amount: 300n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        commitment: unique(),
+        activityDate: dates.filingDate,
+        filingDate: dates.activityDate,
+      },
+    ]);
+
+    expect(result.donationIds).to.deep.eq([1n, 2n, undefined]);
+    expect(result.failures[0].error.message).to.eq(
+      "filingDate is before activityDate",
+    );
+    expect(await alice.getDonationDates(1n)).to.deep.eq(dates);
+    expect(await alice.getDonationDates(2n)).to.deep.eq({
+      activityDate: undefined,
+      reportingPeriod: undefined,
+      filingDate: undefined,
+    });
+  });
+
+  it("reveals a donation through the decryption oracle callback", async function () {
+    const { donationId } = await alice.recordEncryptedDonation({
+      amount: 12_345n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+
+    const requestId = await revealDonation(donationId);
+
+    const decrypted = await alice.getDecryptedDonation(donationId);
+    expect(decrypted).to.deep.eq({
+      amount: 12_345n,
+      entityId: SENATOR,
+      donorId: ACME,
+      isRevealed: true,
+    });
+
+    const [fulfilled] = await alice.queryEvents("DonationDecrypted");
+    expect(fulfilled.id).to.eq(donationId);
+    expect(fulfilled.requestId).to.eq(requestId);
+  });
+
+  it("accumulates entity and donor totals from revealed donations", async function () {
+    await alice.recordEncryptedDonations([
+      {
+        amount: 1_000n,
+        entityId: SENATOR,
+        donorId: ACME,
+        commitment: unique(),
+      },
+      {
+        amount: 2_500n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        commitment: unique(),
+      },
+      {
+        amount: 4_000n,
+        entityId: REPRESENTATIVE,
+        donorId: ACME,
+        commitment: unique(),
+      },
+    ]);
+    for (const donationId of [1n, 2n, 3n]) {
+      await revealDonation(donationId);
+    }
+
+    expect(await alice.getEntityIds()).to.deep.eq([SENATOR, REPRESENTATIVE]);
+    expect(await alice.getDonorIds()).to.deep.eq([ACME, GLOBEX]);
+
+    const totalOf = async (handle: string) =>
+      fhevm.debugger.decryptEuint(FhevmType.euint64, handle);
+    expect(await totalOf(await alice.getEncryptedEntityTotal(SENATOR))).to.eq(
+      3_500n,
+    );
+    expect(
+      await totalOf(await alice.getEncryptedEntityTotal(REPRESENTATIVE)),
+    ).to.eq(4_000n);
+    expect(await totalOf(await alice.getEncryptedDonorTotal(ACME))).to.eq(
+      5_000n,
+    );
+    expect(await totalOf(await alice.getEncryptedDonorTotal(GLOBEX))).to.eq(
+      2_500n,
+    );
+
+    await alice.requestEntityTotalDecryption(SENATOR);
+    await fhevm.awaitDecryptionOracle();
+    expect(await alice.getDecryptedEntityTotal(SENATOR)).to.eq(3_500n);
+  });
+
+  it("saturates a running total at the uint64 maximum instead of wrapping", async function () {
+    await alice.recordEncryptedDonations([
+      {
+        amount: MAX_AMOUNT_CENTS - 1n,
+        entityId: SENATOR,
+        donorId: ACME,
+        commitment: unique(),
+      },
+      {
+        amount: 5n,
+        entityId: SENATOR,
+        donorId: ACME,
+        commitment: unique(),
+      },
+    ]);
+    await revealDonation(1n);
+    await revealDonation(2n);
+
+    expect(
+      await fhevm.debugger.decryptEuint(
+        FhevmType.euint64,
+        await alice.getEncryptedDonorTotal(ACME),
+      ),
+    ).to.eq(MAX_AMOUNT_CENTS);
+    await alice.requestEntityTotalDecryption(SENATOR);
+    await fhevm.awaitDecryptionOracle();
+    expect(await alice.getDecryptedEntityTotal(SENATOR)).to.eq(
+      MAX_AMOUNT_CENTS,
+    );
+  });
+
+  it("publicly decrypts a donor total on request", async function () {
+    await alice.recordEncryptedDonations([
+      { amount: 700n, entityId: SENATOR, donorId: ACME, commitment: unique() },
+      {
+        amount: 800n,
+        entityId: REPRESENTATIVE,
+        donorId: ACME,
+        commitment: unique(),
+      },
+    ]);
+    await revealDonation(1n);
+    await revealDonation(2n);
+
+    await alice.requestDonorTotalDecryption(ACME);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await alice.getDecryptedDonorTotal(ACME)).to.eq(1_500n);
+    const [decrypted] = await alice.queryEvents("DonorTotalDecrypted");
+    expect(decrypted.donorId).to.eq(ACME);
+    expect(decrypted.total).to.eq(1_500n);
+  });
+
+  it("decrypts only whether a watched alert total is over its threshold", async function () {
+    const owner = new LobbyingClient(address, signers.deployer, fhevm);
+    await expect(
+      alice.setAlertThresholds({ donor: 1n, entity: 1n }),
+    ).to.be.revertedWith("Only owner");
+    await expect(alice.setAlertWatch("company", ACME, true)).to.be.revertedWith(
+      "Only owner",
+    );
+    await owner.setAlertThresholds({ donor: 4_000n, entity: 10_000n });
+    await owner.setAnalyst(signers.alice.address, true);
+
+    // A watched total counts the donations recorded so far once it is updated
+    await alice.recordEncryptedDonation({
+      amount: 3_000n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+    await owner.setAlertWatch("company", ACME, true);
+    await expect(alice.requestAlertCheck("company", ACME)).to.be.revertedWith(
+      "Alert total not up to date",
+    );
+    await watchAlertSubject(owner, { kind: "company", id: GLOBEX });
+    await watchAlertSubject(owner, { kind: "recipient", id: SENATOR });
+    expect(await alice.getAlertWatches()).to.deep.eq([
+      { kind: "company", id: ACME, countedThrough: 0n },
+      { kind: "company", id: GLOBEX, countedThrough: 1n },
+      { kind: "recipient", id: SENATOR, countedThrough: 1n },
+    ]);
+
+    // Recording leaves watched totals alone; a check pulls in new donations first
+    await alice.recordEncryptedDonation({
+      amount: 1_000n,
+      entityId: SENATOR,
+      donorId: GLOBEX,
+      commitment: unique(),
+    });
+    await expect(alice.requestAlertCheck("company", GLOBEX)).to.be.revertedWith(
+      "Alert total not up to date",
+    );
+    expect(await checkThresholdAlerts(alice)).to.have.length(3);
+    expect(
+      (await alice.getAlertWatches()).map((watch) => watch.countedThrough),
+    ).to.deep.eq([2n, 2n, 2n]);
+    await fhevm.awaitDecryptionOracle();
+    expect(flaggedAlerts(await loadThresholdAlerts(alice))).to.deep.eq([]);
+
+    await alice.recordEncryptedDonation({
+      amount: 2_000n,
+      entityId: REPRESENTATIVE,
+      donorId: ACME,
+      commitment: unique(),
+    });
+    await checkThresholdAlerts(alice);
+    await fhevm.awaitDecryptionOracle();
+
+    // No donation was ever decrypted, only the over/under bits
+    const alerts = await loadThresholdAlerts(alice);
+    expect(alerts).to.have.length(3);
+    const [acme] = flaggedAlerts(alerts);
+    expect(flaggedAlerts(alerts)).to.have.length(1);
+    expect(acme).to.include({ kind: "company", id: ACME, threshold: 4_000n });
+    expect(acme.flaggedAt).to.eq(acme.checkedAt);
+    expect(await alice.queryEvents("DonationDecrypted")).to.be.empty;
+    expect(await alice.getDecryptedDonorTotal(ACME)).to.eq(0n);
+
+    // A later check keeps the first crossing; a new threshold starts over
+    await alice.requestAlertCheck("company", ACME);
+    await fhevm.awaitDecryptionOracle();
+    const rechecked = await alice.getThresholdAlert("company", ACME);
+    expect(rechecked?.flaggedAt).to.eq(acme.flaggedAt);
+    expect(rechecked?.checkedAt).to.be.greaterThan(acme.checkedAt);
+    // Thresholds cannot be moved around between checks to binary-search a total
+    await expect(
+      owner.setAlertThresholds({ donor: 5_000n, entity: 10_000n }),
+    ).to.be.revertedWith("Thresholds changed too recently");
+    await time.increaseTo(await owner.getNextAlertThresholdChange());
+    await owner.setAlertThresholds({ donor: 5_000n, entity: 10_000n });
+    await alice.requestAlertCheck("company", ACME);
+    await fhevm.awaitDecryptionOracle();
+    expect(await alice.getThresholdAlert("company", ACME)).to.include({
+      threshold: 5_000n,
+      exceeded: false,
+      flaggedAt: undefined,
+    });
+
+    // The contract keeps a bounded number of watched totals
+    await expect(
+      alice.requestAlertCheck("recipient", REPRESENTATIVE),
+    ).to.be.revertedWith("Not watched");
+    await owner.setAlertWatch("recipient", REPRESENTATIVE, true);
+    await expect(
+      owner.setAlertWatch("recipient", 2003, true),
+    ).to.be.revertedWith("Too many alert watches");
+    // A removed watch takes its last check with it
+    expect(await alice.getThresholdAlert("company", GLOBEX)).to.include({
+      exceeded: false,
+    });
+    await owner.setAlertWatch("company", GLOBEX, false);
+    expect(await alice.getThresholdAlert("company", GLOBEX)).to.eq(undefined);
+    expect(
+      (await alice.getAlertWatches()).map(({ kind, id }) => [kind, id]),
+    ).to.deep.eq([
+      ["company", ACME],
+      ["recipient", SENATOR],
+      ["recipient", REPRESENTATIVE],
+    ]);
+
+    // Only analysts and the owner ask for checks
+    const bob = new LobbyingClient(address, signers.bob, fhevm);
+    await expect(
+      bob.requestAlertCheck("recipient", SENATOR),
+    ).to.be.revertedWith("Only analyst or owner");
+    await owner.requestAlertCheck("recipient", SENATOR);
+    // An answer arriving after its watch was removed is dropped
+    await owner.setAlertWatch("recipient", SENATOR, false);
+    await fhevm.awaitDecryptionOracle();
+    expect(await alice.getThresholdAlert("recipient", SENATOR)).to.eq(
+      undefined,
+    );
+
+    await time.increaseTo(await owner.getNextAlertThresholdChange());
+    await owner.setAlertThresholds({ donor: 0n, entity: 0n });
+    await expect(
+      alice.requestAlertCheck("recipient", SENATOR),
+    ).to.be.revertedWith("No alert threshold");
+  });
+
+  it("rejects decrypting a donation twice", async function () {
+    const { donationId } = await alice.recordEncryptedDonation({
+      amount: 500n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+    await revealDonation(donationId);
+
+    await expect(
+      contract.connect(signers.alice).getFunction("requestDonationDecryption")(
+        donationId,
+      ),
+    ).to.be.revertedWith("Already decrypted");
+  });
+
+  it("rejects callbacks that are not signed by the KMS", async function () {
+    const { donationId } = await alice.recordEncryptedDonation({
+      amount: 500n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+    const receipt = await alice.requestDonationDecryption(donationId);
+    const [requested] = alice.parseReceipt(receipt, "DecryptionRequested");
+
+    // Well-formed proof (signer count, signatures, extra data) carrying a signature from a non-KMS account
+    const forgedSignature = await signers.bob.signMessage("forged decryption");
+    const proof = ethers.concat([
+      ethers.solidityPacked(["uint8"], [1]),
+      forgedSignature,
+      ethers.solidityPacked(["uint8"], [0]),
+    ]);
+    const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint64", "uint32", "uint32"],
+      [1n, SENATOR, ACME],
+    );
+
+    await expect(
+      contract.getFunction("decryptDonation")(
+        requested.requestId,
+        cleartexts,
+        proof,
+      ),
+    ).to.be.reverted;
+    expect((await alice.getDecryptedDonation(donationId)).isRevealed).to.eq(
+      false,
+    );
+
+    // The genuine oracle answer still goes through afterwards
+    await fhevm.awaitDecryptionOracle();
+    expect((await alice.getDecryptedDonation(donationId)).amount).to.eq(500n);
+  });
+
+  it("attaches a confidential note readable by the contributor and granted analysts", async function () {
+    const { donationId } = await alice.recordEncryptedDonation({
+      amount: 100n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+    const note = await sealNote("Met committee staff about H.R. 1234");
+    await alice.attachNote(donationId, note.key, note.contentHash);
+    expect(await alice.getNoteHash(donationId)).to.eq(note.contentHash);
+
+    const handle = await alice.getNoteKey(donationId);
+    const key = await fhevm.userDecryptEuint(
+      FhevmType.euint256,
+      handle,
+      address,
+      signers.alice,
+    );
+    expect(await openNote(note.bytes, key, note.contentHash)).to.eq(
+      "Met committee staff about H.R. 1234",
+    );
+
+    const tampered = Uint8Array.from(note.bytes);
+    tampered[tampered.length - 3] ^= 1;
+    await expect(openNote(tampered, key, note.contentHash)).to.be.rejectedWith(
+      "does not match its committed hash",
+    );
+
+    const bob = new LobbyingClient(address, signers.bob, fhevm);
+    await expect(
+      bob.attachNote(donationId, note.key, note.contentHash),
+    ).to.be.revertedWith("No access to donation");
+    await expect(
+      alice.attachNote(donationId, note.key, note.contentHash),
+    ).to.be.revertedWith("Note already attached");
+
+    const owner = new LobbyingClient(address, signers.deployer);
+    await owner.setAnalyst(signers.bob.address, true);
+    await bob.grantDonationAccess(donationId);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint256,
+        handle,
+        address,
+        signers.bob,
+      ),
+    ).to.eq(note.key);
+  });
+
+  it("sums what a donor gave a recipient under encryption for granted analysts", async function () {
+    await alice.recordEncryptedDonations([
+      {
+        amount: 100_000n,
+        entityId: SENATOR,
+        donorId: ACME,
+        commitment: unique(),
+      },
+      {
+        amount: 50_000n,
+        entityId: REPRESENTATIVE,
+        donorId: ACME,
+        commitment: unique(),
+      },
+      {
+        amount: 70_000n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        commitment: unique(),
+      },
+      {
+        amount: 25_000n,
+        entityId: SENATOR,
+        donorId: ACME,
+        commitment: unique(),
+      },
+    ]);
+    const pair = { donorId: ACME, entityId: SENATOR };
+
+    // Two donations per transaction, so the weight is built up over two calls
+    expect(await analyzeConnection(alice, pair, 2)).to.eq(4n);
+    expect(await alice.getConnections()).to.deep.eq([pair]);
+
+    const bob = new LobbyingClient(address, signers.bob, fhevm);
+    await expect(bob.grantConnectionAccess(pair)).to.be.revertedWith(
+      "Only analyst",
+    );
+    await new LobbyingClient(address, signers.deployer).setAnalyst(
+      signers.bob.address,
+      true,
+    );
+    await bob.grantConnectionAccess(pair);
+    const weight = async () =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        (await bob.getConnection(pair)).weight,
+        address,
+        signers.bob,
+      );
+    expect(await weight()).to.eq(125_000n);
+
+    // Later donations are added by the next analysis and the analyst keeps access
+    await alice.recordEncryptedDonation({
+      amount: 5_000n,
+      entityId: SENATOR,
+      donorId: ACME,
+      commitment: unique(),
+    });
+    expect(await analyzeConnection(alice, pair)).to.eq(5n);
+    expect(await weight()).to.eq(130_000n);
+    expect(await alice.hasConnectionAccess(pair, signers.alice.address)).to.eq(
+      false,
+    );
+
+    // The graph holds the weights the analyst may decrypt and names the rest
+    const globex = { donorId: GLOBEX, entityId: SENATOR };
+    await analyzeConnection(alice, globex);
+    const session = await UserDecryptionSession.open(fhevm, signers.bob, [
+      address,
+    ]);
+    const { graph, hidden } = await buildInfluenceGraph(bob, session);
+    expect(graph.edges()).to.deep.eq([{ ...pair, weight: 130_000n }]);
+    expect(hidden).to.deep.eq([globex]);
+    const { edges } = await revealConnections(bob, session, [
+      pair,
+      { donorId: GLOBEX, entityId: REPRESENTATIVE },
+    ]);
+    expect(edges).to.have.length(1);
+  });
+
+  it("decrypts only the concentration index computed over encrypted donor shares", async function () {
+    const q1 = { year: 2024, quarter: 1 };
+    const defense = ["defense"];
+    await alice.recordEncryptedDonations([
+      {
+        amount: 30_000n,
+        entityId: SENATOR,
+        donorId: ACME,
+        reportingPeriod: q1,
+        categories: defense,
+        commitment: unique(),
+      },
+      {
+        amount: 10_000n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        reportingPeriod: q1,
+        categories: defense,
+        commitment: unique(),
+      },
+      {
+        amount: 20_000n,
+        entityId: REPRESENTATIVE,
+        donorId: ACME,
+        reportingPeriod: q1,
+        categories: defense,
+        commitment: unique(),
+      },
+      {
+        amount: 90_000n,
+        entityId: SENATOR,
+        donorId: GLOBEX,
+        reportingPeriod: { year: 2024, quarter: 2 },
+        categories: defense,
+        commitment: unique(),
+      },
+      {
+        amount: 40_000n,
+        entityId: REPRESENTATIVE,
+        donorId: GLOBEX,
+        reportingPeriod: q1,
+        categories: ["energy"],
+        commitment: unique(),
+      },
+    ]);
+    const donationIds = await periodDonationIds(alice, q1);
+    expect(donationIds).to.deep.eq([1n, 2n, 3n, 5n]);
+
+    // Only analysts and the owner measure markets, over at least three candidates
+    const senator = { entityId: SENATOR, period: q1 };
+    const candidates = [GLOBEX, ACME, INITECH];
+    await expect(
+      alice.openConcentration(senator, candidates),
+    ).to.be.revertedWith("Only analyst or owner");
+    await new LobbyingClient(address, signers.deployer).setAnalyst(
+      signers.alice.address,
+      true,
+    );
+    await expect(
+      alice.openConcentration(senator, [GLOBEX, ACME]),
+    ).to.be.revertedWith("Invalid donor count");
+    await expect(
+      measureConcentration(alice, senator, [GLOBEX, ACME], donationIds),
+    ).to.be.rejectedWith("A market needs 3-16 candidate donors, got 2");
+
+    // Counted donations are skipped, and only the period's donations are accepted
+    const { market } = await alice.openConcentration(senator, candidates);
+    await alice.addConcentrationDonations(market, [1n]);
+    await alice.addConcentrationDonations(market, [1n]);
+    expect((await alice.getConcentration(market))?.donationCount).to.eq(1n);
+    await expect(
+      alice.addConcentrationDonations(market, [4n]),
+    ).to.be.revertedWith("Donation outside period");
+
+    // The recipient filter runs under encryption, so every donation of the period is sent
+    await measureConcentration(alice, senator, [], donationIds);
+    await fhevm.awaitDecryptionOracle();
+    const measured = await alice.getConcentration(market);
+    expect(measured?.donorIds).to.deep.eq([ACME, GLOBEX, INITECH]);
+    expect(measured?.index).to.eq(herfindahlIndex([30_000n, 10_000n, 0n]));
+    expect(measured?.index).to.eq(6_250);
+
+    // A revealed index is final, so no later donation can be singled out against it
+    await expect(
+      alice.addConcentrationDonations(market, [1n]),
+    ).to.be.revertedWith("Market revealed");
+    await expect(
+      alice.requestConcentrationDecryption(market),
+    ).to.be.revertedWith("Already decrypted");
+    await expect(
+      measureConcentration(alice, senator, [], donationIds),
+    ).to.be.rejectedWith("was revealed over 4 donations");
+
+    // A category market only counts donations recorded under its category
+    const defenseMarket = { category: "defense", period: q1 };
+    await expect(
+      measureConcentration(alice, defenseMarket, candidates, donationIds),
+    ).to.be.revertedWith("Donation outside category");
+    const defenseIds = await categoryDonationIds(alice, "defense", donationIds);
+    expect(defenseIds).to.deep.eq([1n, 2n, 3n]);
+    const defenseKey = await measureConcentration(
+      alice,
+      defenseMarket,
+      [],
+      defenseIds,
+    );
+
+    // An index requested before more donations were counted is not revealed
+    await alice.recordEncryptedDonation({
+      amount: 25_000n,
+      entityId: SENATOR,
+      donorId: GLOBEX,
+      reportingPeriod: q1,
+      categories: defense,
+      commitment: unique(),
+    });
+    await alice.addConcentrationDonations(defenseKey, [6n]);
+    await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith(
+      /Superseded request/,
+    );
+    expect((await alice.getConcentration(defenseKey))?.index).to.eq(undefined);
+    await measureConcentration(alice, defenseMarket, [], []);
+    await fhevm.awaitDecryptionOracle();
+    const [, measuredDefense] = await loadConcentrations(alice);
+    expect(measuredDefense.category).to.eq("defense");
+    expect(measuredDefense.entityId).to.eq(undefined);
+    expect(measuredDefense.revealedCount).to.eq(4n);
+    expect(measuredDefense.index).to.eq(herfindahlIndex([50_000n, 35_000n]));
+    const [decrypted] = await alice.queryEvents("ConcentrationDecrypted");
+    expect(decrypted.market).to.eq(market);
+
+    await expect(
+      alice.openConcentration(senator, candidates),
+    ).to.be.revertedWith("Market exists");
+  });
+
+  it("rejects a disclosure committed twice under the period salt", async function () {
+    const saltsOf = (client: LobbyingClient, signer: HardhatEthersSigner) =>
+      new CommitmentSalts(client, signer.address, (handle) =>
+        fhevm.userDecryptEuint(FhevmType.euint256, handle, address, signer),
+      );
+    const bob = new LobbyingClient(address, signers.bob, fhevm);
+    const q1 = { year: 2024, quarter: 1 };
+    const donation = {
+      amount: 250_000n,
+      entityId: SENATOR,
+      donorId: ACME,
+      activityDate: Date.UTC(2024, 1, 10, 9) / 1000,
+    };
+
+    const [first] = await saltsOf(alice, signers.alice).commit([donation]);
+    expect(await alice.hasPeriodSaltAccess(q1, signers.alice.address)).to.eq(
+      true,
+    );
+    expect(await alice.hasPeriodSaltAccess(q1, signers.bob.address)).to.eq(
+      false,
+    );
+    const { donationId } = await alice.recordEncryptedDonation(first);
+    expect(await alice.getCommitmentDonation(first.commitment)).to.eq(
+      donationId,
+    );
+
+    // Anyone may record, but only submitters are given the salt
+    await expect(bob.grantPeriodSalt(q1)).to.be.revertedWith("Only submitter");
+    await bob.recordEncryptedDonation({ ...donation, commitment: unique() });
+    await expect(
+      bob.setSubmitter(signers.bob.address, true),
+    ).to.be.revertedWith("Only owner");
+    await new LobbyingClient(address, signers.deployer).setSubmitter(
+      signers.bob.address,
+      true,
+    );
+    expect(await bob.isSubmitter(signers.bob.address)).to.eq(true);
+
+    // Bob is granted the same salt, and the time of day is normalized away
+    const [again, otherDay, sameDay] = await saltsOf(bob, signers.bob).commit([
+      { ...donation, activityDate: Date.UTC(2024, 1, 10, 17) / 1000 },
+      { ...donation, activityDate: Date.UTC(2024, 1, 11) / 1000 },
+      { ...donation, activityDate: Date.UTC(2024, 1, 11, 12) / 1000 },
+    ]);
+    expect(again.commitment).to.eq(first.commitment);
+    expect(await findDuplicates(bob, [again, otherDay, sameDay])).to.deep.eq([
+      { donationId },
+      undefined,
+      { row: 1 },
+    ]);
+    await expect(bob.recordEncryptedDonation(again)).to.be.revertedWith(
+      "Duplicate submission",
+    );
+    await expect(
+      bob.recordEncryptedDonation({ ...donation, commitment: ethers.ZeroHash }),
+    ).to.be.rejectedWith("non-zero bytes32");
+
+    // Another period has another salt, so equal fields commit differently
+    const [q2] = await saltsOf(alice, signers.alice).commit([
+      { ...donation, reportingPeriod: { year: 2024, quarter: 2 } },
+    ]);
+    expect(await alice.getPeriodSalt({ year: 2024, quarter: 2 })).to.not.eq(
+      await alice.getPeriodSalt(q1),
+    );
+    expect(q2.commitment).to.not.eq(first.commitment);
+  });
+
+  it("rejects callbacks for unknown request IDs", async function () {
+    await expect(
+      contract.getFunction("decryptDonation")(12345n, "0x", "0x"),
+    ).to.be.revertedWith("Invalid request");
+  });
+});
@@ -0,0 +1,154 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { LobbyingClient } from "../src/client";
+import { CommitmentSalts } from "../src/commitments";
+import { EntityDictionary } from "../src/dictionary";
+import {
+  emptyMapping,
+  planMigration,
+  readLegacyRecords,
+  runMigration,
+  type RecordStore,
+} from "../src/migration";
+import { Taxonomy } from "../src/taxonomy";
+
+const SUBMITTED = 1_700_000_000;
+
+// Two equal undated records: only the record IDs tell them apart
+const legacy = {
+  company: "Acme Corp",
+  amount: 1250.5,
+  recipient: "Sen. Jane Doe",
+  category: "Information",
+  timestamp: SUBMITTED,
+};
+
+// Stands in for UniversalAdapter, which returns stored bytes as hex
+function memoryStore(blobs: Record<string, unknown>): RecordStore {
+  const data: Record<string, unknown> = {
+    lobbying_keys: Object.keys(blobs),
+    ...Object.fromEntries(
+      Object.entries(blobs).map(([key, blob]) => [`lobbying_${key}`, blob]),
+    ),
+  };
+  return {
+    getData: async (key) =>
+      key in data
+        ? ethers.hexlify(ethers.toUtf8Bytes(JSON.stringify(data[key])))
+        : "0x",
+  };
+}
+
+describe("Legacy record migration", function () {
+  let client: LobbyingClient;
+  let salts: CommitmentSalts;
+  let address: string;
+  const dictionary = new EntityDictionary();
+  const acme = dictionary.register("Acme Corp", "company");
+  const senator = dictionary.register("Sen. Jane Doe", "recipient");
+  const taxonomy = new Taxonomy([
+    { code: "technology", name: "Technology", scheme: "sector" },
+    {
+      code: "NAICS-51",
+      name: "Information",
+      parent: "technology",
+      scheme: "industry",
+    },
+  ]);
+
+  beforeEach(async function () {
+    // Salts are user-decrypted, which needs the mock runtime
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const [deployer, signer]: HardhatEthersSigner[] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("LobbyingAnalysisFHE");
+    const contract = await factory.deploy();
+    address = await contract.getAddress();
+    client = new LobbyingClient(address, signer, fhevm);
+    await new LobbyingClient(address, deployer).setSubmitter(
+      signer.address,
+      true,
+    );
+    salts = new CommitmentSalts(client, signer.address, (handle) =>
+      fhevm.userDecryptEuint(FhevmType.euint256, handle, address, signer),
+    );
+  });
+
+  it("migrates equal undated records as separate donations", async function () {
+    const entries = await readLegacyRecords(
+      memoryStore({
+        a: legacy,
+        b: { records: [legacy, { ...legacy, company: "" }] },
+        c: { ...legacy, schemaVersion: 1, donationId: 0 },
+      }),
+    );
+    const mapping = emptyMapping("0xadapter", address);
+    const plan = planMigration(entries, dictionary, taxonomy, mapping);
+
+    expect(plan.rows).to.deep.eq(
+      ["a", "b#0"].map((recordId) => ({
+        recordId,
+        donation: {
+          amount: 125_050n,
+          donorId: acme.id,
+          entityId: senator.id,
+          activityDate: SUBMITTED,
+          reportingPeriod: undefined,
+          filingDate: undefined,
+          reference: `legacy:${recordId}`,
+          categories: ["NAICS-51", "technology"],
+        },
+      })),
+    );
+    expect(plan.invalid).to.deep.eq([
+      { recordId: "b#1", reason: "Missing company, recipient or amount" },
+    ]);
+    expect(plan.skipped).to.deep.eq([
+      { recordId: "c", reason: "already_encrypted" },
+    ]);
+
+    const saved: string[][] = [];
+    const result = await runMigration(client, salts, plan, mapping, (m) =>
+      saved.push(Object.keys(m.records)),
+    );
+    expect(result).to.deep.eq({ migrated: 2, failures: [] });
+    expect(saved).to.deep.eq([["a", "b#0"]]);
+    expect(mapping.records.a.donationId).to.eq("1");
+    expect(mapping.records["b#0"].donationId).to.eq("2");
+    // The legacy submission time is stored as the activity date
+    expect((await client.getDonationDates(1n)).activityDate).to.eq(SUBMITTED);
+    // Filed under the category and its sector, so either market counts it
+    expect(await client.isDonationInCategory(2n, "technology")).to.eq(true);
+
+    // Re-running skips what the mapping already holds
+    const rerun = planMigration(entries, dictionary, taxonomy, mapping);
+    expect(rerun.rows).to.be.empty;
+    expect(rerun.skipped.map((row) => row.recordId)).to.deep.eq([
+      "a",
+      "b#0",
+      "c",
+    ]);
+
+    // Without the mapping, the commitments catch the repeats
+    const lost = emptyMapping("0xadapter", address);
+    const repeated = await runMigration(
+      client,
+      salts,
+      planMigration(entries, dictionary, taxonomy, lost),
+      lost,
+      () => undefined,
+    );
+    expect(repeated.migrated).to.eq(0);
+    expect(
+      repeated.failures.map((f) => [f.recordIds, f.error.message]),
+    ).to.deep.eq([
+      [["a"], "Duplicate of donation #1"],
+      [["b#0"], "Duplicate of donation #2"],
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import {
+  MAX_AMOUNT_CENTS,
+  assertCents,
+  centsToDollars,
+  dollarsToCents,
+  formatCents,
+} from "../src/money";
+
+describe("Money codec", function () {
+  it("parses dollar text into cents", function () {
+    const cases: [string, bigint][] = [
+      ["0", 0n],
+      ["1234", 123_400n],
+      ["1234.5", 123_450n],
+      ["1234.56", 123_456n],
+      ["$1,234.50", 123_450n],
+      ["  $12,345,678.09 ", 1_234_567_809n],
+      [".5", 50n],
+      ["7.", 700n],
+    ];
+    for (const [text, cents] of cases) {
+      expect(dollarsToCents(text), text).to.eq(cents);
+    }
+  });
+
+  it("rejects malformed dollar text", function () {
+    for (const text of [
+      "",
+      "$",
+      ".",
+      "-1",
+      "1.234",
+      "1,23",
+      "12,34.00",
+      "1e3",
+      "ten",
+    ]) {
+      expect(() => dollarsToCents(text), text).to.throw(
+        "is not a valid dollar amount",
+      );
+    }
+  });
+
+  it("accepts floats only when they are whole cents", function () {
+    expect(dollarsToCents(12.5)).to.eq(1_250n);
+    expect(dollarsToCents(0.07)).to.eq(7n);
+    expect(dollarsToCents(19.99)).to.eq(1_999n);
+    // No rounding: the float must already be exact to the cent
+    expect(() => dollarsToCents(0.1 + 0.2)).to.throw("sub-cent precision");
+    expect(() => dollarsToCents(1.005)).to.throw("sub-cent precision");
+    expect(() => dollarsToCents(-1)).to.throw("Negative amount -1");
+    expect(() => dollarsToCents(Number.NaN)).to.throw(
+      "NaN is not a valid dollar amount",
+    );
+    expect(() => dollarsToCents(Infinity)).to.throw(
+      "Infinity is not a valid dollar amount",
+    );
+  });
+
+  it("keeps amounts inside the uint64 range", function () {
+    expect(MAX_AMOUNT_CENTS).to.eq(18_446_744_073_709_551_615n);
+    expect(assertCents(MAX_AMOUNT_CENTS)).to.eq(MAX_AMOUNT_CENTS);
+    expect(assertCents("0")).to.eq(0n);
+    expect(assertCents(42)).to.eq(42n);
+    expect(() => assertCents(MAX_AMOUNT_CENTS + 1n)).to.throw(
+      "exceeds the encrypted uint64 range",
+    );
+    expect(() => assertCents(-5n)).to.throw(
+      "Negative amount $0.05 is not allowed",
+    );
+    expect(() => assertCents("1.5")).to.throw(
+      "1.5 is not an integer number of cents",
+    );
+
+    const maxDollars = formatCents(MAX_AMOUNT_CENTS);
+    expect(maxDollars).to.eq("$184,467,440,737,095,516.15");
+    expect(dollarsToCents(maxDollars)).to.eq(MAX_AMOUNT_CENTS);
+    expect(() => dollarsToCents("184467440737095516.16")).to.throw(
+      "exceeds the encrypted uint64 range",
+    );
+  });
+
+  it("formats cents exactly and converts them to dollars", function () {
+    expect(formatCents(0n)).to.eq("$0.00");
+    expect(formatCents(5)).to.eq("$0.05");
+    expect(formatCents(123_456_789n)).to.eq("$1,234,567.89");
+    expect(formatCents(-1_050n)).to.eq("-$10.50");
+    expect(centsToDollars(123_450n)).to.eq(1234.5);
+
+    for (const cents of [0n, 1n, 99n, 100n, 1_000_001n]) {
+      expect(dollarsToCents(formatCents(cents))).to.eq(cents);
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import type { LobbyingClient } from "../src/client";
+import type { UserDecryptionSession } from "../src/decryption";
+import {
+  noteStorageKey,
+  openNote,
+  readNote,
+  sealNote,
+  type NoteStore,
+} from "../src/notes";
+
+const TEXT = "Met the committee chair on 3/4 — follow-up filing expected";
+const KEY_HANDLE = "0x" + "ab".repeat(32);
+
+// Just the note calls, answered from memory the way the contract and the
+// relayer would for a user with access to the note key
+function noteReader(contentHash: string, key: bigint, blob: Uint8Array) {
+  const client = {
+    address: "0xabc",
+    getNoteHash: async () => contentHash,
+    getNoteKey: async () => KEY_HANDLE,
+  } as unknown as LobbyingClient;
+  const session = {
+    decrypt: async () => ({ [KEY_HANDLE]: key }),
+  } as unknown as UserDecryptionSession;
+  const stored = new Map([[noteStorageKey(7), ethers.hexlify(blob)]]);
+  const store: NoteStore = {
+    getData: async (storageKey) => stored.get(storageKey) ?? "0x",
+    setData: async () => {},
+  };
+  return { client, session, store };
+}
+
+// The blob with one ciphertext byte flipped, as a note re-encrypted or
+// corrupted before its hash was committed would be
+function flipCiphertextByte(bytes: Uint8Array) {
+  const blob = JSON.parse(ethers.toUtf8String(bytes));
+  const ciphertext = ethers.getBytes(blob.ciphertext);
+  ciphertext[0] ^= 1;
+  return ethers.toUtf8Bytes(
+    JSON.stringify({ ...blob, ciphertext: ethers.hexlify(ciphertext) }),
+  );
+}
+
+describe("Notes", function () {
+  it("opens a sealed note with its key and committed hash", async function () {
+    const note = await sealNote(TEXT);
+
+    expect(note.contentHash).to.eq(ethers.keccak256(note.bytes));
+    expect(ethers.toUtf8String(note.bytes)).to.not.include("committee");
+    expect(await openNote(note.bytes, note.key, note.contentHash)).to.eq(TEXT);
+    expect(
+      await openNote(note.bytes, note.key, note.contentHash.toUpperCase()),
+    ).to.eq(TEXT);
+
+    const again = await sealNote(TEXT);
+    expect(again.key).to.not.eq(note.key);
+    expect(again.contentHash).to.not.eq(note.contentHash);
+    await expect(sealNote("  \n")).to.be.rejectedWith(
+      "Cannot seal an empty note",
+    );
+  });
+
+  it("rejects the wrong key", async function () {
+    const note = await sealNote(TEXT);
+    const other = await sealNote(TEXT);
+
+    await expect(
+      openNote(note.bytes, other.key, note.contentHash),
+    ).to.be.rejectedWith("Note could not be decrypted with the stored key");
+    await expect(
+      openNote(note.bytes, note.key ^ 1n, note.contentHash),
+    ).to.be.rejectedWith("Note could not be decrypted with the stored key");
+  });
+
+  it("rejects a tampered ciphertext, whether or not its hash was committed", async function () {
+    const note = await sealNote(TEXT);
+    const tampered = flipCiphertextByte(note.bytes);
+
+    // Replaced in storage after the hash was committed
+    await expect(
+      openNote(tampered, note.key, note.contentHash),
+    ).to.be.rejectedWith("Stored note does not match its committed hash");
+    // Committed as is: the GCM tag still catches it
+    await expect(
+      openNote(tampered, note.key, ethers.keccak256(tampered)),
+    ).to.be.rejectedWith("Note could not be decrypted with the stored key");
+
+    const newer = ethers.toUtf8Bytes(
+      JSON.stringify({
+        ...JSON.parse(ethers.toUtf8String(note.bytes)),
+        version: 2,
+      }),
+    );
+    await expect(
+      openNote(newer, note.key, ethers.keccak256(newer)),
+    ).to.be.rejectedWith("Unsupported note version 2");
+  });
+
+  it("reads a donation's note with the decrypted key", async function () {
+    const note = await sealNote(TEXT);
+
+    const { client, session, store } = noteReader(
+      note.contentHash,
+      note.key,
+      note.bytes,
+    );
+    expect(await readNote(client, session, store, 7)).to.eq(TEXT);
+    await expect(readNote(client, session, store, 8)).to.be.rejectedWith(
+      "Note blob for donation #8 is missing",
+    );
+
+    const wrongKey = noteReader(note.contentHash, note.key + 1n, note.bytes);
+    await expect(
+      readNote(wrongKey.client, wrongKey.session, wrongKey.store, 7),
+    ).to.be.rejectedWith("Note could not be decrypted with the stored key");
+
+    const tampered = noteReader(
+      note.contentHash,
+      note.key,
+      flipCiphertextByte(note.bytes),
+    );
+    await expect(
+      readNote(tampered.client, tampered.session, tampered.store, 7),
+    ).to.be.rejectedWith("Stored note does not match its committed hash");
+
+    const none = noteReader(ethers.ZeroHash, note.key, note.bytes);
+    await expect(
+      readNote(none.client, none.session, none.store, 7),
+    ).to.be.rejectedWith("Donation #7 has no note");
+  });
+});
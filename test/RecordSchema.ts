@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import {
+  RECORD_SCHEMA_VERSION,
+  assertRecordBlob,
+  formatPeriod,
+  parsePeriod,
+  provenanceCsv,
+  provenanceRow,
+  readRecordBlob,
+  recordActivityDate,
+  recordPeriod,
+  replaceStoredRecord,
+  tombstoneRecord,
+  validateRecordBlob,
+  type RecordBlob,
+} from "../src/records";
+
+const record: RecordBlob = {
+  schemaVersion: RECORD_SCHEMA_VERSION,
+  donationId: 3,
+  timestamp: 1_710_460_800,
+  category: "Technology",
+  status: "pending",
+  provenance: {
+    source: "lda",
+    documentId: "https://lda.senate.gov/api/v1/filings/a1b2c3/",
+    documentHash: `0x${"ab".repeat(32)}`,
+    contributor: "Open Ledger Watch",
+  },
+};
+
+// Version 2 stored the names and amount next to the encrypted donation
+const plaintext: RecordBlob = {
+  ...record,
+  schemaVersion: 2,
+  donorId: 17,
+  entityId: 42,
+  company: "Acme Corp",
+  amountCents: "120050",
+  recipient: "Sen. Smith",
+};
+
+describe("Record schema", function () {
+  it("accepts current and legacy records and explains rejections", function () {
+    expect(validateRecordBlob(record)).to.deep.eq({ valid: true, record });
+
+    // Version 0 predates amountCents
+    const legacy = {
+      timestamp: 1,
+      company: "Acme",
+      amount: 12.5,
+      recipient: "Smith",
+      category: "Other",
+    };
+    expect(validateRecordBlob(legacy).valid).to.eq(true);
+    expect(validateRecordBlob(plaintext).valid).to.eq(true);
+    // Version 1 predates provenance
+    expect(
+      validateRecordBlob({
+        ...plaintext,
+        schemaVersion: 1,
+        provenance: undefined,
+      }).valid,
+    ).to.eq(true);
+
+    const reasons = [
+      [{ ...plaintext, amountCents: undefined }, "Missing amountCents"],
+      [{ ...legacy, amount: undefined }, "Missing amount"],
+      [{ ...plaintext, amountCents: "-5" }, 'Invalid amountCents "-5"'],
+      [{ ...plaintext, company: " " }, "Missing company"],
+      [
+        { ...record, amountCents: "120050" },
+        "amountCents must stay in the encrypted donation",
+      ],
+      [
+        { ...record, company: "Acme Corp" },
+        "company must stay in the encrypted donation",
+      ],
+      [
+        { ...record, donorId: 17 },
+        "donorId must stay in the encrypted donation",
+      ],
+      [{ ...record, donationId: undefined }, "Missing donationId"],
+      [{ ...record, category: "" }, "Missing category"],
+      [{ ...record, timestamp: "yesterday" }, "Missing or invalid timestamp"],
+      [{ ...plaintext, donorId: 0 }, "Invalid donorId 0"],
+      [
+        { ...record, reportingPeriod: { year: 2024, quarter: 5 } },
+        "Invalid reportingPeriod",
+      ],
+      [
+        { ...record, activityDate: 1_710_460_800, filingDate: 1_700_000_000 },
+        "filingDate is before activityDate",
+      ],
+      [{ ...record, status: "approved" }, 'Unknown status "approved"'],
+      [{ ...record, provenance: undefined }, "Missing provenance"],
+      [
+        { ...record, provenance: { source: "press" } },
+        'Unknown provenance source "press"',
+      ],
+      [
+        { ...record, provenance: { source: "fec", documentHash: "0x12" } },
+        "Invalid provenance documentHash",
+      ],
+      [{ ...record, schemaVersion: 9 }, "newer than the supported version"],
+      [[record], "Record is not an object"],
+    ] as const;
+    for (const [value, reason] of reasons) {
+      const validation = validateRecordBlob(value);
+      expect(validation.valid).to.eq(false);
+      expect(validation.valid || validation.reason).to.contain(reason);
+    }
+    expect(() => assertRecordBlob({ ...plaintext, recipient: 7 })).to.throw(
+      "Invalid record: Missing recipient",
+    );
+  });
+
+  it("exports provenance without amounts", function () {
+    const row = provenanceRow("b1#0", {
+      ...plaintext,
+      company: 'Acme "Widgets", Inc',
+    });
+    expect(row).to.deep.eq({
+      recordId: "b1#0",
+      donationId: 3,
+      period: "2024 Q1",
+      company: 'Acme "Widgets", Inc',
+      recipient: "Sen. Smith",
+      category: "Technology",
+      source: "lda",
+      documentId: "https://lda.senate.gov/api/v1/filings/a1b2c3/",
+      documentHash: `0x${"ab".repeat(32)}`,
+      contributor: "Open Ledger Watch",
+    });
+
+    const csv = provenanceCsv([
+      row,
+      provenanceRow("old", { ...plaintext, provenance: undefined }),
+      provenanceRow("b2#0", record),
+    ]).split("\n");
+    expect(csv[0]).to.eq(
+      "recordId,donationId,period,company,recipient,category,source,documentId,documentHash,contributor",
+    );
+    expect(csv[1]).to.contain('b1#0,3,2024 Q1,"Acme ""Widgets"", Inc",');
+    expect(csv[2]).to.eq("old,3,2024 Q1,Acme Corp,Sen. Smith,Technology,,,,");
+    // Names a version 3 record keeps encrypted are left blank
+    expect(csv[3]).to.match(/^b2#0,3,2024 Q1,,,Technology,lda,/);
+    expect(csv.join("\n")).not.to.contain("120050");
+  });
+
+  it("quarantines invalid rows and skips tombstones when reading a blob", function () {
+    const batch = {
+      records: [
+        record,
+        { ...plaintext, amountCents: undefined },
+        tombstoneRecord("Duplicate of #0", "0xadmin", 1_000_000),
+      ],
+    };
+    const read = readRecordBlob("b1", JSON.stringify(batch));
+    expect(read.records).to.deep.eq([["b1#0", record]]);
+    expect(read.quarantined).to.deep.eq([
+      {
+        recordId: "b1#1",
+        reason: "Missing amountCents",
+        raw: JSON.parse(JSON.stringify(batch.records[1])),
+      },
+    ]);
+    expect(read.tombstoned).to.deep.eq(["b1#2"]);
+
+    expect(readRecordBlob("bad", "{not json").quarantined[0]).to.include({
+      recordId: "bad",
+      raw: "{not json",
+    });
+    expect(
+      readRecordBlob("b2", JSON.stringify({ records: {} })).quarantined[0]
+        .reason,
+    ).to.eq("Batch records is not an array");
+  });
+
+  it("dates records by activity rather than submission", function () {
+    const q2 = { year: 2024, quarter: 2 };
+    expect(recordActivityDate(record)).to.eq(record.timestamp);
+    expect(recordActivityDate({ ...record, reportingPeriod: q2 })).to.eq(
+      Date.UTC(2024, 3, 1) / 1000,
+    );
+    expect(
+      recordActivityDate({ ...record, activityDate: 1_700_000_000 }),
+    ).to.eq(1_700_000_000);
+    expect(recordPeriod(record)).to.deep.eq({ year: 2024, quarter: 1 });
+    expect(recordPeriod({ ...record, reportingPeriod: q2 })).to.eq(q2);
+
+    expect(parsePeriod("Q2 2024")).to.deep.eq(q2);
+    expect(parsePeriod("2024-q2")).to.deep.eq(q2);
+    expect(formatPeriod(q2)).to.eq("2024 Q2");
+    expect(() => parsePeriod("2024 Q5")).to.throw("not a reporting period");
+  });
+
+  it("replaces one row of a batch without moving the others", function () {
+    const stored = { records: [record, { broken: true }] };
+    const repaired = { ...record, donationId: 4 };
+    expect(replaceStoredRecord(stored, 1, repaired)).to.deep.eq({
+      records: [record, repaired],
+    });
+    expect(replaceStoredRecord(stored, undefined, repaired)).to.eq(repaired);
+    expect(() => replaceStoredRecord(stored, 5, repaired)).to.throw(
+      "no record #5",
+    );
+    expect(() => tombstoneRecord(" ", "0xadmin")).to.throw("needs a reason");
+  });
+});
@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { LDA_CATEGORIES, LDA_ISSUE_CODES } from "../src/importers";
+import { Taxonomy, loadTaxonomy, type TaxonomyNode } from "../src/taxonomy";
+
+// The file the frontend ships
+const published = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, "..", "frontend", "web", "src", "taxonomy.json"),
+    "utf8",
+  ),
+);
+
+const nodes: TaxonomyNode[] = [
+  { code: "technology", name: "Technology", scheme: "sector" },
+  { code: "other", name: "Other", scheme: "sector" },
+  {
+    code: "NAICS-51",
+    name: "Information",
+    parent: "technology",
+    scheme: "industry",
+  },
+  {
+    code: "TEC",
+    name: "Telecommunications",
+    parent: "NAICS-51",
+    scheme: "lda-issue",
+  },
+  { code: "DEF", name: "Defense", parent: "other", scheme: "lda-issue" },
+];
+
+describe("Taxonomy", function () {
+  it("rolls categories up to their sector", function () {
+    const taxonomy = new Taxonomy(nodes);
+
+    expect(taxonomy.nodes().map((node) => node.code)).to.deep.eq([
+      "technology",
+      "NAICS-51",
+      "TEC",
+      "other",
+      "DEF",
+    ]);
+    expect(taxonomy.rollUp("TEC")?.code).to.eq("technology");
+    expect(taxonomy.rollUp("tec", 1)?.code).to.eq("NAICS-51");
+    expect(taxonomy.rollUp("Telecommunications", 5)?.code).to.eq("TEC");
+    // Records from before the taxonomy stored sector names
+    expect(taxonomy.rollUp("Technology")?.code).to.eq("technology");
+    expect(taxonomy.rollUp("Crypto")).to.eq(undefined);
+
+    expect(taxonomy.isWithin("TEC", "technology")).to.eq(true);
+    expect(taxonomy.isWithin("Information", "NAICS-51")).to.eq(true);
+    expect(taxonomy.isWithin("NAICS-51", "TEC")).to.eq(false);
+    expect(taxonomy.isWithin("DEF", "technology")).to.eq(false);
+    expect(taxonomy.nameOf("DEF")).to.eq("Defense");
+    expect(taxonomy.nameOf("Crypto")).to.eq("Crypto");
+
+    // Donations are filed on-chain under their category and its ancestors
+    expect(taxonomy.lineage("Telecommunications")).to.deep.eq([
+      "TEC",
+      "NAICS-51",
+      "technology",
+    ]);
+    expect(taxonomy.lineage("Technology")).to.deep.eq(["technology"]);
+    expect(taxonomy.lineage(" Crypto ")).to.deep.eq(["Crypto"]);
+  });
+
+  it("rejects malformed hierarchies", function () {
+    expect(() => new Taxonomy([...nodes, nodes[0]])).to.throw(
+      'Taxonomy code "technology" is listed twice',
+    );
+    expect(
+      () =>
+        new Taxonomy([
+          {
+            code: "TOB",
+            name: "Tobacco",
+            parent: "health",
+            scheme: "lda-issue",
+          },
+        ]),
+    ).to.throw('Taxonomy node "TOB" has unknown parent "health"');
+    expect(
+      () =>
+        new Taxonomy([
+          { code: "a", name: "A", parent: "b", scheme: "sector" },
+          { code: "b", name: "B", parent: "a", scheme: "sector" },
+        ]),
+    ).to.throw("Taxonomy cycle");
+
+    expect(() => loadTaxonomy({ nodes })).to.throw("has no version");
+    expect(() =>
+      loadTaxonomy({ version: 1, nodes: [{ ...nodes[0], scheme: "sic" }] }),
+    ).to.throw('unknown scheme "sic"');
+  });
+
+  it("publishes every LDA issue code under its importer category", function () {
+    const { taxonomy, version } = loadTaxonomy(published);
+
+    expect(version).to.be.greaterThan(0);
+    for (const category of LDA_CATEGORIES) {
+      expect(taxonomy.find(category)?.parent).to.eq(undefined);
+    }
+    for (const [code, { name, category }] of Object.entries(LDA_ISSUE_CODES)) {
+      expect(taxonomy.get(code)?.name).to.eq(name);
+      expect(taxonomy.rollUp(code)?.name).to.eq(category);
+    }
+    expect(taxonomy.find("Political")?.scheme).to.eq("sector");
+  });
+});
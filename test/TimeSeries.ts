@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import {
+  bucketLabel,
+  buildTimeSeries,
+  movingAverage,
+  yearOverYear,
+  type TimedAmount,
+} from "../src/timeseries";
+
+const amount = (
+  series: string,
+  day: string,
+  cents: bigint,
+  quarter?: number,
+): TimedAmount => {
+  const activityDate = Date.parse(`${day}T00:00:00Z`) / 1000;
+  const date = new Date(activityDate * 1000);
+  return {
+    series,
+    activityDate,
+    reportingPeriod: {
+      year: date.getUTCFullYear(),
+      quarter: quarter ?? Math.floor(date.getUTCMonth() / 3) + 1,
+    },
+    amount: cents,
+  };
+};
+
+describe("TimeSeries", function () {
+  it("sums amounts per series over gapless months and quarters", function () {
+    const amounts = [
+      amount("defense", "2023-11-20", 100n),
+      amount("energy", "2024-01-05", 50n),
+      amount("defense", "2024-01-31", 300n),
+      // Filed for the previous quarter
+      amount("health", "2024-04-02", 20n, 1),
+    ];
+
+    const months = buildTimeSeries(amounts, "month", 2);
+    expect(months.buckets.map((b) => bucketLabel(b, "month"))).to.deep.eq([
+      "2023-11",
+      "2023-12",
+      "2024-01",
+      "2024-02",
+      "2024-03",
+      "2024-04",
+    ]);
+    expect(months.series.map((s) => s.series)).to.deep.eq([
+      "defense",
+      "energy",
+    ]);
+    expect(months.series[0].values).to.deep.eq([100n, 0n, 300n, 0n, 0n, 0n]);
+    expect(months.others?.values).to.deep.eq([0n, 0n, 0n, 0n, 0n, 20n]);
+
+    const quarters = buildTimeSeries(amounts, "quarter");
+    expect(quarters.buckets.map((b) => bucketLabel(b, "quarter"))).to.deep.eq([
+      "2023 Q4",
+      "2024 Q1",
+    ]);
+    expect(
+      quarters.series.find((s) => s.series === "health")?.values,
+    ).to.deep.eq([0n, 20n]);
+    expect(quarters.others).to.eq(undefined);
+    expect(buildTimeSeries([], "month").buckets).to.deep.eq([]);
+  });
+
+  it("averages trailing windows and compares with the year before", function () {
+    expect(movingAverage([3n, 6n, 9n, 0n], 3)).to.deep.eq([null, null, 6, 5]);
+    expect(
+      yearOverYear([100n, 0n, 50n, 80n, 150n, 10n, 50n, 40n], "quarter"),
+    ).to.deep.eq([null, null, null, null, 50, null, 0, -50]);
+  });
+});